@@ -5,6 +5,8 @@ import {
   Route,
   Navigate,
   Link,
+  useLocation,
+  useParams,
 } from "react-router-dom";
 import {
   Shield,
@@ -14,6 +16,8 @@ import {
   Users,
   MessageSquare,
   Lock,
+  AtSign,
+  Search,
 } from "lucide-react";
 import Login from "./components/Login";
 import Register from "./components/Register";
@@ -21,19 +25,56 @@ import Dashboard from "./components/Dashboard";
 import UserSettings from "./components/UserSettings";
 import JoinServer from "./components/JoinServer";
 import KickNotification from "./components/KickNotification";
+import KeyChangeNotification from "./components/KeyChangeNotification";
 import { useAuthStore } from "./stores/authStore";
+import { useEncryptionStore } from "./stores/encryptionStore";
 import { supabase } from "./lib/supabase";
 import { temporaryMemberChecker } from './services/temporaryMemberChecker';
+import { clearChannelKeyCache } from './services/channelEncryptionService';
+import { clearPublishedKeyCache } from './services/encryptionService';
+import { fetchUnreadMentionCount } from './services/mentionService';
+import { clearSearchIndexKeyCache } from './services/searchIndexService';
+
+// Message links are shared without the /dashboard prefix
+function MessageLinkRedirect() {
+  const { messageId } = useParams();
+  return <Navigate to={`/dashboard/message/${messageId}`} replace />;
+}
+
+// Where to go after signing in. Only paths within the app are followed, so a
+// crafted link cannot send the user to another site.
+function getReturnPath(search: string): string {
+  const next = new URLSearchParams(search).get("next");
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.startsWith("/\\")) {
+    return "/dashboard";
+  }
+  return next;
+}
+
+// Send a signed-out user to sign in, and back to the page they opened afterwards
+function LoginRedirect() {
+  const location = useLocation();
+  const next = `${location.pathname}${location.search}`;
+  return <Navigate to={`/login?next=${encodeURIComponent(next)}`} replace />;
+}
+
+// Once signed in, go on to the page the user opened before signing in
+function ReturnRedirect() {
+  const location = useLocation();
+  return <Navigate to={getReturnPath(location.search)} replace />;
+}
 
 // Regular link component instead of NavLink
 function AppNavLink({
   to,
   icon: Icon,
   label,
+  badge,
 }: {
   to: string;
   icon: React.FC<any>;
   label: string;
+  badge?: number;
 }) {
   return (
     <Link
@@ -42,14 +83,21 @@ function AppNavLink({
     >
       <Icon className="h-5 w-5 mr-2" />
       {label}
+      {badge ? (
+        <span className="ml-2 px-1.5 min-w-[1.25rem] text-center text-xs font-semibold bg-red-500 text-white rounded-full">
+          {badge > 99 ? "99+" : badge}
+        </span>
+      ) : null}
     </Link>
   );
 }
 
 function App() {
   const { session } = useAuthStore();
+  const encryptionStatus = useEncryptionStore((state) => state.status);
   const [username, setUsername] = useState<string>("");
   const [showSettings, setShowSettings] = useState(false);
+  const [unreadMentions, setUnreadMentions] = useState(0);
 
   useEffect(() => {
     const fetchUserProfile = async () => {
@@ -69,6 +117,44 @@ function App() {
     fetchUserProfile();
   }, [session, showSettings]); // Re-fetch when settings modal closes
 
+  // Keep the unread mention count up to date, as mentions arrive and are read
+  useEffect(() => {
+    if (!session?.user) {
+      setUnreadMentions(0);
+      return;
+    }
+
+    const userId = session.user.id;
+    const refreshMentionCount = () => {
+      fetchUnreadMentionCount(userId)
+        .then(setUnreadMentions)
+        .catch((error) => console.error("Error counting mentions:", error));
+    };
+
+    refreshMentionCount();
+
+    const mentionsChannel = supabase
+      .channel("mention_count")
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "message_mentions",
+          filter: `recipient_id=eq.${userId}`,
+        },
+        refreshMentionCount
+      )
+      .subscribe();
+
+    window.addEventListener("refresh-mentions", refreshMentionCount);
+
+    return () => {
+      mentionsChannel.unsubscribe();
+      window.removeEventListener("refresh-mentions", refreshMentionCount);
+    };
+  }, [session]);
+
   // Start the temporary member checker with 5-second interval
   useEffect(() => {
     temporaryMemberChecker.start(30); // Check every 5 seconds
@@ -79,6 +165,10 @@ function App() {
   }, []);
 
   const handleSignOut = async () => {
+    clearChannelKeyCache();
+    clearPublishedKeyCache();
+    clearSearchIndexKeyCache();
+    useEncryptionStore.getState().lock();
     await supabase.auth.signOut();
   };
 
@@ -91,6 +181,7 @@ function App() {
     <Router>
       <div className="h-screen flex flex-col bg-gray-900 text-white">
         <KickNotification />
+        {session && <KeyChangeNotification />}
         {/* Only show the navbar if not on the invite page */}
         {!window.location.pathname.startsWith("/invite/") && (
           <nav className="bg-gray-800 border-b border-gray-700 flex-shrink-0">
@@ -120,6 +211,17 @@ function App() {
                           icon={MessageSquare}
                           label="Messages"
                         />
+                        <AppNavLink
+                          to="/dashboard/mentions"
+                          icon={AtSign}
+                          label="Mentions"
+                          badge={unreadMentions}
+                        />
+                        <AppNavLink
+                          to="/dashboard/search"
+                          icon={Search}
+                          label="Search"
+                        />
                       </div>
                     )}
                   </div>
@@ -133,10 +235,17 @@ function App() {
                       </div>
 
                       {/* Show encryption status indicator */}
-                      <div className="text-green-400 flex items-center text-sm">
-                        <Lock className="h-4 w-4 mr-1" />
-                        <span>Encrypted</span>
-                      </div>
+                      {encryptionStatus === "unlocked" ? (
+                        <div className="text-green-400 flex items-center text-sm">
+                          <Lock className="h-4 w-4 mr-1" />
+                          <span>Encrypted</span>
+                        </div>
+                      ) : (
+                        <div className="text-yellow-400 flex items-center text-sm">
+                          <Lock className="h-4 w-4 mr-1" />
+                          <span>Locked</span>
+                        </div>
+                      )}
 
                       <button
                         onClick={toggleSettings}
@@ -163,15 +272,19 @@ function App() {
           <Routes>
             <Route
               path="/login"
-              element={session ? <Navigate to="/dashboard" /> : <Login />}
+              element={session ? <ReturnRedirect /> : <Login />}
             />
             <Route
               path="/register"
-              element={session ? <Navigate to="/dashboard" /> : <Register />}
+              element={session ? <ReturnRedirect /> : <Register />}
             />
             <Route
               path="/dashboard/*"
-              element={session ? <Dashboard /> : <Navigate to="/login" />}
+              element={session ? <Dashboard /> : <LoginRedirect />}
+            />
+            <Route
+              path="/message/:messageId"
+              element={session ? <MessageLinkRedirect /> : <LoginRedirect />}
             />
             <Route path="/invite/:inviteCode" element={<JoinServer />} />
             <Route
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useLocation } from "react-router-dom";
 import { supabase } from "../lib/supabase";
 import { useAuthStore } from "../stores/authStore";
 import {
@@ -12,42 +12,106 @@ import {
   Trash,
   X,
   Check,
-  ArrowLeft
+  ArrowLeft,
+  ShieldAlert,
+  Paperclip,
+  ArrowDown,
+  Loader2,
+  MessageSquare,
+  CornerUpLeft,
+  Forward,
+  SmilePlus,
+  Link2,
+  Pin,
+  PinOff
 } from "lucide-react";
 import {
-  encryptMessage,
-  decryptMessage,
-} from "../services/serverEncryptionService";
-
-interface Message {
-  id: string;
-  sender_id: string;
-  encrypted_content: string;
-  iv: string;
-  created_at: string;
-  updated_at?: string;
-  sender_username: string;
-  sender_display_name: string | null;
-  is_encrypted: boolean;
+  ENVELOPE_ENCRYPTION_VERSION,
+  AttachmentReference,
+  MessageBody,
+  MessageMention,
+  MessageQuote,
+  createMessageQuote,
+  encodeEnvelope,
+} from "../lib/messageEnvelope";
+import { ChannelMessage } from "../services/channelMessageService";
+import { sealChannelMessage } from "../services/encryptionPolicyService";
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  PreparedAttachment,
+  deleteAttachments,
+  prepareAttachment,
+  uploadAttachments,
+} from "../services/attachmentService";
+import { summarizeReactions } from "../services/reactionService";
+import {
+  MentionableMember,
+  MentionSuggestion,
+  collectMentions,
+  getMentionQuery,
+  mentionLabel,
+  mentionsUser,
+  resolveMentionRecipients,
+  suggestMentions,
+} from "../lib/mentions";
+import { sendMentionNotifications } from "../services/mentionService";
+import { getMessageLink } from "../services/messageLinkService";
+import { canPinChannelMessages } from "../services/pinService";
+import MessageAttachments from "./MessageAttachments";
+import PendingAttachments from "./PendingAttachments";
+import ThreadPanel from "./ThreadPanel";
+import QuotedMessage from "./QuotedMessage";
+import ForwardMessageModal from "./ForwardMessageModal";
+import MessageReactions from "./MessageReactions";
+import FormattedMessage from "./FormattedMessage";
+import MessageComposer from "./MessageComposer";
+import MessagePreview from "./MessagePreview";
+import MentionSuggestions from "./MentionSuggestions";
+import PinnedMessagesPanel from "./PinnedMessagesPanel";
+import { useChannelMessages } from "../hooks/useChannelMessages";
+
+interface ChannelViewProps {
+  // The server's members, who can be mentioned
+  members: MentionableMember[];
+  // Members with the server open, who @here reaches
+  onlineUserIds: string[];
 }
 
-export default function ChannelView() {
-  const { channelId, serverId } = useParams();
+export default function ChannelView({ members, onlineUserIds }: ChannelViewProps) {
+  const { channelId } = useParams();
   const navigate = useNavigate();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const location = useLocation();
   const [newMessage, setNewMessage] = useState("");
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [sendError, setSendError] = useState<string | null>(null);
+  // A message that could not be sent, kept so it can be retried
+  const [failedSend, setFailedSend] = useState<{
+    content: string;
+    attachments: AttachmentReference[];
+    replyTo?: MessageQuote;
+    mentions: MessageMention[];
+    error: string;
+  } | null>(null);
   const [isSending, setIsSending] = useState(false);
+  // Files picked for the next message, stripped but not yet encrypted or uploaded
+  const [pendingAttachments, setPendingAttachments] = useState<PreparedAttachment[]>([]);
   const { session } = useAuthStore();
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [channelName, setChannelName] = useState("");
-  const [channelDetails, setChannelDetails] = useState<{
-    id: string;
-    server_id: string;
-    encryption_enabled: boolean;
-  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  // Mentions picked from the suggestions for the next message
+  const [composerMentions, setComposerMentions] = useState<MessageMention[]>([]);
+  // The mention being typed, and which suggestion is selected
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // The message the next one replies to, quoted above the composer
+  const [replyingTo, setReplyingTo] = useState<ChannelMessage | null>(null);
+  // The message being forwarded, with who first sent it
+  const [forwarding, setForwarding] = useState<MessageBody | null>(null);
+  // Which message's link was just copied
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
+  // The message whose reaction picker is open
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
   const [isMobile, setIsMobile] = useState<boolean>(window.innerWidth < 768);
 
   // Message editing states
@@ -58,6 +122,48 @@ export default function ChannelView() {
     null
   );
 
+  const {
+    messages,
+    loading,
+    error,
+    channelName,
+    channelDetails,
+    hasOlderMessages,
+    loadingOlder,
+    hasNewerMessages,
+    loadingNewer,
+    showJumpToPresent,
+    highlightedMessageId,
+    threadSummaries,
+    openThread,
+    reactions,
+    pinnedMessages,
+    pinsOpen,
+    setPinsOpen,
+    pinsLoading,
+    pinsError,
+    handleScroll,
+    jumpToPresent,
+    jumpToMessage,
+    openThreadPanel,
+    closeThreadPanel,
+    applyMessageChange,
+    showSendingMessage,
+    removeUnsentMessage,
+    removeMessage,
+    togglePin,
+    unpin,
+    toggleReaction,
+  } = useChannelMessages({
+    channelId,
+    userId: session?.user?.id,
+    // Opened from a link, the mentions inbox or search: go to the message once it has loaded
+    jumpToMessageId: (location.state as { jumpToMessageId?: string } | null)?.jumpToMessageId,
+    scrollContainerRef,
+    messagesEndRef,
+    reportError: setSendError,
+  });
+
   // Handle window resize
   useEffect(() => {
     const handleResize = () => {
@@ -68,225 +174,58 @@ export default function ChannelView() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Scroll to bottom of messages
-  const scrollToBottom = (behavior: ScrollBehavior = "smooth") => {
-    messagesEndRef.current?.scrollIntoView({ behavior });
+  // Start the composer afresh when changing channels
+  useEffect(() => {
+    setReplyingTo(null);
+    setForwarding(null);
+    setReactionPickerFor(null);
+    setFailedSend(null);
+    setPendingAttachments([]);
+    setComposerMentions([]);
+    setMentionQuery(null);
+  }, [channelId]);
+
+  const jumpToPinnedMessage = (messageId: string) => {
+    if (isMobile) setPinsOpen(false);
+    jumpToMessage(messageId);
   };
 
-  const fetchMessages = async () => {
-    if (!channelId) return;
-
-    setLoading(true);
-    setError(null);
-
+  const copyMessageLink = async (messageId: string) => {
     try {
-      console.log("Fetching messages for channel:", channelId);
-
-      // First, validate that this channel belongs to the current server
-      const { data: channelData, error: channelError } = await supabase
-        .from("channels")
-        .select("id, server_id, name, encryption_enabled")
-        .eq("id", channelId)
-        .single();
-
-      if (channelError) {
-        console.error("Error fetching channel:", channelError);
-        setError(`Channel not found or access denied`);
-        return;
-      }
-
-      // Store channel details for validation
-      setChannelDetails(channelData);
-      setChannelName(channelData.name);
-
-      // Check if user has restricted history access
-      const { data: memberData, error: memberError } = await supabase
-        .from("server_members")
-        .select("hide_history, joined_at")
-        .eq("server_id", channelData.server_id)
-        .eq("user_id", session?.user?.id)
-        .single();
-
-      if (memberError) {
-        console.error("Error checking member permissions:", memberError);
-      }
-
-      let messageQuery = supabase
-        .from("messages")
-        .select(
-          `
-          id, 
-          sender_id, 
-          encrypted_content,
-          iv, 
-          created_at,
-          updated_at,
-          is_encrypted,
-          encryption_version,
-          sender:users!sender_id (
-            username,
-            display_name
-          ),
-          channel:channels!messages_channel_id_fkey (
-            server_id
-          )
-        `
-        )
-        .eq("channel_id", channelId)
-        .order("created_at");
-
-      // If user has hide_history flag, filter the message history
-      if (memberData?.hide_history && memberData.joined_at) {
-        messageQuery = messageQuery.gte("created_at", memberData.joined_at);
-        console.log("Hiding message history before:", memberData.joined_at);
-      }
-
-      const { data, error } = await messageQuery;
-
-      if (error) {
-        console.error("Error fetching messages:", error);
-        setError(`Failed to load messages: ${error.message}`);
-        return;
-      }
-
-      console.log("Received message data:", data);
-
-      if (data) {
-        // Transform data to include sender info
-        const formattedMessages = await Promise.all(
-          data.map(async (message) => {
-            console.log("Processing message:", message);
-
-            let displayContent = message.encrypted_content;
-
-            // Try to decrypt if message is flagged as encrypted
-            if (message.is_encrypted) {
-              try {
-                displayContent = await decryptMessage(
-                  channelId,
-                  message.encrypted_content,
-                  message.iv
-                );
-              } catch (decryptError) {
-                console.error("Decryption error:", decryptError);
-                displayContent = `🔒 [Encrypted message - cannot decrypt]`;
-              }
-            }
-
-            return {
-              id: message.id,
-              sender_id: message.sender_id,
-              encrypted_content: displayContent,
-              iv: message.iv,
-              created_at: message.created_at,
-              updated_at: message.updated_at,
-              sender_username: message.sender?.username || "Unknown User",
-              sender_display_name: message.sender?.display_name || null,
-              is_encrypted: message.is_encrypted || false,
-            };
-          })
-        );
-
-        console.log("Formatted messages:", formattedMessages);
-        setMessages(formattedMessages);
-        
-        // Scroll to bottom after loading messages
-        setTimeout(scrollToBottom, 100);
-      }
+      await navigator.clipboard.writeText(getMessageLink(messageId));
+      setCopiedLinkId(messageId);
+      window.setTimeout(() => setCopiedLinkId((current) => (current === messageId ? null : current)), 2000);
     } catch (err) {
-      console.error("Unexpected error fetching messages:", err);
-      setError("An unexpected error occurred while loading messages");
-    } finally {
-      setLoading(false);
+      console.error("Error copying message link:", err);
+      setSendError("Failed to copy the message link");
     }
   };
 
-  useEffect(() => {
-    if (!channelId) return;
-
-    // Reset messages when changing channels
-    setMessages([]);
-    setError(null);
-
-    // Fetch channel info and messages
-    fetchMessages();
-
-    // Mark channel as read
-    if (session?.user) {
-      try {
-        supabase
-          .from('channel_read_status')
-          .upsert({
-            user_id: session.user.id,
-            channel_id: channelId,
-            last_read_at: new Date().toISOString()
-          });
-      } catch (error) {
-        console.error('Error marking channel as read:', error);
-      }
-    }
-
-    // Subscribe to new messages
-    const channel = supabase
-      .channel(`messages:${channelId}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "messages",
-          filter: `channel_id=eq.${channelId}`,
-        },
-        (payload) => {
-          console.log("Received realtime message:", payload);
-          fetchMessages();
-          scrollToBottom();
-        }
-      )
-      .on(
-        "postgres_changes",
-        {
-          event: "UPDATE",
-          schema: "public",
-          table: "messages",
-          filter: `channel_id=eq.${channelId}`,
-        },
-        (payload) => {
-          console.log("Message updated:", payload);
-          fetchMessages();
-        }
-      )
-      .on(
-        "postgres_changes",
-        {
-          event: "DELETE",
-          schema: "public",
-          table: "messages",
-          filter: `channel_id=eq.${channelId}`,
-        },
-        (payload) => {
-          console.log("Message deleted:", payload);
-          fetchMessages();
-        }
-      )
-      .subscribe((status) => {
-        console.log("Subscription status:", status);
-      });
-
-    return () => {
-      console.log("Unsubscribing from channel");
-      channel.unsubscribe();
-    };
-  }, [channelId, serverId]);
+  const startReply = (message: ChannelMessage) => {
+    setReplyingTo(message);
+    setEditingMessageId(null);
+  };
 
-  // Scroll to bottom when messages change
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+  const startForward = (message: ChannelMessage) => {
+    setForwarding({
+      text: message.encrypted_content,
+      attachments: message.attachments,
+      // A message forwarded again keeps its original sender
+      forwardedFrom: message.forwarded_from || {
+        senderId: message.sender_id,
+        senderName: message.sender_display_name || message.sender_username,
+        sentAt: message.created_at,
+      },
+    });
+  };
 
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newMessage.trim() || !channelId || !session?.user) return;
+  const sendMessage = async (
+    content: string,
+    attachments: AttachmentReference[] = [],
+    replyTo?: MessageQuote,
+    mentions: MessageMention[] = []
+  ) => {
+    if ((!content.trim() && attachments.length === 0) || !channelId || !session?.user) return;
 
     // Validate that we have channel details
     if (!channelDetails) {
@@ -297,82 +236,248 @@ export default function ChannelView() {
     setIsSending(true);
     setSendError(null);
 
+    const messageId = crypto.randomUUID();
+
     try {
       console.log("Sending message to channel:", channelId);
 
-      let encryptedContent = newMessage;
-      let ivString = "unencrypted";
-      let isEncrypted = false;
-
-      // Only encrypt if the channel has encryption enabled
-      if (channelDetails.encryption_enabled) {
-        // Encrypt the message content using server-side encryption
-        const encryptResult = await encryptMessage(channelId, newMessage);
-        encryptedContent = encryptResult.encrypted;
-        ivString = encryptResult.iv;
-        isEncrypted = ivString !== "unencrypted";
-      }
+      // Encrypted with the member-wrapped channel key unless the channel has encryption
+      // turned off; if encryption fails nothing is sent
+      const envelope = await sealChannelMessage(
+        channelDetails.encryption_policy,
+        channelId,
+        channelDetails.server_id,
+        session.user.id,
+        { text: content, attachments, replyTo, mentions }
+      );
+
+      // Show the message straight away; it is replaced by the stored copy once sent
+      const ownMessage = messages.find((message) => message.sender_id === session.user.id);
+      showSendingMessage({
+        id: messageId,
+        sender_id: session.user.id,
+        encrypted_content: content,
+        iv: null,
+        created_at: new Date().toISOString(),
+        sender_username: ownMessage?.sender_username || session.user.email || "You",
+        sender_display_name: ownMessage?.sender_display_name || null,
+        is_encrypted: envelope.alg !== "none",
+        attachments: attachments.length > 0 ? attachments : undefined,
+        reply_to: replyTo,
+        mentions,
+        pending: true,
+      });
 
       const { data, error } = await supabase
         .from("messages")
         .insert({
+          id: messageId,
           channel_id: channelId,
           sender_id: session.user.id,
-          encrypted_content: encryptedContent,
-          iv: ivString,
-          is_encrypted: isEncrypted,
-          encryption_version: 2, // Mark as using the new server-side encryption
+          encrypted_content: encodeEnvelope(envelope),
+          iv: null,
+          is_encrypted: envelope.alg !== "none",
+          encryption_version: ENVELOPE_ENCRYPTION_VERSION,
         })
         .select()
         .single();
 
       if (error) {
         console.error("Error sending message:", error);
-        setSendError(`Failed to send message: ${error.message}`);
+        removeUnsentMessage(messageId);
+        setFailedSend({ content, attachments, replyTo, mentions, error: `Failed to send message: ${error.message}` });
         return;
       }
 
       console.log("Message sent successfully:", data);
 
-      setNewMessage("");
-      scrollToBottom();
+      setFailedSend(null);
+      // Keep anything typed since a retried message was first sent
+      setNewMessage((current) => (current === content ? "" : current));
+      applyMessageChange(messageId, true);
+      notifyMentioned(messageId, mentions);
     } catch (err) {
       console.error("Unexpected error sending message:", err);
-      setSendError("An unexpected error occurred while sending your message");
+      removeUnsentMessage(messageId);
+      setFailedSend({
+        content,
+        attachments,
+        replyTo,
+        mentions,
+        error:
+          err instanceof Error
+            ? err.message
+            : "An unexpected error occurred while sending your message",
+      });
     } finally {
       setIsSending(false);
     }
   };
 
+  // Let the members a message mentions know. Who that is is worked out here
+  // from the member list, so the server only learns who to notify.
+  const notifyMentioned = (messageId: string, mentions: MessageMention[]) => {
+    if (!session?.user || mentions.length === 0) return;
+
+    const recipients = resolveMentionRecipients(mentions, members, onlineUserIds, session.user.id);
+    sendMentionNotifications(messageId, session.user.id, recipients);
+  };
+
+  // Work out which mention, if any, is being typed at the caret
+  const updateMentionQuery = (text: string, caret: number | null) => {
+    const query = caret === null ? null : getMentionQuery(text, caret);
+    setMentionQuery(query);
+    setMentionIndex(0);
+  };
+
+  const mentionSuggestions: MentionSuggestion[] =
+    mentionQuery && session?.user ? suggestMentions(mentionQuery.query, members, session.user.id) : [];
+
+  // Put a picked mention in place of what was typed after the @
+  const insertMention = (suggestion: MentionSuggestion) => {
+    if (!mentionQuery) return;
+
+    const label = mentionLabel(suggestion.mention);
+    const caret = mentionQuery.start + 1 + mentionQuery.query.length;
+    const text = `${newMessage.slice(0, mentionQuery.start)}${label} ${newMessage.slice(caret)}`;
+    const nextCaret = mentionQuery.start + label.length + 1;
+
+    setNewMessage(text);
+    setComposerMentions((current) => [...current, suggestion.mention]);
+    setMentionQuery(null);
+
+    window.requestAnimationFrame(() => {
+      composerRef.current?.focus();
+      composerRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentionSuggestions.length === 0) return;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setMentionIndex((index) => (index + step + mentionSuggestions.length) % mentionSuggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      insertMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setMentionQuery(null);
+    }
+  };
+
+  const handleSendMessage = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!channelId || isSending || (!newMessage.trim() && pendingAttachments.length === 0)) return;
+
+    let attachments: AttachmentReference[] = [];
+    if (pendingAttachments.length > 0) {
+      setIsSending(true);
+      setSendError(null);
+      try {
+        attachments = await uploadAttachments(pendingAttachments, { kind: "channel", channelId });
+      } catch (err) {
+        console.error("Error uploading attachments:", err);
+        setSendError(err instanceof Error ? err.message : "Failed to upload attachments");
+        setIsSending(false);
+        return;
+      }
+      // The uploaded files now go with this message, or with the failed send if it fails
+      setPendingAttachments([]);
+    }
+
+    // The quote also goes with this message, or with the failed send
+    const replyTo = replyingTo
+      ? createMessageQuote(
+          {
+            id: replyingTo.id,
+            senderId: replyingTo.sender_id,
+            senderName: replyingTo.sender_display_name || replyingTo.sender_username,
+          },
+          { text: replyingTo.encrypted_content, attachments: replyingTo.attachments }
+        )
+      : undefined;
+    setReplyingTo(null);
+
+    // Only mentions whose text is still in the message are sent
+    const mentions = collectMentions(newMessage, composerMentions);
+    setComposerMentions([]);
+    setMentionQuery(null);
+
+    await sendMessage(newMessage, attachments, replyTo, mentions);
+  };
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    if (pendingAttachments.length + files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      setSendError(`A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`);
+      return;
+    }
+
+    setSendError(null);
+    try {
+      const prepared = await Promise.all(files.map(prepareAttachment));
+      setPendingAttachments((current) => [...current, ...prepared]);
+    } catch (err) {
+      console.error("Error preparing attachment:", err);
+      setSendError(err instanceof Error ? err.message : "The file could not be attached");
+    }
+  };
+
+  const dismissFailedSend = () => {
+    // Files uploaded for a message that will not be sent are removed again
+    if (failedSend) deleteAttachments(failedSend.attachments);
+    setFailedSend(null);
+  };
+
   const handleEditMessage = async (messageId: string, content: string) => {
     setEditingMessageId(messageId);
     setEditContent(content);
   };
 
   const handleSaveEdit = async () => {
-    if (!editingMessageId || !channelId || !editContent.trim()) return;
+    if (!editingMessageId || editingLoading || !channelId || !channelDetails || !session?.user) return;
+
+    // Edits change the text; the attachments, quote and forwarding details stay as they were.
+    // Mentions are kept while their text is, and added mentions are sent on.
+    const original = messages.find((message) => message.id === editingMessageId);
+    const attachments = original?.attachments;
+    if (!editContent.trim() && !attachments?.length) return;
+    const mentions = collectMentions(editContent, original?.mentions || []);
 
     setEditingLoading(true);
 
     try {
-      let encryptedContent = editContent;
-      let ivString = "unencrypted";
-      let isEncrypted = false;
-
-      // Only encrypt if the channel has encryption enabled
-      if (channelDetails?.encryption_enabled) {
-        const encryptResult = await encryptMessage(channelId, editContent);
-        encryptedContent = encryptResult.encrypted;
-        ivString = encryptResult.iv;
-        isEncrypted = ivString !== "unencrypted";
-      }
+      const envelope = await sealChannelMessage(
+        channelDetails.encryption_policy,
+        channelId,
+        channelDetails.server_id,
+        session.user.id,
+        {
+          text: editContent,
+          attachments,
+          replyTo: original?.reply_to,
+          forwardedFrom: original?.forwarded_from,
+          mentions,
+        }
+      );
 
+      // The older columns are cleared; the envelope carries the key epoch and signature
       const { error } = await supabase
         .from("messages")
         .update({
-          encrypted_content: encryptedContent,
-          iv: ivString,
-          is_encrypted: isEncrypted,
+          encrypted_content: encodeEnvelope(envelope),
+          iv: null,
+          is_encrypted: envelope.alg !== "none",
+          encryption_version: ENVELOPE_ENCRYPTION_VERSION,
+          key_epoch: null,
+          signature: null,
+          sender_key_version: null,
           updated_at: new Date().toISOString(),
         })
         .eq("id", editingMessageId)
@@ -387,11 +492,16 @@ export default function ChannelView() {
       setEditingMessageId(null);
       setEditContent("");
 
-      // Refresh messages after edit
-      fetchMessages();
+      // Show the edit without waiting for realtime
+      applyMessageChange(editingMessageId, false);
+      notifyMentioned(editingMessageId, mentions);
     } catch (err) {
       console.error("Unexpected error editing message:", err);
-      setSendError("An unexpected error occurred while editing your message");
+      setSendError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred while editing your message"
+      );
     } finally {
       setEditingLoading(false);
     }
@@ -400,6 +510,8 @@ export default function ChannelView() {
   const handleDeleteMessage = async (messageId: string) => {
     if (!confirm("Are you sure you want to delete this message?")) return;
 
+    const attachments = messages.find((message) => message.id === messageId)?.attachments;
+
     try {
       const { error } = await supabase
         .from("messages")
@@ -413,8 +525,9 @@ export default function ChannelView() {
         return;
       }
 
-      // Refresh messages after delete
-      fetchMessages();
+      if (attachments) deleteAttachments(attachments);
+
+      removeMessage(messageId);
     } catch (err) {
       console.error("Unexpected error deleting message:", err);
       setSendError("An unexpected error occurred while deleting your message");
@@ -446,10 +559,97 @@ export default function ChannelView() {
     }) + ' at ' + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
   };
 
+  // The current user's role, so mentions of it are highlighted
+  const currentUserRole = members.find((member) => member.user_id === session?.user?.id)?.role ?? null;
+  const canPin = canPinChannelMessages(currentUserRole);
+  const pinnedMessageIds = new Set(pinnedMessages.map((item) => item.pin.messageId));
+
+  const renderThreadSummary = (message: ChannelMessage) => {
+    const summary = threadSummaries[message.id];
+    if (!summary) return null;
+
+    const lastReply = summary.lastReply;
+    return (
+      <button
+        onClick={() => openThreadPanel(message)}
+        className="mt-1 flex items-center max-w-full text-xs text-indigo-400 hover:text-indigo-300"
+      >
+        {summary.hasUnread && (
+          <span className="w-2 h-2 mr-1.5 rounded-full bg-red-500 flex-shrink-0" title="Unread replies" />
+        )}
+        <MessageSquare className="h-3 w-3 mr-1 flex-shrink-0" />
+        <span className="font-medium mr-2 flex-shrink-0">
+          {summary.replyCount} {summary.replyCount === 1 ? "reply" : "replies"}
+        </span>
+        {lastReply && (
+          <span className="text-gray-400 truncate">
+            {lastReply.sender_display_name || lastReply.sender_username}:{" "}
+            {lastReply.encrypted_content ||
+              (lastReply.attachments?.length ? `📎 ${lastReply.attachments[0].name}` : "")}
+          </span>
+        )}
+      </button>
+    );
+  };
+
   return (
-    <div className="flex flex-col h-full">
+    <div className="flex flex-col h-full relative">
+      {openThread && channelId && channelDetails && (
+        <ThreadPanel
+          channelId={channelId}
+          serverId={channelDetails.server_id}
+          encryptionPolicy={channelDetails.encryption_policy}
+          parent={messages.find((message) => message.id === openThread.id) || openThread}
+          onClose={closeThreadPanel}
+        />
+      )}
+      {pinsOpen && (
+        <PinnedMessagesPanel
+          pins={pinnedMessages}
+          loading={pinsLoading}
+          error={pinsError}
+          canUnpin={canPin}
+          currentUserId={session?.user?.id}
+          currentUserRole={currentUserRole}
+          onJump={jumpToPinnedMessage}
+          onUnpin={unpin}
+          onClose={() => setPinsOpen(false)}
+        />
+      )}
+      {forwarding && (
+        <ForwardMessageModal body={forwarding} onClose={() => setForwarding(null)} />
+      )}
+      {/* Header */}
+      <div className="px-4 py-2 bg-gray-800 border-b border-gray-700 flex items-center">
+        <h3 className="hidden md:block font-medium text-white truncate">#{channelName}</h3>
+        <button
+          onClick={() => {
+            setPinsOpen(!pinsOpen);
+            closeThreadPanel();
+          }}
+          className={`ml-auto flex items-center text-sm ${pinsOpen ? "text-white" : "text-gray-400 hover:text-white"}`}
+          title="Pinned messages"
+        >
+          <Pin className="h-4 w-4" />
+          {pinnedMessages.length > 0 && <span className="ml-1">{pinnedMessages.length}</span>}
+        </button>
+      </div>
       {/* Messages area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto p-4 space-y-4"
+      >
+        {loadingOlder && (
+          <div className="flex justify-center text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        )}
+        {!loading && !hasOlderMessages && messages.length > 0 && (
+          <div className="text-center text-xs text-gray-500">
+            This is the beginning of #{channelName}
+          </div>
+        )}
         {loading ? (
           <div className="flex justify-center items-center h-full">
             <div className="text-gray-400">Loading messages...</div>
@@ -464,7 +664,16 @@ export default function ChannelView() {
           messages.map((message) => (
             <div
               key={message.id}
-              className="flex items-start group"
+              id={`message-${message.id}`}
+              className={`flex items-start group rounded transition-colors ${message.pending ? "opacity-60" : ""} ${
+                highlightedMessageId === message.id
+                  ? "bg-indigo-500 bg-opacity-20"
+                  : session?.user &&
+                      message.sender_id !== session.user.id &&
+                      mentionsUser(message.mentions, session.user.id, currentUserRole)
+                    ? "bg-yellow-500 bg-opacity-10 border-l-2 border-yellow-500"
+                    : ""
+              }`}
               onMouseEnter={() => setSelectedMessageId(message.id)}
               onMouseLeave={() => setSelectedMessageId(null)}
             >
@@ -481,26 +690,59 @@ export default function ChannelView() {
                   <span className="text-xs text-gray-400">
                     {formatTime(message.created_at)}
                   </span>
-                  {message.is_encrypted && (
-                    <span className="ml-2 text-xs text-green-400 flex items-center">
-                      <Lock className="h-3 w-3 mr-1" />
-                      Encrypted
-                    </span>
-                  )}
+                  {message.pending ? (
+                    <span className="ml-2 text-xs text-gray-400 italic">Sending...</span>
+                  ) : message.is_encrypted &&
+                    (message.signature_status === "verified" ? (
+                      <span className="ml-2 text-xs text-green-400 flex items-center">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Encrypted
+                      </span>
+                    ) : (
+                      <span
+                        className="ml-2 text-xs text-yellow-400 flex items-center"
+                        title="This message is not signed by its sender's key. It may have been sent by someone else."
+                      >
+                        <ShieldAlert className="h-3 w-3 mr-1" />
+                        Unverified sender
+                      </span>
+                    ))}
                   {message.updated_at &&
                     message.updated_at !== message.created_at && (
                       <span className="ml-2 text-xs text-gray-400 italic">
                         (edited)
                       </span>
                     )}
+                  {pinnedMessageIds.has(message.id) && (
+                    <span className="ml-2 text-xs text-gray-400 flex items-center" title="Pinned">
+                      <Pin className="h-3 w-3" />
+                    </span>
+                  )}
                 </div>
 
+                {message.forwarded_from && (
+                  <div className="mt-1 flex items-center text-xs text-gray-400 italic">
+                    <Forward className="h-3 w-3 mr-1" />
+                    Forwarded from {message.forwarded_from.senderName}
+                  </div>
+                )}
+                {message.reply_to && (
+                  <QuotedMessage quote={message.reply_to} onJump={jumpToMessage} />
+                )}
+
                 {editingMessageId === message.id ? (
                   <div className="mt-1">
-                    <input
-                      type="text"
+                    <MessageComposer
                       value={editContent}
-                      onChange={(e) => setEditContent(e.target.value)}
+                      onChange={(value) => setEditContent(value)}
+                      onSubmit={handleSaveEdit}
+                      onKeyDown={(e) => {
+                        if (e.key === "Escape") {
+                          e.preventDefault();
+                          setEditingMessageId(null);
+                          setEditContent("");
+                        }
+                      }}
                       className="w-full bg-gray-700 text-white rounded-md px-3 py-1 text-sm"
                       autoFocus
                     />
@@ -528,39 +770,132 @@ export default function ChannelView() {
                     </div>
                   </div>
                 ) : (
-                  <p className="text-gray-300 mt-1 break-words">
-                    {message.encrypted_content}
-                  </p>
+                  <>
+                    {message.encrypted_content && (
+                      <FormattedMessage
+                        text={message.encrypted_content}
+                        mentions={message.mentions}
+                        currentUserId={session?.user?.id}
+                        currentUserRole={currentUserRole}
+                        className="text-gray-300 mt-1 break-words"
+                      />
+                    )}
+                    {message.attachments && (
+                      <MessageAttachments attachments={message.attachments} />
+                    )}
+                  </>
+                )}
+                {session?.user && !message.pending && (
+                  <MessageReactions
+                    reactions={summarizeReactions(reactions[message.id] || [], session.user.id)}
+                    pickerOpen={reactionPickerFor === message.id}
+                    onToggle={(emoji) => toggleReaction(message.id, emoji)}
+                    onOpenPicker={() => setReactionPickerFor(message.id)}
+                    onClosePicker={() => setReactionPickerFor(null)}
+                  />
                 )}
+                {renderThreadSummary(message)}
               </div>
 
               {/* Message actions */}
-              {message.sender_id === session?.user?.id &&
-                selectedMessageId === message.id &&
-                editingMessageId !== message.id && (
+              {selectedMessageId === message.id &&
+                editingMessageId !== message.id &&
+                !message.pending && (
                   <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
                     <button
-                      onClick={() =>
-                        handleEditMessage(message.id, message.encrypted_content)
-                      }
+                      onClick={() => setReactionPickerFor(message.id)}
+                      className="p-1 text-gray-400 hover:text-white"
+                      title="Add reaction"
+                    >
+                      <SmilePlus className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => startReply(message)}
+                      className="p-1 text-gray-400 hover:text-white"
+                      title="Reply"
+                    >
+                      <CornerUpLeft className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => startForward(message)}
                       className="p-1 text-gray-400 hover:text-white"
-                      title="Edit message"
+                      title="Forward"
                     >
-                      <Edit className="h-4 w-4" />
+                      <Forward className="h-4 w-4" />
                     </button>
                     <button
-                      onClick={() => handleDeleteMessage(message.id)}
-                      className="p-1 text-gray-400 hover:text-red-400"
-                      title="Delete message"
+                      onClick={() => copyMessageLink(message.id)}
+                      className="p-1 text-gray-400 hover:text-white"
+                      title={copiedLinkId === message.id ? "Link copied" : "Copy link"}
+                    >
+                      {copiedLinkId === message.id ? (
+                        <Check className="h-4 w-4 text-green-400" />
+                      ) : (
+                        <Link2 className="h-4 w-4" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => openThreadPanel(message)}
+                      className="p-1 text-gray-400 hover:text-white"
+                      title="Reply in thread"
                     >
-                      <Trash className="h-4 w-4" />
+                      <MessageSquare className="h-4 w-4" />
                     </button>
+                    {canPin && (
+                      <button
+                        onClick={() => togglePin(message)}
+                        className="p-1 text-gray-400 hover:text-white"
+                        title={pinnedMessageIds.has(message.id) ? "Unpin message" : "Pin message"}
+                      >
+                        {pinnedMessageIds.has(message.id) ? (
+                          <PinOff className="h-4 w-4" />
+                        ) : (
+                          <Pin className="h-4 w-4" />
+                        )}
+                      </button>
+                    )}
+                    {message.sender_id === session?.user?.id && (
+                      <>
+                        <button
+                          onClick={() =>
+                            handleEditMessage(message.id, message.encrypted_content)
+                          }
+                          className="p-1 text-gray-400 hover:text-white"
+                          title="Edit message"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteMessage(message.id)}
+                          className="p-1 text-gray-400 hover:text-red-400"
+                          title="Delete message"
+                        >
+                          <Trash className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
                   </div>
                 )}
             </div>
           ))
         )}
+        {loadingNewer && (
+          <div className="flex justify-center text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        )}
         <div ref={messagesEndRef} />
+        {(showJumpToPresent || hasNewerMessages) && (
+          <div className="sticky bottom-0 flex justify-center pointer-events-none">
+            <button
+              onClick={jumpToPresent}
+              className="pointer-events-auto flex items-center px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-full shadow-lg"
+            >
+              <ArrowDown className="h-4 w-4 mr-1" />
+              Jump to present
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Message input */}
@@ -571,19 +906,99 @@ export default function ChannelView() {
             {sendError}
           </div>
         )}
-        <form onSubmit={handleSendMessage} className="flex items-center">
+        {failedSend && (
+          <div className="mb-2 text-red-400 text-sm p-2 bg-red-500 bg-opacity-10 rounded flex items-center">
+            <ShieldAlert className="h-4 w-4 mr-2 flex-shrink-0" />
+            <span className="flex-1">{failedSend.error}</span>
+            <button
+              onClick={() =>
+                sendMessage(failedSend.content, failedSend.attachments, failedSend.replyTo, failedSend.mentions)
+              }
+              disabled={isSending}
+              className="ml-2 flex items-center px-2 py-1 bg-red-600 hover:bg-red-700 text-white text-xs rounded disabled:opacity-50"
+            >
+              <RefreshCw className={`h-3 w-3 mr-1 ${isSending ? "animate-spin" : ""}`} />
+              Retry
+            </button>
+            <button
+              onClick={dismissFailedSend}
+              className="ml-1 p-1 text-gray-400 hover:text-white"
+              title="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="mb-2 p-2 bg-gray-700 rounded flex items-center text-sm">
+            <CornerUpLeft className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+            <span className="text-gray-400 mr-1 flex-shrink-0">Replying to</span>
+            <span className="text-white font-medium mr-2 flex-shrink-0">
+              {replyingTo.sender_display_name || replyingTo.sender_username}
+            </span>
+            <span className="flex-1 text-gray-400 truncate">
+              {replyingTo.encrypted_content ||
+                (replyingTo.attachments?.length ? `📎 ${replyingTo.attachments[0].name}` : "")}
+            </span>
+            <button
+              onClick={() => setReplyingTo(null)}
+              className="ml-2 p-1 text-gray-400 hover:text-white"
+              title="Cancel reply"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        <MessagePreview text={newMessage} mentions={collectMentions(newMessage, composerMentions)} />
+        <PendingAttachments
+          attachments={pendingAttachments}
+          onRemove={(index) =>
+            setPendingAttachments((current) => current.filter((_, i) => i !== index))
+          }
+          disabled={isSending}
+        />
+        <form onSubmit={handleSendMessage} className="flex items-end">
           <input
-            type="text"
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            placeholder={`Message #${channelName}${
-              channelDetails?.encryption_enabled ? " (encrypted)" : ""
-            }`}
-            className="flex-1 bg-gray-700 text-white placeholder-gray-400 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            ref={fileInputRef}
+            type="file"
+            multiple
+            onChange={handleFilesSelected}
+            className="hidden"
           />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSending || pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+            className="mr-2 p-2 text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Attach files"
+          >
+            <Paperclip size={18} />
+          </button>
+          <div className="flex-1 relative">
+            <MentionSuggestions
+              suggestions={mentionSuggestions}
+              selectedIndex={mentionIndex}
+              onSelect={insertMention}
+            />
+            <MessageComposer
+              textareaRef={composerRef}
+              value={newMessage}
+              onChange={(value, caret) => {
+                setNewMessage(value);
+                updateMentionQuery(value, caret);
+              }}
+              onSubmit={handleSendMessage}
+              onKeyDown={handleComposerKeyDown}
+              onBlur={() => setMentionQuery(null)}
+              placeholder={`Message #${channelName}${
+                channelDetails && channelDetails.encryption_policy !== "disabled" ? " (encrypted)" : ""
+              }`}
+              className="block w-full bg-gray-700 text-white placeholder-gray-400 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
           <button
             type="submit"
-            disabled={!newMessage.trim() || isSending}
+            disabled={(!newMessage.trim() && pendingAttachments.length === 0) || isSending}
             className="ml-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md p-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Send size={18} />
@@ -1,17 +1,32 @@
 import React, { useEffect, useState } from "react";
 import { Routes, Route, useLocation, Navigate } from "react-router-dom";
-import { supabase } from "../lib/supabase";
+import { supabase, unlockPrivateKey } from "../lib/supabase";
 import { useAuthStore } from "../stores/authStore";
+import { useEncryptionStore } from "../stores/encryptionStore";
+import {
+  enrollThisDevice,
+  unlockWithThisDevice,
+} from "../services/deviceService";
+import { ensureSigningKey } from "../services/keyRotationService";
 import ServerList from "./ServerList";
 import ServerView from "./ServerView";
 import Friends from "./Friends";
 import DirectMessagesList from "./DirectMessagesList";
 import DirectMessage from "./DirectMessage";
+import MentionsInbox from "./MentionsInbox";
+import MessageSearch from "./MessageSearch";
+import MessageLink from "./MessageLink";
 import Welcome from "./Welcome";
+import EncryptionSetup from "./EncryptionSetup";
+import EncryptionLogin from "./EncryptionLogin";
 
 export default function Dashboard() {
   const { session } = useAuthStore();
+  const { status: encryptionStatus, setStatus: setEncryptionStatus } =
+    useEncryptionStore();
   const [loading, setLoading] = useState(true);
+  const [keyCheckError, setKeyCheckError] = useState<string | null>(null);
+  const [keyCheckAttempt, setKeyCheckAttempt] = useState(0);
   const location = useLocation();
 
   useEffect(() => {
@@ -42,15 +57,76 @@ export default function Dashboard() {
             console.error("Error creating user profile:", createError);
           }
         }
+
+        // Work out whether the user still has to set up or unlock encryption
+        if (useEncryptionStore.getState().status !== "unlocked") {
+          const { data: privateKeyData, error: privateKeyError } =
+            await supabase
+              .from("user_private_keys")
+              .select("user_id")
+              .eq("user_id", session.user.id)
+              .limit(1)
+              .maybeSingle();
+
+          // Without a definite answer, never offer setup: it would replace an existing key
+          if (privateKeyError) {
+            console.error("Error checking encryption keys:", privateKeyError);
+            setKeyCheckError("Could not check your encryption keys.");
+            setLoading(false);
+            return;
+          }
+          setKeyCheckError(null);
+
+          // An enrolled device can unlock without the encryption password
+          let unlockedByDevice = false;
+          if (privateKeyData) {
+            try {
+              unlockedByDevice = await unlockWithThisDevice();
+            } catch (deviceError) {
+              console.error("Error unlocking with device key:", deviceError);
+            }
+          }
+
+          if (!unlockedByDevice) {
+            useEncryptionStore
+              .getState()
+              .setStatus(privateKeyData ? "locked" : "setup-required");
+          }
+        }
       } catch (error) {
         console.error("Error in dashboard init:", error);
+        if (useEncryptionStore.getState().status !== "unlocked") {
+          setKeyCheckError("Could not check your encryption keys.");
+        }
       }
 
       setLoading(false);
     };
 
     initDashboard();
-  }, [session]);
+  }, [session, keyCheckAttempt]);
+
+  const retryKeyCheck = () => {
+    setKeyCheckError(null);
+    setLoading(true);
+    setKeyCheckAttempt((attempt) => attempt + 1);
+  };
+
+  const handleUnlock = async (password: string) => {
+    const unlocked = await unlockPrivateKey(password);
+    if (unlocked) {
+      // Then remember this browser so it does not need the password next time
+      ensureSigningKey(password)
+        .catch((signingKeyError) => {
+          console.error("Error adding a signing key:", signingKeyError);
+        })
+        .then(() => enrollThisDevice(password))
+        .catch((enrollError) => {
+          console.error("Error enrolling this device:", enrollError);
+        });
+    }
+    return unlocked;
+  };
 
   if (loading) {
     return (
@@ -60,6 +136,37 @@ export default function Dashboard() {
     );
   }
 
+  // Gate the dashboard until the private key is available in this tab
+  if (encryptionStatus !== "unlocked") {
+    return (
+      <div className="flex items-center justify-center h-full p-4 overflow-y-auto">
+        <div className="w-full">
+          {encryptionStatus === "setup-required" ? (
+            <EncryptionSetup
+              onComplete={() => setEncryptionStatus("unlocked")}
+            />
+          ) : encryptionStatus === "locked" ? (
+            <EncryptionLogin onUnlock={handleUnlock} />
+          ) : (
+            <div className="flex flex-col items-center text-gray-400">
+              <p className="mb-4">
+                {keyCheckError ?? "Checking your encryption keys..."}
+              </p>
+              {keyCheckError && (
+                <button
+                  onClick={retryKeyCheck}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded"
+                >
+                  Retry
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   // Check if we're in /dashboard with no subpath
   const isDashboardRoot = location.pathname === "/dashboard";
 
@@ -71,6 +178,9 @@ export default function Dashboard() {
           <Routes>
             <Route path="/server/:serverId/*" element={<ServerView />} />
             <Route path="/friends" element={<Friends />} />
+            <Route path="/mentions" element={<MentionsInbox />} />
+            <Route path="/search" element={<MessageSearch />} />
+            <Route path="/message/:messageId" element={<MessageLink />} />
             <Route
               path="/dm"
               element={
@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Smartphone, AlertTriangle } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import { listDevices, getThisDeviceId, UserDevice } from '../services/deviceService';
+import { revokeDevice } from '../services/keyRotationService';
+
+export default function DevicesSettings() {
+  const { session } = useAuthStore();
+  const [devices, setDevices] = useState<UserDevice[]>([]);
+  const [thisDeviceId, setThisDeviceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [deviceToRevoke, setDeviceToRevoke] = useState<UserDevice | null>(null);
+  const [password, setPassword] = useState('');
+  const [revoking, setRevoking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchDevices = useCallback(async () => {
+    if (!session?.user) return;
+
+    try {
+      const [deviceList, deviceId] = await Promise.all([
+        listDevices(session.user.id),
+        getThisDeviceId(session.user.id),
+      ]);
+      setDevices(deviceList);
+      setThisDeviceId(deviceId);
+    } catch (err) {
+      console.error('Error loading devices:', err);
+      setError('Failed to load your devices');
+    } finally {
+      setLoading(false);
+    }
+  }, [session]);
+
+  useEffect(() => {
+    fetchDevices();
+  }, [fetchDevices]);
+
+  const handleRevoke = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!deviceToRevoke) return;
+
+    setRevoking(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const result = await revokeDevice(deviceToRevoke.id, password);
+      setSuccess(
+        `${deviceToRevoke.name} was revoked. Your keys were rotated to version ${result.keyVersion} ` +
+        `and ${result.rotatedChannels} channel key(s) were replaced.`
+      );
+      setDeviceToRevoke(null);
+      setPassword('');
+      fetchDevices();
+    } catch (err) {
+      console.error('Error revoking device:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke device');
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : 'Never');
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-700">
+      <h3 className="text-sm font-semibold text-white flex items-center mb-2">
+        <Smartphone className="h-4 w-4 mr-2" />
+        Devices
+      </h3>
+      <p className="text-xs text-gray-400 mb-3">
+        Browsers where you have unlocked encryption. Revoke any device you have lost or no longer use.
+      </p>
+
+      {loading ? (
+        <div className="text-sm text-gray-400">Loading devices...</div>
+      ) : devices.length === 0 ? (
+        <div className="text-sm text-gray-400">No devices have been enrolled yet.</div>
+      ) : (
+        <ul className="space-y-2">
+          {devices.map(device => (
+            <li
+              key={device.id}
+              className={`flex items-center justify-between bg-gray-700 rounded-md px-3 py-2 ${
+                device.revoked_at ? 'opacity-50' : ''
+              }`}
+            >
+              <div>
+                <div className="text-sm text-white flex items-center">
+                  {device.name}
+                  {device.id === thisDeviceId && (
+                    <span className="ml-2 text-xs bg-indigo-600 text-white px-1.5 py-0.5 rounded">This device</span>
+                  )}
+                  {device.revoked_at && (
+                    <span className="ml-2 text-xs bg-red-600 text-white px-1.5 py-0.5 rounded">Revoked</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-400">
+                  Added {formatDate(device.created_at)} · Last used {formatDate(device.last_seen_at)}
+                </div>
+              </div>
+              {!device.revoked_at && device.id !== thisDeviceId && (
+                <button
+                  onClick={() => {
+                    setDeviceToRevoke(device);
+                    setError(null);
+                    setSuccess(null);
+                  }}
+                  className="text-xs text-red-400 hover:text-red-300"
+                >
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {deviceToRevoke && (
+        <form onSubmit={handleRevoke} className="mt-3 space-y-3">
+          <div className="p-3 bg-red-900 bg-opacity-30 rounded-md border border-red-700 text-sm text-red-300 flex items-start">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-red-500" />
+            <p>
+              Revoking <strong>{deviceToRevoke.name}</strong> rotates your identity key and the keys of every
+              channel you belong to, so the device cannot read anything sent from now on.
+            </p>
+          </div>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            placeholder="Encryption password"
+            required
+          />
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => {
+                setDeviceToRevoke(null);
+                setPassword('');
+              }}
+              className="px-4 py-2 mr-2 text-sm font-medium text-gray-300 hover:text-white"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={revoking || !password}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {revoking ? 'Revoking...' : 'Revoke Device'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="mt-3 text-red-500 text-sm p-2 bg-red-500 bg-opacity-10 rounded">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mt-3 text-green-500 text-sm p-2 bg-green-500 bg-opacity-10 rounded">
+          {success}
+        </div>
+      )}
+    </div>
+  );
+}
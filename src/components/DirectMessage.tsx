@@ -2,42 +2,68 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../stores/authStore';
-import { Send, AlertCircle, RefreshCw, ArrowLeft, Lock, Edit, Trash, X, Check } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
-import { encryptMessage, decryptMessage } from '../services/serverEncryptionService';
-
-interface Message {
-  id: string;
-  sender_id: string;
-  encrypted_content: string;
-  iv: string;
-  created_at: string;
-  updated_at?: string;
-  sender_username: string;
-  sender_display_name: string | null;
-  is_encrypted: boolean;
-}
-
-interface Friend {
-  id: string;
-  username: string;
-  display_name: string | null;
-}
+import { Send, AlertCircle, RefreshCw, ArrowLeft, Lock, Edit, Trash, X, Check, ShieldCheck, ShieldAlert, Paperclip, ArrowDown, Loader2, CornerUpLeft, Forward, SmilePlus, Link2, Pin, PinOff } from 'lucide-react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import {
+  ENVELOPE_ENCRYPTION_VERSION,
+  AttachmentReference,
+  MessageBody,
+  MessageQuote,
+  createMessageQuote,
+  encodeEnvelope
+} from '../lib/messageEnvelope';
+import { ConversationMessage } from '../services/directMessageService';
+import { sealDirectMessage } from '../services/encryptionPolicyService';
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  PreparedAttachment,
+  deleteAttachments,
+  prepareAttachment,
+  uploadAttachments
+} from '../services/attachmentService';
+import { summarizeReactions } from '../services/reactionService';
+import { getMessageLink } from '../services/messageLinkService';
+import { useDirectMessages } from '../hooks/useDirectMessages';
+import SafetyNumberModal from './SafetyNumberModal';
+import MessageAttachments from './MessageAttachments';
+import PendingAttachments from './PendingAttachments';
+import QuotedMessage from './QuotedMessage';
+import FormattedMessage from './FormattedMessage';
+import MessageComposer from './MessageComposer';
+import MessagePreview from './MessagePreview';
+import ForwardMessageModal from './ForwardMessageModal';
+import MessageReactions from './MessageReactions';
+import PinnedMessagesPanel from './PinnedMessagesPanel';
 
 export default function DirectMessage() {
   const { friendId } = useParams();
-  const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [sendError, setSendError] = useState<string | null>(null);
+  // A message that could not be sent, kept so it can be retried
+  const [failedSend, setFailedSend] = useState<{
+    content: string;
+    attachments: AttachmentReference[];
+    replyTo?: MessageQuote;
+    error: string;
+  } | null>(null);
   const [isSending, setIsSending] = useState(false);
+  // Files picked for the next message, stripped but not yet encrypted or uploaded
+  const [pendingAttachments, setPendingAttachments] = useState<PreparedAttachment[]>([]);
   const { session } = useAuthStore();
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [friend, setFriend] = useState<Friend | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // The message the next one replies to, quoted above the composer
+  const [replyingTo, setReplyingTo] = useState<ConversationMessage | null>(null);
+  // The message being forwarded, with who first sent it
+  const [forwarding, setForwarding] = useState<MessageBody | null>(null);
+  // Which message's link was just copied
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
+  // The message whose reaction picker is open
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
   const navigate = useNavigate();
-  const conversationId = session?.user ? 
-    [session.user.id, friendId].sort().join('-') : null;
+  const location = useLocation();
 
   // Message editing states
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
@@ -45,255 +71,268 @@ export default function DirectMessage() {
   const [editingLoading, setEditingLoading] = useState(false);
   const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null);
 
-  // Scroll to bottom of messages
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
-
-  // Fetch friend's details
-  const fetchFriendDetails = async () => {
-    if (!friendId || !session?.user) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, username, display_name')
-        .eq('id', friendId)
-        .single();
+  const {
+    messages,
+    loading,
+    error,
+    friend,
+    friendHasKey,
+    verificationStatus,
+    setVerificationStatus,
+    hasOlderMessages,
+    loadingOlder,
+    hasNewerMessages,
+    loadingNewer,
+    showJumpToPresent,
+    highlightedMessageId,
+    reactions,
+    pinnedMessages,
+    pinsOpen,
+    setPinsOpen,
+    pinsLoading,
+    pinsError,
+    fetchMessages,
+    handleScroll,
+    jumpToPresent,
+    jumpToMessage,
+    applyMessageChange,
+    showSendingMessage,
+    removeUnsentMessage,
+    removeMessage,
+    togglePin,
+    unpin,
+    toggleReaction
+  } = useDirectMessages({
+    friendId,
+    userId: session?.user?.id,
+    // Opened from a link or search: go to the message once it has loaded
+    jumpToMessageId: (location.state as { jumpToMessageId?: string } | null)?.jumpToMessageId,
+    scrollContainerRef,
+    messagesEndRef,
+    reportError: setSendError
+  });
 
-      if (error) throw error;
+  // Start the composer afresh when opening another conversation
+  useEffect(() => {
+    setReplyingTo(null);
+    setForwarding(null);
+    setReactionPickerFor(null);
+    setFailedSend(null);
+    setPendingAttachments([]);
+  }, [friendId]);
 
-      setFriend(data);
-    } catch (err) {
-      console.error('Error fetching friend details:', err);
-      setError('Failed to load friend information');
-    }
+  const jumpToPinnedMessage = (messageId: string) => {
+    // The panel covers the conversation on small screens
+    if (window.innerWidth < 768) setPinsOpen(false);
+    jumpToMessage(messageId);
   };
 
-  // Verify friendship
-  const verifyFriendship = async () => {
-    if (!friendId || !session?.user) return false;
-
+  const copyMessageLink = async (messageId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('friends')
-        .select('status')
-        .or(`and(user_id1.eq.${session.user.id},user_id2.eq.${friendId}),and(user_id1.eq.${friendId},user_id2.eq.${session.user.id})`)
-        .eq('status', 'accepted')
-        .single();
-
-      if (error || !data) {
-        setError('You are not friends with this user');
-        return false;
-      }
-
-      return true;
+      await navigator.clipboard.writeText(getMessageLink(messageId));
+      setCopiedLinkId(messageId);
+      window.setTimeout(() => setCopiedLinkId(current => (current === messageId ? null : current)), 2000);
     } catch (err) {
-      console.error('Error verifying friendship:', err);
-      setError('Failed to verify friendship status');
-      return false;
+      console.error('Error copying message link:', err);
+      setSendError('Failed to copy the message link');
     }
   };
 
-  const fetchMessages = async () => {
-    if (!friendId || !session?.user || !conversationId) return;
-    
-    setLoading(true);
-    setError(null);
-    
-    try {
-      const isValidFriend = await verifyFriendship();
-      if (!isValidFriend) {
-        setLoading(false);
-        return;
-      }
-  
-      // Get the direct messages between the two users
-      const { data, error } = await supabase
-        .from('direct_messages')
-        .select(`
-          id,
-          sender_id,
-          encrypted_content,
-          iv,
-          created_at,
-          updated_at,
-          is_encrypted,
-          encryption_version,
-          sender:users!sender_id (
-            username,
-            display_name
-          )
-        `)
-        .or(`and(sender_id.eq.${session.user.id},receiver_id.eq.${friendId}),and(sender_id.eq.${friendId},receiver_id.eq.${session.user.id})`)
-        .order('created_at');
-      
-      if (error) {
-        console.error('Error fetching messages:', error);
-        setError(`Failed to load messages: ${error.message}`);
-        return;
-      }
-      
-      if (data) {
-        // Transform data to include sender info and decrypt messages
-        const formattedMessages = await Promise.all(data.map(async (message) => {
-          let displayContent = message.encrypted_content;
-          
-          // If the message is encrypted, try to decrypt it
-          if (message.is_encrypted) {
-            try {
-              // Use the conversationId as the entity ID for encryption/decryption
-              displayContent = await decryptMessage(
-                conversationId,
-                message.encrypted_content,
-                message.iv
-              );
-            } catch (decryptError) {
-              console.error('Decryption error:', decryptError);
-              displayContent = `🔒 [Encrypted message - cannot decrypt]`;
-            }
-          }
-          
-          return {
-            id: message.id,
-            sender_id: message.sender_id,
-            encrypted_content: displayContent,
-            iv: message.iv,
-            created_at: message.created_at,
-            updated_at: message.updated_at,
-            sender_username: message.sender?.username || 'Unknown User',
-            sender_display_name: message.sender?.display_name || null,
-            is_encrypted: message.is_encrypted || false
-          };
-        }));
-        
-        setMessages(formattedMessages);
-        setTimeout(scrollToBottom, 100);
+  const startReply = (message: ConversationMessage) => {
+    setReplyingTo(message);
+    setEditingMessageId(null);
+  };
 
-        await supabase
-        .from('direct_messages')
-        .update({ read: true })
-        .eq('receiver_id', session.user.id)
-        .eq('sender_id', friendId)
-        .eq('read', false);
+  const startForward = (message: ConversationMessage) => {
+    setForwarding({
+      text: message.encrypted_content,
+      attachments: message.attachments,
+      // A message forwarded again keeps its original sender
+      forwardedFrom: message.forwarded_from || {
+        senderId: message.sender_id,
+        senderName: message.sender_display_name || message.sender_username,
+        sentAt: message.created_at
       }
-    } catch (err) {
-      console.error('Unexpected error fetching messages:', err);
-      setError('An unexpected error occurred while loading messages');
-    } finally {
-      setLoading(false);
-    }
+    });
   };
 
-  useEffect(() => {
-    if (!friendId || !session?.user) return;
-
-    fetchFriendDetails();
-    fetchMessages();
-
-    // Subscribe to new messages
-    const directMessageChannel = supabase
-      .channel(`direct_messages:${session.user.id}:${friendId}`)
-      .on('postgres_changes', { 
-        event: 'INSERT', 
-        schema: 'public', 
-        table: 'direct_messages',
-        filter: `or(and(sender_id=eq.${session.user.id},receiver_id=eq.${friendId}),and(sender_id=eq.${friendId},receiver_id=eq.${session.user.id}))`
-      }, () => {
-        fetchMessages();
-      })
-      .on('postgres_changes', { 
-        event: 'UPDATE', 
-        schema: 'public', 
-        table: 'direct_messages',
-        filter: `or(and(sender_id=eq.${session.user.id},receiver_id=eq.${friendId}),and(sender_id=eq.${friendId},receiver_id=eq.${session.user.id}))`
-      }, () => {
-        fetchMessages();
-      })
-      .on('postgres_changes', { 
-        event: 'DELETE', 
-        schema: 'public', 
-        table: 'direct_messages',
-        filter: `or(and(sender_id=eq.${session.user.id},receiver_id=eq.${friendId}),and(sender_id=eq.${friendId},receiver_id=eq.${session.user.id}))`
-      }, () => {
-        fetchMessages();
-      })
-      .subscribe();
-
-    return () => {
-      directMessageChannel.unsubscribe();
-    };
-  }, [friendId, session, conversationId]);
-
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newMessage.trim() || !friendId || !session?.user || !conversationId) return;
+  const sendMessage = async (
+    content: string,
+    attachments: AttachmentReference[] = [],
+    replyTo?: MessageQuote
+  ) => {
+    if ((!content.trim() && attachments.length === 0) || !friendId || !session?.user) return;
   
     setIsSending(true);
     setSendError(null);
+    
+    const messageId = crypto.randomUUID();
   
     try {
-      let encryptedContent = newMessage;
-      let ivString = 'unencrypted';
-      let isEncrypted = false;
+      // The id is chosen up front so the sender can cache the plaintext before the insert.
+      // If encryption fails nothing is sent.
+      const envelope = await sealDirectMessage(session.user.id, friendId, messageId, {
+        text: content,
+        attachments,
+        replyTo
+      });
       
-      // Always encrypt direct messages
-      const encryptResult = await encryptMessage(conversationId, newMessage);
-      encryptedContent = encryptResult.encrypted;
-      ivString = encryptResult.iv;
-      isEncrypted = ivString !== 'unencrypted';
+      // Show the message straight away; it is replaced by the stored copy once sent
+      const ownMessage = messages.find(message => message.sender_id === session.user.id);
+      showSendingMessage({
+        id: messageId,
+        sender_id: session.user.id,
+        encrypted_content: content,
+        iv: null,
+        created_at: new Date().toISOString(),
+        sender_username: ownMessage?.sender_username || session.user.email || 'You',
+        sender_display_name: ownMessage?.sender_display_name || null,
+        is_encrypted: true,
+        attachments: attachments.length > 0 ? attachments : undefined,
+        reply_to: replyTo,
+        pending: true
+      });
   
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from('direct_messages')
         .insert({
+          id: messageId,
           sender_id: session.user.id,
           receiver_id: friendId,
-          encrypted_content: encryptedContent,
-          iv: ivString,
-          is_encrypted: isEncrypted,
-          encryption_version: 2 // Using server-side encryption
+          encrypted_content: encodeEnvelope(envelope),
+          iv: null,
+          is_encrypted: true,
+          encryption_version: ENVELOPE_ENCRYPTION_VERSION
         })
         .select()
         .single();
   
       if (error) {
         console.error('Error sending message:', error);
-        setSendError(`Failed to send message: ${error.message}`);
+        removeUnsentMessage(messageId);
+        setFailedSend({ content, attachments, replyTo, error: `Failed to send message: ${error.message}` });
         return;
       }
       
-      setNewMessage('');
-      
-      // Refresh messages after sending
-      fetchMessages();
+      setFailedSend(null);
+      // Keep anything typed since a retried message was first sent
+      setNewMessage(current => (current === content ? '' : current));
+      applyMessageChange(messageId, true);
     } catch (err) {
       console.error('Unexpected error sending message:', err);
-      setSendError('An unexpected error occurred while sending your message');
+      removeUnsentMessage(messageId);
+      setFailedSend({
+        content,
+        attachments,
+        replyTo,
+        error: err instanceof Error ? err.message : 'An unexpected error occurred while sending your message'
+      });
     } finally {
       setIsSending(false);
     }
   };
 
+  const handleSendMessage = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!friendId || !session?.user || isSending || (!newMessage.trim() && pendingAttachments.length === 0)) return;
+
+    let attachments: AttachmentReference[] = [];
+    if (pendingAttachments.length > 0) {
+      setIsSending(true);
+      setSendError(null);
+      try {
+        attachments = await uploadAttachments(pendingAttachments, {
+          kind: 'dm',
+          userIds: [session.user.id, friendId]
+        });
+      } catch (err) {
+        console.error('Error uploading attachments:', err);
+        setSendError(err instanceof Error ? err.message : 'Failed to upload attachments');
+        setIsSending(false);
+        return;
+      }
+      // The uploaded files now go with this message, or with the failed send if it fails
+      setPendingAttachments([]);
+    }
+
+    // The quote also goes with this message, or with the failed send
+    const replyTo = replyingTo
+      ? createMessageQuote(
+          {
+            id: replyingTo.id,
+            senderId: replyingTo.sender_id,
+            senderName: replyingTo.sender_display_name || replyingTo.sender_username
+          },
+          { text: replyingTo.encrypted_content, attachments: replyingTo.attachments }
+        )
+      : undefined;
+    setReplyingTo(null);
+
+    await sendMessage(newMessage, attachments, replyTo);
+  };
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    if (pendingAttachments.length + files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      setSendError(`A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`);
+      return;
+    }
+
+    setSendError(null);
+    try {
+      const prepared = await Promise.all(files.map(prepareAttachment));
+      setPendingAttachments(current => [...current, ...prepared]);
+    } catch (err) {
+      console.error('Error preparing attachment:', err);
+      setSendError(err instanceof Error ? err.message : 'The file could not be attached');
+    }
+  };
+
+  const dismissFailedSend = () => {
+    // Files uploaded for a message that will not be sent are removed again
+    if (failedSend) deleteAttachments(failedSend.attachments);
+    setFailedSend(null);
+  };
+
   const handleEditMessage = async (messageId: string, content: string) => {
     setEditingMessageId(messageId);
     setEditContent(content);
   };
 
   const handleSaveEdit = async () => {
-    if (!editingMessageId || !conversationId || !editContent.trim()) return;
+    if (!editingMessageId || editingLoading || !friendId || !session?.user) return;
+    
+    // Edits change the text; the attachments, quote and forwarding details stay as they were
+    const original = messages.find(message => message.id === editingMessageId);
+    const attachments = original?.attachments;
+    if (!editContent.trim() && !attachments?.length) return;
     
     setEditingLoading(true);
     
     try {
       // Encrypt the edited message
-      const encryptResult = await encryptMessage(conversationId, editContent);
+      const envelope = await sealDirectMessage(session.user.id, friendId, editingMessageId, {
+        text: editContent,
+        attachments,
+        replyTo: original?.reply_to,
+        forwardedFrom: original?.forwarded_from
+      });
       
+      // The older columns are cleared; the envelope carries the key versions and signature
       const { error } = await supabase
         .from('direct_messages')
         .update({
-          encrypted_content: encryptResult.encrypted,
-          iv: encryptResult.iv,
-          is_encrypted: encryptResult.iv !== 'unencrypted',
+          encrypted_content: encodeEnvelope(envelope),
+          iv: null,
+          is_encrypted: true,
+          encryption_version: ENVELOPE_ENCRYPTION_VERSION,
+          kdf_salt: null,
+          sender_key_version: null,
+          recipient_key_version: null,
+          signature: null,
           updated_at: new Date().toISOString()
         })
         .eq('id', editingMessageId)
@@ -308,11 +347,11 @@ export default function DirectMessage() {
       setEditingMessageId(null);
       setEditContent('');
       
-      // Refresh messages after edit
-      fetchMessages();
+      // Show the edit without waiting for realtime
+      applyMessageChange(editingMessageId, false);
     } catch (err) {
       console.error('Unexpected error editing message:', err);
-      setSendError('An unexpected error occurred while editing your message');
+      setSendError(err instanceof Error ? err.message : 'An unexpected error occurred while editing your message');
     } finally {
       setEditingLoading(false);
     }
@@ -321,6 +360,8 @@ export default function DirectMessage() {
   const handleDeleteMessage = async (messageId: string) => {
     if (!confirm('Are you sure you want to delete this message?')) return;
     
+    const attachments = messages.find(message => message.id === messageId)?.attachments;
+    
     try {
       const { error } = await supabase
         .from('direct_messages')
@@ -334,8 +375,9 @@ export default function DirectMessage() {
         return;
       }
       
-      // Refresh messages after delete
-      fetchMessages();
+      if (attachments) deleteAttachments(attachments);
+      
+      removeMessage(messageId);
     } catch (err) {
       console.error('Unexpected error deleting message:', err);
       setSendError('An unexpected error occurred while deleting your message');
@@ -367,58 +409,10 @@ export default function DirectMessage() {
     }) + ' at ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  useEffect(() => {
-    if (friendId && session?.user) {
-      const markAllMessagesAsRead = async () => {
-        try {
-          // Get all unread messages from this friend
-          const { data: unreadMessages } = await supabase
-            .from('direct_messages')
-            .select('id')
-            .eq('sender_id', friendId)
-            .eq('receiver_id', session.user.id);
-
-          if (unreadMessages && unreadMessages.length > 0) {
-            // Get messages that are already marked as read
-            const { data: alreadyRead } = await supabase
-              .from('dm_read_status')
-              .select('message_id')
-              .eq('user_id', session.user.id)
-              .in('message_id', unreadMessages.map(m => m.id));
-
-            const alreadyReadIds = alreadyRead?.map(r => r.message_id) || [];
-            const messagesToMarkAsRead = unreadMessages
-              .filter(m => !alreadyReadIds.includes(m.id))
-              .map(m => ({
-                user_id: session.user.id,
-                message_id: m.id,
-                read_at: new Date().toISOString()
-              }));
-
-            if (messagesToMarkAsRead.length > 0) {
-              const { error } = await supabase
-                .from('dm_read_status')
-                .insert(messagesToMarkAsRead);
-              
-              if (error) {
-                console.error('Error marking messages as read:', error);
-              } else {
-                // Trigger a refresh of the DirectMessagesList
-                window.dispatchEvent(new Event('refresh-dm-list'));
-              }
-            }
-          }
-        } catch (err) {
-          console.error('Failed to mark messages as read:', err);
-        }
-      };
-      
-      markAllMessagesAsRead();
-    }
-  }, [friendId, session]);
+  const pinnedMessageIds = new Set(pinnedMessages.map(item => item.pin.messageId));
 
   return (
-    <div className="flex flex-col h-full">
+    <div className="flex flex-col h-full relative">
       {/* Header */}
       <div className="px-4 py-3 bg-gray-800 border-b border-gray-700 flex items-center">
         <button 
@@ -436,10 +430,38 @@ export default function DirectMessage() {
             <h3 className="font-medium text-white">{friend.display_name || friend.username}</h3>
             
             {/* Show encryption badge */}
-            <div className="ml-2 flex items-center text-green-400 text-xs">
-              <Lock className="h-3 w-3 mr-1" />
-              <span>Encrypted</span>
-            </div>
+            {verificationStatus === 'changed' ? (
+              <button
+                onClick={() => setShowSafetyNumber(true)}
+                className="ml-2 flex items-center text-red-400 hover:text-red-300 text-xs font-semibold"
+              >
+                <ShieldAlert className="h-3 w-3 mr-1" />
+                <span>Key changed</span>
+              </button>
+            ) : friendHasKey === false ? (
+              <div className="ml-2 flex items-center text-yellow-400 text-xs">
+                <AlertCircle className="h-3 w-3 mr-1" />
+                <span>No encryption key</span>
+              </div>
+            ) : (
+              <div className="ml-2 flex items-center text-green-400 text-xs">
+                <Lock className="h-3 w-3 mr-1" />
+                <span>Encrypted</span>
+              </div>
+            )}
+
+            {friendHasKey && verificationStatus !== 'changed' && (
+              <button
+                onClick={() => setShowSafetyNumber(true)}
+                className={`ml-2 flex items-center text-xs ${
+                  verificationStatus === 'verified' ? 'text-green-400' : 'text-gray-400 hover:text-white'
+                }`}
+                title="View safety number"
+              >
+                <ShieldCheck className="h-3 w-3 mr-1" />
+                <span>{verificationStatus === 'verified' ? 'Verified' : 'Verify'}</span>
+              </button>
+            )}
           </>
         ) : (
           <div className="h-8 w-32 bg-gray-700 animate-pulse rounded-md"></div>
@@ -457,10 +479,52 @@ export default function DirectMessage() {
             </button>
           </div>
         )}
+
+        <button
+          onClick={() => setPinsOpen(!pinsOpen)}
+          className={`${error ? 'ml-4' : 'ml-auto'} flex items-center text-sm ${
+            pinsOpen ? 'text-white' : 'text-gray-400 hover:text-white'
+          }`}
+          title="Pinned messages"
+        >
+          <Pin className="h-4 w-4" />
+          {pinnedMessages.length > 0 && <span className="ml-1">{pinnedMessages.length}</span>}
+        </button>
       </div>
 
+      {/* Loud warning when a verified contact's key changes */}
+      {verificationStatus === 'changed' && friend && (
+        <div className="px-4 py-3 bg-red-900 bg-opacity-40 border-b border-red-700 flex items-start text-sm text-red-200">
+          <ShieldAlert className="h-5 w-5 mr-2 flex-shrink-0 text-red-500" />
+          <div className="flex-1">
+            <strong>{friend.display_name || friend.username}'s encryption key has changed.</strong>{' '}
+            You verified a different key for this contact. Compare safety numbers again before sending anything sensitive.
+          </div>
+          <button
+            onClick={() => setShowSafetyNumber(true)}
+            className="ml-2 px-2 py-1 bg-red-700 hover:bg-red-600 text-white rounded text-xs flex-shrink-0"
+          >
+            Review
+          </button>
+        </div>
+      )}
+
       {/* Messages area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto p-4 space-y-4"
+      >
+        {loadingOlder && (
+          <div className="flex justify-center text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        )}
+        {!loading && !hasOlderMessages && messages.length > 0 && friend && (
+          <div className="text-center text-xs text-gray-500">
+            This is the beginning of your conversation with {friend.display_name || friend.username}
+          </div>
+        )}
         {loading ? (
           <div className="flex justify-center items-center h-full">
             <div className="text-gray-400">Loading messages...</div>
@@ -473,8 +537,11 @@ export default function DirectMessage() {
           messages.map((message) => (
             <div 
               key={message.id} 
-              className={`flex items-start ${
+              id={`message-${message.id}`}
+              className={`flex items-start rounded transition-colors ${
                 message.sender_id === session?.user?.id ? 'justify-end' : ''
+              } ${message.pending ? 'opacity-60' : ''} ${
+                highlightedMessageId === message.id ? 'bg-indigo-500 bg-opacity-20' : ''
               }`}
               onMouseEnter={() => setSelectedMessageId(message.id)}
               onMouseLeave={() => setSelectedMessageId(null)}
@@ -504,24 +571,56 @@ export default function DirectMessage() {
                       {formatTime(message.created_at)}
                     </span>
                     {message.is_encrypted && (
-                      <span className="ml-2 text-xs text-green-300 flex items-center">
-                        <Lock className="h-3 w-3 mr-1" />
-                      </span>
+                      message.signature_status === 'verified' ? (
+                        <span className="ml-2 text-xs text-green-300 flex items-center" title="Encrypted">
+                          <Lock className="h-3 w-3 mr-1" />
+                        </span>
+                      ) : (
+                        <span
+                          className="ml-2 text-xs text-yellow-300 flex items-center"
+                          title="This message is not signed by its sender's key. It may have been sent by someone else."
+                        >
+                          <ShieldAlert className="h-3 w-3 mr-1" />
+                          Unverified sender
+                        </span>
+                      )
                     )}
                     {message.updated_at && message.updated_at !== message.created_at && (
                       <span className="ml-2 text-xs text-gray-300 italic">
                         (edited)
                       </span>
                     )}
+                    {pinnedMessageIds.has(message.id) && (
+                      <span className="ml-2 text-xs text-gray-300 flex items-center" title="Pinned">
+                        <Pin className="h-3 w-3" />
+                      </span>
+                    )}
                   </div>
                 )}
+
+                {message.forwarded_from && (
+                  <div className="mb-1 flex items-center text-xs text-gray-300 italic">
+                    <Forward className="h-3 w-3 mr-1" />
+                    Forwarded from {message.forwarded_from.senderName}
+                  </div>
+                )}
+                {message.reply_to && (
+                  <QuotedMessage quote={message.reply_to} onJump={jumpToMessage} />
+                )}
                 
                 {editingMessageId === message.id ? (
                   <div className="mt-1">
-                    <input
-                      type="text"
+                    <MessageComposer
                       value={editContent}
-                      onChange={(e) => setEditContent(e.target.value)}
+                      onChange={value => setEditContent(value)}
+                      onSubmit={handleSaveEdit}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Escape') {
+                          e.preventDefault();
+                          setEditingMessageId(null);
+                          setEditContent('');
+                        }
+                      }}
                       className="w-full bg-gray-700 text-white rounded-md px-3 py-1 text-sm"
                       autoFocus
                     />
@@ -545,7 +644,23 @@ export default function DirectMessage() {
                     </div>
                   </div>
                 ) : (
-                  <p className="text-gray-100">{message.encrypted_content}</p>
+                  <>
+                    {message.encrypted_content && (
+                      <FormattedMessage text={message.encrypted_content} className="text-gray-100" />
+                    )}
+                    {message.attachments && (
+                      <MessageAttachments attachments={message.attachments} />
+                    )}
+                  </>
+                )}
+                {session?.user && !message.pending && (
+                  <MessageReactions
+                    reactions={summarizeReactions(reactions[message.id] || [], session.user.id)}
+                    pickerOpen={reactionPickerFor === message.id}
+                    onToggle={emoji => toggleReaction(message.id, emoji)}
+                    onOpenPicker={() => setReactionPickerFor(message.id)}
+                    onClosePicker={() => setReactionPickerFor(null)}
+                  />
                 )}
                 
                 {message.sender_id === session?.user?.id && (
@@ -553,9 +668,26 @@ export default function DirectMessage() {
                     <span className="text-xs text-gray-300">
                       {formatTime(message.created_at)}
                     </span>
-                    {message.is_encrypted && (
-                      <span className="ml-2 text-xs text-green-300 flex inline-flex items-center">
-                        <Lock className="h-3 w-3 ml-1" />
+                    {message.pending ? (
+                      <span className="ml-2 text-xs text-gray-300 italic">Sending...</span>
+                    ) : message.is_encrypted && (
+                      message.signature_status === 'verified' ? (
+                        <span className="ml-2 text-xs text-green-300 flex inline-flex items-center" title="Encrypted">
+                          <Lock className="h-3 w-3 ml-1" />
+                        </span>
+                      ) : (
+                        <span
+                          className="ml-2 text-xs text-yellow-300 inline-flex items-center"
+                          title="This message is not signed by its sender's key. It may have been sent by someone else."
+                        >
+                          <ShieldAlert className="h-3 w-3 ml-1 mr-1" />
+                          Unverified sender
+                        </span>
+                      )
+                    )}
+                    {pinnedMessageIds.has(message.id) && (
+                      <span className="ml-2 text-xs text-gray-300 inline-flex items-center" title="Pinned">
+                        <Pin className="h-3 w-3" />
                       </span>
                     )}
                   </div>
@@ -563,22 +695,69 @@ export default function DirectMessage() {
               </div>
               
               {/* Message actions */}
-              {message.sender_id === session?.user?.id && selectedMessageId === message.id && editingMessageId !== message.id && (
+              {selectedMessageId === message.id && editingMessageId !== message.id && !message.pending && (
                 <div className="flex items-center space-x-1 ml-2">
                   <button
-                    onClick={() => handleEditMessage(message.id, message.encrypted_content)}
+                    onClick={() => setReactionPickerFor(message.id)}
+                    className="p-1 text-gray-400 hover:text-white"
+                    title="Add reaction"
+                  >
+                    <SmilePlus className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => startReply(message)}
+                    className="p-1 text-gray-400 hover:text-white"
+                    title="Reply"
+                  >
+                    <CornerUpLeft className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => startForward(message)}
                     className="p-1 text-gray-400 hover:text-white"
-                    title="Edit message"
+                    title="Forward"
                   >
-                    <Edit className="h-4 w-4" />
+                    <Forward className="h-4 w-4" />
                   </button>
                   <button
-                    onClick={() => handleDeleteMessage(message.id)}
-                    className="p-1 text-gray-400 hover:text-red-400"
-                    title="Delete message"
+                    onClick={() => togglePin(message)}
+                    className="p-1 text-gray-400 hover:text-white"
+                    title={pinnedMessageIds.has(message.id) ? 'Unpin message' : 'Pin message'}
                   >
-                    <Trash className="h-4 w-4" />
+                    {pinnedMessageIds.has(message.id) ? (
+                      <PinOff className="h-4 w-4" />
+                    ) : (
+                      <Pin className="h-4 w-4" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => copyMessageLink(message.id)}
+                    className="p-1 text-gray-400 hover:text-white"
+                    title={copiedLinkId === message.id ? 'Link copied' : 'Copy link'}
+                  >
+                    {copiedLinkId === message.id ? (
+                      <Check className="h-4 w-4 text-green-400" />
+                    ) : (
+                      <Link2 className="h-4 w-4" />
+                    )}
                   </button>
+                  {message.sender_id === session?.user?.id && (
+                    <>
+                      <button
+                        onClick={() => handleEditMessage(message.id, message.encrypted_content)}
+                        className="p-1 text-gray-400 hover:text-white"
+                        title="Edit message"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteMessage(message.id)}
+                        className="p-1 text-gray-400 hover:text-red-400"
+                        title="Delete message"
+                      >
+                        <Trash className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
                 </div>
               )}
               
@@ -590,35 +769,152 @@ export default function DirectMessage() {
             </div>
           ))
         )}
+        {loadingNewer && (
+          <div className="flex justify-center text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        )}
         <div ref={messagesEndRef} />
+        {(showJumpToPresent || hasNewerMessages) && (
+          <div className="sticky bottom-0 flex justify-center pointer-events-none">
+            <button
+              onClick={jumpToPresent}
+              className="pointer-events-auto flex items-center px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-full shadow-lg"
+            >
+              <ArrowDown className="h-4 w-4 mr-1" />
+              Jump to present
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Message input */}
       <div className="p-4 bg-gray-800 border-t border-gray-700">
+        {friendHasKey === false && friend && (
+          <div className="mb-2 text-yellow-300 text-sm p-2 bg-yellow-500 bg-opacity-10 rounded flex items-center">
+            <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+            {friend.display_name || friend.username} hasn't set up encryption yet. You'll be able to message them once they publish an encryption key.
+          </div>
+        )}
         {sendError && (
           <div className="mb-2 text-red-400 text-sm p-2 bg-red-500 bg-opacity-10 rounded flex items-center">
             <AlertCircle className="h-4 w-4 mr-2" />
             {sendError}
           </div>
         )}
-        <form onSubmit={handleSendMessage} className="flex items-center">
+        {failedSend && (
+          <div className="mb-2 text-red-400 text-sm p-2 bg-red-500 bg-opacity-10 rounded flex items-center">
+            <ShieldAlert className="h-4 w-4 mr-2 flex-shrink-0" />
+            <span className="flex-1">{failedSend.error}</span>
+            <button
+              onClick={() => sendMessage(failedSend.content, failedSend.attachments, failedSend.replyTo)}
+              disabled={isSending}
+              className="ml-2 flex items-center px-2 py-1 bg-red-600 hover:bg-red-700 text-white text-xs rounded disabled:opacity-50"
+            >
+              <RefreshCw className={`h-3 w-3 mr-1 ${isSending ? 'animate-spin' : ''}`} />
+              Retry
+            </button>
+            <button
+              onClick={dismissFailedSend}
+              className="ml-1 p-1 text-gray-400 hover:text-white"
+              title="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="mb-2 p-2 bg-gray-700 rounded flex items-center text-sm">
+            <CornerUpLeft className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+            <span className="text-gray-400 mr-1 flex-shrink-0">Replying to</span>
+            <span className="text-white font-medium mr-2 flex-shrink-0">
+              {replyingTo.sender_display_name || replyingTo.sender_username}
+            </span>
+            <span className="flex-1 text-gray-400 truncate">
+              {replyingTo.encrypted_content ||
+                (replyingTo.attachments?.length ? `📎 ${replyingTo.attachments[0].name}` : '')}
+            </span>
+            <button
+              onClick={() => setReplyingTo(null)}
+              className="ml-2 p-1 text-gray-400 hover:text-white"
+              title="Cancel reply"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        <MessagePreview text={newMessage} />
+        <PendingAttachments
+          attachments={pendingAttachments}
+          onRemove={index => setPendingAttachments(current => current.filter((_, i) => i !== index))}
+          disabled={isSending}
+        />
+        <form onSubmit={handleSendMessage} className="flex items-end">
           <input
-            type="text"
+            ref={fileInputRef}
+            type="file"
+            multiple
+            onChange={handleFilesSelected}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={
+              isSending || !friend || !!error || friendHasKey === false ||
+              pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE
+            }
+            className="mr-2 p-2 text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Attach files"
+          >
+            <Paperclip size={18} />
+          </button>
+          <MessageComposer
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
+            onChange={value => setNewMessage(value)}
+            onSubmit={handleSendMessage}
             placeholder={`Message ${friend ? (friend.display_name || friend.username) : '...'}`}
             className="flex-1 bg-gray-700 text-white placeholder-gray-400 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-            disabled={!friend || !!error}
+            disabled={!friend || !!error || friendHasKey === false}
           />
           <button
             type="submit"
-            disabled={!newMessage.trim() || isSending || !friend || !!error}
+            disabled={
+              (!newMessage.trim() && pendingAttachments.length === 0) ||
+              isSending || !friend || !!error || friendHasKey === false
+            }
             className="ml-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md p-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Send size={18} />
           </button>
         </form>
       </div>
+
+      {showSafetyNumber && friend && (
+        <SafetyNumberModal
+          contactId={friend.id}
+          contactName={friend.display_name || friend.username}
+          onClose={() => setShowSafetyNumber(false)}
+          onStatusChange={setVerificationStatus}
+        />
+      )}
+
+      {forwarding && (
+        <ForwardMessageModal body={forwarding} onClose={() => setForwarding(null)} />
+      )}
+
+      {pinsOpen && (
+        <PinnedMessagesPanel
+          pins={pinnedMessages}
+          loading={pinsLoading}
+          error={pinsError}
+          canUnpin
+          currentUserId={session?.user?.id}
+          onJump={jumpToPinnedMessage}
+          onUnpin={unpin}
+          onClose={() => setPinsOpen(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
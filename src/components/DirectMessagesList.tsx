@@ -1,17 +1,51 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../stores/authStore';
 import { MessageSquare, User, RefreshCw, AlertCircle } from 'lucide-react';
-import { decryptMessage } from '../services/serverEncryptionService';
+import { decodeStoredMessage, readMessageBody } from '../lib/messageEnvelope';
+import {
+  StoredDirectMessage,
+  decryptDirectMessage,
+  decryptDirectMessageEnvelope
+} from '../services/encryptionService';
+import {
+  RATCHET_DM_ENCRYPTION_VERSION,
+  decryptRatchetDirectMessage,
+  decryptLegacyRatchetDirectMessage
+} from '../services/doubleRatchetService';
 
-interface FriendInfo {
+interface FriendSummary {
+  last_message: string | null;
+  last_message_id: string | null;
+  last_message_time: string | null;
+  // Messages from the friend that have not been read yet
+  unread_ids: string[];
+}
+
+interface FriendInfo extends FriendSummary {
   id: string;
   username: string;
   display_name: string | null;
-  last_message: string | null;
-  last_message_time: string | null;
-  unread_count: number;
+}
+
+// The columns needed to decrypt a message for its preview
+const PREVIEW_COLUMNS = 'encrypted_content, iv, created_at, is_encrypted, encryption_version, kdf_salt, sender_key_version, recipient_key_version, sender_id, receiver_id, updated_at, id';
+
+interface PreviewMessage extends StoredDirectMessage {
+  id: string;
+  created_at: string;
+  updated_at: string | null;
+}
+
+// Most recent conversation first
+function sortByLastMessage(friends: FriendInfo[]): FriendInfo[] {
+  return [...friends].sort((a, b) => {
+    if (!a.last_message_time) return 1;
+    if (!b.last_message_time) return -1;
+    return new Date(b.last_message_time).getTime() - new Date(a.last_message_time).getTime();
+  });
 }
 
 export default function DirectMessagesList() {
@@ -21,6 +55,104 @@ export default function DirectMessagesList() {
   const { friendId } = useParams();
   const { session } = useAuthStore();
   const navigate = useNavigate();
+  // Read by the realtime handler, which outlives renders
+  const friendsRef = useRef<FriendInfo[]>([]);
+  const openFriendIdRef = useRef(friendId);
+
+  useEffect(() => {
+    friendsRef.current = friends;
+    openFriendIdRef.current = friendId;
+  }, [friends, friendId]);
+
+  // The preview shown for a message, decrypted if needed
+  const describeMessage = React.useCallback(async (messageData: PreviewMessage) => {
+    if (!session?.user) return '';
+
+    let displayContent = messageData.encrypted_content;
+    if (messageData.is_encrypted) {
+      try {
+        // Only the latest message is loaded, so there is no earlier envelope to compare against
+        const envelope = decodeStoredMessage(messageData, ['pairwise', 'ratchet'], null);
+        if (envelope) {
+          const body = readMessageBody(
+            envelope,
+            envelope.kid.kind === 'ratchet'
+              ? await decryptRatchetDirectMessage(messageData, envelope, session.user.id)
+              : await decryptDirectMessageEnvelope(messageData, envelope, session.user.id)
+          );
+          // Messages with only attachments are previewed by their first file name
+          displayContent = body.text || (body.attachments?.length ? `📎 ${body.attachments[0].name}` : '');
+        } else {
+          displayContent = (messageData.encryption_version || 1) >= RATCHET_DM_ENCRYPTION_VERSION
+            ? await decryptLegacyRatchetDirectMessage(messageData, session.user.id)
+            : await decryptDirectMessage(messageData, session.user.id);
+        }
+      } catch (error) {
+        console.error('Failed to decrypt message preview:', error);
+        displayContent = '🔒 [Encrypted message]';
+      }
+    }
+    
+    // Add prefix for messages sent by the current user
+    if (messageData.sender_id === session.user.id) {
+      displayContent = `You: ${displayContent}`;
+    }
+    
+    // Mark edited messages
+    if (messageData.updated_at && messageData.updated_at !== messageData.created_at) {
+      displayContent += ' (edited)';
+    }
+
+    return displayContent;
+  }, [session]);
+
+  // Load one friend's last message and which of their messages are unread
+  const fetchFriendSummary = React.useCallback(async (friendUserId: string): Promise<FriendSummary> => {
+    const summary: FriendSummary = {
+      last_message: null,
+      last_message_id: null,
+      last_message_time: null,
+      unread_ids: []
+    };
+    if (!session?.user) return summary;
+
+    // Get last message
+    const { data: messageData } = await supabase
+      .from('direct_messages')
+      .select(PREVIEW_COLUMNS)
+      .or(`and(sender_id.eq.${session.user.id},receiver_id.eq.${friendUserId}),and(sender_id.eq.${friendUserId},receiver_id.eq.${session.user.id})`)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (messageData) {
+      summary.last_message = await describeMessage(messageData);
+      summary.last_message_id = messageData.id;
+      summary.last_message_time = messageData.created_at;
+    }
+
+    // Get unread messages (messages from friend that current user hasn't seen)
+    const { data: sentMessages } = await supabase
+    .from('direct_messages')
+    .select('id')
+    .eq('sender_id', friendUserId)
+    .eq('receiver_id', session.user.id);
+
+    if (sentMessages) {
+      // Check which messages have been read
+      const messageIds = sentMessages.map(m => m.id);
+      const { data: readMessages } = await supabase
+        .from('dm_read_status')
+        .select('message_id')
+        .eq('user_id', session.user.id)
+        .in('message_id', messageIds);
+
+      const readMessageIds = readMessages?.map(r => r.message_id) || [];
+      summary.unread_ids = messageIds.filter(id => !readMessageIds.includes(id));
+    }
+
+    return summary;
+  }, [session, describeMessage]);
 
   // Memoize fetchFriends to avoid stale closure issues
   const fetchFriends = React.useCallback(async () => {
@@ -44,7 +176,7 @@ export default function DirectMessagesList() {
       if (friendsError) throw friendsError;
 
       // Transform the data
-      const friendsList = friendsData?.map(friendship => {
+      const friendsList = friendsData?.map((friendship): FriendInfo => {
         const friendUser = friendship.user_id1.id === session.user.id 
           ? friendship.user_id2 
           : friendship.user_id1;
@@ -54,91 +186,78 @@ export default function DirectMessagesList() {
           username: friendUser.username,
           display_name: friendUser.display_name,
           last_message: null,
+          last_message_id: null,
           last_message_time: null,
-          unread_count: 0
+          unread_ids: []
         };
       }) || [];
 
-      // For each friend, get their last message
+      // For each friend, get their last message and unread count
       for (const friend of friendsList) {
-        // Get last message
-        const { data: messageData } = await supabase
-          .from('direct_messages')
-          .select('encrypted_content, iv, created_at, is_encrypted, sender_id, updated_at, id')
-          .or(`and(sender_id.eq.${session.user.id},receiver_id.eq.${friend.id}),and(sender_id.eq.${friend.id},receiver_id.eq.${session.user.id})`)
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .single();
-
-        if (messageData) {
-          // Try to decrypt the message for preview
-          let displayContent = messageData.encrypted_content;
-          if (messageData.is_encrypted) {
-            try {
-              const conversationId = [session.user.id, friend.id].sort().join('-');
-              displayContent = await decryptMessage(
-                conversationId,
-                messageData.encrypted_content,
-                messageData.iv
-              );
-            } catch (error) {
-              console.error('Failed to decrypt message preview:', error);
-              displayContent = '🔒 [Encrypted message]';
-            }
-          }
-          
-          // Add prefix for messages sent by the current user
-          if (messageData.sender_id === session.user.id) {
-            displayContent = `You: ${displayContent}`;
-          }
-          
-          // Mark edited messages
-          if (messageData.updated_at && messageData.updated_at !== messageData.created_at) {
-            displayContent += ' (edited)';
-          }
-          
-          friend.last_message = displayContent;
-          friend.last_message_time = messageData.created_at;
-        }
-
-        // Get unread count (messages from friend that current user hasn't seen)
-        const { data: sentMessages } = await supabase
-        .from('direct_messages')
-        .select('id')
-        .eq('sender_id', friend.id)
-        .eq('receiver_id', session.user.id);
-
-        if (sentMessages) {
-          // Check which messages have been read
-          const messageIds = sentMessages.map(m => m.id);
-          const { data: readMessages } = await supabase
-            .from('dm_read_status')
-            .select('message_id')
-            .eq('user_id', session.user.id)
-            .in('message_id', messageIds);
-
-          const readMessageIds = readMessages?.map(r => r.message_id) || [];
-          friend.unread_count = messageIds.filter(id => !readMessageIds.includes(id)).length;
-        } else {
-          friend.unread_count = 0;
-        }
+        Object.assign(friend, await fetchFriendSummary(friend.id));
       }
 
-      // Sort by last message time (most recent first)
-      friendsList.sort((a, b) => {
-        if (!a.last_message_time) return 1;
-        if (!b.last_message_time) return -1;
-        return new Date(b.last_message_time).getTime() - new Date(a.last_message_time).getTime();
-      });
-
-      setFriends(friendsList);
+      setFriends(sortByLastMessage(friendsList));
     } catch (err) {
       console.error("Error fetching friends:", err);
       setError(err instanceof Error ? err.message : 'Failed to load friends');
     } finally {
       setLoading(false);
     }
-  }, [session]);
+  }, [session, fetchFriendSummary]);
+
+  // Apply one realtime change to the conversation it belongs to, instead of
+  // loading every conversation again
+  const applyMessageChange = React.useCallback(async (
+    payload: RealtimePostgresChangesPayload<PreviewMessage>
+  ) => {
+    if (!session?.user) return;
+
+    if (payload.eventType === 'DELETE') {
+      // Only the id of a deleted message is known
+      const deletedId = payload.old.id;
+      if (!deletedId) return;
+      const affected = friendsRef.current.find(friend => friend.last_message_id === deletedId);
+      const summary = affected ? await fetchFriendSummary(affected.id) : null;
+
+      setFriends(current => sortByLastMessage(current.map(friend => {
+        if (affected && friend.id === affected.id && summary) return { ...friend, ...summary };
+        if (!friend.unread_ids.includes(deletedId)) return friend;
+        return { ...friend, unread_ids: friend.unread_ids.filter(id => id !== deletedId) };
+      })));
+      return;
+    }
+
+    const message = payload.new;
+    const otherUserId = message.sender_id === session.user.id ? message.receiver_id : message.sender_id;
+    const friend = friendsRef.current.find(f => f.id === otherUserId);
+
+    // A conversation that is not listed yet, e.g. with a new friend
+    if (!friend) {
+      fetchFriends();
+      return;
+    }
+
+    // Edits only change the preview when they are to the last message
+    if (payload.eventType === 'UPDATE' && friend.last_message_id !== message.id) return;
+
+    const lastMessage = await describeMessage(message);
+    // Messages in the open conversation are read as they arrive
+    const isUnread = payload.eventType === 'INSERT'
+      && message.receiver_id === session.user.id
+      && openFriendIdRef.current !== otherUserId;
+
+    setFriends(current => sortByLastMessage(current.map(f => {
+      if (f.id !== otherUserId) return f;
+      return {
+        ...f,
+        last_message: lastMessage,
+        last_message_id: message.id,
+        last_message_time: message.created_at,
+        unread_ids: isUnread && !f.unread_ids.includes(message.id) ? [...f.unread_ids, message.id] : f.unread_ids
+      };
+    })));
+  }, [session, describeMessage, fetchFriendSummary, fetchFriends]);
 
   useEffect(() => {
     if (session?.user) {
@@ -152,32 +271,20 @@ export default function DirectMessagesList() {
         schema: 'public',
         table: 'direct_messages',
         filter: `receiver_id=eq.${session.user.id}`
-      }, () => {
-        fetchFriends();
-      })
+      }, applyMessageChange)
       .on('postgres_changes', {
         event: '*',
         schema: 'public',
         table: 'direct_messages',
         filter: `sender_id=eq.${session.user.id}`
-      }, () => {
-        fetchFriends();
-      })
+      }, applyMessageChange)
       .subscribe();
-
-      const pollingInterval = setInterval(() => {
-        // Only refresh if we're not currently viewing a DM
-        if (!window.location.pathname.includes('/dashboard/dm/')) {
-          fetchFriends();
-        }
-      }, 2000);
   
       return () => {
         messagesChannel.unsubscribe();
-        clearInterval(pollingInterval);
       };
     }
-  }, [session, fetchFriends]);
+  }, [session, fetchFriends, applyMessageChange]);
 
   useEffect(() => {
     const handleRefreshDMList = () => {
@@ -251,7 +358,7 @@ export default function DirectMessagesList() {
         // Update local state immediately
         setFriends(prevFriends => 
           prevFriends.map(friend => 
-            friend.id === friendId ? { ...friend, unread_count: 0 } : friend
+            friend.id === friendId ? { ...friend, unread_ids: [] } : friend
           )
         );
       }
@@ -318,9 +425,9 @@ export default function DirectMessagesList() {
                 <div className="w-10 h-10 rounded-full bg-gray-600 flex items-center justify-center uppercase text-sm">
                   {(friend.display_name || friend.username).charAt(0)}
                 </div>
-                {friend.unread_count > 0 && (
+                {friend.unread_ids.length > 0 && (
                   <div className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
-                    {friend.unread_count}
+                    {friend.unread_ids.length}
                   </div>
                 )}
               </div>
@@ -336,7 +443,7 @@ export default function DirectMessagesList() {
                   )}
                 </div>
                 {friend.last_message && (
-                  <p className={`text-sm ${friend.unread_count > 0 ? 'text-white font-medium' : 'text-gray-400'} truncate`}>
+                  <p className={`text-sm ${friend.unread_ids.length > 0 ? 'text-white font-medium' : 'text-gray-400'} truncate`}>
                     {truncateMessage(friend.last_message)}
                   </p>
                 )}
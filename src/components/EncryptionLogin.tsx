@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
-import { Shield, Lock, AlertCircle } from 'lucide-react';
+import { Shield, Lock, AlertCircle, LifeBuoy } from 'lucide-react';
 import { useAuthStore } from '../stores/authStore';
+import { recoverWithCode } from '../services/keyRecoveryService';
+import { enrollThisDevice } from '../services/deviceService';
+import { ensureSigningKey } from '../services/keyRotationService';
 
 interface EncryptionLoginProps {
   onUnlock: (password: string) => Promise<boolean>;
@@ -10,6 +13,10 @@ export default function EncryptionLogin({ onUnlock }: EncryptionLoginProps) {
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const { session } = useAuthStore();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -30,6 +37,126 @@ export default function EncryptionLogin({ onUnlock }: EncryptionLoginProps) {
     }
   };
 
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    if (newPassword.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Unlocks the keyring with the new password on success
+      await recoverWithCode(recoveryCode, newPassword);
+      ensureSigningKey(newPassword)
+        .catch((signingKeyError) => {
+          console.error('Error adding a signing key:', signingKeyError);
+        })
+        .then(() => enrollThisDevice(newPassword))
+        .catch((enrollError) => {
+          console.error('Error enrolling this device:', enrollError);
+        });
+    } catch (err) {
+      console.error('Error recovering keys:', err);
+      setError(err instanceof Error ? err.message : 'Failed to recover your keys');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (useRecoveryCode) {
+    return (
+      <div className="max-w-md mx-auto bg-gray-800 rounded-lg p-6 shadow-lg">
+        <div className="flex flex-col items-center justify-center mb-6">
+          <LifeBuoy className="h-12 w-12 text-indigo-500 mb-4" />
+          <h2 className="text-xl font-semibold text-white text-center">Recover Encryption Keys</h2>
+          <p className="text-gray-400 text-center mt-2">
+            Enter your recovery code and choose a new encryption password
+          </p>
+        </div>
+
+        <form onSubmit={handleRecover} className="space-y-4">
+          <div>
+            <label htmlFor="recovery-code" className="block text-sm font-medium text-gray-300 mb-1">
+              Recovery Code
+            </label>
+            <input
+              id="recovery-code"
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+              autoComplete="off"
+              required
+            />
+          </div>
+
+          <div>
+            <label htmlFor="new-encryption-password" className="block text-sm font-medium text-gray-300 mb-1">
+              New Encryption Password
+            </label>
+            <input
+              id="new-encryption-password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              required
+            />
+          </div>
+
+          <div>
+            <label htmlFor="confirm-encryption-password" className="block text-sm font-medium text-gray-300 mb-1">
+              Confirm New Password
+            </label>
+            <input
+              id="confirm-encryption-password"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              required
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-900 bg-opacity-20 text-red-500 p-3 rounded-md border border-red-900 flex items-start">
+              <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading || !recoveryCode || !newPassword}
+            className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Recovering...' : 'Recover Keys'}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(false);
+              setError(null);
+            }}
+            className="w-full text-sm text-gray-400 hover:text-white"
+          >
+            Back to password unlock
+          </button>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-md mx-auto bg-gray-800 rounded-lg p-6 shadow-lg">
       <div className="flex flex-col items-center justify-center mb-6">
@@ -71,7 +198,8 @@ export default function EncryptionLogin({ onUnlock }: EncryptionLoginProps) {
         <div className="bg-indigo-900 bg-opacity-20 text-indigo-300 p-3 rounded-md border border-indigo-900 text-sm">
           <p>
             This password is different from your account password and is used to protect your encrypted messages.
-            If you've forgotten this password, you'll need to reset your encryption keys.
+            If you've forgotten this password, use your recovery code. Without one, you can reset your encryption
+            keys from User Settings, but your encrypted history will become unreadable.
           </p>
         </div>
 
@@ -82,6 +210,17 @@ export default function EncryptionLogin({ onUnlock }: EncryptionLoginProps) {
         >
           {loading ? 'Unlocking...' : 'Unlock Messages'}
         </button>
+
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(true);
+            setError(null);
+          }}
+          className="w-full text-sm text-indigo-400 hover:text-indigo-300"
+        >
+          Forgot your password? Use a recovery code
+        </button>
       </form>
     </div>
   );
@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
 import { Lock, AlertTriangle, CheckCircle } from 'lucide-react';
-import { generateKeyPair, exportKey, savePrivateKey } from '../lib/supabase';
+import { generateKeyPair, generateSigningKeyPair, exportPublicKey, savePrivateKey } from '../lib/supabase';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../stores/authStore';
+import { enrollThisDevice } from '../services/deviceService';
 
 interface EncryptionSetupProps {
   onComplete: () => void;
@@ -69,11 +70,28 @@ export default function EncryptionSetup({ onComplete }: EncryptionSetupProps) {
     setError(null);
     
     try {
-      // Generate a new key pair
+      // Generate a new key pair, and a separate key pair for signing messages
       const keyPair = await generateKeyPair();
+      const signingKeyPair = await generateSigningKeyPair();
+      
+      // Continue the version sequence if a key was published before, so the
+      // history keeps every earlier key for old messages
+      const { data: existingKey } = await supabase
+        .from('user_keys')
+        .select('key_version')
+        .eq('user_id', session.user.id)
+        .maybeSingle();
+      const keyVersion = existingKey ? existingKey.key_version + 1 : 1;
+      
+      // Wrap the private keys with the password and store them server-side first,
+      // so a published public key always has a recoverable private key
+      const saved = await savePrivateKey(keyPair.privateKey, signingKeyPair.privateKey, password, keyVersion);
+      if (!saved) {
+        throw new Error('Failed to store your encrypted private key');
+      }
       
       // Export the public key for storage in the database
-      const publicKeyString = await exportKey(keyPair.publicKey);
+      const publicKeyString = await exportPublicKey(keyPair.publicKey);
       
       // Store the public key in the database
       const { error: dbError } = await supabase
@@ -81,6 +99,8 @@ export default function EncryptionSetup({ onComplete }: EncryptionSetupProps) {
         .upsert({
           user_id: session.user.id,
           public_key: publicKeyString,
+          signing_public_key: await exportPublicKey(signingKeyPair.publicKey),
+          key_version: keyVersion,
           created_at: new Date().toISOString()
         });
       
@@ -88,8 +108,12 @@ export default function EncryptionSetup({ onComplete }: EncryptionSetupProps) {
         throw new Error(`Failed to store public key: ${dbError.message}`);
       }
       
-      // Encrypt and store the private key locally
-      await savePrivateKey(keyPair.privateKey, password);
+      try {
+        await enrollThisDevice(password);
+      } catch (enrollError) {
+        // Not fatal; this browser will ask for the password next time
+        console.error('Error enrolling this device:', enrollError);
+      }
       
       // Success! Let the parent component know we're done
       onComplete();
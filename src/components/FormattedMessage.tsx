@@ -0,0 +1,127 @@
+// src/components/FormattedMessage.tsx
+import React, { useMemo, useState } from 'react';
+import { MessageMention } from '../lib/messageEnvelope';
+import { BlockNode, InlineNode, parseMarkdown, sanitizeUrl } from '../lib/markdown';
+import { CodeTokenKind, highlightCode } from '../lib/codeHighlight';
+import MentionText from './MentionText';
+
+interface FormattedMessageProps {
+  text: string;
+  mentions?: MessageMention[];
+  currentUserId?: string;
+  currentUserRole?: string | null;
+  className?: string;
+}
+
+const CODE_TOKEN_CLASSES: Record<CodeTokenKind, string> = {
+  plain: '',
+  keyword: 'text-purple-400',
+  string: 'text-green-400',
+  comment: 'text-gray-500 italic',
+  number: 'text-orange-400',
+};
+
+// Hidden until clicked, then shown for as long as the message is
+function Spoiler({ children }: { children: React.ReactNode }) {
+  const [revealed, setRevealed] = useState(false);
+
+  return (
+    <span
+      onClick={() => setRevealed(true)}
+      className={`rounded px-0.5 ${
+        revealed ? 'bg-gray-700' : 'bg-gray-600 cursor-pointer select-none'
+      }`}
+      title={revealed ? undefined : 'Show spoiler'}
+    >
+      <span className={revealed ? '' : 'invisible'}>{children}</span>
+    </span>
+  );
+}
+
+// A message's text with its formatting applied. The text is parsed into known
+// node types and each is rendered as a React element, so it is always escaped.
+export default function FormattedMessage({
+  text,
+  mentions,
+  currentUserId,
+  currentUserRole = null,
+  className = '',
+}: FormattedMessageProps) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  const renderInline = (nodes: InlineNode[]): React.ReactNode =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case 'text':
+          return (
+            <MentionText
+              key={index}
+              text={node.text}
+              mentions={mentions}
+              currentUserId={currentUserId}
+              currentUserRole={currentUserRole}
+            />
+          );
+        case 'bold':
+          return <strong key={index} className="font-semibold text-white">{renderInline(node.children)}</strong>;
+        case 'italic':
+          return <em key={index}>{renderInline(node.children)}</em>;
+        case 'spoiler':
+          return <Spoiler key={index}>{renderInline(node.children)}</Spoiler>;
+        case 'code':
+          return (
+            <code key={index} className="px-1 rounded bg-gray-900 text-sm font-mono text-gray-200">
+              {node.text}
+            </code>
+          );
+        case 'link': {
+          // Checked again here, so a link can only ever be http or https
+          const href = sanitizeUrl(node.href);
+          if (!href) return <span key={index}>{node.text}</span>;
+          return (
+            <a
+              key={index}
+              href={href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="text-indigo-400 hover:underline break-all"
+            >
+              {node.text}
+            </a>
+          );
+        }
+      }
+    });
+
+  const renderBlocks = (nodes: BlockNode[]): React.ReactNode =>
+    nodes.map((block, index) => {
+      switch (block.type) {
+        case 'paragraph':
+          return (
+            <p key={index} className="whitespace-pre-wrap break-words">
+              {renderInline(block.children)}
+            </p>
+          );
+        case 'quote':
+          return (
+            <blockquote key={index} className="my-1 pl-3 border-l-4 border-gray-600 text-gray-400">
+              {renderBlocks(block.children)}
+            </blockquote>
+          );
+        case 'codeBlock':
+          return (
+            <pre key={index} className="my-1 p-2 rounded bg-gray-900 text-sm font-mono overflow-x-auto">
+              <code>
+                {highlightCode(block.code, block.language).map((token, tokenIndex) => (
+                  <span key={tokenIndex} className={CODE_TOKEN_CLASSES[token.kind]}>
+                    {token.text}
+                  </span>
+                ))}
+              </code>
+            </pre>
+          );
+      }
+    });
+
+  return <div className={className}>{renderBlocks(blocks)}</div>;
+}
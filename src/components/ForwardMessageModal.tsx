@@ -0,0 +1,165 @@
+// src/components/ForwardMessageModal.tsx
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Forward, Hash, Loader2, Search, User, X } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import { MessageBody } from '../lib/messageEnvelope';
+import { ForwardDestination, fetchForwardDestinations, forwardMessage } from '../services/forwardService';
+
+interface ForwardMessageModalProps {
+  // The decrypted message, with who first sent it
+  body: MessageBody;
+  onClose: () => void;
+}
+
+function destinationKey(destination: ForwardDestination) {
+  return destination.kind === 'channel' ? `channel:${destination.channelId}` : `dm:${destination.userId}`;
+}
+
+export default function ForwardMessageModal({ body, onClose }: ForwardMessageModalProps) {
+  const { session } = useAuthStore();
+  const [destinations, setDestinations] = useState<ForwardDestination[]>([]);
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [sendingTo, setSendingTo] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadDestinations = async () => {
+      if (!session?.user) return;
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        setDestinations(await fetchForwardDestinations(session.user.id));
+      } catch (err) {
+        console.error('Error loading forward destinations:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load channels and friends');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDestinations();
+  }, [session]);
+
+  const handleForward = async (destination: ForwardDestination) => {
+    if (!session?.user) return;
+
+    const key = destinationKey(destination);
+    setSendingTo(key);
+    setError(null);
+
+    try {
+      // Encrypted again for the destination; the original stays where it was
+      await forwardMessage(session.user.id, destination, body);
+      setSentTo(current => [...current, key]);
+    } catch (err) {
+      console.error('Error forwarding message:', err);
+      setError(err instanceof Error ? err.message : 'Failed to forward message');
+    } finally {
+      setSendingTo(null);
+    }
+  };
+
+  const search = filter.trim().toLowerCase();
+  const visible = destinations.filter(destination =>
+    !search ||
+    destination.name.toLowerCase().includes(search) ||
+    (destination.kind === 'channel' && destination.serverName.toLowerCase().includes(search))
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-lg w-full max-w-md p-6 shadow-lg">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-white flex items-center">
+            <Forward className="h-5 w-5 mr-2 text-indigo-400" />
+            Forward Message
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="mb-4 p-3 bg-gray-900 rounded-md text-sm text-gray-300">
+          <p className="text-xs text-gray-400 mb-1">
+            Originally sent by {body.forwardedFrom?.senderName}
+          </p>
+          <p className="line-clamp-3 break-words">
+            {body.text || (body.attachments?.length ? `📎 ${body.attachments[0].name}` : '')}
+          </p>
+        </div>
+
+        <div className="relative mb-3">
+          <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Search channels and friends"
+            className="w-full bg-gray-700 text-white placeholder-gray-400 rounded-md pl-9 pr-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            autoFocus
+          />
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-400">No channels or friends found</div>
+        ) : (
+          <ul className="max-h-72 overflow-y-auto space-y-1">
+            {visible.map(destination => {
+              const key = destinationKey(destination);
+              const sent = sentTo.includes(key);
+              return (
+                <li key={key} className="flex items-center px-2 py-2 rounded hover:bg-gray-700">
+                  {destination.kind === 'channel' ? (
+                    <Hash className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+                  ) : (
+                    <User className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{destination.name}</p>
+                    {destination.kind === 'channel' && (
+                      <p className="text-xs text-gray-400 truncate">{destination.serverName}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleForward(destination)}
+                    disabled={sent || sendingTo !== null}
+                    className="ml-2 px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white text-xs rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {sendingTo === key ? 'Sending...' : sent ? 'Sent' : 'Send'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {error && (
+          <div className="mt-4 text-red-500 text-sm p-2 bg-red-500 bg-opacity-10 rounded flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../stores/authStore';
-import { User, UserPlus, X, MessageSquare, MoreHorizontal, Check, AlertCircle, RefreshCw } from 'lucide-react';
+import { User, UserPlus, X, MessageSquare, MoreHorizontal, Check, AlertCircle, RefreshCw, ShieldCheck, ShieldAlert } from 'lucide-react';
 import FriendRequest from './FriendRequest';
+import SafetyNumberModal from './SafetyNumberModal';
+import { VerificationStatus, getVerificationStatuses } from '../services/verificationService';
 import { useNavigate } from 'react-router-dom';
 
 interface Friend {
@@ -27,6 +29,8 @@ export default function Friends() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAddFriend, setShowAddFriend] = useState(false);
+  const [verificationStatuses, setVerificationStatuses] = useState<Record<string, VerificationStatus>>({});
+  const [friendToVerify, setFriendToVerify] = useState<Friend | null>(null);
   const navigate = useNavigate();
 
   const fetchFriends = async () => {
@@ -68,6 +72,15 @@ export default function Friends() {
 
       setFriends(formattedFriends);
 
+      // Load safety number verification state for each friend
+      try {
+        setVerificationStatuses(
+          await getVerificationStatuses(session.user.id, formattedFriends.map(f => f.id))
+        );
+      } catch (verificationError) {
+        console.error("Error loading verification status:", verificationError);
+      }
+
       // Fetch pending friend requests (received)
       const { data: pendingData, error: pendingError } = await supabase
         .from('friends')
@@ -259,6 +272,18 @@ export default function Friends() {
         />
       )}
 
+      {/* Safety number modal */}
+      {friendToVerify && (
+        <SafetyNumberModal
+          contactId={friendToVerify.id}
+          contactName={friendToVerify.display_name || friendToVerify.username}
+          onClose={() => setFriendToVerify(null)}
+          onStatusChange={(status) =>
+            setVerificationStatuses(prev => ({ ...prev, [friendToVerify.id]: status }))
+          }
+        />
+      )}
+
       {/* Content area */}
       <div className="flex-1 overflow-y-auto p-4">
         {loading && friends.length === 0 && pendingRequests.length === 0 && sentRequests.length === 0 ? (
@@ -376,9 +401,32 @@ export default function Friends() {
                       </div>
                       <div>
                         <div className="text-white font-medium">{friend.display_name || friend.username}</div>
+                        {verificationStatuses[friend.id] === 'verified' && (
+                          <div className="text-xs text-green-400 flex items-center">
+                            <ShieldCheck className="h-3 w-3 mr-1" />
+                            Verified
+                          </div>
+                        )}
+                        {verificationStatuses[friend.id] === 'changed' && (
+                          <div className="text-xs text-red-400 font-semibold flex items-center">
+                            <ShieldAlert className="h-3 w-3 mr-1" />
+                            Encryption key changed since you verified it
+                          </div>
+                        )}
                       </div>
                     </div>
                     <div className="flex space-x-1">
+                      {verificationStatuses[friend.id] && verificationStatuses[friend.id] !== 'no-key' && (
+                        <button 
+                          onClick={() => setFriendToVerify(friend)}
+                          className={`p-1.5 ${
+                            verificationStatuses[friend.id] === 'changed' ? 'text-red-400 hover:text-red-300' : 'text-gray-400 hover:text-white'
+                          }`}
+                          title="Verify Safety Number"
+                        >
+                          <ShieldCheck className="h-4 w-4" />
+                        </button>
+                      )}
                       <button 
                         onClick={() => handleMessageFriend(friend.id)}
                         className="text-gray-400 hover:text-white p-1.5"
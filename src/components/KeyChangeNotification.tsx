@@ -0,0 +1,175 @@
+// src/components/KeyChangeNotification.tsx
+import { useEffect, useState } from 'react';
+import { X, ShieldAlert } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { clearPublishedKeyCache } from '../services/encryptionService';
+import { KEY_TRANSPARENCY_ALERT_EVENT, KeyTransparencyAlert } from '../services/keyTransparencyService';
+
+interface KeyChangeNotice {
+  id: string;
+  user_id: string;
+  key_version: number;
+  displayName: string;
+  // Set for changes found in the key transparency log, which are not stored server-side
+  alert?: KeyTransparencyAlert;
+}
+
+// Whether a log alert is about the same change as a notice the contact sent
+function isSameChange(a: KeyChangeNotice, b: KeyChangeNotice) {
+  return a.user_id === b.user_id && a.key_version === b.key_version;
+}
+
+export default function KeyChangeNotification() {
+  const { session } = useAuthStore();
+  const [notices, setNotices] = useState<KeyChangeNotice[]>([]);
+
+  useEffect(() => {
+    if (!session?.user) return;
+    const userId = session.user.id;
+
+    const addNotices = async (rows: { id: string; user_id: string; key_version: number }[]) => {
+      if (rows.length === 0) return;
+
+      const { data: users } = await supabase
+        .from('users')
+        .select('id, username, display_name')
+        .in('id', rows.map(row => row.user_id));
+
+      const withNames = rows.map(row => {
+        // The contact's cached public key is stale now
+        clearPublishedKeyCache(row.user_id);
+        const user = users?.find(u => u.id === row.user_id);
+        return { ...row, displayName: user?.display_name || user?.username || 'A friend' };
+      });
+
+      setNotices(prev => [
+        // A change the contact announced replaces the log's alert about it
+        ...prev.filter(p => p.alert?.kind !== 'unseen-change' || !withNames.some(n => isSameChange(p, n))),
+        ...withNames.filter(n => !prev.some(p => p.id === n.id))
+      ]);
+    };
+
+    const handleTransparencyAlert = async (event: Event) => {
+      const alert = (event as CustomEvent<KeyTransparencyAlert>).detail;
+
+      const { data: user } = await supabase
+        .from('users')
+        .select('username, display_name')
+        .eq('id', alert.userId)
+        .maybeSingle();
+
+      const notice: KeyChangeNotice = {
+        id: `log:${alert.kind}:${alert.userId}:${alert.keyVersion}`,
+        user_id: alert.userId,
+        key_version: alert.keyVersion,
+        displayName: user?.display_name || user?.username || 'A contact',
+        alert
+      };
+
+      setNotices(prev => prev.some(p =>
+        p.id === notice.id || (!p.alert && alert.kind === 'unseen-change' && isSameChange(p, notice))
+      ) ? prev : [...prev, notice]);
+    };
+
+    window.addEventListener(KEY_TRANSPARENCY_ALERT_EVENT, handleTransparencyAlert);
+
+    const fetchUnseenNotices = async () => {
+      const { data, error } = await supabase
+        .from('key_change_notices')
+        .select('id, user_id, key_version')
+        .eq('recipient_id', userId)
+        .is('seen_at', null)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching key change notices:', error);
+        return;
+      }
+
+      addNotices(data || []);
+    };
+
+    fetchUnseenNotices();
+
+    const subscription = supabase
+      .channel(`key-change-notices-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'key_change_notices',
+          filter: `recipient_id=eq.${userId}`
+        },
+        (payload) => {
+          addNotices([payload.new as { id: string; user_id: string; key_version: number }]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      window.removeEventListener(KEY_TRANSPARENCY_ALERT_EVENT, handleTransparencyAlert);
+      subscription.unsubscribe();
+    };
+  }, [session]);
+
+  const dismissNotice = async (noticeId: string) => {
+    const dismissed = notices.find(notice => notice.id === noticeId);
+    setNotices(prev => prev.filter(notice => notice.id !== noticeId));
+    // Log alerts are not stored, so there is nothing to mark as seen
+    if (dismissed?.alert) return;
+
+    const { error } = await supabase
+      .from('key_change_notices')
+      .update({ seen_at: new Date().toISOString() })
+      .eq('id', noticeId);
+
+    if (error) {
+      console.error('Error marking key change notice as seen:', error);
+    }
+  };
+
+  if (notices.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 space-y-2 animate-fade-in">
+      {notices.map(notice => (
+        <div
+          key={notice.id}
+          className={`${notice.alert?.kind === 'inconsistent' ? 'bg-red-600' : 'bg-yellow-600'} text-white px-4 py-3 rounded-lg shadow-lg flex items-center max-w-sm`}
+        >
+          <ShieldAlert className="h-5 w-5 mr-2 flex-shrink-0" />
+          <div className="flex-1">
+            {notice.alert?.kind === 'inconsistent' ? (
+              <>
+                <p className="font-medium">{notice.displayName}'s encryption key could not be verified</p>
+                <p className="text-sm opacity-90">It does not match the public key log, so nothing is encrypted to it</p>
+              </>
+            ) : notice.alert ? (
+              <>
+                <p className="font-medium">
+                  {notice.alert.unseenVersions.length > 1
+                    ? `${notice.displayName} changed their encryption key ${notice.alert.unseenVersions.length} times`
+                    : `${notice.displayName} changed their encryption key`}
+                </p>
+                <p className="text-sm opacity-90">The public key log shows a change you were not told about. Compare safety numbers to make sure it was them.</p>
+              </>
+            ) : (
+              <>
+                <p className="font-medium">{notice.displayName} changed their encryption key</p>
+                <p className="text-sm opacity-90">Compare safety numbers again to keep the conversation verified</p>
+              </>
+            )}
+          </div>
+          <button
+            onClick={() => dismissNotice(notice.id)}
+            className="ml-4 hover:opacity-75"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
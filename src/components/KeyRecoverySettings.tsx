@@ -0,0 +1,347 @@
+import React, { useState, useEffect } from 'react';
+import { LifeBuoy, AlertTriangle, Copy, Check, Printer, RotateCcw } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import { createRecoveryCode, getRecoveryCodeCreatedAt } from '../services/keyRecoveryService';
+import { getKeyResetImpact, resetIdentityKey, KeyResetImpact } from '../services/keyRotationService';
+
+export default function KeyRecoverySettings() {
+  const { session } = useAuthStore();
+
+  // Recovery code
+  const [recoveryCreatedAt, setRecoveryCreatedAt] = useState<string | null>(null);
+  const [showCreateCode, setShowCreateCode] = useState(false);
+  const [codePassword, setCodePassword] = useState('');
+  const [creatingCode, setCreatingCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  // Reset keys
+  const [resetImpact, setResetImpact] = useState<KeyResetImpact | null>(null);
+  const [loadingImpact, setLoadingImpact] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [resetting, setResetting] = useState(false);
+  const [resetError, setResetError] = useState<string | null>(null);
+  const [resetSuccess, setResetSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!session?.user) return;
+
+    getRecoveryCodeCreatedAt(session.user.id)
+      .then(setRecoveryCreatedAt)
+      .catch((err) => console.error('Error checking recovery code:', err));
+  }, [session]);
+
+  const handleCreateCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreatingCode(true);
+    setCodeError(null);
+
+    try {
+      const code = await createRecoveryCode(codePassword);
+      setRecoveryCode(code);
+      setRecoveryCreatedAt(new Date().toISOString());
+      setCodePassword('');
+      setShowCreateCode(false);
+    } catch (err) {
+      console.error('Error creating recovery code:', err);
+      setCodeError(err instanceof Error ? err.message : 'Failed to create recovery code');
+    } finally {
+      setCreatingCode(false);
+    }
+  };
+
+  const copyRecoveryCode = () => {
+    if (!recoveryCode) return;
+
+    navigator.clipboard.writeText(recoveryCode)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(err => {
+        console.error('Failed to copy:', err);
+        setCodeError('Failed to copy to clipboard');
+      });
+  };
+
+  const printRecoveryCode = () => {
+    if (!recoveryCode) return;
+
+    const printWindow = window.open('', '_blank', 'width=600,height=400');
+    if (!printWindow) {
+      setCodeError('Allow pop-ups to print your recovery code');
+      return;
+    }
+
+    const heading = printWindow.document.createElement('h2');
+    heading.textContent = 'SecureChat recovery code';
+    const code = printWindow.document.createElement('pre');
+    code.textContent = recoveryCode;
+    code.style.fontSize = '20px';
+    const note = printWindow.document.createElement('p');
+    note.textContent = 'Anyone with this code and access to your account can read your encrypted messages. Keep it somewhere safe.';
+
+    printWindow.document.body.append(heading, code, note);
+    printWindow.print();
+    printWindow.close();
+  };
+
+  const handleShowReset = async () => {
+    if (!session?.user) return;
+
+    setLoadingImpact(true);
+    setResetError(null);
+    setResetSuccess(null);
+
+    try {
+      setResetImpact(await getKeyResetImpact(session.user.id));
+    } catch (err) {
+      console.error('Error checking reset impact:', err);
+      setResetError(err instanceof Error ? err.message : 'Failed to check what a reset would affect');
+    } finally {
+      setLoadingImpact(false);
+    }
+  };
+
+  const cancelReset = () => {
+    setResetImpact(null);
+    setNewPassword('');
+    setConfirmPassword('');
+    setAcknowledged(false);
+    setResetError(null);
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      setResetError('Passwords do not match');
+      return;
+    }
+
+    if (newPassword.length < 8) {
+      setResetError('Password must be at least 8 characters');
+      return;
+    }
+
+    setResetting(true);
+    setResetError(null);
+
+    try {
+      const result = await resetIdentityKey(newPassword);
+      cancelReset();
+      setRecoveryCreatedAt(null);
+      setResetSuccess(
+        `Your keys were reset. ${result.notifiedContacts} friend(s) notified. ` +
+        'Create a new recovery code so this does not happen again.'
+      );
+    } catch (err) {
+      console.error('Error resetting keys:', err);
+      setResetError(err instanceof Error ? err.message : 'Failed to reset keys');
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="mt-6 pt-6 border-t border-gray-700">
+        <h3 className="text-sm font-semibold text-white flex items-center mb-2">
+          <LifeBuoy className="h-4 w-4 mr-2" />
+          Recovery Code
+        </h3>
+        <p className="text-xs text-gray-400 mb-3">
+          {recoveryCreatedAt
+            ? `Your recovery code was created on ${new Date(recoveryCreatedAt).toLocaleDateString()}. Creating a new one replaces it.`
+            : 'A recovery code lets you regain access to your messages if you forget your encryption password.'}
+        </p>
+
+        {recoveryCode ? (
+          <div className="space-y-3">
+            <div className="bg-gray-900 rounded-md p-3 font-mono text-center text-white tracking-wider break-all">
+              {recoveryCode}
+            </div>
+            <p className="text-xs text-yellow-400">
+              This code is shown only once. Write it down or print it and keep it somewhere safe.
+            </p>
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={copyRecoveryCode}
+                className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm flex items-center"
+              >
+                {copied ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+              <button
+                onClick={printRecoveryCode}
+                className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm flex items-center"
+              >
+                <Printer className="h-4 w-4 mr-1" />
+                Print
+              </button>
+              <button
+                onClick={() => setRecoveryCode(null)}
+                className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md text-sm"
+              >
+                I've saved it
+              </button>
+            </div>
+          </div>
+        ) : showCreateCode ? (
+          <form onSubmit={handleCreateCode} className="space-y-3">
+            <input
+              type="password"
+              value={codePassword}
+              onChange={(e) => setCodePassword(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              placeholder="Encryption password"
+              required
+            />
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowCreateCode(false);
+                  setCodePassword('');
+                  setCodeError(null);
+                }}
+                className="px-4 py-2 mr-2 text-sm font-medium text-gray-300 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={creatingCode || !codePassword}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {creatingCode ? 'Creating...' : 'Create Code'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => setShowCreateCode(true)}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm font-medium"
+          >
+            {recoveryCreatedAt ? 'Replace recovery code' : 'Create recovery code'}
+          </button>
+        )}
+
+        {codeError && (
+          <div className="mt-3 text-red-500 text-sm p-2 bg-red-500 bg-opacity-10 rounded">
+            {codeError}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 pt-6 border-t border-gray-700">
+        <h3 className="text-sm font-semibold text-white flex items-center mb-2">
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset Keys
+        </h3>
+        <p className="text-xs text-gray-400 mb-3">
+          If you have lost both your encryption password and your recovery code, you can start over with new keys.
+        </p>
+
+        {resetImpact ? (
+          <form onSubmit={handleReset} className="space-y-3">
+            <div className="p-3 bg-red-900 bg-opacity-30 rounded-md border border-red-700 text-sm text-red-300 space-y-2">
+              <p className="flex items-center font-medium">
+                <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0 text-red-500" />
+                Resetting your keys will make this history unreadable:
+              </p>
+              <ul className="list-disc list-inside space-y-1">
+                <li>
+                  {resetImpact.directMessages} direct message(s) in {resetImpact.conversations} conversation(s),
+                  permanently
+                </li>
+                {resetImpact.channelsLost.length > 0 && (
+                  <li>
+                    Every message in {resetImpact.channelsLost.map(name => `#${name}`).join(', ')}, permanently,
+                    because nobody else holds those keys
+                  </li>
+                )}
+                {resetImpact.channelsReshared.length > 0 && (
+                  <li>
+                    Messages in {resetImpact.channelsReshared.map(name => `#${name}`).join(', ')}, until another
+                    member opens the channel and shares the key with you again
+                  </li>
+                )}
+              </ul>
+              <p>
+                Messages from before end-to-end encryption are not affected. Your friends will be told that your key
+                changed, and anyone who verified you will need to verify you again.
+              </p>
+            </div>
+
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              placeholder="New encryption password"
+              required
+            />
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              placeholder="Confirm new encryption password"
+              required
+            />
+            <label className="flex items-start text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.target.checked)}
+                className="mt-1 mr-2"
+              />
+              I understand that this history cannot be recovered
+            </label>
+
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={cancelReset}
+                className="px-4 py-2 mr-2 text-sm font-medium text-gray-300 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={resetting || !acknowledged || !newPassword}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {resetting ? 'Resetting...' : 'Reset Keys'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={handleShowReset}
+            disabled={loadingImpact}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loadingImpact ? 'Checking...' : 'Reset keys'}
+          </button>
+        )}
+
+        {resetError && (
+          <div className="mt-3 text-red-500 text-sm p-2 bg-red-500 bg-opacity-10 rounded">
+            {resetError}
+          </div>
+        )}
+
+        {resetSuccess && (
+          <div className="mt-3 text-green-500 text-sm p-2 bg-green-500 bg-opacity-10 rounded">
+            {resetSuccess}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
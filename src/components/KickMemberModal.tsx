@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { X, UserX, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { rotatePendingChannelKeys } from '../services/channelEncryptionService';
 
 interface KickMemberModalProps {
   serverId: string;
@@ -23,6 +25,7 @@ export default function KickMemberModal({
 }: KickMemberModalProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { session } = useAuthStore();
 
   const handleKick = async () => {
     setLoading(true);
@@ -60,6 +63,16 @@ export default function KickMemberModal({
         }
       }
 
+      // Move the server's channels to new key epochs so the removed member
+      // cannot read anything sent from now on
+      if (session?.user) {
+        try {
+          await rotatePendingChannelKeys(session.user.id, serverId);
+        } catch (rotateError) {
+          console.error("Error rotating channel keys:", rotateError);
+        }
+      }
+
       // Call success callback if provided
       if (onSuccess) {
         onSuccess();
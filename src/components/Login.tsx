@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useLocation } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { Shield } from 'lucide-react';
 
 export default function Login() {
+  // Keeps where to go after signing in when switching between signing in and registering
+  const { search } = useLocation();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -95,7 +97,7 @@ export default function Login() {
           <div className="text-center">
             <p className="text-sm text-gray-400">
               Don't have an account?{' '}
-              <Link to="/register" className="text-indigo-500 hover:text-indigo-400">
+              <Link to={`/register${search}`} className="text-indigo-500 hover:text-indigo-400">
                 Register here
               </Link>
             </p>
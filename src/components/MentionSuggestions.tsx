@@ -0,0 +1,38 @@
+// src/components/MentionSuggestions.tsx
+import { AtSign } from 'lucide-react';
+import { MentionSuggestion } from '../lib/mentions';
+
+interface MentionSuggestionsProps {
+  suggestions: MentionSuggestion[];
+  selectedIndex: number;
+  onSelect: (suggestion: MentionSuggestion) => void;
+}
+
+// The members, roles and group mentions matching what is being typed after
+// an @, shown above the composer
+export default function MentionSuggestions({ suggestions, selectedIndex, onSelect }: MentionSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 bg-gray-900 border border-gray-700 rounded-md shadow-lg overflow-hidden z-10">
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={index}
+          type="button"
+          // Picked on mouse down, before the composer loses focus
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(suggestion);
+          }}
+          className={`w-full flex items-center px-3 py-2 text-sm text-left ${
+            index === selectedIndex ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+          }`}
+        >
+          <AtSign className="h-4 w-4 mr-2 flex-shrink-0" />
+          <span className="font-medium mr-2 truncate">{suggestion.label.slice(1)}</span>
+          <span className="text-xs text-gray-400 truncate">{suggestion.description}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
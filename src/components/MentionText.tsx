@@ -0,0 +1,36 @@
+// src/components/MentionText.tsx
+import { MessageMention } from '../lib/messageEnvelope';
+import { mentionsUser, splitMentions } from '../lib/mentions';
+
+interface MentionTextProps {
+  text: string;
+  mentions?: MessageMention[];
+  currentUserId?: string;
+  // The current user's role in the server, so mentions of it stand out
+  currentUserRole?: string | null;
+}
+
+// Message text with its mentions highlighted. Mentions that reach the
+// current user are highlighted more strongly than the rest.
+export default function MentionText({ text, mentions, currentUserId, currentUserRole = null }: MentionTextProps) {
+  return (
+    <>
+      {splitMentions(text, mentions).map((segment, index) =>
+        segment.mention ? (
+          <span
+            key={index}
+            className={`rounded px-0.5 font-medium ${
+              currentUserId && mentionsUser([segment.mention], currentUserId, currentUserRole)
+                ? 'bg-yellow-500 bg-opacity-30 text-yellow-200'
+                : 'bg-indigo-500 bg-opacity-30 text-indigo-200'
+            }`}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,153 @@
+// src/components/MentionsInbox.tsx
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, AtSign, CheckCheck, Hash, Loader2, RefreshCw } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { MentionInboxItem, fetchUnreadMentions, markMentionsRead } from '../services/mentionService';
+import FormattedMessage from './FormattedMessage';
+
+function formatTime(timestamp: string) {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })} at ${time}`;
+}
+
+// The user's unread mentions across all their servers. The mentioning
+// messages are decrypted here, like in the channel they were sent in.
+export default function MentionsInbox() {
+  const { session } = useAuthStore();
+  const navigate = useNavigate();
+  const [mentions, setMentions] = useState<MentionInboxItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const userId = session?.user?.id;
+
+  const loadMentions = useCallback(async () => {
+    if (!userId) return;
+
+    setError(null);
+    try {
+      setMentions(await fetchUnreadMentions(userId));
+    } catch (err) {
+      console.error('Error loading mentions:', err);
+      setError('Failed to load mentions');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    loadMentions();
+
+    const mentionsChannel = supabase
+      .channel('mentions_inbox')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_mentions',
+          filter: `recipient_id=eq.${userId}`
+        },
+        () => {
+          loadMentions();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      mentionsChannel.unsubscribe();
+    };
+  }, [userId, loadMentions]);
+
+  const openMention = async (mention: MentionInboxItem) => {
+    if (!session?.user) return;
+
+    await markMentionsRead(session.user.id, [mention.id]);
+    navigate(`/dashboard/server/${mention.serverId}/channel/${mention.channelId}`, {
+      state: { jumpToMessageId: mention.message.id }
+    });
+  };
+
+  const markAllRead = async () => {
+    if (!session?.user || mentions.length === 0) return;
+
+    await markMentionsRead(session.user.id, mentions.map(mention => mention.id));
+    setMentions([]);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 h-14 border-b border-gray-700 bg-gray-800">
+        <h2 className="flex items-center text-lg font-semibold">
+          <AtSign className="h-5 w-5 mr-2 text-indigo-400" />
+          Mentions
+        </h2>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={loadMentions}
+            className="p-2 text-gray-400 hover:text-white"
+            title="Refresh"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </button>
+          <button
+            onClick={markAllRead}
+            disabled={mentions.length === 0}
+            className="flex items-center px-3 py-1 text-sm text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CheckCheck className="h-4 w-4 mr-1" />
+            Mark all read
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {error && (
+          <div className="text-red-400 text-sm p-2 bg-red-500 bg-opacity-10 rounded flex items-center">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            {error}
+          </div>
+        )}
+        {loading ? (
+          <div className="flex justify-center text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : mentions.length === 0 ? (
+          <div className="text-center text-gray-400 mt-8">You have no unread mentions</div>
+        ) : (
+          mentions.map(mention => (
+            <button
+              key={mention.id}
+              onClick={() => openMention(mention)}
+              className="w-full text-left p-3 bg-gray-800 hover:bg-gray-700 rounded-md"
+            >
+              <div className="flex items-center text-xs text-gray-400 mb-1">
+                <span className="truncate">{mention.serverName}</span>
+                <Hash className="h-3 w-3 ml-2 mr-0.5 flex-shrink-0" />
+                <span className="truncate">{mention.channelName}</span>
+              </div>
+              <div className="flex items-baseline">
+                <span className="font-medium text-white mr-2">
+                  {mention.message.sender_display_name || mention.message.sender_username}
+                </span>
+                <span className="text-xs text-gray-400">{formatTime(mention.message.created_at)}</span>
+              </div>
+              <FormattedMessage
+                text={mention.message.encrypted_content}
+                mentions={mention.message.mentions}
+                currentUserId={session?.user?.id}
+                className="text-gray-300 text-sm mt-1 break-words line-clamp-3"
+              />
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
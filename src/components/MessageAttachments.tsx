@@ -0,0 +1,100 @@
+// src/components/MessageAttachments.tsx
+import { useState } from 'react';
+import { Download, FileText, Loader2 } from 'lucide-react';
+import { AttachmentReference } from '../lib/messageEnvelope';
+import { formatFileSize, getAttachmentUrl, isPreviewableImage } from '../services/attachmentService';
+
+interface MessageAttachmentsProps {
+  attachments: AttachmentReference[];
+}
+
+// The attachments of a message. Images show their thumbnail until clicked;
+// files are only downloaded and decrypted when asked for.
+export default function MessageAttachments({ attachments }: MessageAttachmentsProps) {
+  const [fullImages, setFullImages] = useState<Record<string, string>>({});
+  const [loadingPath, setLoadingPath] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAttachment = async (attachment: AttachmentReference) => {
+    setLoadingPath(attachment.path);
+    setError(null);
+
+    try {
+      return await getAttachmentUrl(attachment);
+    } catch (err) {
+      console.error('Error loading attachment:', err);
+      setError(`${attachment.name} could not be downloaded or decrypted`);
+      return null;
+    } finally {
+      setLoadingPath(null);
+    }
+  };
+
+  const showFullImage = async (attachment: AttachmentReference) => {
+    const url = await loadAttachment(attachment);
+    if (url) setFullImages(prev => ({ ...prev, [attachment.path]: url }));
+  };
+
+  const downloadFile = async (attachment: AttachmentReference) => {
+    const url = await loadAttachment(attachment);
+    if (!url) return;
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = attachment.name;
+    link.click();
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      {attachments.map(attachment => {
+        const isLoading = loadingPath === attachment.path;
+
+        if (isPreviewableImage(attachment.type) && attachment.thumbnail) {
+          const fullImage = fullImages[attachment.path];
+          return (
+            <div key={attachment.path} className="relative inline-block mr-2">
+              <button
+                onClick={() => (fullImage ? downloadFile(attachment) : showFullImage(attachment))}
+                className="block rounded overflow-hidden border border-gray-600"
+                title={fullImage ? `Download ${attachment.name}` : `Show ${attachment.name}`}
+              >
+                <img
+                  src={fullImage || attachment.thumbnail}
+                  alt={attachment.name}
+                  className={fullImage ? 'max-h-96 max-w-full' : 'max-h-48 max-w-xs'}
+                />
+              </button>
+              {isLoading && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-40">
+                  <Loader2 className="h-6 w-6 animate-spin text-white" />
+                </div>
+              )}
+            </div>
+          );
+        }
+
+        return (
+          <button
+            key={attachment.path}
+            onClick={() => downloadFile(attachment)}
+            disabled={isLoading}
+            className="flex items-center bg-gray-800 hover:bg-gray-900 rounded px-3 py-2 max-w-xs text-left"
+          >
+            <FileText className="h-5 w-5 mr-2 flex-shrink-0 text-gray-400" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-white truncate">{attachment.name}</p>
+              <p className="text-xs text-gray-400">{formatFileSize(attachment.size)}</p>
+            </div>
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 ml-2 animate-spin text-gray-400" />
+            ) : (
+              <Download className="h-4 w-4 ml-2 text-gray-400" />
+            )}
+          </button>
+        );
+      })}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+// src/components/MessageComposer.tsx
+import React from 'react';
+import { MAX_MESSAGE_LENGTH } from '../lib/messageEnvelope';
+
+// The composer grows with its text up to this many lines, then scrolls
+const MAX_ROWS = 8;
+
+interface MessageComposerProps {
+  value: string;
+  // Called with the new text and where the caret is
+  onChange: (value: string, caret: number | null) => void;
+  // Enter sends; Shift+Enter starts a new line
+  onSubmit: () => void;
+  // Runs first, so a handler can take a key, e.g. to pick a suggestion, by preventing its default
+  onKeyDown?: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+  onBlur?: () => void;
+  placeholder?: string;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  className?: string;
+  textareaRef?: React.Ref<HTMLTextAreaElement>;
+}
+
+// A multiline message box. Messages are written in the formatting that
+// FormattedMessage renders.
+export default function MessageComposer({
+  value,
+  onChange,
+  onSubmit,
+  onKeyDown,
+  onBlur,
+  placeholder,
+  disabled,
+  autoFocus,
+  className = '',
+  textareaRef,
+}: MessageComposerProps) {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    onKeyDown?.(e);
+    if (e.defaultPrevented) return;
+
+    // Enter while an input method is composing text finishes the composition instead
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <textarea
+      ref={textareaRef}
+      value={value}
+      rows={Math.min(MAX_ROWS, value.split('\n').length)}
+      maxLength={MAX_MESSAGE_LENGTH}
+      onChange={(e) => onChange(e.target.value, e.target.selectionStart)}
+      onKeyDown={handleKeyDown}
+      onBlur={onBlur}
+      placeholder={placeholder}
+      disabled={disabled}
+      autoFocus={autoFocus}
+      className={`resize-none ${className}`}
+    />
+  );
+}
@@ -0,0 +1,63 @@
+// src/components/MessageLink.tsx
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import { getConversationPath, resolveMessageLink } from '../services/messageLinkService';
+
+// Opens a link to a message: finds the conversation it is in and goes there,
+// where the messages around it are loaded and it is highlighted.
+export default function MessageLink() {
+  const { messageId } = useParams();
+  const { session } = useAuthStore();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!messageId || !session?.user) return;
+
+    let cancelled = false;
+    setError(null);
+
+    resolveMessageLink(messageId, session.user.id)
+      .then(location => {
+        if (cancelled) return;
+
+        if (!location) {
+          setError("This message doesn't exist, or you don't have access to it.");
+          return;
+        }
+        // Replaced, so going back does not open the link again
+        navigate(getConversationPath(location), { replace: true, state: { jumpToMessageId: messageId } });
+      })
+      .catch(err => {
+        console.error('Error opening message link:', err);
+        if (!cancelled) setError('Failed to open the message link');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId, session, navigate]);
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full p-4 text-gray-400">
+      {error ? (
+        <>
+          <div className="text-red-400 text-sm p-2 bg-red-500 bg-opacity-10 rounded flex items-center">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            {error}
+          </div>
+          <Link to="/dashboard" className="mt-4 text-sm text-indigo-400 hover:text-indigo-300">
+            Back to the dashboard
+          </Link>
+        </>
+      ) : (
+        <div className="flex items-center">
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+          Opening message...
+        </div>
+      )}
+    </div>
+  );
+}
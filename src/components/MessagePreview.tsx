@@ -0,0 +1,28 @@
+// src/components/MessagePreview.tsx
+import { useMemo } from 'react';
+import { Eye } from 'lucide-react';
+import { MessageMention } from '../lib/messageEnvelope';
+import { hasFormatting, parseMarkdown } from '../lib/markdown';
+import FormattedMessage from './FormattedMessage';
+
+interface MessagePreviewProps {
+  text: string;
+  mentions?: MessageMention[];
+}
+
+// How the message being written will look, shown above the composer once it
+// uses any formatting
+export default function MessagePreview({ text, mentions }: MessagePreviewProps) {
+  const formatted = useMemo(() => hasFormatting(parseMarkdown(text)), [text]);
+  if (!formatted) return null;
+
+  return (
+    <div className="mb-2 p-2 bg-gray-700 rounded text-sm max-h-48 overflow-y-auto">
+      <div className="flex items-center text-xs text-gray-400 mb-1">
+        <Eye className="h-3 w-3 mr-1" />
+        Preview
+      </div>
+      <FormattedMessage text={text} mentions={mentions} className="text-gray-300" />
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+// src/components/MessageReactions.tsx
+import { SmilePlus, X } from 'lucide-react';
+import { REACTION_EMOJIS, ReactionSummary } from '../services/reactionService';
+
+interface MessageReactionsProps {
+  reactions: ReactionSummary[];
+  pickerOpen: boolean;
+  onToggle: (emoji: string) => void;
+  onOpenPicker: () => void;
+  onClosePicker: () => void;
+}
+
+function describeReactors(summary: ReactionSummary) {
+  const names = summary.userNames;
+  if (names.length <= 3) return `${names.join(', ')} reacted with ${summary.emoji}`;
+  return `${names.slice(0, 3).join(', ')} and ${names.length - 3} more reacted with ${summary.emoji}`;
+}
+
+// The reactions to a message, counted by emoji. Clicking one adds or takes
+// back the user's own; hovering shows who reacted.
+export default function MessageReactions({
+  reactions,
+  pickerOpen,
+  onToggle,
+  onOpenPicker,
+  onClosePicker
+}: MessageReactionsProps) {
+  if (reactions.length === 0 && !pickerOpen) return null;
+
+  return (
+    <div className="mt-1">
+      {reactions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          {reactions.map(summary => (
+            <button
+              key={summary.emoji}
+              onClick={() => onToggle(summary.emoji)}
+              title={describeReactors(summary)}
+              className={`flex items-center px-1.5 py-0.5 rounded-full text-xs border ${
+                summary.ownReactionIds.length > 0
+                  ? 'bg-indigo-500 bg-opacity-30 border-indigo-400 text-white'
+                  : 'bg-gray-700 border-gray-600 text-gray-300 hover:border-gray-400'
+              }`}
+            >
+              <span className="mr-1">{summary.emoji}</span>
+              {summary.count}
+            </button>
+          ))}
+          {!pickerOpen && (
+            <button
+              onClick={onOpenPicker}
+              className="p-0.5 text-gray-400 hover:text-white"
+              title="Add reaction"
+            >
+              <SmilePlus className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      )}
+      {pickerOpen && (
+        <div className="mt-1 inline-flex items-center bg-gray-900 border border-gray-700 rounded-full px-1 py-0.5 shadow-lg">
+          {REACTION_EMOJIS.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => {
+                onToggle(emoji);
+                onClosePicker();
+              }}
+              className="px-1 text-lg hover:scale-125 transition-transform"
+              title={`React with ${emoji}`}
+            >
+              {emoji}
+            </button>
+          ))}
+          <button
+            onClick={onClosePicker}
+            className="p-1 text-gray-400 hover:text-white"
+            title="Close"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+// src/components/MessageSearch.tsx
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, AtSign, Hash, Loader2, Paperclip, Search, Trash } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import { SearchEntry, isEmptySearch, parseSearchQuery } from '../lib/searchQuery';
+import { clearSearchIndex, searchMessages } from '../services/searchIndexService';
+import FormattedMessage from './FormattedMessage';
+
+// How long to wait after the last keystroke before searching
+const SEARCH_DELAY_MS = 250;
+
+const FILTER_HINTS = ['from:name', 'in:#channel', 'in:@friend', 'before:2025-01-31', 'after:2025-01-01', 'has:file'];
+
+function formatTime(timestamp: string) {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })} at ${time}`;
+}
+
+// Search across the channels and DMs this device has loaded. The index is
+// built from decrypted messages and kept encrypted in this browser only.
+export default function MessageSearch() {
+  const { session } = useAuthStore();
+  const navigate = useNavigate();
+  const [input, setInput] = useState('');
+  const [results, setResults] = useState<SearchEntry[]>([]);
+  const [indexedCount, setIndexedCount] = useState<number | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!session?.user) return;
+
+    const userId = session.user.id;
+    let cancelled = false;
+
+    const timeout = window.setTimeout(async () => {
+      setSearching(true);
+      setError(null);
+      try {
+        const search = await searchMessages(userId, input);
+        if (cancelled) return;
+
+        if (!search) {
+          setError('Unlock encryption to search your messages');
+          return;
+        }
+        setIndexedCount(search.indexedCount);
+        setResults(isEmptySearch(parseSearchQuery(input)) ? [] : search.results);
+      } catch (err) {
+        console.error('Error searching messages:', err);
+        if (!cancelled) setError('Search failed');
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [input, session]);
+
+  const openResult = (result: SearchEntry) => {
+    const path = result.scope === 'channel'
+      ? `/dashboard/server/${result.serverId}/channel/${result.conversationId}`
+      : `/dashboard/dm/${result.conversationId}`;
+    navigate(path, { state: { jumpToMessageId: result.messageId } });
+  };
+
+  const handleClearIndex = async () => {
+    if (!session?.user) return;
+    if (!confirm('Clear the search index on this device? Messages are indexed again as you open conversations.')) return;
+
+    try {
+      await clearSearchIndex(session.user.id);
+      setResults([]);
+      setIndexedCount(0);
+    } catch (err) {
+      console.error('Error clearing the search index:', err);
+      setError('Failed to clear the search index');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-700 bg-gray-800">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Search messages"
+            className="w-full bg-gray-700 text-white placeholder-gray-400 rounded-md pl-9 pr-4 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            autoFocus
+          />
+        </div>
+        <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-gray-400">
+          {FILTER_HINTS.map(hint => (
+            <button
+              key={hint}
+              onClick={() => setInput(current => `${current}${current && !current.endsWith(' ') ? ' ' : ''}${hint}`)}
+              className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 rounded font-mono"
+            >
+              {hint}
+            </button>
+          ))}
+        </div>
+        <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+          <span>
+            Only messages opened on this device are searchable
+            {indexedCount !== null && ` (${indexedCount} indexed)`}
+          </span>
+          <button
+            onClick={handleClearIndex}
+            className="flex items-center text-gray-400 hover:text-red-400"
+            title="Clear the search index on this device"
+          >
+            <Trash className="h-3 w-3 mr-1" />
+            Clear index
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {error && (
+          <div className="text-red-400 text-sm p-2 bg-red-500 bg-opacity-10 rounded flex items-center">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            {error}
+          </div>
+        )}
+        {searching && results.length === 0 ? (
+          <div className="flex justify-center text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : results.length === 0 ? (
+          input.trim() && !error && <div className="text-center text-gray-400 mt-8">No messages found</div>
+        ) : (
+          results.map(result => (
+            <button
+              key={`${result.scope}:${result.messageId}`}
+              onClick={() => openResult(result)}
+              className="w-full text-left p-3 bg-gray-800 hover:bg-gray-700 rounded-md"
+            >
+              <div className="flex items-center text-xs text-gray-400 mb-1">
+                {result.scope === 'channel' ? (
+                  <Hash className="h-3 w-3 mr-0.5 flex-shrink-0" />
+                ) : (
+                  <AtSign className="h-3 w-3 mr-0.5 flex-shrink-0" />
+                )}
+                <span className="truncate">{result.conversationName}</span>
+                {result.hasFile && <Paperclip className="h-3 w-3 ml-2 flex-shrink-0" />}
+              </div>
+              <div className="flex items-baseline">
+                <span className="font-medium text-white mr-2">{result.senderName}</span>
+                <span className="text-xs text-gray-400">{formatTime(result.createdAt)}</span>
+              </div>
+              {result.text && (
+                <FormattedMessage text={result.text} className="text-gray-300 text-sm mt-1 break-words line-clamp-3" />
+              )}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
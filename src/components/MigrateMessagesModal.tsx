@@ -0,0 +1,171 @@
+import { useState, useEffect, useRef } from 'react';
+import { X, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import {
+  getLatestMigrationJob,
+  startMessageMigration,
+  runMessageMigration,
+  cancelMessageMigration,
+  MessageMigrationJob,
+} from '../services/messageMigrationService';
+
+interface MigrateMessagesModalProps {
+  serverId: string;
+  serverName: string;
+  onClose: () => void;
+}
+
+export default function MigrateMessagesModal({ serverId, serverName, onClose }: MigrateMessagesModalProps) {
+  const { session } = useAuthStore();
+  const [job, setJob] = useState<MessageMigrationJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRequested = useRef(false);
+
+  useEffect(() => {
+    getLatestMigrationJob(serverId)
+      .then(setJob)
+      .catch((err) => {
+        console.error('Error loading migration job:', err);
+        setError('Failed to load the migration status');
+      })
+      .finally(() => setLoading(false));
+  }, [serverId]);
+
+  // Pause the run if the modal is closed; the job can be resumed later
+  useEffect(() => {
+    return () => {
+      stopRequested.current = true;
+    };
+  }, []);
+
+  const handleRun = async () => {
+    if (!session?.user) return;
+
+    setRunning(true);
+    setError(null);
+    stopRequested.current = false;
+
+    try {
+      const activeJob = job?.status === 'running' ? job : await startMessageMigration(serverId);
+      setJob(activeJob);
+      setJob(await runMessageMigration(activeJob, session.user.id, setJob, () => stopRequested.current));
+    } catch (err) {
+      console.error('Error migrating messages:', err);
+      setError(err instanceof Error ? err.message : 'Failed to migrate messages');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+
+    stopRequested.current = true;
+    setError(null);
+
+    try {
+      setJob(await cancelMessageMigration(job.id));
+    } catch (err) {
+      console.error('Error cancelling migration:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel the migration');
+    }
+  };
+
+  const processed = job ? job.migrated_count + job.failed_count : 0;
+  const percent = job && job.total_count > 0 ? Math.min(100, Math.round((processed / job.total_count) * 100)) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-lg w-full max-w-md p-6 shadow-lg">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-white flex items-center">
+            <RefreshCw className="h-5 w-5 mr-2 text-indigo-400" />
+            Migrate Messages
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-300 mb-4">
+          Re-encrypt messages in <span className="font-semibold">{serverName}</span> that were sent before
+          end-to-end encryption, so they are protected by the current channel keys. Each message is checked
+          to decrypt back to the same text before it is replaced.
+        </p>
+        <p className="text-xs text-gray-400 mb-4">
+          Only messages you sent can be signed. Other migrated messages will show as unverified, because their
+          senders never signed them.
+        </p>
+
+        {loading ? (
+          <div className="text-sm text-gray-400 mb-4">Loading migration status...</div>
+        ) : job && (
+          <div className="mb-4">
+            <div className="flex justify-between text-sm text-gray-300 mb-1">
+              <span>
+                {job.status === 'completed' ? 'Completed' : job.status === 'cancelled' ? 'Cancelled' : running ? 'Migrating...' : 'Paused'}
+              </span>
+              <span>{processed} / {job.total_count}</span>
+            </div>
+            <div className="w-full bg-gray-700 rounded-full h-2">
+              <div
+                className="bg-indigo-600 h-2 rounded-full transition-all"
+                style={{ width: `${job.status === 'completed' ? 100 : percent}%` }}
+              />
+            </div>
+            <div className="mt-2 text-xs text-gray-400">
+              {job.migrated_count} migrated · {job.failed_count} could not be migrated
+            </div>
+
+            {job.status === 'completed' && job.failed_count === 0 && (
+              <div className="mt-3 text-green-500 text-sm p-2 bg-green-500 bg-opacity-10 rounded flex items-center">
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Every legacy message was migrated.
+              </div>
+            )}
+
+            {job.failed_count > 0 && job.last_error && (
+              <div className="mt-3 p-2 bg-yellow-900 bg-opacity-30 rounded border border-yellow-700 text-sm text-yellow-300 flex items-start">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                <span>
+                  {job.last_error}. Messages that could not be migrated are left as they were; running the
+                  migration again retries them.
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 text-red-500 text-sm p-2 bg-red-500 bg-opacity-10 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          {job?.status === 'running' && (
+            <button
+              onClick={running ? () => { stopRequested.current = true; } : handleCancel}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm"
+            >
+              {running ? 'Pause' : 'Cancel Migration'}
+            </button>
+          )}
+          <button
+            onClick={handleRun}
+            disabled={loading || running}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md text-sm flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`h-4 w-4 mr-1 ${running ? 'animate-spin' : ''}`} />
+            {running ? 'Migrating...' : job?.status === 'running' ? 'Resume' : 'Start Migration'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+// src/components/PendingAttachments.tsx
+import { FileText, X } from 'lucide-react';
+import { PreparedAttachment, formatFileSize } from '../services/attachmentService';
+
+interface PendingAttachmentsProps {
+  attachments: PreparedAttachment[];
+  onRemove: (index: number) => void;
+  disabled?: boolean;
+}
+
+// Files picked in a composer, shown above the input until the message is sent
+export default function PendingAttachments({ attachments, onRemove, disabled }: PendingAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {attachments.map((attachment, index) => (
+        <div
+          key={`${attachment.name}-${index}`}
+          className="flex items-center bg-gray-800 rounded px-2 py-1 max-w-xs"
+        >
+          {attachment.thumbnail ? (
+            <img src={attachment.thumbnail} alt={attachment.name} className="h-10 w-10 object-cover rounded mr-2" />
+          ) : (
+            <FileText className="h-5 w-5 mr-2 flex-shrink-0 text-gray-400" />
+          )}
+          <div className="min-w-0 mr-2">
+            <p className="text-sm text-white truncate">{attachment.name}</p>
+            <p className="text-xs text-gray-400">{formatFileSize(attachment.data.size)}</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onRemove(index)}
+            disabled={disabled}
+            className="text-gray-400 hover:text-white disabled:opacity-50"
+            title="Remove attachment"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
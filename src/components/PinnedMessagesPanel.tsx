@@ -0,0 +1,114 @@
+// src/components/PinnedMessagesPanel.tsx
+import { AlertCircle, CornerDownRight, Loader2, Pin, PinOff, X } from 'lucide-react';
+import { MessagePin, PinnedMessage } from '../services/pinService';
+import FormattedMessage from './FormattedMessage';
+
+interface PinnedMessagesPanelProps {
+  pins: PinnedMessage[];
+  loading: boolean;
+  error: string | null;
+  // Whether the current user can remove pins here
+  canUnpin: boolean;
+  currentUserId?: string;
+  currentUserRole?: string | null;
+  onJump: (messageId: string) => void;
+  onUnpin: (pin: MessagePin) => void;
+  onClose: () => void;
+}
+
+function formatTime(timestamp: string) {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })} at ${time}`;
+}
+
+// The pinned messages of a channel or DM, shown beside it. The messages are
+// decrypted by the conversation, like the ones in it.
+export default function PinnedMessagesPanel({
+  pins,
+  loading,
+  error,
+  canUnpin,
+  currentUserId,
+  currentUserRole = null,
+  onJump,
+  onUnpin,
+  onClose
+}: PinnedMessagesPanelProps) {
+  return (
+    <div className="absolute inset-y-0 right-0 z-20 w-full md:w-96 flex flex-col bg-gray-800 border-l border-gray-700 shadow-xl">
+      <div className="px-4 py-3 border-b border-gray-700 flex items-center justify-between">
+        <h3 className="flex items-center text-white font-medium">
+          <Pin className="h-4 w-4 mr-2 text-indigo-400" />
+          Pinned messages
+        </h3>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" title="Close pinned messages">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {error && (
+          <div className="text-red-400 text-sm flex items-center">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            {error}
+          </div>
+        )}
+        {loading ? (
+          <div className="flex justify-center text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : pins.length === 0 ? (
+          <div className="text-center text-gray-400 text-sm mt-8">No messages have been pinned yet</div>
+        ) : (
+          pins.map(({ pin, message }) => (
+            <div key={pin.id} className="group p-3 bg-gray-900 rounded-md">
+              <div className="flex items-baseline">
+                <span className="font-medium text-white mr-2 truncate">
+                  {message.sender_display_name || message.sender_username}
+                </span>
+                <span className="text-xs text-gray-400 flex-shrink-0">{formatTime(message.created_at)}</span>
+              </div>
+              {message.encrypted_content && (
+                <FormattedMessage
+                  text={message.encrypted_content}
+                  mentions={message.mentions}
+                  currentUserId={currentUserId}
+                  currentUserRole={currentUserRole}
+                  className="text-gray-300 text-sm mt-1 break-words line-clamp-4"
+                />
+              )}
+              {message.attachments && message.attachments.length > 0 && (
+                <div className="text-xs text-gray-400 mt-1 truncate">
+                  📎 {message.attachments.map(attachment => attachment.name).join(', ')}
+                </div>
+              )}
+              <div className="flex items-center mt-2 text-xs text-gray-500">
+                <span className="truncate">Pinned by {pin.pinnedByName}</span>
+                <button
+                  onClick={() => onJump(message.id)}
+                  className="ml-auto flex items-center text-indigo-400 hover:text-indigo-300"
+                >
+                  <CornerDownRight className="h-3 w-3 mr-1" />
+                  Jump
+                </button>
+                {canUnpin && (
+                  <button
+                    onClick={() => onUnpin(pin)}
+                    className="ml-3 flex items-center text-gray-400 hover:text-red-400"
+                    title="Unpin message"
+                  >
+                    <PinOff className="h-3 w-3 mr-1" />
+                    Unpin
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+// src/components/QuotedMessage.tsx
+import { CornerUpLeft } from 'lucide-react';
+import { MessageQuote } from '../lib/messageEnvelope';
+
+interface QuotedMessageProps {
+  quote: MessageQuote;
+  onJump: (messageId: string) => void;
+}
+
+// The message a reply quotes, shown above it. The snippet is what the
+// replier quoted, so clicking it goes to the original to see it in full.
+export default function QuotedMessage({ quote, onJump }: QuotedMessageProps) {
+  return (
+    <button
+      onClick={() => onJump(quote.id)}
+      className="mt-1 mb-1 flex items-center max-w-full pl-2 border-l-2 border-gray-600 text-xs text-gray-400 hover:text-gray-200 hover:border-indigo-400 text-left"
+      title="Go to the original message"
+    >
+      <CornerUpLeft className="h-3 w-3 mr-1 flex-shrink-0" />
+      <span className="font-medium text-gray-300 mr-1 flex-shrink-0">{quote.senderName}</span>
+      <span className="truncate">{quote.snippet || 'Original message'}</span>
+    </button>
+  );
+}
@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useLocation } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { Shield } from 'lucide-react';
 
 export default function Register() {
+  // Keeps where to go after signing in when switching between signing in and registering
+  const { search } = useLocation();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [username, setUsername] = useState('');
@@ -49,7 +51,7 @@ export default function Register() {
           </h2>
           <p className="mt-2 text-gray-400">
             Your account has been created. You can now{' '}
-            <Link to="/login" className="text-indigo-500 hover:text-indigo-400">
+            <Link to={`/login${search}`} className="text-indigo-500 hover:text-indigo-400">
               sign in
             </Link>
             .
@@ -139,7 +141,7 @@ export default function Register() {
           <div className="text-center">
             <p className="text-sm text-gray-400">
               Already have an account?{' '}
-              <Link to="/login" className="text-indigo-500 hover:text-indigo-400">
+              <Link to={`/login${search}`} className="text-indigo-500 hover:text-indigo-400">
                 Sign in here
               </Link>
             </p>
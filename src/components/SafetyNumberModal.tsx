@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { X, ShieldCheck, ShieldAlert, AlertTriangle } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import { PublishedKey } from '../services/encryptionService';
+import {
+  SafetyNumber,
+  VerificationStatus,
+  computeSafetyNumber,
+  getCurrentContactKey,
+  getVerificationStatus,
+  markContactVerified,
+  clearContactVerification
+} from '../services/verificationService';
+
+interface SafetyNumberModalProps {
+  contactId: string;
+  contactName: string;
+  onClose: () => void;
+  onStatusChange?: (status: VerificationStatus) => void;
+}
+
+export default function SafetyNumberModal({
+  contactId,
+  contactName,
+  onClose,
+  onStatusChange
+}: SafetyNumberModalProps) {
+  const { session } = useAuthStore();
+  const [safetyNumber, setSafetyNumber] = useState<SafetyNumber | null>(null);
+  const [contactKey, setContactKey] = useState<PublishedKey | null>(null);
+  const [status, setStatus] = useState<VerificationStatus | null>(null);
+  const [view, setView] = useState<'numeric' | 'grid'>('numeric');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSafetyNumber = async () => {
+      if (!session?.user) return;
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const [ownKey, currentContactKey] = await Promise.all([
+          getCurrentContactKey(session.user.id),
+          getCurrentContactKey(contactId)
+        ]);
+
+        if (!ownKey) {
+          throw new Error('You have not published an encryption key yet');
+        }
+
+        if (!currentContactKey) {
+          throw new Error(`${contactName} has not published an encryption key yet`);
+        }
+
+        const number = await computeSafetyNumber(
+          session.user.id,
+          ownKey.public_key,
+          contactId,
+          currentContactKey.public_key
+        );
+
+        setContactKey(currentContactKey);
+        setSafetyNumber(number);
+        setStatus(await getVerificationStatus(session.user.id, contactId));
+      } catch (err) {
+        console.error('Error computing safety number:', err);
+        setError(err instanceof Error ? err.message : 'Failed to compute safety number');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSafetyNumber();
+  }, [session, contactId, contactName]);
+
+  const handleToggleVerified = async () => {
+    if (!session?.user || !contactKey) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      let newStatus: VerificationStatus;
+      if (status === 'verified') {
+        await clearContactVerification(session.user.id, contactId);
+        newStatus = 'unverified';
+      } else {
+        await markContactVerified(session.user.id, contactId, contactKey);
+        newStatus = 'verified';
+      }
+
+      setStatus(newStatus);
+      onStatusChange?.(newStatus);
+    } catch (err) {
+      console.error('Error updating verification:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update verification');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Split the 60 digits into 12 groups of 5
+  const digitGroups = safetyNumber?.digits.match(/.{5}/g) || [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-50">
+      <div className="bg-gray-800 rounded-lg w-full max-w-md p-6 shadow-lg">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-white flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2 text-indigo-400" />
+            Verify Safety Number
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {status === 'changed' && (
+          <div className="mb-4 p-3 bg-red-900 bg-opacity-30 rounded-md border border-red-700 flex items-start text-sm text-red-300">
+            <ShieldAlert className="h-5 w-5 mr-2 flex-shrink-0 text-red-500" />
+            <p>
+              <strong>{contactName}'s key has changed</strong> since you verified it. This can happen if they
+              reset their keys, but it can also mean someone is intercepting your messages. Compare the new
+              safety number before trusting this conversation.
+            </p>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-400 mb-4">
+          Compare this with the safety number on {contactName}'s device, ideally in person.
+          If they match, your messages are end-to-end encrypted with the right keys.
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-8 text-gray-400">Computing safety number...</div>
+        ) : safetyNumber ? (
+          <>
+            <div className="flex mb-3 bg-gray-900 rounded-md p-1">
+              <button
+                onClick={() => setView('numeric')}
+                className={`flex-1 py-1 text-sm rounded ${view === 'numeric' ? 'bg-gray-700 text-white' : 'text-gray-400'}`}
+              >
+                Numeric
+              </button>
+              <button
+                onClick={() => setView('grid')}
+                className={`flex-1 py-1 text-sm rounded ${view === 'grid' ? 'bg-gray-700 text-white' : 'text-gray-400'}`}
+              >
+                Grid
+              </button>
+            </div>
+
+            {view === 'numeric' ? (
+              <div className="grid grid-cols-4 gap-3 bg-gray-900 rounded-md p-4 font-mono text-lg text-white text-center tracking-wider">
+                {digitGroups.map((group, index) => (
+                  <span key={index}>{group}</span>
+                ))}
+              </div>
+            ) : (
+              <div className="flex justify-center bg-white rounded-md p-4">
+                <div className="grid gap-0" style={{ gridTemplateColumns: 'repeat(16, 1rem)' }}>
+                  {safetyNumber.grid.map((filled, index) => (
+                    <div key={index} className={`w-4 h-4 ${filled ? 'bg-black' : 'bg-white'}`} />
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        ) : null}
+
+        {error && (
+          <div className="mt-4 text-red-500 text-sm p-2 bg-red-500 bg-opacity-10 rounded flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleToggleVerified}
+            disabled={loading || saving || !safetyNumber}
+            className={`px-4 py-2 text-white rounded-md text-sm flex items-center disabled:opacity-50 disabled:cursor-not-allowed ${
+              status === 'verified' ? 'bg-gray-600 hover:bg-gray-500' : 'bg-green-600 hover:bg-green-700'
+            }`}
+          >
+            <ShieldCheck className="h-4 w-4 mr-1" />
+            {saving ? 'Saving...' : status === 'verified' ? 'Clear Verification' : 'Mark as Verified'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
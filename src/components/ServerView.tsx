@@ -11,7 +11,9 @@ import {
   UserX,
   Plus,
   ArrowLeft,
-  Menu
+  Menu,
+  RefreshCw,
+  Lock
 } from "lucide-react";
 import ChannelView from "./ChannelView";
 import ServerInvite from "./ServerInvite";
@@ -19,13 +21,16 @@ import DeleteServerModal from "./DeleteServerModal";
 import KickMemberModal from "./KickMemberModal";
 import TemporaryAccessBanner from "./TemporaryAccessBanner";
 import ManageChannels from "./ManageChannels";
+import MigrateMessagesModal from "./MigrateMessagesModal";
 import { useAuthStore } from "../stores/authStore";
+import { setServerEncryptionRequired } from "../services/encryptionPolicyService";
 
 interface Server {
   id: string;
   name: string;
   description: string | null;
   owner_id: string;
+  encryption_required: boolean;
 }
 
 interface Channel {
@@ -64,7 +69,10 @@ export default function ServerView() {
   const [accessExpiresAt, setAccessExpiresAt] = useState<string | null>(null);
   const [memberToKick, setMemberToKick] = useState<ServerMember | null>(null);
   const [showManageChannels, setShowManageChannels] = useState(false);
+  const [showMigrateModal, setShowMigrateModal] = useState(false);
   const [unreadChannels, setUnreadChannels] = useState<Set<string>>(new Set());
+  // Members with the server open right now, for @here mentions
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
   
   // Mobile UI state
   const [mobileView, setMobileView] = useState<MobileView>("channels");
@@ -106,6 +114,7 @@ export default function ServerView() {
         .from('messages')
         .select('channel_id, created_at')
         .in('channel_id', channels.map(c => c.id))
+        .is('parent_message_id', null) // Thread replies are tracked per thread
         .order('created_at', { ascending: false });
 
       // Get user's read status
@@ -424,6 +433,31 @@ export default function ServerView() {
     };
   }, [serverId, session]);
 
+  // Track who has the server open, so @here reaches the members who are online
+  useEffect(() => {
+    if (!serverId || !session?.user) return;
+
+    const userId = session.user.id;
+    const presenceChannel = supabase.channel(`presence:server:${serverId}`, {
+      config: { presence: { key: userId } },
+    });
+
+    presenceChannel
+      .on("presence", { event: "sync" }, () => {
+        setOnlineUserIds(Object.keys(presenceChannel.presenceState()));
+      })
+      .subscribe(async (status) => {
+        if (status === "SUBSCRIBED") {
+          await presenceChannel.track({ online_at: new Date().toISOString() });
+        }
+      });
+
+    return () => {
+      setOnlineUserIds([]);
+      presenceChannel.unsubscribe();
+    };
+  }, [serverId, session]);
+
   // Check for unread channels when channels list updates
   useEffect(() => {
     if (channels.length > 0) {
@@ -510,6 +544,24 @@ export default function ServerView() {
     };
   }, [navigate]);
 
+  const handleToggleEncryptionRequired = async () => {
+    if (!server) return;
+
+    const required = !server.encryption_required;
+    const prompt = required
+      ? "Require encryption in every channel? Encryption will be turned on in all channels, and unencrypted messages will be refused."
+      : "Stop requiring encryption? Channels keep their current encryption setting.";
+    if (!confirm(prompt)) return;
+
+    try {
+      await setServerEncryptionRequired(server.id, required);
+      setServer({ ...server, encryption_required: required });
+    } catch (err) {
+      console.error("Error changing encryption requirement:", err);
+      alert(err instanceof Error ? err.message : "Failed to change the encryption requirement");
+    }
+  };
+
   const canInvite = userRole === "owner" || userRole === "admin";
   const canKick = userRole === "owner" || userRole === "admin";
   const isServerOwner =
@@ -567,6 +619,26 @@ export default function ServerView() {
 
                 {showServerMenu && (
                   <div className="absolute right-0 mt-1 w-48 bg-gray-900 rounded-md shadow-lg py-1 z-10">
+                    <button
+                      onClick={() => {
+                        setShowServerMenu(false);
+                        setShowMigrateModal(true);
+                      }}
+                      className="flex items-center w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-gray-800"
+                    >
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Migrate Messages
+                    </button>
+                    <button
+                      onClick={() => {
+                        setShowServerMenu(false);
+                        handleToggleEncryptionRequired();
+                      }}
+                      className="flex items-center w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-gray-800"
+                    >
+                      <Lock className="h-4 w-4 mr-2" />
+                      {server.encryption_required ? "Stop Requiring Encryption" : "Require Encryption"}
+                    </button>
                     <button
                       onClick={() => {
                         setShowServerMenu(false);
@@ -755,7 +827,7 @@ export default function ServerView() {
         
         <div className="flex-1 overflow-hidden">
           <Routes>
-            <Route path="/channel/:channelId" element={<ChannelView />} />
+            <Route path="/channel/:channelId" element={<ChannelView members={members} onlineUserIds={onlineUserIds} />} />
             <Route
               path="*"
               element={
@@ -784,7 +856,7 @@ export default function ServerView() {
       {/* Main content area */}
       <div className="flex-1 bg-gray-900 overflow-y-auto">
         <Routes>
-          <Route path="/channel/:channelId" element={<ChannelView />} />
+          <Route path="/channel/:channelId" element={<ChannelView members={members} onlineUserIds={onlineUserIds} />} />
           <Route
             path="*"
             element={
@@ -822,6 +894,14 @@ export default function ServerView() {
         />
       )}
 
+      {showMigrateModal && server && (
+        <MigrateMessagesModal
+          serverId={server.id}
+          serverName={server.name}
+          onClose={() => setShowMigrateModal(false)}
+        />
+      )}
+
       {showDeleteModal && server && (
         <DeleteServerModal
           serverId={server.id}
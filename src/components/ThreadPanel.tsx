@@ -0,0 +1,337 @@
+// src/components/ThreadPanel.tsx
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertCircle, Loader2, Lock, Send, ShieldAlert, Trash, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../stores/authStore';
+import { ENVELOPE_ENCRYPTION_VERSION, encodeEnvelope } from '../lib/messageEnvelope';
+import { EncryptionPolicy, sealChannelMessage } from '../services/encryptionPolicyService';
+import {
+  CHANNEL_MESSAGE_COLUMNS,
+  ChannelMessage,
+  ChannelMessageRow,
+  fetchChannelEnvelopeSince,
+  fetchChannelMessage,
+  formatChannelMessage,
+  markThreadRead
+} from '../services/channelMessageService';
+import { deleteAttachments } from '../services/attachmentService';
+import { upsertMessage } from '../lib/messagePagination';
+import MessageAttachments from './MessageAttachments';
+import FormattedMessage from './FormattedMessage';
+import MessageComposer from './MessageComposer';
+import MessagePreview from './MessagePreview';
+
+interface ThreadPanelProps {
+  channelId: string;
+  serverId: string;
+  encryptionPolicy: EncryptionPolicy;
+  parent: ChannelMessage;
+  onClose: () => void;
+}
+
+function formatTime(timestamp: string) {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })} at ${time}`;
+}
+
+// The replies to one channel message, shown beside the channel. Replies are
+// sealed with the channel key exactly like top-level messages.
+export default function ThreadPanel({ channelId, serverId, encryptionPolicy, parent, onClose }: ThreadPanelProps) {
+  const { session } = useAuthStore();
+  const userId = session?.user?.id;
+  const [replies, setReplies] = useState<ChannelMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newReply, setNewReply] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const repliesEndRef = useRef<HTMLDivElement>(null);
+  const envelopeSinceRef = useRef<Promise<string | null> | null>(null);
+
+  const getEnvelopeSince = useCallback(() => {
+    if (!envelopeSinceRef.current) {
+      envelopeSinceRef.current = fetchChannelEnvelopeSince(channelId);
+      envelopeSinceRef.current.catch(() => {
+        envelopeSinceRef.current = null;
+      });
+    }
+    return envelopeSinceRef.current;
+  }, [channelId]);
+
+  // Fetch, decrypt and apply one reply that was added or changed
+  const applyReply = useCallback(async (replyId: string) => {
+    if (!userId) return;
+
+    try {
+      const data = await fetchChannelMessage(replyId);
+      if (!data) return;
+
+      const reply = await formatChannelMessage(
+        channelId,
+        data,
+        userId,
+        await getEnvelopeSince()
+      );
+      setReplies(current => upsertMessage(current, reply));
+      markThreadRead(userId, parent.id);
+    } catch (err) {
+      console.error('Error applying thread reply:', err);
+    }
+  }, [channelId, userId, parent.id, getEnvelopeSince]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    envelopeSinceRef.current = null;
+    setReplies([]);
+    setLoading(true);
+    setError(null);
+    setSendError(null);
+
+    const fetchReplies = async () => {
+      try {
+        const envelopeSince = await getEnvelopeSince();
+        const { data, error } = await supabase
+          .from('messages')
+          .select(CHANNEL_MESSAGE_COLUMNS)
+          .eq('parent_message_id', parent.id)
+          .order('created_at')
+          .order('id')
+          .overrideTypes<ChannelMessageRow[], { merge: false }>();
+
+        if (error) throw error;
+
+        const formatted = await Promise.all(
+          (data || []).map(reply =>
+            formatChannelMessage(channelId, reply, userId, envelopeSince)
+          )
+        );
+
+        if (cancelled) return;
+        setReplies(formatted);
+        markThreadRead(userId, parent.id);
+      } catch (err) {
+        console.error('Error loading thread:', err);
+        if (!cancelled) setError('Failed to load replies');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchReplies();
+
+    const threadChannel = supabase
+      .channel(`thread:${parent.id}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'messages',
+        filter: `parent_message_id=eq.${parent.id}`
+      }, (payload) => {
+        applyReply(payload.new.id);
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'messages',
+        filter: `parent_message_id=eq.${parent.id}`
+      }, (payload) => {
+        applyReply(payload.new.id);
+      })
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'messages'
+      }, (payload) => {
+        // Deletes cannot be filtered and only carry the id, so it is only removed if it is a loaded reply
+        setReplies(current => current.filter(reply => reply.id !== payload.old.id));
+      })
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      threadChannel.unsubscribe();
+    };
+  }, [parent.id, channelId, userId, getEnvelopeSince, applyReply]);
+
+  useEffect(() => {
+    repliesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replies]);
+
+  const handleSendReply = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!newReply.trim() || isSending || !session?.user) return;
+
+    const content = newReply;
+    setIsSending(true);
+    setSendError(null);
+
+    try {
+      // If encryption fails nothing is sent, and the reply stays in the composer
+      const envelope = await sealChannelMessage(encryptionPolicy, channelId, serverId, session.user.id, {
+        text: content
+      });
+
+      const { data, error } = await supabase
+        .from('messages')
+        .insert({
+          channel_id: channelId,
+          parent_message_id: parent.id,
+          sender_id: session.user.id,
+          encrypted_content: encodeEnvelope(envelope),
+          iv: null,
+          is_encrypted: envelope.alg !== 'none',
+          encryption_version: ENVELOPE_ENCRYPTION_VERSION
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('Error sending reply:', error);
+        setSendError(`Failed to send reply: ${error.message}`);
+        return;
+      }
+
+      setNewReply(current => (current === content ? '' : current));
+      applyReply(data.id);
+    } catch (err) {
+      console.error('Unexpected error sending reply:', err);
+      setSendError(err instanceof Error ? err.message : 'An unexpected error occurred while sending your reply');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleDeleteReply = async (reply: ChannelMessage) => {
+    if (!confirm('Are you sure you want to delete this reply?')) return;
+
+    const { error } = await supabase
+      .from('messages')
+      .delete()
+      .eq('id', reply.id)
+      .eq('sender_id', session?.user?.id); // Only allow deleting own replies
+
+    if (error) {
+      console.error('Error deleting reply:', error);
+      setSendError(`Failed to delete reply: ${error.message}`);
+      return;
+    }
+
+    if (reply.attachments) deleteAttachments(reply.attachments);
+    setReplies(current => current.filter(r => r.id !== reply.id));
+  };
+
+  const renderMessage = (message: ChannelMessage, canDelete: boolean) => (
+    <div key={message.id} className="flex items-start group">
+      <div className="w-7 h-7 rounded-full bg-gray-700 mr-2 flex-shrink-0 flex items-center justify-center uppercase text-xs">
+        {(message.sender_display_name || message.sender_username).charAt(0)}
+      </div>
+      <div className="flex-1 min-w-0 break-words">
+        <div className="flex items-baseline flex-wrap">
+          <span className="font-medium text-white text-sm mr-2">
+            {message.sender_display_name || message.sender_username}
+          </span>
+          <span className="text-xs text-gray-400">{formatTime(message.created_at)}</span>
+          {message.is_encrypted && (
+            message.signature_status === 'verified' ? (
+              <Lock className="h-3 w-3 ml-2 text-green-400" />
+            ) : (
+              <span
+                className="ml-2 text-xs text-yellow-400 flex items-center"
+                title="This message is not signed by its sender's key. It may have been sent by someone else."
+              >
+                <ShieldAlert className="h-3 w-3 mr-1" />
+                Unverified sender
+              </span>
+            )
+          )}
+        </div>
+        {message.encrypted_content && (
+          <FormattedMessage
+            text={message.encrypted_content}
+            mentions={message.mentions}
+            currentUserId={session?.user?.id}
+            className="text-gray-300 text-sm"
+          />
+        )}
+        {message.attachments && <MessageAttachments attachments={message.attachments} />}
+      </div>
+      {canDelete && (
+        <button
+          onClick={() => handleDeleteReply(message)}
+          className="p-1 text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Delete reply"
+        >
+          <Trash className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-20 w-full md:w-96 flex flex-col bg-gray-800 border-l border-gray-700 shadow-xl">
+      <div className="px-4 py-3 border-b border-gray-700 flex items-center justify-between">
+        <h3 className="text-white font-medium">Thread</h3>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" title="Close thread">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {renderMessage(parent, false)}
+
+        <div className="flex items-center text-xs text-gray-400">
+          <span className="mr-2">
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </span>
+          <div className="flex-1 border-t border-gray-700" />
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="text-red-400 text-sm flex items-center">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            {error}
+          </div>
+        ) : (
+          replies.map(reply => renderMessage(reply, reply.sender_id === session?.user?.id))
+        )}
+        <div ref={repliesEndRef} />
+      </div>
+
+      <div className="p-3 border-t border-gray-700">
+        {sendError && (
+          <div className="mb-2 text-red-400 text-sm p-2 bg-red-500 bg-opacity-10 rounded flex items-center">
+            <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+            {sendError}
+          </div>
+        )}
+        <MessagePreview text={newReply} />
+        <form onSubmit={handleSendReply} className="flex items-end">
+          <MessageComposer
+            value={newReply}
+            onChange={value => setNewReply(value)}
+            onSubmit={handleSendReply}
+            placeholder={`Reply${encryptionPolicy !== 'disabled' ? ' (encrypted)' : ''}`}
+            disabled={isSending}
+            className="flex-1 bg-gray-700 text-white placeholder-gray-400 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            type="submit"
+            disabled={!newReply.trim() || isSending}
+            className="ml-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md p-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Send size={16} />
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../stores/authStore';
-import { Save, X, User, AlertCircle } from 'lucide-react';
+import { rotateIdentityKey } from '../services/keyRotationService';
+import KeyRecoverySettings from './KeyRecoverySettings';
+import DevicesSettings from './DevicesSettings';
+import { Save, X, User, AlertCircle, KeyRound } from 'lucide-react';
 
 export default function UserSettings({ onClose }: { onClose: () => void }) {
   const { session } = useAuthStore();
@@ -14,6 +17,11 @@ export default function UserSettings({ onClose }: { onClose: () => void }) {
   const [originalDisplayName, setOriginalDisplayName] = useState('');
   const [displayNameAvailable, setDisplayNameAvailable] = useState(true);
   const [checkingDisplayName, setCheckingDisplayName] = useState(false);
+  const [showRotateKeys, setShowRotateKeys] = useState(false);
+  const [rotatePassword, setRotatePassword] = useState('');
+  const [rotating, setRotating] = useState(false);
+  const [rotateError, setRotateError] = useState<string | null>(null);
+  const [rotateSuccess, setRotateSuccess] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchUserProfile = async () => {
@@ -131,9 +139,31 @@ export default function UserSettings({ onClose }: { onClose: () => void }) {
     }
   };
 
+  const handleRotateKeys = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setRotating(true);
+    setRotateError(null);
+    setRotateSuccess(null);
+
+    try {
+      const result = await rotateIdentityKey(rotatePassword);
+      setRotateSuccess(
+        `Your keys were rotated to version ${result.keyVersion}. ` +
+        `${result.rewrappedChannelKeys} channel key(s) updated and ${result.notifiedContacts} friend(s) notified.`
+      );
+      setRotatePassword('');
+      setShowRotateKeys(false);
+    } catch (err) {
+      console.error('Error rotating keys:', err);
+      setRotateError(err instanceof Error ? err.message : 'Failed to rotate keys');
+    } finally {
+      setRotating(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
-      <div className="bg-gray-800 rounded-lg w-full max-w-md p-6 shadow-lg">
+      <div className="bg-gray-800 rounded-lg w-full max-w-md p-6 shadow-lg max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-semibold text-white flex items-center">
             <User className="h-5 w-5 mr-2" />
@@ -235,6 +265,76 @@ export default function UserSettings({ onClose }: { onClose: () => void }) {
             </div>
           </div>
         </form>
+
+        <div className="mt-6 pt-6 border-t border-gray-700">
+          <h3 className="text-sm font-semibold text-white flex items-center mb-2">
+            <KeyRound className="h-4 w-4 mr-2" />
+            Encryption Keys
+          </h3>
+          <p className="text-xs text-gray-400 mb-3">
+            Rotate your keys if you think they may have been exposed. Your existing messages stay readable,
+            and your friends will be told that your key changed.
+          </p>
+
+          {showRotateKeys ? (
+            <form onSubmit={handleRotateKeys} className="space-y-3">
+              <input
+                type="password"
+                value={rotatePassword}
+                onChange={(e) => setRotatePassword(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                placeholder="Encryption password"
+                required
+              />
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowRotateKeys(false);
+                    setRotatePassword('');
+                    setRotateError(null);
+                  }}
+                  className="px-4 py-2 mr-2 text-sm font-medium text-gray-300 hover:text-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={rotating || !rotatePassword}
+                  className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {rotating ? 'Rotating...' : 'Rotate Keys'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => {
+                setShowRotateKeys(true);
+                setRotateSuccess(null);
+              }}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-md text-sm font-medium"
+            >
+              Rotate my keys
+            </button>
+          )}
+
+          {rotateError && (
+            <div className="mt-3 text-red-500 text-sm p-2 bg-red-500 bg-opacity-10 rounded">
+              {rotateError}
+            </div>
+          )}
+
+          {rotateSuccess && (
+            <div className="mt-3 text-green-500 text-sm p-2 bg-green-500 bg-opacity-10 rounded">
+              {rotateSuccess}
+            </div>
+          )}
+        </div>
+
+        <DevicesSettings />
+
+        <KeyRecoverySettings />
       </div>
     </div>
   );
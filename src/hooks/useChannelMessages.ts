@@ -0,0 +1,870 @@
+// src/hooks/useChannelMessages.ts
+
+import { RefObject, useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  mergeNewestPage,
+  toNewerPage,
+  toPage,
+  upsertMessage
+} from '../lib/messagePagination';
+import { distributeChannelKey } from '../services/channelEncryptionService';
+import {
+  ChannelDetails,
+  ChannelMessage,
+  ThreadSummary,
+  fetchChannelAccess,
+  fetchChannelEnvelopeSince,
+  fetchChannelMessage,
+  fetchChannelMessagePage,
+  fetchChannelMessagesById,
+  fetchThreadSummaries,
+  formatChannelMessage,
+  markChannelRead
+} from '../services/channelMessageService';
+import {
+  MessageReaction,
+  addChannelReaction,
+  fetchChannelReaction,
+  fetchChannelReactions,
+  groupReactions,
+  removeReaction,
+  summarizeReactions
+} from '../services/reactionService';
+import {
+  MessagePin,
+  PinnedMessage,
+  fetchChannelPins,
+  pinChannelMessage,
+  unpinMessage
+} from '../services/pinService';
+import { markChannelMentionsRead } from '../services/mentionService';
+import { indexMessages, removeFromIndex } from '../services/searchIndexService';
+
+interface ChannelMessagesOptions {
+  channelId: string | undefined;
+  userId: string | undefined;
+  // Opened from a link, the mentions inbox or search: the message to go to once it has loaded
+  jumpToMessageId: string | undefined;
+  // The scrolling list of messages, and an element at its end
+  scrollContainerRef: RefObject<HTMLDivElement>;
+  messagesEndRef: RefObject<HTMLDivElement>;
+  // Shows what went wrong with pins, reactions and jumps
+  reportError: (message: string) => void;
+}
+
+/**
+ * The messages of a channel with their threads, reactions and pins, loaded a
+ * page at a time and kept up to date over realtime. Also keeps the message
+ * list scrolled to the right place as pages load and messages arrive.
+ */
+export function useChannelMessages({
+  channelId,
+  userId,
+  jumpToMessageId,
+  scrollContainerRef,
+  messagesEndRef,
+  reportError
+}: ChannelMessagesOptions) {
+  const [messages, setMessages] = useState<ChannelMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [channelName, setChannelName] = useState('');
+  const [channelDetails, setChannelDetails] = useState<ChannelDetails | null>(null);
+  // The conversation is loaded a page at a time, newest first
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [showJumpToPresent, setShowJumpToPresent] = useState(false);
+  // Set when the view was opened at an older message, until newer pages reach the present
+  const [hasNewerMessages, setHasNewerMessages] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+  // Read by the realtime handlers: new messages are not shown until the present is loaded
+  const hasNewerRef = useRef(false);
+  const activeChannelRef = useRef<string | undefined>(undefined);
+  const olderPagesLoadedRef = useRef(false);
+  const envelopeSinceRef = useRef<string | null>(null);
+  const historyStartRef = useRef<string | null>(null);
+  // Set just before older messages are added above, to keep the view where it was
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
+  // Whether the view follows new messages, i.e. the user is at the bottom
+  const stickToBottomRef = useRef(true);
+  // Messages sent from this tab, which are added when their insert returns rather than over realtime
+  const sentMessageIdsRef = useRef(new Set<string>());
+  // Reply counts and latest replies, by the id of the message they reply to
+  const [threadSummaries, setThreadSummaries] = useState<Record<string, ThreadSummary>>({});
+  // The message whose thread is open in the side panel
+  const [openThread, setOpenThread] = useState<ChannelMessage | null>(null);
+  // Read by the realtime handlers, which outlive renders
+  const messagesRef = useRef(messages);
+  const threadSummariesRef = useRef(threadSummaries);
+  const openThreadIdRef = useRef<string | null>(null);
+  // A message briefly highlighted after jumping to it from a quote or a link
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // A message to jump to once it has loaded, and whether the messages around it were loaded for it
+  const pendingJumpRef = useRef<{ messageId: string; contextLoaded: boolean } | null>(null);
+  // The channel's pins with their messages decrypted, newest pin first
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const [pinsOpen, setPinsOpen] = useState(false);
+  const [pinsLoading, setPinsLoading] = useState(false);
+  const [pinsError, setPinsError] = useState<string | null>(null);
+  // Read by the realtime handlers, which only get the id of a removed pin
+  const pinIdsRef = useRef<string[]>([]);
+  // Decrypted reactions, by the id of the message they react to
+  const [reactions, setReactions] = useState<Record<string, MessageReaction[]>>({});
+  // Read by the loaders, so a new callback does not resubscribe the channel
+  const reportErrorRef = useRef(reportError);
+
+  useEffect(() => {
+    reportErrorRef.current = reportError;
+  }, [reportError]);
+
+  useEffect(() => {
+    threadSummariesRef.current = threadSummaries;
+  }, [threadSummaries]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  const scrollToBottom = useCallback((behavior: ScrollBehavior = 'smooth') => {
+    messagesEndRef.current?.scrollIntoView({ behavior });
+  }, [messagesEndRef]);
+
+  // When the channel moved to envelopes. Only a page is loaded at a time, so
+  // this is looked up on its own rather than worked out from the loaded messages.
+  const fetchEnvelopeSince = useCallback(async (channelId: string) => {
+    if (!envelopeSinceRef.current) {
+      envelopeSinceRef.current = await fetchChannelEnvelopeSince(channelId);
+    }
+    return envelopeSinceRef.current;
+  }, []);
+
+  // Load the reply counts and latest replies of messages in this channel
+  const loadThreadSummaries = useCallback(async (parentIds: string[]) => {
+    if (!channelId || !userId || parentIds.length === 0) return;
+
+    const requestChannelId = channelId;
+
+    try {
+      const summaries = await fetchThreadSummaries(
+        channelId,
+        parentIds,
+        userId,
+        await fetchEnvelopeSince(channelId)
+      );
+
+      if (activeChannelRef.current !== requestChannelId) return;
+
+      setThreadSummaries(current => {
+        const next = { ...current };
+        for (const parentId of parentIds) {
+          const summary = summaries[parentId];
+          if (!summary) {
+            delete next[parentId];
+          } else {
+            // The open thread is read as its replies arrive
+            next[parentId] =
+              parentId === openThreadIdRef.current ? { ...summary, hasUnread: false } : summary;
+          }
+        }
+        return next;
+      });
+    } catch (err) {
+      console.error('Error loading threads:', err);
+    }
+  }, [channelId, userId, fetchEnvelopeSince]);
+
+  // Load and decrypt the reactions to messages in this channel
+  const loadReactions = useCallback(async (messageIds: string[]) => {
+    if (!channelId || !userId || messageIds.length === 0) return;
+
+    const requestChannelId = channelId;
+
+    try {
+      const grouped = groupReactions(await fetchChannelReactions(channelId, messageIds, userId));
+
+      if (activeChannelRef.current !== requestChannelId) return;
+
+      setReactions(current => {
+        const next = { ...current };
+        for (const messageId of messageIds) {
+          next[messageId] = grouped[messageId] || [];
+        }
+        return next;
+      });
+    } catch (err) {
+      console.error('Error loading reactions:', err);
+    }
+  }, [channelId, userId]);
+
+  // Fetch and decrypt one reaction that was added, instead of reloading them all
+  const applyReactionAdded = useCallback(async (reactionId: string) => {
+    if (!channelId || !userId) return;
+
+    const requestChannelId = channelId;
+
+    try {
+      const reaction = await fetchChannelReaction(channelId, reactionId, userId);
+      if (!reaction || activeChannelRef.current !== requestChannelId) return;
+
+      setReactions(current => {
+        const existing = current[reaction.messageId] || [];
+        if (existing.some(r => r.id === reaction.id)) return current;
+        return { ...current, [reaction.messageId]: [...existing, reaction] };
+      });
+    } catch (err) {
+      console.error('Error applying reaction:', err);
+    }
+  }, [channelId, userId]);
+
+  const removeReactionsLocally = useCallback((reactionIds: string[]) => {
+    setReactions(current => {
+      const next: Record<string, MessageReaction[]> = {};
+      for (const [messageId, messageReactions] of Object.entries(current)) {
+        next[messageId] = messageReactions.filter(reaction => !reactionIds.includes(reaction.id));
+      }
+      return next;
+    });
+  }, []);
+
+  // Load the channel's pins and decrypt the messages they pin
+  const loadPins = useCallback(async () => {
+    if (!channelId || !userId) return;
+
+    const requestChannelId = channelId;
+
+    try {
+      const pins = await fetchChannelPins(channelId);
+      const rows = await fetchChannelMessagesById(pins.map(pin => pin.messageId));
+      const envelopeSince = await fetchEnvelopeSince(channelId);
+      const pinned = await Promise.all(
+        pins.map(async (pin): Promise<PinnedMessage | null> => {
+          // Members with hidden history do not see pins from before they joined
+          const row = rows.find(
+            r => r.id === pin.messageId && (!historyStartRef.current || r.created_at >= historyStartRef.current)
+          );
+          return row ? { pin, message: await formatChannelMessage(channelId, row, userId, envelopeSince) } : null;
+        })
+      );
+
+      if (activeChannelRef.current !== requestChannelId) return;
+
+      pinIdsRef.current = pins.map(pin => pin.id);
+      setPinnedMessages(pinned.filter((item): item is PinnedMessage => item !== null));
+      setPinsError(null);
+    } catch (err) {
+      console.error('Error loading pinned messages:', err);
+      if (activeChannelRef.current === requestChannelId) {
+        setPinsError('Failed to load pinned messages');
+      }
+    } finally {
+      if (activeChannelRef.current === requestChannelId) {
+        setPinsLoading(false);
+      }
+    }
+  }, [channelId, userId, fetchEnvelopeSince]);
+
+  const openThreadPanel = useCallback((message: ChannelMessage) => {
+    openThreadIdRef.current = message.id;
+    setOpenThread(message);
+    setPinsOpen(false);
+    setThreadSummaries(current =>
+      current[message.id] ? { ...current, [message.id]: { ...current[message.id], hasUnread: false } } : current
+    );
+  }, []);
+
+  const closeThreadPanel = useCallback(() => {
+    openThreadIdRef.current = null;
+    setOpenThread(null);
+  }, []);
+
+  // Fetch, decrypt and apply one message that was added or changed, instead of
+  // loading the whole conversation again. Changes to messages that are not
+  // loaded are ignored, as are new ones while the present is not loaded.
+  const applyMessageChange = useCallback(async (messageId: string, isNew: boolean) => {
+    if (!channelId || !userId || (isNew && hasNewerRef.current)) return;
+
+    const requestChannelId = channelId;
+
+    try {
+      const row = await fetchChannelMessage(messageId);
+      if (!row) return;
+
+      // Replies are shown in their thread; here only the thread's summary changes
+      if (row.parent_message_id) {
+        loadThreadSummaries([row.parent_message_id]);
+        return;
+      }
+
+      const message = await formatChannelMessage(channelId, row, userId, await fetchEnvelopeSince(channelId));
+
+      if (activeChannelRef.current !== requestChannelId) return;
+
+      setMessages(current =>
+        isNew || current.some(m => m.id === message.id) ? upsertMessage(current, message) : current
+      );
+    } catch (err) {
+      console.error('Error applying message change:', err);
+    }
+  }, [channelId, userId, fetchEnvelopeSince, loadThreadSummaries]);
+
+  // Load the messages around one that is not loaded, in place of those shown,
+  // so it can be jumped to however long ago it was sent. Older and newer pages
+  // then load as the user scrolls either way.
+  // Returns whether the message was found.
+  const loadMessageContext = useCallback(async (messageId: string) => {
+    if (!channelId || !userId) return false;
+
+    const requestChannelId = channelId;
+
+    try {
+      let target = await fetchChannelMessage(messageId, channelId);
+      // Replies are shown in their thread, opened beside the message they reply to
+      const inThread = !!target?.parent_message_id;
+      if (target?.parent_message_id) {
+        target = await fetchChannelMessage(target.parent_message_id);
+      }
+
+      if (!target || (historyStartRef.current && target.created_at < historyStartRef.current)) {
+        if (activeChannelRef.current === requestChannelId) {
+          pendingJumpRef.current = null;
+          reportErrorRef.current('The message could not be found. It may have been deleted.');
+        }
+        return false;
+      }
+
+      const envelopeSince = await fetchEnvelopeSince(channelId);
+      const [older, newer] = await Promise.all([
+        fetchChannelMessagePage(channelId, historyStartRef.current, target),
+        fetchChannelMessagePage(channelId, historyStartRef.current, undefined, target)
+      ]);
+
+      const olderPage = toPage(older);
+      const newerPage = toNewerPage(newer);
+      const loaded = await Promise.all(
+        [...olderPage.rows, target, ...newerPage.rows].map(message =>
+          formatChannelMessage(channelId, message, userId, envelopeSince)
+        )
+      );
+
+      if (activeChannelRef.current !== requestChannelId) return false;
+
+      olderPagesLoadedRef.current = true;
+      hasNewerRef.current = newerPage.hasNewer;
+      stickToBottomRef.current = false;
+      pendingJumpRef.current = { messageId: target.id, contextLoaded: true };
+      setMessages(loaded);
+      setHasOlderMessages(olderPage.hasOlder);
+      setHasNewerMessages(newerPage.hasNewer);
+      loadThreadSummaries(loaded.map(message => message.id));
+      loadReactions(loaded.map(message => message.id));
+      if (inThread) {
+        openThreadPanel(loaded[olderPage.rows.length]);
+      }
+      return true;
+    } catch (err) {
+      console.error('Error loading messages around a message:', err);
+      if (activeChannelRef.current === requestChannelId) {
+        pendingJumpRef.current = null;
+        reportErrorRef.current('Failed to load the message');
+      }
+      return false;
+    }
+  }, [channelId, userId, fetchEnvelopeSince, loadThreadSummaries, loadReactions, openThreadPanel]);
+
+  const fetchMessages = useCallback(async () => {
+    if (!channelId || !userId) return;
+
+    setError(null);
+
+    try {
+      console.log('Fetching messages for channel:', channelId);
+
+      // First, validate that this channel belongs to the current server
+      const access = await fetchChannelAccess(channelId, userId);
+      if (!access) {
+        setError('Channel not found or access denied');
+        return;
+      }
+
+      setChannelDetails(access.details);
+      setChannelName(access.name);
+      historyStartRef.current = access.historyStart;
+
+      // Pins are filtered by the same history
+      loadPins();
+
+      // Share the channel key with members who joined after it was created
+      if (access.details.encryption_policy !== 'disabled') {
+        distributeChannelKey(channelId, access.details.server_id, userId).catch(distributeError => {
+          console.error('Error sharing channel key:', distributeError);
+        });
+      }
+
+      // Opened at a message: load the messages around it instead of the newest page
+      const jumpToMessageId = pendingJumpRef.current?.messageId;
+      if (jumpToMessageId && (await loadMessageContext(jumpToMessageId))) return;
+
+      const envelopeSince = await fetchEnvelopeSince(channelId);
+      const rows = await fetchChannelMessagePage(channelId, access.historyStart);
+
+      // Only the newest page is decrypted; older pages load as the user scrolls up
+      const page = toPage(rows);
+      const formattedMessages = await Promise.all(
+        page.rows.map(message => formatChannelMessage(channelId, message, userId, envelopeSince))
+      );
+
+      setMessages(current => mergeNewestPage(current, formattedMessages));
+      if (!olderPagesLoadedRef.current) {
+        setHasOlderMessages(page.hasOlder);
+      }
+      loadThreadSummaries(formattedMessages.map(message => message.id));
+      loadReactions(formattedMessages.map(message => message.id));
+    } catch (err) {
+      console.error('Unexpected error fetching messages:', err);
+      setError('An unexpected error occurred while loading messages');
+    } finally {
+      setLoading(false);
+    }
+  }, [channelId, userId, loadPins, loadMessageContext, fetchEnvelopeSince, loadThreadSummaries, loadReactions]);
+
+  const loadOlderMessages = async () => {
+    const oldest = messages[0];
+    if (!channelId || !userId || !oldest || loadingOlder) return;
+
+    const requestChannelId = channelId;
+    setLoadingOlder(true);
+
+    try {
+      const envelopeSince = await fetchEnvelopeSince(channelId);
+      const page = toPage(await fetchChannelMessagePage(channelId, historyStartRef.current, oldest));
+      const olderMessages = await Promise.all(
+        page.rows.map(message => formatChannelMessage(channelId, message, userId, envelopeSince))
+      );
+
+      // The user may have switched channels while the page was loading
+      if (activeChannelRef.current !== requestChannelId) return;
+
+      const container = scrollContainerRef.current;
+      if (container) {
+        scrollRestoreRef.current = { height: container.scrollHeight, top: container.scrollTop };
+      }
+
+      olderPagesLoadedRef.current = true;
+      setMessages(current => [
+        ...olderMessages.filter(message => !current.some(m => m.id === message.id)),
+        ...current
+      ]);
+      setHasOlderMessages(page.hasOlder);
+      loadThreadSummaries(olderMessages.map(message => message.id));
+      loadReactions(olderMessages.map(message => message.id));
+    } catch (err) {
+      console.error('Error loading older messages:', err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const loadNewerMessages = async () => {
+    const newest = messages[messages.length - 1];
+    if (!channelId || !userId || !newest || loadingNewer) return;
+
+    const requestChannelId = channelId;
+    setLoadingNewer(true);
+
+    try {
+      const envelopeSince = await fetchEnvelopeSince(channelId);
+      const page = toNewerPage(
+        await fetchChannelMessagePage(channelId, historyStartRef.current, undefined, newest)
+      );
+      const newerMessages = await Promise.all(
+        page.rows.map(message => formatChannelMessage(channelId, message, userId, envelopeSince))
+      );
+
+      if (activeChannelRef.current !== requestChannelId) return;
+
+      hasNewerRef.current = page.hasNewer;
+      setMessages(current => [
+        ...current,
+        ...newerMessages.filter(message => !current.some(m => m.id === message.id))
+      ]);
+      setHasNewerMessages(page.hasNewer);
+      loadThreadSummaries(newerMessages.map(message => message.id));
+      loadReactions(newerMessages.map(message => message.id));
+    } catch (err) {
+      console.error('Error loading newer messages:', err);
+    } finally {
+      setLoadingNewer(false);
+    }
+  };
+
+  // Load the newest page in place of older messages shown around a message
+  const returnToPresent = () => {
+    hasNewerRef.current = false;
+    olderPagesLoadedRef.current = false;
+    pendingJumpRef.current = null;
+    stickToBottomRef.current = true;
+    setHasNewerMessages(false);
+    setShowJumpToPresent(false);
+    setMessages([]);
+    setLoading(true);
+    fetchMessages();
+  };
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const fromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    // The bottom is only the present once the newest messages are loaded
+    stickToBottomRef.current = fromBottom < 100 && !hasNewerMessages;
+    setShowJumpToPresent(fromBottom > container.clientHeight * 2);
+
+    if (container.scrollTop < 200 && hasOlderMessages) {
+      loadOlderMessages();
+    }
+    if (fromBottom < 200 && hasNewerMessages) {
+      loadNewerMessages();
+    }
+  };
+
+  const jumpToPresent = () => {
+    if (hasNewerRef.current) {
+      returnToPresent();
+      return;
+    }
+    stickToBottomRef.current = true;
+    scrollToBottom();
+  };
+
+  // Scroll to a message and highlight it. Messages that are not loaded are
+  // loaded along with those around them.
+  const jumpToMessage = useCallback((messageId: string) => {
+    const element = document.getElementById(`message-${messageId}`);
+    if (element) {
+      pendingJumpRef.current = null;
+      stickToBottomRef.current = false;
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setHighlightedMessageId(messageId);
+      window.setTimeout(
+        () => setHighlightedMessageId(current => (current === messageId ? null : current)),
+        2000
+      );
+      return;
+    }
+
+    if (pendingJumpRef.current?.messageId === messageId && pendingJumpRef.current.contextLoaded) {
+      pendingJumpRef.current = null;
+      reportErrorRef.current('The message could not be found. It may have been deleted.');
+      return;
+    }
+
+    const requestChannelId = channelId;
+    pendingJumpRef.current = null;
+    setLoading(true);
+    loadMessageContext(messageId).finally(() => {
+      if (activeChannelRef.current === requestChannelId) setLoading(false);
+    });
+  }, [channelId, loadMessageContext]);
+
+  const togglePin = async (message: ChannelMessage) => {
+    if (!channelId || !userId) return;
+
+    const existing = pinnedMessages.find(item => item.pin.messageId === message.id);
+
+    try {
+      if (existing) {
+        await unpinMessage('pinned_messages', existing.pin.id);
+      } else {
+        await pinChannelMessage(channelId, message.id, userId);
+      }
+      loadPins();
+    } catch (err) {
+      console.error('Error updating pin:', err);
+      reportError(err instanceof Error ? err.message : 'Failed to update pin');
+    }
+  };
+
+  const unpin = async (pin: MessagePin) => {
+    try {
+      await unpinMessage('pinned_messages', pin.id);
+      loadPins();
+    } catch (err) {
+      console.error('Error unpinning message:', err);
+      setPinsError(err instanceof Error ? err.message : 'Failed to unpin message');
+    }
+  };
+
+  // Add the user's reaction with an emoji, or take it back if they already reacted with it
+  const toggleReaction = async (messageId: string, emoji: string) => {
+    if (!channelId || !channelDetails || !userId) return;
+
+    const summary = summarizeReactions(reactions[messageId] || [], userId).find(s => s.emoji === emoji);
+
+    try {
+      if (summary && summary.ownReactionIds.length > 0) {
+        await Promise.all(
+          summary.ownReactionIds.map(reactionId => removeReaction('message_reactions', reactionId, userId))
+        );
+        removeReactionsLocally(summary.ownReactionIds);
+      } else {
+        // Sealed like a message, so encrypted channels do not reveal the emoji
+        const reactionId = await addChannelReaction(
+          channelDetails.encryption_policy,
+          channelId,
+          channelDetails.server_id,
+          userId,
+          messageId,
+          emoji
+        );
+        applyReactionAdded(reactionId);
+      }
+    } catch (err) {
+      console.error('Error updating reaction:', err);
+      reportError(err instanceof Error ? err.message : 'Failed to update reaction');
+    }
+  };
+
+  // Show a message being sent straight away; it is replaced by the stored copy once sent
+  const showSendingMessage = (message: ChannelMessage) => {
+    // The message is sent to the present, so that is shown again
+    if (hasNewerRef.current) {
+      returnToPresent();
+    }
+    sentMessageIdsRef.current.add(message.id);
+    stickToBottomRef.current = true;
+    setMessages(current => upsertMessage(current, message));
+  };
+
+  const removeUnsentMessage = (messageId: string) => {
+    sentMessageIdsRef.current.delete(messageId);
+    setMessages(current => current.filter(message => message.id !== messageId));
+  };
+
+  const removeMessage = useCallback((messageId: string) => {
+    setMessages(current => current.filter(message => message.id !== messageId));
+    if (userId) removeFromIndex(userId, 'channel', messageId);
+    if (openThreadIdRef.current === messageId) {
+      closeThreadPanel();
+    }
+  }, [userId, closeThreadPanel]);
+
+  useEffect(() => {
+    if (!channelId) return;
+
+    // Reset messages when changing channels
+    activeChannelRef.current = channelId;
+    envelopeSinceRef.current = null;
+    olderPagesLoadedRef.current = false;
+    hasNewerRef.current = false;
+    stickToBottomRef.current = true;
+    openThreadIdRef.current = null;
+    pendingJumpRef.current = jumpToMessageId ? { messageId: jumpToMessageId, contextLoaded: false } : null;
+    setOpenThread(null);
+    pinIdsRef.current = [];
+    setPinnedMessages([]);
+    setPinsLoading(true);
+    setPinsError(null);
+    setReactions({});
+    setThreadSummaries({});
+    setMessages([]);
+    setHasOlderMessages(false);
+    setHasNewerMessages(false);
+    setShowJumpToPresent(false);
+    setLoading(true);
+    setError(null);
+
+    // Fetch channel info and messages
+    fetchMessages();
+
+    if (userId) {
+      markChannelRead(userId, channelId);
+      markChannelMentionsRead(userId, channelId);
+    }
+
+    // Subscribe to new messages
+    const channel = supabase
+      .channel(`messages:${channelId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `channel_id=eq.${channelId}`
+        },
+        payload => {
+          console.log('Received realtime message:', payload);
+          // Our own messages are already shown, and replaced once their insert returns
+          if (sentMessageIdsRef.current.has(payload.new.id)) return;
+          applyMessageChange(payload.new.id, true);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `channel_id=eq.${channelId}`
+        },
+        payload => {
+          console.log('Message updated:', payload);
+          applyMessageChange(payload.new.id, false);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages'
+        },
+        payload => {
+          // Deletes cannot be filtered by channel and only carry the id, so it is looked for among those loaded
+          const messageId = payload.old.id;
+          if (!messageId) return;
+          if (messagesRef.current.some(message => message.id === messageId)) {
+            removeMessage(messageId);
+          }
+          // Replies are not loaded here, so threads it may have been a reply in are reloaded
+          const threadIds = Object.keys(threadSummariesRef.current);
+          if (threadIds.length > 0) loadThreadSummaries(threadIds);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `channel_id=eq.${channelId}`
+        },
+        payload => {
+          applyReactionAdded(payload.new.id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'message_reactions'
+        },
+        payload => {
+          // Only the id of a removed reaction is sent, so it is looked for among those loaded
+          if (payload.old.id) removeReactionsLocally([payload.old.id]);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'pinned_messages',
+          filter: `channel_id=eq.${channelId}`
+        },
+        () => {
+          loadPins();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'pinned_messages'
+        },
+        payload => {
+          // Only the id of a removed pin is sent, so it is looked for among those loaded
+          if (pinIdsRef.current.includes(payload.old.id)) loadPins();
+        }
+      )
+      .subscribe(status => {
+        console.log('Subscription status:', status);
+      });
+
+    return () => {
+      console.log('Unsubscribing from channel');
+      channel.unsubscribe();
+    };
+  }, [
+    channelId,
+    userId,
+    jumpToMessageId,
+    fetchMessages,
+    applyMessageChange,
+    removeMessage,
+    loadThreadSummaries,
+    applyReactionAdded,
+    removeReactionsLocally,
+    loadPins
+  ]);
+
+  // Add messages to this device's search index as they are decrypted
+  useEffect(() => {
+    if (!userId || !channelDetails || channelDetails.id !== channelId) return;
+
+    indexMessages(
+      userId,
+      { scope: 'channel', channelId: channelDetails.id, serverId: channelDetails.server_id, name: channelName },
+      messages
+    );
+  }, [userId, channelId, messages, channelDetails, channelName]);
+
+  // Keep the view on the same message when older ones are added above, and
+  // follow new messages only while the user is at the bottom
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const restore = scrollRestoreRef.current;
+
+    if (container && restore) {
+      container.scrollTop = container.scrollHeight - restore.height + restore.top;
+      scrollRestoreRef.current = null;
+    } else if (stickToBottomRef.current) {
+      scrollToBottom('auto');
+    }
+  }, [messages, scrollContainerRef, scrollToBottom]);
+
+  // Go to a message being jumped to once the messages are in
+  useEffect(() => {
+    const pendingJump = pendingJumpRef.current;
+    if (pendingJump && !loading && !loadingOlder) {
+      jumpToMessage(pendingJump.messageId);
+    }
+  }, [messages, loading, loadingOlder, jumpToMessage]);
+
+  return {
+    messages,
+    loading,
+    error,
+    channelName,
+    channelDetails,
+    hasOlderMessages,
+    loadingOlder,
+    hasNewerMessages,
+    loadingNewer,
+    showJumpToPresent,
+    highlightedMessageId,
+    threadSummaries,
+    openThread,
+    reactions,
+    pinnedMessages,
+    pinsOpen,
+    setPinsOpen,
+    pinsLoading,
+    pinsError,
+    handleScroll,
+    jumpToPresent,
+    jumpToMessage,
+    openThreadPanel,
+    closeThreadPanel,
+    applyMessageChange,
+    showSendingMessage,
+    removeUnsentMessage,
+    removeMessage,
+    togglePin,
+    unpin,
+    toggleReaction
+  };
+}
@@ -0,0 +1,791 @@
+// src/hooks/useDirectMessages.ts
+
+import { RefObject, useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  mergeNewestPage,
+  toNewerPage,
+  toPage,
+  upsertMessage
+} from '../lib/messagePagination';
+import {
+  ConversationMessage,
+  Friend,
+  areFriends,
+  fetchDirectEnvelopeSince,
+  fetchDirectMessage,
+  fetchDirectMessagePage,
+  fetchDirectMessagesById,
+  fetchFriend,
+  formatDirectMessage,
+  markConversationRead,
+  markDirectMessageRead,
+  recordConversationReadStatus
+} from '../services/directMessageService';
+import { getPublishedKey } from '../services/encryptionService';
+import { VerificationStatus, getVerificationStatus } from '../services/verificationService';
+import {
+  MessageReaction,
+  addDirectMessageReaction,
+  fetchDirectMessageReaction,
+  fetchDirectMessageReactions,
+  groupReactions,
+  removeReaction,
+  summarizeReactions
+} from '../services/reactionService';
+import {
+  MessagePin,
+  PinnedMessage,
+  fetchDirectMessagePins,
+  pinDirectMessage,
+  unpinMessage
+} from '../services/pinService';
+import { indexMessages, removeFromIndex } from '../services/searchIndexService';
+
+interface DirectMessagesOptions {
+  friendId: string | undefined;
+  userId: string | undefined;
+  // Opened from a link or search: the message to go to once it has loaded
+  jumpToMessageId: string | undefined;
+  // The scrolling list of messages, and an element at its end
+  scrollContainerRef: RefObject<HTMLDivElement>;
+  messagesEndRef: RefObject<HTMLDivElement>;
+  // Shows what went wrong with pins, reactions and jumps
+  reportError: (message: string) => void;
+}
+
+/**
+ * The messages of a conversation with a friend, with their reactions and pins
+ * and the friend's key state, loaded a page at a time and kept up to date over
+ * realtime. Also keeps the message list scrolled to the right place as pages
+ * load and messages arrive.
+ */
+export function useDirectMessages({
+  friendId,
+  userId,
+  jumpToMessageId,
+  scrollContainerRef,
+  messagesEndRef,
+  reportError
+}: DirectMessagesOptions) {
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [friend, setFriend] = useState<Friend | null>(null);
+  const [friendHasKey, setFriendHasKey] = useState<boolean | null>(null);
+  const [verificationStatus, setVerificationStatus] = useState<VerificationStatus | null>(null);
+  // The conversation is loaded a page at a time, newest first
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [showJumpToPresent, setShowJumpToPresent] = useState(false);
+  // Set when the view was opened at an older message, until newer pages reach the present
+  const [hasNewerMessages, setHasNewerMessages] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+  // Read by the realtime handlers: new messages are not shown until the present is loaded
+  const hasNewerRef = useRef(false);
+  const activeFriendRef = useRef<string | undefined>(undefined);
+  const olderPagesLoadedRef = useRef(false);
+  const envelopeSinceRef = useRef<string | null>(null);
+  // Set just before older messages are added above, to keep the view where it was
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
+  // Whether the view follows new messages, i.e. the user is at the bottom
+  const stickToBottomRef = useRef(true);
+  // Messages sent from this tab, which are added when their insert returns rather than over realtime
+  const sentMessageIdsRef = useRef(new Set<string>());
+  // A message briefly highlighted after jumping to it from a quote or a link
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // A message to jump to once it has loaded, and whether the messages around it were loaded for it
+  const pendingJumpRef = useRef<{ messageId: string; contextLoaded: boolean } | null>(null);
+  // The conversation's pins with their messages decrypted, newest pin first
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const [pinsOpen, setPinsOpen] = useState(false);
+  const [pinsLoading, setPinsLoading] = useState(false);
+  const [pinsError, setPinsError] = useState<string | null>(null);
+  // Read by the realtime handlers, which only get the id of a removed pin
+  const pinIdsRef = useRef<string[]>([]);
+  // Decrypted reactions, by the id of the message they react to
+  const [reactions, setReactions] = useState<Record<string, MessageReaction[]>>({});
+  // Read by the loaders, so a new callback does not resubscribe the conversation
+  const reportErrorRef = useRef(reportError);
+
+  useEffect(() => {
+    reportErrorRef.current = reportError;
+  }, [reportError]);
+
+  const scrollToBottom = useCallback((behavior: ScrollBehavior = 'smooth') => {
+    messagesEndRef.current?.scrollIntoView({ behavior });
+  }, [messagesEndRef]);
+
+  // The friend's details, and whether they have a key we can encrypt to
+  const fetchFriendDetails = useCallback(async () => {
+    if (!friendId || !userId) return;
+
+    try {
+      setFriend(await fetchFriend(friendId));
+
+      // Check whether the friend has published a key we can encrypt to
+      const publishedKey = await getPublishedKey(friendId);
+      setFriendHasKey(!!publishedKey);
+      setVerificationStatus(await getVerificationStatus(userId, friendId));
+    } catch (err) {
+      console.error('Error fetching friend details:', err);
+      setError('Failed to load friend information');
+    }
+  }, [friendId, userId]);
+
+  // When the conversation moved to envelopes. Only a page is loaded at a time, so
+  // this is looked up on its own rather than worked out from the loaded messages.
+  const fetchEnvelopeSince = useCallback(async (userId: string, friendId: string) => {
+    if (!envelopeSinceRef.current) {
+      envelopeSinceRef.current = await fetchDirectEnvelopeSince(userId, friendId);
+    }
+    return envelopeSinceRef.current;
+  }, []);
+
+  // Load and decrypt the reactions to messages in this conversation
+  const loadReactions = useCallback(async (messageIds: string[]) => {
+    if (!friendId || !userId || messageIds.length === 0) return;
+
+    const requestFriendId = friendId;
+
+    try {
+      const grouped = groupReactions(await fetchDirectMessageReactions(messageIds, userId));
+
+      if (activeFriendRef.current !== requestFriendId) return;
+
+      setReactions(current => {
+        const next = { ...current };
+        for (const messageId of messageIds) {
+          next[messageId] = grouped[messageId] || [];
+        }
+        return next;
+      });
+    } catch (err) {
+      console.error('Error loading reactions:', err);
+    }
+  }, [friendId, userId]);
+
+  // Fetch and decrypt one reaction that was added, instead of reloading them all
+  const applyReactionAdded = useCallback(async (reactionId: string) => {
+    if (!friendId || !userId) return;
+
+    const requestFriendId = friendId;
+
+    try {
+      const reaction = await fetchDirectMessageReaction(reactionId, userId);
+      if (!reaction || activeFriendRef.current !== requestFriendId) return;
+
+      setReactions(current => {
+        const existing = current[reaction.messageId] || [];
+        if (existing.some(r => r.id === reaction.id)) return current;
+        return { ...current, [reaction.messageId]: [...existing, reaction] };
+      });
+    } catch (err) {
+      console.error('Error applying reaction:', err);
+    }
+  }, [friendId, userId]);
+
+  const removeReactionsLocally = useCallback((reactionIds: string[]) => {
+    setReactions(current => {
+      const next: Record<string, MessageReaction[]> = {};
+      for (const [messageId, messageReactions] of Object.entries(current)) {
+        next[messageId] = messageReactions.filter(reaction => !reactionIds.includes(reaction.id));
+      }
+      return next;
+    });
+  }, []);
+
+  // Load the conversation's pins and decrypt the messages they pin
+  const loadPins = useCallback(async () => {
+    if (!friendId || !userId) return;
+
+    const requestFriendId = friendId;
+
+    try {
+      const pins = await fetchDirectMessagePins(userId, friendId);
+      const rows = await fetchDirectMessagesById(pins.map(pin => pin.messageId));
+      const envelopeSince = await fetchEnvelopeSince(userId, friendId);
+      const pinned = await Promise.all(
+        pins.map(async (pin): Promise<PinnedMessage | null> => {
+          const row = rows.find(r => r.id === pin.messageId);
+          return row ? { pin, message: await formatDirectMessage(row, userId, envelopeSince) } : null;
+        })
+      );
+
+      if (activeFriendRef.current !== requestFriendId) return;
+
+      pinIdsRef.current = pins.map(pin => pin.id);
+      setPinnedMessages(pinned.filter((item): item is PinnedMessage => item !== null));
+      setPinsError(null);
+    } catch (err) {
+      console.error('Error loading pinned messages:', err);
+      if (activeFriendRef.current === requestFriendId) {
+        setPinsError('Failed to load pinned messages');
+      }
+    } finally {
+      if (activeFriendRef.current === requestFriendId) {
+        setPinsLoading(false);
+      }
+    }
+  }, [friendId, userId, fetchEnvelopeSince]);
+
+  // Fetch, decrypt and apply one message that was added or changed, instead of
+  // loading the whole conversation again. Changes to messages that are not
+  // loaded are ignored, as are new ones while the present is not loaded.
+  const applyMessageChange = useCallback(async (messageId: string, isNew: boolean) => {
+    if (!friendId || !userId || (isNew && hasNewerRef.current)) return;
+
+    const requestFriendId = friendId;
+
+    try {
+      const row = await fetchDirectMessage(messageId);
+      if (!row) return;
+
+      const message = await formatDirectMessage(row, userId, await fetchEnvelopeSince(userId, friendId));
+
+      if (activeFriendRef.current !== requestFriendId) return;
+
+      setMessages(current =>
+        isNew || current.some(m => m.id === message.id) ? upsertMessage(current, message) : current
+      );
+
+      // The conversation is open, so a message from the friend is read as it arrives
+      if (isNew && row.receiver_id === userId) {
+        await markDirectMessageRead(userId, messageId);
+      }
+    } catch (err) {
+      console.error('Error applying message change:', err);
+    }
+  }, [friendId, userId, fetchEnvelopeSince]);
+
+  // Load the messages around one that is not loaded, in place of those shown,
+  // so it can be jumped to however long ago it was sent. Older and newer pages
+  // then load as the user scrolls either way.
+  // Returns whether the message was found.
+  const loadMessageContext = useCallback(async (messageId: string) => {
+    if (!friendId || !userId) return false;
+
+    const requestFriendId = friendId;
+
+    try {
+      const target = await fetchDirectMessage(messageId, { userId, friendId });
+      if (!target) {
+        if (activeFriendRef.current === requestFriendId) {
+          pendingJumpRef.current = null;
+          reportErrorRef.current('The message could not be found. It may have been deleted.');
+        }
+        return false;
+      }
+
+      const envelopeSince = await fetchEnvelopeSince(userId, friendId);
+      const [older, newer] = await Promise.all([
+        fetchDirectMessagePage(userId, friendId, target),
+        fetchDirectMessagePage(userId, friendId, undefined, target)
+      ]);
+
+      const olderPage = toPage(older);
+      const newerPage = toNewerPage(newer);
+      const loaded = await Promise.all(
+        [...olderPage.rows, target, ...newerPage.rows].map(message =>
+          formatDirectMessage(message, userId, envelopeSince)
+        )
+      );
+
+      if (activeFriendRef.current !== requestFriendId) return false;
+
+      olderPagesLoadedRef.current = true;
+      hasNewerRef.current = newerPage.hasNewer;
+      stickToBottomRef.current = false;
+      pendingJumpRef.current = { messageId: target.id, contextLoaded: true };
+      setMessages(loaded);
+      setHasOlderMessages(olderPage.hasOlder);
+      setHasNewerMessages(newerPage.hasNewer);
+      loadReactions(loaded.map(message => message.id));
+      return true;
+    } catch (err) {
+      console.error('Error loading messages around a message:', err);
+      if (activeFriendRef.current === requestFriendId) {
+        pendingJumpRef.current = null;
+        reportErrorRef.current('Failed to load the message');
+      }
+      return false;
+    }
+  }, [friendId, userId, fetchEnvelopeSince, loadReactions]);
+
+  const fetchMessages = useCallback(async () => {
+    if (!friendId || !userId) return;
+
+    setError(null);
+
+    try {
+      if (!(await areFriends(userId, friendId))) {
+        setError('You are not friends with this user');
+        return;
+      }
+
+      await markConversationRead(userId, friendId);
+
+      // Opened at a message: load the messages around it instead of the newest page
+      const jumpToMessageId = pendingJumpRef.current?.messageId;
+      if (jumpToMessageId && (await loadMessageContext(jumpToMessageId))) return;
+
+      const envelopeSince = await fetchEnvelopeSince(userId, friendId);
+      const rows = await fetchDirectMessagePage(userId, friendId);
+
+      // Only the newest page is decrypted; older pages load as the user scrolls up
+      const page = toPage(rows);
+      const formattedMessages = await Promise.all(
+        page.rows.map(message => formatDirectMessage(message, userId, envelopeSince))
+      );
+
+      setMessages(current => mergeNewestPage(current, formattedMessages));
+      if (!olderPagesLoadedRef.current) {
+        setHasOlderMessages(page.hasOlder);
+      }
+      loadReactions(formattedMessages.map(message => message.id));
+    } catch (err) {
+      console.error('Unexpected error fetching messages:', err);
+      setError('An unexpected error occurred while loading messages');
+    } finally {
+      setLoading(false);
+    }
+  }, [friendId, userId, loadMessageContext, fetchEnvelopeSince, loadReactions]);
+
+  const loadOlderMessages = async () => {
+    const oldest = messages[0];
+    if (!friendId || !userId || !oldest || loadingOlder) return;
+
+    const requestFriendId = friendId;
+    setLoadingOlder(true);
+
+    try {
+      const envelopeSince = await fetchEnvelopeSince(userId, friendId);
+      const page = toPage(await fetchDirectMessagePage(userId, friendId, oldest));
+      const olderMessages = await Promise.all(
+        page.rows.map(message => formatDirectMessage(message, userId, envelopeSince))
+      );
+
+      // The user may have opened another conversation while the page was loading
+      if (activeFriendRef.current !== requestFriendId) return;
+
+      const container = scrollContainerRef.current;
+      if (container) {
+        scrollRestoreRef.current = { height: container.scrollHeight, top: container.scrollTop };
+      }
+
+      olderPagesLoadedRef.current = true;
+      setMessages(current => [
+        ...olderMessages.filter(message => !current.some(m => m.id === message.id)),
+        ...current
+      ]);
+      setHasOlderMessages(page.hasOlder);
+      loadReactions(olderMessages.map(message => message.id));
+    } catch (err) {
+      console.error('Error loading older messages:', err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const loadNewerMessages = async () => {
+    const newest = messages[messages.length - 1];
+    if (!friendId || !userId || !newest || loadingNewer) return;
+
+    const requestFriendId = friendId;
+    setLoadingNewer(true);
+
+    try {
+      const envelopeSince = await fetchEnvelopeSince(userId, friendId);
+      const page = toNewerPage(await fetchDirectMessagePage(userId, friendId, undefined, newest));
+      const newerMessages = await Promise.all(
+        page.rows.map(message => formatDirectMessage(message, userId, envelopeSince))
+      );
+
+      if (activeFriendRef.current !== requestFriendId) return;
+
+      hasNewerRef.current = page.hasNewer;
+      setMessages(current => [
+        ...current,
+        ...newerMessages.filter(message => !current.some(m => m.id === message.id))
+      ]);
+      setHasNewerMessages(page.hasNewer);
+      loadReactions(newerMessages.map(message => message.id));
+    } catch (err) {
+      console.error('Error loading newer messages:', err);
+    } finally {
+      setLoadingNewer(false);
+    }
+  };
+
+  // Load the newest page in place of older messages shown around a message
+  const returnToPresent = () => {
+    hasNewerRef.current = false;
+    olderPagesLoadedRef.current = false;
+    pendingJumpRef.current = null;
+    stickToBottomRef.current = true;
+    setHasNewerMessages(false);
+    setShowJumpToPresent(false);
+    setMessages([]);
+    setLoading(true);
+    fetchMessages();
+  };
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const fromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    // The bottom is only the present once the newest messages are loaded
+    stickToBottomRef.current = fromBottom < 100 && !hasNewerMessages;
+    setShowJumpToPresent(fromBottom > container.clientHeight * 2);
+
+    if (container.scrollTop < 200 && hasOlderMessages) {
+      loadOlderMessages();
+    }
+    if (fromBottom < 200 && hasNewerMessages) {
+      loadNewerMessages();
+    }
+  };
+
+  const jumpToPresent = () => {
+    if (hasNewerRef.current) {
+      returnToPresent();
+      return;
+    }
+    stickToBottomRef.current = true;
+    scrollToBottom();
+  };
+
+  // Scroll to a message and highlight it. Messages that are not loaded are
+  // loaded along with those around them.
+  const jumpToMessage = useCallback((messageId: string) => {
+    const element = document.getElementById(`message-${messageId}`);
+    if (element) {
+      pendingJumpRef.current = null;
+      stickToBottomRef.current = false;
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setHighlightedMessageId(messageId);
+      window.setTimeout(
+        () => setHighlightedMessageId(current => (current === messageId ? null : current)),
+        2000
+      );
+      return;
+    }
+
+    if (pendingJumpRef.current?.messageId === messageId && pendingJumpRef.current.contextLoaded) {
+      pendingJumpRef.current = null;
+      reportErrorRef.current('The message could not be found. It may have been deleted.');
+      return;
+    }
+
+    const requestFriendId = friendId;
+    pendingJumpRef.current = null;
+    setLoading(true);
+    loadMessageContext(messageId).finally(() => {
+      if (activeFriendRef.current === requestFriendId) setLoading(false);
+    });
+  }, [friendId, loadMessageContext]);
+
+  const togglePin = async (message: ConversationMessage) => {
+    if (!friendId || !userId) return;
+
+    const existing = pinnedMessages.find(item => item.pin.messageId === message.id);
+
+    try {
+      if (existing) {
+        await unpinMessage('pinned_direct_messages', existing.pin.id);
+      } else {
+        await pinDirectMessage(userId, friendId, message.id);
+      }
+      loadPins();
+    } catch (err) {
+      console.error('Error updating pin:', err);
+      reportError(err instanceof Error ? err.message : 'Failed to update pin');
+    }
+  };
+
+  const unpin = async (pin: MessagePin) => {
+    try {
+      await unpinMessage('pinned_direct_messages', pin.id);
+      loadPins();
+    } catch (err) {
+      console.error('Error unpinning message:', err);
+      setPinsError(err instanceof Error ? err.message : 'Failed to unpin message');
+    }
+  };
+
+  // Add the user's reaction with an emoji, or take it back if they already reacted with it
+  const toggleReaction = async (messageId: string, emoji: string) => {
+    if (!friendId || !userId) return;
+
+    const summary = summarizeReactions(reactions[messageId] || [], userId).find(s => s.emoji === emoji);
+
+    try {
+      if (summary && summary.ownReactionIds.length > 0) {
+        await Promise.all(
+          summary.ownReactionIds.map(reactionId =>
+            removeReaction('direct_message_reactions', reactionId, userId)
+          )
+        );
+        removeReactionsLocally(summary.ownReactionIds);
+      } else {
+        const reactionId = await addDirectMessageReaction(userId, friendId, messageId, emoji);
+        applyReactionAdded(reactionId);
+      }
+    } catch (err) {
+      console.error('Error updating reaction:', err);
+      reportError(err instanceof Error ? err.message : 'Failed to update reaction');
+    }
+  };
+
+  // Show a message being sent straight away; it is replaced by the stored copy once sent
+  const showSendingMessage = (message: ConversationMessage) => {
+    // The message is sent to the present, so that is shown again
+    if (hasNewerRef.current) {
+      returnToPresent();
+    }
+    sentMessageIdsRef.current.add(message.id);
+    stickToBottomRef.current = true;
+    setMessages(current => upsertMessage(current, message));
+  };
+
+  const removeUnsentMessage = (messageId: string) => {
+    sentMessageIdsRef.current.delete(messageId);
+    setMessages(current => current.filter(message => message.id !== messageId));
+  };
+
+  const removeMessage = useCallback((messageId: string) => {
+    setMessages(current => current.filter(message => message.id !== messageId));
+    if (userId) removeFromIndex(userId, 'dm', messageId);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!friendId || !userId) return;
+
+    // Reset the loaded history when opening another conversation
+    activeFriendRef.current = friendId;
+    envelopeSinceRef.current = null;
+    olderPagesLoadedRef.current = false;
+    hasNewerRef.current = false;
+    stickToBottomRef.current = true;
+    pendingJumpRef.current = jumpToMessageId ? { messageId: jumpToMessageId, contextLoaded: false } : null;
+    pinIdsRef.current = [];
+    setPinnedMessages([]);
+    setPinsLoading(true);
+    setPinsError(null);
+    setReactions({});
+    setMessages([]);
+    setHasOlderMessages(false);
+    setHasNewerMessages(false);
+    setShowJumpToPresent(false);
+    setLoading(true);
+    fetchFriendDetails();
+    fetchMessages();
+    loadPins();
+
+    // Realtime filters match a single column, so each side of the conversation
+    // is subscribed to separately and the other participant is checked here
+    const isThisConversation = (row: { sender_id?: string; receiver_id?: string }) =>
+      (row.sender_id === userId && row.receiver_id === friendId) ||
+      (row.sender_id === friendId && row.receiver_id === userId);
+    const handleMessageInsert = (payload: { new: { id: string; sender_id?: string; receiver_id?: string } }) => {
+      if (!isThisConversation(payload.new)) return;
+      // Our own messages are already shown, and replaced once their insert returns
+      if (sentMessageIdsRef.current.has(payload.new.id)) return;
+      applyMessageChange(payload.new.id, true);
+    };
+    const handleMessageUpdate = (payload: { new: { id: string; sender_id?: string; receiver_id?: string } }) => {
+      if (!isThisConversation(payload.new)) return;
+      applyMessageChange(payload.new.id, false);
+    };
+    const handleReactionInsert = (payload: { new: { id: string; user_id?: string; recipient_id?: string } }) => {
+      const { user_id: reactorId, recipient_id: recipientId } = payload.new;
+      const isThisReaction =
+        (reactorId === userId && recipientId === friendId) ||
+        (reactorId === friendId && recipientId === userId);
+      if (!isThisReaction) return;
+      applyReactionAdded(payload.new.id);
+    };
+    const handlePinInsert = (payload: { new: { pinned_by?: string; recipient_id?: string } }) => {
+      const { pinned_by: pinnerId, recipient_id: recipientId } = payload.new;
+      const isThisPin =
+        (pinnerId === userId && recipientId === friendId) ||
+        (pinnerId === friendId && recipientId === userId);
+      if (!isThisPin) return;
+      loadPins();
+    };
+
+    // Subscribe to new messages
+    const directMessageChannel = supabase
+      .channel(`direct_messages:${userId}:${friendId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'direct_messages',
+        filter: `receiver_id=eq.${userId}`
+      }, handleMessageInsert)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'direct_messages',
+        filter: `sender_id=eq.${userId}`
+      }, handleMessageInsert)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'direct_messages',
+        filter: `receiver_id=eq.${userId}`
+      }, handleMessageUpdate)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'direct_messages',
+        filter: `sender_id=eq.${userId}`
+      }, handleMessageUpdate)
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'direct_messages'
+      }, (payload) => {
+        // Only the id of a removed message is sent, so it is looked for among those loaded
+        if (!payload.old.id) return;
+        removeMessage(payload.old.id);
+      })
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'direct_message_reactions',
+        filter: `recipient_id=eq.${userId}`
+      }, handleReactionInsert)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'direct_message_reactions',
+        filter: `user_id=eq.${userId}`
+      }, handleReactionInsert)
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'direct_message_reactions'
+      }, (payload) => {
+        // Only the id of a removed reaction is sent, so it is looked for among those loaded
+        if (payload.old.id) removeReactionsLocally([payload.old.id]);
+      })
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'pinned_direct_messages',
+        filter: `recipient_id=eq.${userId}`
+      }, handlePinInsert)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'pinned_direct_messages',
+        filter: `pinned_by=eq.${userId}`
+      }, handlePinInsert)
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'pinned_direct_messages'
+      }, (payload) => {
+        // Only the id of a removed pin is sent, so it is looked for among those loaded
+        if (pinIdsRef.current.includes(payload.old.id)) loadPins();
+      })
+      .subscribe();
+
+    return () => {
+      directMessageChannel.unsubscribe();
+    };
+  }, [
+    friendId,
+    userId,
+    jumpToMessageId,
+    fetchFriendDetails,
+    fetchMessages,
+    loadPins,
+    applyMessageChange,
+    removeMessage,
+    applyReactionAdded,
+    removeReactionsLocally
+  ]);
+
+  // Record a read status for the friend's messages, which the conversation list counts
+  useEffect(() => {
+    if (!friendId || !userId) return;
+
+    recordConversationReadStatus(userId, friendId)
+      .then(marked => {
+        // Trigger a refresh of the DirectMessagesList
+        if (marked) window.dispatchEvent(new Event('refresh-dm-list'));
+      })
+      .catch(err => {
+        console.error('Failed to mark messages as read:', err);
+      });
+  }, [friendId, userId]);
+
+  // Add messages to this device's search index as they are decrypted
+  useEffect(() => {
+    if (!userId || !friend || friend.id !== friendId) return;
+
+    indexMessages(
+      userId,
+      { scope: 'dm', friendId: friend.id, name: friend.display_name || friend.username },
+      messages
+    );
+  }, [userId, friendId, messages, friend]);
+
+  // Keep the view on the same message when older ones are added above, and
+  // follow new messages only while the user is at the bottom
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const restore = scrollRestoreRef.current;
+
+    if (container && restore) {
+      container.scrollTop = container.scrollHeight - restore.height + restore.top;
+      scrollRestoreRef.current = null;
+    } else if (stickToBottomRef.current) {
+      scrollToBottom('auto');
+    }
+  }, [messages, scrollContainerRef, scrollToBottom]);
+
+  // Go to a message being jumped to once the messages are in
+  useEffect(() => {
+    const pendingJump = pendingJumpRef.current;
+    if (pendingJump && !loading && !loadingOlder) {
+      jumpToMessage(pendingJump.messageId);
+    }
+  }, [messages, loading, loadingOlder, jumpToMessage]);
+
+  return {
+    messages,
+    loading,
+    error,
+    friend,
+    friendHasKey,
+    verificationStatus,
+    setVerificationStatus,
+    hasOlderMessages,
+    loadingOlder,
+    hasNewerMessages,
+    loadingNewer,
+    showJumpToPresent,
+    highlightedMessageId,
+    reactions,
+    pinnedMessages,
+    pinsOpen,
+    setPinsOpen,
+    pinsLoading,
+    pinsError,
+    fetchMessages,
+    handleScroll,
+    jumpToPresent,
+    jumpToMessage,
+    applyMessageChange,
+    showSendingMessage,
+    removeUnsentMessage,
+    removeMessage,
+    togglePin,
+    unpin,
+    toggleReaction
+  };
+}
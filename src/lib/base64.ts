@@ -0,0 +1,19 @@
+// Base64 for binary data. Bytes are turned into a string a chunk at a time,
+// because spreading a whole ciphertext into String.fromCharCode overflows the
+// call stack once it is more than a few hundred kilobytes.
+
+// Well below the argument limit of every browser
+const CHUNK_SIZE = 0x8000;
+
+export function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), c => c.charCodeAt(0));
+}
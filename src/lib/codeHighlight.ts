@@ -0,0 +1,190 @@
+// Syntax highlighting for code blocks. Code is split into tokens that are
+// shown as text with a colour for their kind, so highlighting never produces
+// markup. Only the common cases are covered: keywords, strings, comments and
+// numbers. Unknown languages are shown unhighlighted.
+
+export type CodeTokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface CodeToken {
+  text: string;
+  kind: CodeTokenKind;
+}
+
+interface LanguageRules {
+  keywords: Set<string>;
+  lineComment?: string;
+  blockComment?: [string, string];
+  // Characters that open and close a string
+  quotes: string;
+  caseInsensitive?: boolean;
+}
+
+const C_STYLE_COMMENTS = { lineComment: '//', blockComment: ['/*', '*/'] as [string, string] };
+
+function words(list: string): Set<string> {
+  return new Set(list.split(' '));
+}
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  javascript: {
+    ...C_STYLE_COMMENTS,
+    quotes: '"\'`',
+    keywords: words(
+      'async await break case catch class const continue default delete do else enum export extends false finally for from function if implements import in instanceof interface let new null of private protected public readonly return static super switch this throw true try type typeof undefined var void while yield'
+    ),
+  },
+  python: {
+    lineComment: '#',
+    quotes: '"\'',
+    keywords: words(
+      'and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield'
+    ),
+  },
+  rust: {
+    ...C_STYLE_COMMENTS,
+    quotes: '"',
+    keywords: words(
+      'as async await break const continue crate else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while'
+    ),
+  },
+  go: {
+    ...C_STYLE_COMMENTS,
+    quotes: '"`',
+    keywords: words(
+      'break case chan const continue default defer else fallthrough false for func go goto if import interface map nil package range return select struct switch true type var'
+    ),
+  },
+  c: {
+    ...C_STYLE_COMMENTS,
+    quotes: '"\'',
+    keywords: words(
+      'abstract auto bool break case catch char class const continue default delete do double else enum extends false final float for if implements import int long namespace new null nullptr package private protected public return short signed sizeof static struct switch template this throw true try typedef union unsigned using var virtual void volatile while'
+    ),
+  },
+  sql: {
+    lineComment: '--',
+    blockComment: ['/*', '*/'],
+    quotes: '\'"',
+    caseInsensitive: true,
+    keywords: words(
+      'add all alter and as asc begin by case check column commit create default delete desc distinct drop else end exists foreign from function grant group having if in index inner insert into is join key left like limit not null on or order outer primary references returns right rollback select set table then trigger union unique update using values view when where with'
+    ),
+  },
+  shell: {
+    lineComment: '#',
+    quotes: '"\'',
+    keywords: words('case do done echo elif else esac exit export fi for function if in local return then until while'),
+  },
+  json: {
+    quotes: '"',
+    keywords: words('true false null'),
+  },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  typescript: 'javascript',
+  py: 'python',
+  rs: 'rust',
+  golang: 'go',
+  cpp: 'c',
+  'c++': 'c',
+  h: 'c',
+  cs: 'c',
+  csharp: 'c',
+  java: 'c',
+  kotlin: 'c',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  psql: 'sql',
+  postgres: 'sql',
+};
+
+const NUMBER = /0x[\da-f]+|\d+(\.\d+)?(e[+-]?\d+)?/iy;
+const WORD = /[A-Za-z_$][\w$]*/y;
+
+function matchAt(pattern: RegExp, code: string, index: number): string | null {
+  pattern.lastIndex = index;
+  return pattern.exec(code)?.[0] ?? null;
+}
+
+function getRules(language: string | null): LanguageRules | null {
+  if (!language) return null;
+  return LANGUAGES[language] || LANGUAGES[LANGUAGE_ALIASES[language]] || null;
+}
+
+/**
+ * Split code into tokens to colour by kind
+ */
+export function highlightCode(code: string, language: string | null): CodeToken[] {
+  const rules = getRules(language);
+  if (!rules) return [{ text: code, kind: 'plain' }];
+
+  const tokens: CodeToken[] = [];
+  const push = (text: string, kind: CodeTokenKind) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      tokens.push({ text, kind });
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    if (rules.lineComment && code.startsWith(rules.lineComment, i)) {
+      const end = code.indexOf('\n', i);
+      const comment = code.slice(i, end === -1 ? code.length : end);
+      push(comment, 'comment');
+      i += comment.length;
+      continue;
+    }
+
+    if (rules.blockComment && code.startsWith(rules.blockComment[0], i)) {
+      const end = code.indexOf(rules.blockComment[1], i + rules.blockComment[0].length);
+      const comment = code.slice(i, end === -1 ? code.length : end + rules.blockComment[1].length);
+      push(comment, 'comment');
+      i += comment.length;
+      continue;
+    }
+
+    const character = code[i];
+
+    if (rules.quotes.includes(character)) {
+      let end = i + 1;
+      while (end < code.length && code[end] !== character) {
+        // Only backtick strings run over lines
+        if (code[end] === '\n' && character !== '`') break;
+        end += code[end] === '\\' ? 2 : 1;
+      }
+      const string = code.slice(i, Math.min(end + 1, code.length));
+      push(string, 'string');
+      i += string.length;
+      continue;
+    }
+
+    const number = matchAt(NUMBER, code, i);
+    if (number && !/[\w$]/.test(code[i - 1] ?? '')) {
+      push(number, 'number');
+      i += number.length;
+      continue;
+    }
+
+    const word = matchAt(WORD, code, i);
+    if (word) {
+      const isKeyword = rules.keywords.has(rules.caseInsensitive ? word.toLowerCase() : word);
+      push(word, isKeyword ? 'keyword' : 'plain');
+      i += word.length;
+      continue;
+    }
+
+    push(character, 'plain');
+    i++;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,31 @@
+// Device private keys are non-extractable CryptoKeys kept in IndexedDB, so
+// they survive browser restarts but can never be read out as raw bytes
+
+import { LocalDatabase, withStore } from './indexedDb';
+
+const STORE_NAME = 'device-keys';
+const DATABASE: LocalDatabase<typeof STORE_NAME> = {
+  name: 'securechat-devices',
+  storeNames: [STORE_NAME],
+  keyPath: 'userId',
+};
+
+export interface LocalDevice {
+  userId: string;
+  deviceId: string;
+  privateKey: CryptoKey;
+}
+
+// Get this browser's device for a user, if it has been enrolled
+export async function getLocalDevice(userId: string): Promise<LocalDevice | null> {
+  const device = await withStore<LocalDevice | undefined>(DATABASE, STORE_NAME, 'readonly', store => store.get(userId));
+  return device ?? null;
+}
+
+export async function saveLocalDevice(device: LocalDevice): Promise<void> {
+  await withStore(DATABASE, STORE_NAME, 'readwrite', store => store.put(device));
+}
+
+export async function deleteLocalDevice(userId: string): Promise<void> {
+  await withStore(DATABASE, STORE_NAME, 'readwrite', store => store.delete(userId));
+}
@@ -0,0 +1,42 @@
+// IndexedDB plumbing shared by the stores that keep state in this browser.
+// Each call opens its database, runs one request and closes it again, so no
+// connection is left open between calls.
+
+// A database and its object stores, which are all created at version 1
+export interface LocalDatabase<S extends string> {
+  name: string;
+  storeNames: S[];
+  // The record field each object store is keyed by
+  keyPath: string;
+}
+
+export function openDatabase<S extends string>(database: LocalDatabase<S>): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(database.name, 1);
+    request.onupgradeneeded = () => {
+      for (const name of database.storeNames) {
+        request.result.createObjectStore(name, { keyPath: database.keyPath });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function withStore<T, S extends string = string>(
+  database: LocalDatabase<S>,
+  storeName: S,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase(database);
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,31 @@
+// The last key transparency log entry this browser accepted for each contact.
+// It is the checkpoint the next copy of the log must extend, so it is kept
+// locally where the server cannot rewrite it.
+
+import { LocalDatabase, withStore } from './indexedDb';
+
+const STORE_NAME = 'heads';
+const DATABASE: LocalDatabase<typeof STORE_NAME> = {
+  name: 'securechat-key-log',
+  storeNames: [STORE_NAME],
+  keyPath: 'id',
+};
+
+export interface KeyLogHead {
+  // `${viewerId}:${userId}`
+  id: string;
+  viewerId: string;
+  userId: string;
+  seq: number;
+  keyVersion: number;
+  entryHash: string;
+}
+
+export async function getKeyLogHead(viewerId: string, userId: string): Promise<KeyLogHead | null> {
+  const head = await withStore<KeyLogHead | undefined>(DATABASE, STORE_NAME, 'readonly', store => store.get(`${viewerId}:${userId}`));
+  return head ?? null;
+}
+
+export async function saveKeyLogHead(head: Omit<KeyLogHead, 'id'>): Promise<void> {
+  await withStore(DATABASE, STORE_NAME, 'readwrite', store => store.put({ id: `${head.viewerId}:${head.userId}`, ...head }));
+}
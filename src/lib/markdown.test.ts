@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeUrl } from './markdown';
+
+describe('sanitizeUrl', () => {
+  it('keeps http and https links', () => {
+    expect(sanitizeUrl('https://example.com/a?b=c#d')).toBe('https://example.com/a?b=c#d');
+    expect(sanitizeUrl('http://example.com')).toBe('http://example.com/');
+  });
+
+  it('returns the normalised URL', () => {
+    expect(sanitizeUrl('HTTPS://Example.COM/path')).toBe('https://example.com/path');
+  });
+
+  it('refuses other schemes', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('JavaScript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('data:text/html,<script>alert(1)</script>')).toBeNull();
+    expect(sanitizeUrl('vbscript:msgbox')).toBeNull();
+    expect(sanitizeUrl('file:///etc/passwd')).toBeNull();
+  });
+
+  it('refuses relative and malformed URLs', () => {
+    expect(sanitizeUrl('/dashboard')).toBeNull();
+    expect(sanitizeUrl('//example.com')).toBeNull();
+    expect(sanitizeUrl('not a url')).toBeNull();
+    expect(sanitizeUrl('')).toBeNull();
+  });
+});
@@ -0,0 +1,236 @@
+// Message formatting. Decrypted text is parsed into a small tree of known
+// node types and rendered from that as React elements; it is never turned
+// into HTML, so nothing a sender writes can add markup, attributes or script.
+// Links are only made from http and https URLs, checked again on the way out.
+
+// How deeply quotes and inline formatting may nest before the rest is plain text
+const MAX_DEPTH = 4;
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'spoiler'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; text: string };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'codeBlock'; language: string | null; code: string };
+
+const FENCE_OPEN = /^```([\w+#.-]*)\s*$/;
+const FENCE_CLOSE = /^```\s*$/;
+const QUOTE_LINE = /^> ?/;
+const URL_START = /https?:\/\/[^\s<>]+/y;
+const ESCAPABLE = '\\`*_|>';
+
+/**
+ * The URL to link to, or null if it is not a well-formed http or https URL
+ */
+export function sanitizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse message text into blocks: paragraphs, block quotes and fenced code
+ */
+export function parseMarkdown(text: string, depth = 0): BlockNode[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    // Blank lines between paragraphs are kept, as in the plain text
+    const content = paragraph.join('\n').replace(/^\n+|\n+$/g, '');
+    if (content) blocks.push({ type: 'paragraph', children: parseInline(content, depth) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = FENCE_OPEN.exec(line);
+    if (fence) {
+      const close = lines.findIndex((candidate, index) => index > i && FENCE_CLOSE.test(candidate));
+      // An unclosed fence is just text
+      if (close !== -1) {
+        endParagraph();
+        blocks.push({
+          type: 'codeBlock',
+          language: fence[1] ? fence[1].toLowerCase() : null,
+          code: lines.slice(i + 1, close).join('\n'),
+        });
+        i = close;
+        continue;
+      }
+    }
+
+    if (QUOTE_LINE.test(line) && depth < MAX_DEPTH) {
+      endParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_LINE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE_LINE, ''));
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n'), depth + 1) });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  endParagraph();
+  return blocks;
+}
+
+function isWordCharacter(character: string | undefined): boolean {
+  return character !== undefined && /[\p{L}\p{N}]/u.test(character);
+}
+
+/**
+ * Find where a run of formatting closes, skipping escaped characters.
+ * Single * and _ do not close on a doubled marker, so *a **b** c* nests.
+ */
+function findClosing(text: string, marker: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (!text.startsWith(marker, i)) continue;
+
+    if (marker.length === 1 && text[i + 1] === marker) {
+      i++;
+      continue;
+    }
+    // Underscores inside words, as in snake_case, are not formatting
+    if (marker === '_' && isWordCharacter(text[i + 1])) continue;
+    // Closing markers follow text, not a space
+    if (/\s/.test(text[i - 1])) continue;
+
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Trim punctuation that ends a sentence rather than the URL
+ */
+function trimUrl(url: string): string {
+  let end = url.length;
+  while (end > 0) {
+    const last = url[end - 1];
+    if ('.,;:!?\'"'.includes(last)) {
+      end--;
+    } else if (last === ')' && url.slice(0, end).split('(').length <= url.slice(0, end).split(')').length - 1) {
+      end--;
+    } else {
+      break;
+    }
+  }
+  return url.slice(0, end);
+}
+
+/**
+ * Parse the formatting within a paragraph: bold, italics, inline code,
+ * spoilers and links
+ */
+export function parseInline(text: string, depth = 0): InlineNode[] {
+  if (depth >= MAX_DEPTH) return [{ type: 'text', text }];
+
+  const nodes: InlineNode[] = [];
+  let plain = '';
+
+  const pushText = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const character = text[i];
+
+    if (character === '\\' && ESCAPABLE.includes(text[i + 1] ?? '')) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (character === '`') {
+      let runEnd = i;
+      while (text[runEnd] === '`') runEnd++;
+      const run = text.slice(i, runEnd);
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1 && close > i + run.length) {
+        pushText();
+        nodes.push({ type: 'code', text: text.slice(i + run.length, close) });
+        i = close + run.length;
+        continue;
+      }
+      plain += run;
+      i += run.length;
+      continue;
+    }
+
+    const marker = text.startsWith('||', i)
+      ? '||'
+      : text.startsWith('**', i)
+        ? '**'
+        : character === '*' || (character === '_' && !isWordCharacter(text[i - 1]))
+          ? character
+          : null;
+
+    if (marker && text[i + marker.length] && !/\s/.test(text[i + marker.length])) {
+      const close = findClosing(text, marker, i + marker.length);
+      if (close !== -1) {
+        pushText();
+        nodes.push({
+          type: marker === '||' ? 'spoiler' : marker === '**' ? 'bold' : 'italic',
+          children: parseInline(text.slice(i + marker.length, close), depth + 1),
+        });
+        i = close + marker.length;
+        continue;
+      }
+    }
+
+    // An unclosed ** or || is text, rather than two single markers
+    if (marker && marker.length === 2) {
+      plain += marker;
+      i += 2;
+      continue;
+    }
+
+    if (character === 'h' && !isWordCharacter(text[i - 1])) {
+      URL_START.lastIndex = i;
+      const match = URL_START.exec(text);
+      const url = match ? trimUrl(match[0]) : '';
+      const href = url ? sanitizeUrl(url) : null;
+      if (href) {
+        pushText();
+        nodes.push({ type: 'link', href, text: url });
+        i += url.length;
+        continue;
+      }
+    }
+
+    plain += character;
+    i++;
+  }
+
+  pushText();
+  return nodes;
+}
+
+/**
+ * Whether text uses any formatting, i.e. would look different rendered
+ */
+export function hasFormatting(blocks: BlockNode[]): boolean {
+  return blocks.some(block =>
+    block.type !== 'paragraph' || block.children.some(node => node.type !== 'text')
+  );
+}
@@ -0,0 +1,220 @@
+// Mentions are picked in the composer and sealed into the message body along
+// with the text. Who they reach is worked out in the sender's browser from the
+// server's member list, and each recipient checks the decrypted body before
+// showing the mention, so the server never sees which name or role was used.
+
+import { MessageMention } from './messageEnvelope';
+
+// Suggestions shown at once while typing a mention
+const MAX_SUGGESTIONS = 8;
+
+// A server member who can be mentioned
+export interface MentionableMember {
+  user_id: string;
+  username: string;
+  display_name: string | null;
+  role: string;
+}
+
+export interface MentionSuggestion {
+  mention: MessageMention;
+  label: string;
+  description: string;
+}
+
+// A run of message text, and whether it is a mention
+export interface MentionSegment {
+  text: string;
+  mention: MessageMention | null;
+}
+
+/**
+ * The text a mention is written as, including its @
+ */
+export function mentionLabel(mention: MessageMention): string {
+  switch (mention.kind) {
+    case 'user':
+      return `@${mention.label}`;
+    case 'role':
+      return `@${mention.role}`;
+    case 'here':
+      return '@here';
+    case 'everyone':
+      return '@everyone';
+  }
+}
+
+function mentionKey(mention: MessageMention): string {
+  switch (mention.kind) {
+    case 'user':
+      return `user:${mention.userId}`;
+    case 'role':
+      return `role:${mention.role}`;
+    default:
+      return mention.kind;
+  }
+}
+
+/**
+ * Find the mention being typed just before the caret
+ * @returns Where its @ is and what follows it, or null if no mention is being typed
+ */
+export function getMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+
+  return { start: caret - match[2].length - 1, query: match[2] };
+}
+
+/**
+ * Members, roles and the group mentions that match what has been typed after the @
+ */
+export function suggestMentions(
+  query: string,
+  members: MentionableMember[],
+  currentUserId: string
+): MentionSuggestion[] {
+  const search = query.toLowerCase();
+  const suggestions: MentionSuggestion[] = [];
+
+  for (const member of members) {
+    if (member.user_id === currentUserId) continue;
+
+    const name = member.display_name || member.username;
+    if (name.toLowerCase().startsWith(search) || member.username.toLowerCase().startsWith(search)) {
+      suggestions.push({
+        mention: { kind: 'user', userId: member.user_id, label: name },
+        label: `@${name}`,
+        description: member.display_name ? member.username : member.role,
+      });
+    }
+  }
+
+  const roles = Array.from(new Set(members.map(member => member.role)));
+  for (const role of roles) {
+    if (role.toLowerCase().startsWith(search)) {
+      suggestions.push({ mention: { kind: 'role', role }, label: `@${role}`, description: 'Everyone with this role' });
+    }
+  }
+
+  if ('here'.startsWith(search)) {
+    suggestions.push({ mention: { kind: 'here' }, label: '@here', description: 'Members who are online' });
+  }
+  if ('everyone'.startsWith(search)) {
+    suggestions.push({ mention: { kind: 'everyone' }, label: '@everyone', description: 'Everyone in this server' });
+  }
+
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * The mentions a message ends up with: those picked in the composer whose
+ * text is still there, plus @here and @everyone typed out by hand
+ */
+export function collectMentions(text: string, picked: MessageMention[]): MessageMention[] {
+  const candidates: MessageMention[] = [...picked, { kind: 'here' }, { kind: 'everyone' }];
+  const seen = new Set<string>();
+  const mentions: MessageMention[] = [];
+
+  for (const mention of candidates) {
+    const key = mentionKey(mention);
+    if (seen.has(key) || findMention(text, mentionLabel(mention), 0) === -1) continue;
+
+    seen.add(key);
+    mentions.push(mention);
+  }
+
+  return mentions;
+}
+
+/**
+ * Where a mention's label appears in the text as a whole word, from an offset
+ */
+function findMention(text: string, label: string, from: number): number {
+  let index = text.indexOf(label, from);
+  while (index !== -1) {
+    const before = index === 0 ? '' : text[index - 1];
+    const after = text[index + label.length] ?? '';
+    if (!/\S/.test(before) && !/[\p{L}\p{N}_]/u.test(after)) return index;
+    index = text.indexOf(label, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * The users a message's mentions reach, leaving out the sender
+ * @param onlineUserIds The members who are online now, for @here
+ */
+export function resolveMentionRecipients(
+  mentions: MessageMention[],
+  members: MentionableMember[],
+  onlineUserIds: string[],
+  senderId: string
+): string[] {
+  const recipients = new Set<string>();
+
+  for (const mention of mentions) {
+    for (const member of members) {
+      if (
+        (mention.kind === 'user' && member.user_id === mention.userId) ||
+        (mention.kind === 'role' && member.role === mention.role) ||
+        (mention.kind === 'here' && onlineUserIds.includes(member.user_id)) ||
+        mention.kind === 'everyone'
+      ) {
+        recipients.add(member.user_id);
+      }
+    }
+  }
+
+  recipients.delete(senderId);
+  return Array.from(recipients);
+}
+
+/**
+ * Whether a message's mentions include a user, going by their role in the server.
+ * @here cannot be checked afterwards, so it is taken on trust.
+ */
+export function mentionsUser(mentions: MessageMention[] | undefined, userId: string, role: string | null): boolean {
+  return (mentions || []).some(mention =>
+    (mention.kind === 'user' && mention.userId === userId) ||
+    (mention.kind === 'role' && mention.role === role) ||
+    mention.kind === 'here' ||
+    mention.kind === 'everyone'
+  );
+}
+
+/**
+ * Split message text into plain runs and mentions, for highlighting
+ */
+export function splitMentions(text: string, mentions: MessageMention[] | undefined): MentionSegment[] {
+  if (!mentions?.length) return [{ text, mention: null }];
+
+  const segments: MentionSegment[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    // The next mention in the text; longer labels win where two start at the same place
+    let next: { index: number; mention: MessageMention; label: string } | null = null;
+    for (const mention of mentions) {
+      const label = mentionLabel(mention);
+      const index = findMention(text, label, position);
+      if (index !== -1 && (!next || index < next.index || (index === next.index && label.length > next.label.length))) {
+        next = { index, mention, label };
+      }
+    }
+
+    if (!next) break;
+
+    if (next.index > position) {
+      segments.push({ text: text.slice(position, next.index), mention: null });
+    }
+    segments.push({ text: next.label, mention: next.mention });
+    position = next.index + next.label.length;
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), mention: null });
+  }
+
+  return segments;
+}
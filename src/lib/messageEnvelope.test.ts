@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ENVELOPE_ENCRYPTION_VERSION,
+  ENVELOPE_VERSION,
+  MessageEnvelope,
+  createEnvelope,
+  createPlaintextEnvelope,
+  decodeEnvelope,
+  decodeStoredMessage,
+  encodeEnvelope,
+  firstEnvelopeAt,
+  isEnvelope,
+  openPlaintextEnvelope,
+  padPlaintext,
+  unpadPlaintext
+} from './messageEnvelope';
+
+const channelEnvelope: MessageEnvelope = {
+  ...createEnvelope({ kind: 'channel', epoch: 3 }),
+  nonce: 'bm9uY2U=',
+  ct: 'Y2lwaGVydGV4dA==',
+  sig: { kv: 1, value: 'c2lnbmF0dXJl' },
+};
+
+describe('encodeEnvelope and decodeEnvelope', () => {
+  it('round-trips an encrypted envelope', () => {
+    const encoded = encodeEnvelope(channelEnvelope);
+
+    expect(isEnvelope(encoded)).toBe(true);
+    expect(decodeEnvelope(encoded, ['channel'])).toEqual(channelEnvelope);
+    expect(encodeEnvelope(decodeEnvelope(encoded, ['channel']))).toBe(encoded);
+  });
+
+  it('round-trips a plaintext envelope', () => {
+    const encoded = encodeEnvelope(createPlaintextEnvelope('hello ✓'));
+
+    expect(openPlaintextEnvelope(decodeEnvelope(encoded, ['none', 'channel']))).toBe('hello ✓');
+  });
+
+  it('round-trips a ratchet envelope with its recipients', () => {
+    const envelope: MessageEnvelope = {
+      ...createEnvelope({ kind: 'ratchet', device: 'device-a' }),
+      recipients: { 'device-b': { header: { n: 0 }, nonce: 'bm9uY2U=', ct: 'Y3Q=' } },
+    };
+
+    expect(decodeEnvelope(encodeEnvelope(envelope), ['ratchet'])).toEqual(envelope);
+  });
+
+  it('refuses text that is not an envelope', () => {
+    expect(isEnvelope('aGVsbG8=')).toBe(false);
+    expect(() => decodeEnvelope('aGVsbG8=', ['channel'])).toThrow('not an envelope');
+    expect(() => decodeEnvelope('{"sce":2,', ['channel'])).toThrow('malformed');
+  });
+
+  it('refuses key types not accepted where the message was found', () => {
+    const plaintext = encodeEnvelope(createPlaintextEnvelope('hello'));
+
+    expect(() => decodeEnvelope(plaintext, ['pairwise', 'ratchet'])).toThrow('not accepted');
+  });
+
+  it('refuses a weaker algorithm or padding than the key type uses', () => {
+    const weakened = encodeEnvelope({ ...channelEnvelope, alg: 'none' });
+    const unpadded = encodeEnvelope({ ...channelEnvelope, pad: 'none' });
+
+    expect(() => decodeEnvelope(weakened, ['channel'])).toThrow('Unsupported algorithm');
+    expect(() => decodeEnvelope(unpadded, ['channel'])).toThrow('Unsupported algorithm');
+  });
+
+  it('refuses envelope versions it does not know', () => {
+    const newer = encodeEnvelope({ ...channelEnvelope, sce: ENVELOPE_VERSION + 1 });
+
+    expect(() => decodeEnvelope(newer, ['channel'])).toThrow('Unsupported message envelope version');
+  });
+
+  it('refuses envelopes missing their ciphertext', () => {
+    const missing = encodeEnvelope({ ...channelEnvelope, ct: undefined });
+
+    expect(() => decodeEnvelope(missing, ['channel'])).toThrow('missing its ciphertext');
+  });
+});
+
+describe('padPlaintext', () => {
+  it('pads to a fixed minimum and round-trips', () => {
+    const padded = padPlaintext('hi');
+
+    expect(padded.length).toBe(32);
+    expect(unpadPlaintext(padded)).toBe('hi');
+  });
+
+  it('gives plaintexts of similar length the same padded length', () => {
+    expect(padPlaintext('a'.repeat(1000)).length).toBe(padPlaintext('a'.repeat(1010)).length);
+  });
+
+  it('refuses padding without its marker byte', () => {
+    expect(() => unpadPlaintext(new Uint8Array(32))).toThrow('padding is invalid');
+  });
+});
+
+describe('decodeStoredMessage', () => {
+  const envelopeRow = {
+    encrypted_content: encodeEnvelope(channelEnvelope),
+    encryption_version: ENVELOPE_ENCRYPTION_VERSION,
+    created_at: '2024-05-02T00:00:00Z',
+  };
+
+  it('decodes rows written as envelopes', () => {
+    expect(decodeStoredMessage(envelopeRow, ['channel'], envelopeRow.created_at)).toEqual(channelEnvelope);
+  });
+
+  it('refuses envelope rows that do not decode', () => {
+    const row = { ...envelopeRow, encrypted_content: 'aGVsbG8=' };
+
+    expect(() => decodeStoredMessage(row, ['channel'], null)).toThrow('not an envelope');
+  });
+
+  it('reads older rows from before the conversation moved to envelopes', () => {
+    const row = { encrypted_content: 'aGVsbG8=', encryption_version: 3, created_at: '2024-05-01T00:00:00Z' };
+
+    expect(decodeStoredMessage(row, ['channel'], null)).toBeNull();
+    expect(decodeStoredMessage(row, ['channel'], envelopeRow.created_at)).toBeNull();
+  });
+
+  it('refuses older formats written after the conversation moved to envelopes', () => {
+    const downgraded = { encrypted_content: 'aGVsbG8=', encryption_version: 3, created_at: '2024-05-03T00:00:00Z' };
+    const unversioned = { ...downgraded, encryption_version: null };
+
+    expect(() => decodeStoredMessage(downgraded, ['channel'], envelopeRow.created_at)).toThrow('encryption version 3');
+    expect(() => decodeStoredMessage(unversioned, ['channel'], envelopeRow.created_at)).toThrow('encryption version 1');
+  });
+
+  it('finds when the first envelope was written', () => {
+    const rows = [
+      { encrypted_content: 'aGVsbG8=', encryption_version: 3, created_at: '2024-05-01T00:00:00Z' },
+      { ...envelopeRow, created_at: '2024-05-04T00:00:00Z' },
+      envelopeRow,
+    ];
+
+    expect(firstEnvelopeAt(rows)).toBe(envelopeRow.created_at);
+    expect(firstEnvelopeAt(rows.slice(0, 1))).toBeNull();
+  });
+});
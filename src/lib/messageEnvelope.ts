@@ -0,0 +1,522 @@
+// Messages are stored as self-describing envelopes: the format version, the
+// cipher, which key to use, the nonce, the padded ciphertext and the sender's
+// signature all travel together in encrypted_content. Readers no longer work
+// out the format from encryption_version or magic values in the iv column.
+
+import { toBase64, fromBase64 } from './base64';
+
+// encryption_version written for messages stored as envelopes
+export const ENVELOPE_ENCRYPTION_VERSION = 5;
+
+// The envelope format this client writes; envelopes from a newer format are rejected, never guessed at.
+// Version 1 envelopes hold bare text; from version 2 they hold a MessageBody as JSON.
+export const ENVELOPE_VERSION = 2;
+const SUPPORTED_ENVELOPE_VERSIONS = [1, 2];
+const FIRST_BODY_ENVELOPE_VERSION = 2;
+
+// Every envelope starts with its format version, so it can be recognised without other columns
+const ENVELOPE_PREFIX = '{"sce":';
+
+// Padded plaintexts are never shorter than this, so short replies all look the same
+const MIN_PADDED_LENGTH = 32;
+
+// The longest message text the composer accepts, in characters
+export const MAX_MESSAGE_LENGTH = 4000;
+
+// The largest plaintext an envelope may hold, in bytes. This leaves room for
+// the longest text together with quotes, mentions and attachment thumbnails.
+export const MAX_PLAINTEXT_BYTES = 256 * 1024;
+
+export type EnvelopeAlgorithm = 'none' | 'aes-256-gcm';
+
+export type EnvelopePadding = 'none' | 'padme';
+
+// Which key opens the envelope
+export type EnvelopeKeyId =
+  | { kind: 'none' }
+  | { kind: 'channel'; epoch: number }
+  | { kind: 'pairwise'; sender: number; recipient: number; salt: string }
+  | { kind: 'ratchet'; device: string };
+
+export type EnvelopeKeyKind = EnvelopeKeyId['kind'];
+
+// The ciphertext for one receiving device, for messages sent over ratchet sessions
+export interface EnvelopeRecipient {
+  header: unknown;
+  nonce: string;
+  ct: string;
+}
+
+export interface EnvelopeSignature {
+  // The identity key version that made the signature
+  kv: number;
+  value: string;
+}
+
+export interface MessageEnvelope {
+  sce: number;
+  alg: EnvelopeAlgorithm;
+  kid: EnvelopeKeyId;
+  pad: EnvelopePadding;
+  nonce?: string;
+  ct?: string;
+  recipients?: Record<string, EnvelopeRecipient>;
+  sig?: EnvelopeSignature;
+}
+
+// A file encrypted with its own key and uploaded to storage. The reference
+// only ever travels inside the encrypted message body.
+export interface AttachmentReference {
+  // Where the encrypted file is stored
+  path: string;
+  // The file's AES-256-GCM key and nonce
+  key: string;
+  nonce: string;
+  name: string;
+  type: string;
+  // Size of the file before encryption, in bytes
+  size: number;
+  // A small JPEG data URL, for images
+  thumbnail?: string;
+  width?: number;
+  height?: number;
+}
+
+// The longest quote kept from a message being replied to
+export const QUOTE_SNIPPET_LENGTH = 200;
+
+// The message a reply quotes. The quote is what the replier saw and is not
+// checked against the original, which is why it links to it.
+export interface MessageQuote {
+  id: string;
+  senderId: string;
+  senderName: string;
+  snippet: string;
+}
+
+// Who first sent a forwarded message, as stated by whoever forwarded it
+export interface ForwardedFrom {
+  senderId: string;
+  senderName: string;
+  sentAt: string;
+}
+
+// Someone a message mentions. Mentions travel inside the sealed body, so only
+// members who can read the message can tell who it mentions.
+export type MessageMention =
+  | { kind: 'user'; userId: string; label: string }
+  | { kind: 'role'; role: string }
+  | { kind: 'here' }
+  | { kind: 'everyone' };
+
+// What a message says, sealed inside its envelope
+export interface MessageBody {
+  text: string;
+  attachments?: AttachmentReference[];
+  replyTo?: MessageQuote;
+  forwardedFrom?: ForwardedFrom;
+  mentions?: MessageMention[];
+}
+
+// The columns needed to tell how a stored message must be read
+export interface StoredEnvelopeRow {
+  encrypted_content: string;
+  encryption_version: number | null;
+  created_at: string;
+}
+
+// The cipher and padding that go with each kind of key
+const KEY_KIND_FORMATS: Record<EnvelopeKeyKind, { alg: EnvelopeAlgorithm; pad: EnvelopePadding }> = {
+  none: { alg: 'none', pad: 'none' },
+  channel: { alg: 'aes-256-gcm', pad: 'padme' },
+  pairwise: { alg: 'aes-256-gcm', pad: 'padme' },
+  ratchet: { alg: 'aes-256-gcm', pad: 'padme' },
+};
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isInteger(value: unknown): value is number {
+  return Number.isInteger(value);
+}
+
+function isValidKeyId(kid: unknown): kid is EnvelopeKeyId {
+  if (!kid || typeof kid !== 'object') return false;
+
+  const key = kid as Record<string, unknown>;
+  switch (key.kind) {
+    case 'none':
+      return true;
+    case 'channel':
+      return isInteger(key.epoch);
+    case 'pairwise':
+      return isInteger(key.sender) && isInteger(key.recipient) && isString(key.salt);
+    case 'ratchet':
+      return isString(key.device);
+    default:
+      return false;
+  }
+}
+
+function isValidRecipient(recipient: unknown): recipient is EnvelopeRecipient {
+  if (!recipient || typeof recipient !== 'object') return false;
+
+  const entry = recipient as Record<string, unknown>;
+  return entry.header !== undefined && isString(entry.nonce) && isString(entry.ct);
+}
+
+function isValidAttachment(attachment: unknown): attachment is AttachmentReference {
+  if (!attachment || typeof attachment !== 'object') return false;
+
+  const entry = attachment as Record<string, unknown>;
+  return (
+    isString(entry.path) && isString(entry.key) && isString(entry.nonce) &&
+    isString(entry.name) && isString(entry.type) && isInteger(entry.size) &&
+    (entry.thumbnail === undefined || (isString(entry.thumbnail) && entry.thumbnail.startsWith('data:image/jpeg;base64,'))) &&
+    (entry.width === undefined || isInteger(entry.width)) &&
+    (entry.height === undefined || isInteger(entry.height))
+  );
+}
+
+function isValidQuote(quote: unknown): quote is MessageQuote {
+  if (!quote || typeof quote !== 'object') return false;
+
+  const entry = quote as Record<string, unknown>;
+  return (
+    isString(entry.id) && isString(entry.senderId) && isString(entry.senderName) &&
+    isString(entry.snippet) && entry.snippet.length <= QUOTE_SNIPPET_LENGTH
+  );
+}
+
+function isValidForwardedFrom(forwardedFrom: unknown): forwardedFrom is ForwardedFrom {
+  if (!forwardedFrom || typeof forwardedFrom !== 'object') return false;
+
+  const entry = forwardedFrom as Record<string, unknown>;
+  return isString(entry.senderId) && isString(entry.senderName) && isString(entry.sentAt);
+}
+
+function isValidMention(mention: unknown): mention is MessageMention {
+  if (!mention || typeof mention !== 'object') return false;
+
+  const entry = mention as Record<string, unknown>;
+  switch (entry.kind) {
+    case 'user':
+      return isString(entry.userId) && isString(entry.label);
+    case 'role':
+      return isString(entry.role);
+    case 'here':
+    case 'everyone':
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Padmé padding: round the length up so that at most O(log log n) bits of it
+ * are revealed, without more than about 12% overhead
+ */
+function paddedLength(length: number): number {
+  if (length <= MIN_PADDED_LENGTH) return MIN_PADDED_LENGTH;
+
+  const exponent = Math.floor(Math.log2(length));
+  const exponentBits = Math.floor(Math.log2(exponent)) + 1;
+  const mask = 2 ** (exponent - exponentBits) - 1;
+  return Math.ceil(length / (mask + 1)) * (mask + 1);
+}
+
+/**
+ * Encode a plaintext, refusing one too large for an envelope
+ */
+function encodePlaintext(plaintext: string): Uint8Array {
+  const encoded = new TextEncoder().encode(plaintext);
+  if (encoded.length > MAX_PLAINTEXT_BYTES) {
+    throw new Error('This message is too long to send');
+  }
+  return encoded;
+}
+
+/**
+ * Encode a plaintext and pad it, ISO/IEC 7816-4 style: a 0x80 marker byte
+ * followed by zeros up to the padded length
+ */
+export function padPlaintext(plaintext: string): Uint8Array {
+  const encoded = encodePlaintext(plaintext);
+  const padded = new Uint8Array(paddedLength(encoded.length + 1));
+  padded.set(encoded);
+  padded[encoded.length] = 0x80;
+  return padded;
+}
+
+/**
+ * Strip the padding added by padPlaintext and decode the text
+ */
+export function unpadPlaintext(padded: ArrayBuffer | Uint8Array): string {
+  const bytes = new Uint8Array(padded);
+  let end = bytes.length - 1;
+  while (end >= 0 && bytes[end] === 0) end--;
+
+  if (end < 0 || bytes[end] !== 0x80) {
+    throw new Error('Message padding is invalid');
+  }
+
+  return new TextDecoder().decode(bytes.subarray(0, end));
+}
+
+/**
+ * Start an envelope for a kind of key, before any ciphertext is added
+ */
+export function createEnvelope(kid: EnvelopeKeyId): MessageEnvelope {
+  return { sce: ENVELOPE_VERSION, ...KEY_KIND_FORMATS[kid.kind], kid };
+}
+
+/**
+ * Wrap a message that is sent without encryption, e.g. in a channel that has encryption turned off
+ */
+export function createPlaintextEnvelope(plaintext: string): MessageEnvelope {
+  return {
+    ...createEnvelope({ kind: 'none' }),
+    ct: toBase64(encodePlaintext(plaintext)),
+  };
+}
+
+/**
+ * Read the text of an envelope created by createPlaintextEnvelope
+ */
+export function openPlaintextEnvelope(envelope: MessageEnvelope): string {
+  if (envelope.alg !== 'none' || envelope.ct === undefined) {
+    throw new Error('This envelope is encrypted');
+  }
+
+  return new TextDecoder().decode(fromBase64(envelope.ct));
+}
+
+/**
+ * The envelope fields that say how to decrypt it. They are passed to AES-GCM
+ * as associated data, so changing any of them makes decryption fail.
+ */
+export function envelopeAssociatedData(envelope: MessageEnvelope): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    'securechat-envelope',
+    envelope.sce,
+    envelope.alg,
+    envelope.kid,
+    envelope.pad,
+  ]));
+}
+
+/**
+ * Serialise an envelope with its fields in a fixed order, so decoding and
+ * encoding it again gives back the same string
+ */
+export function encodeEnvelope(envelope: MessageEnvelope): string {
+  return JSON.stringify({
+    sce: envelope.sce,
+    alg: envelope.alg,
+    kid: envelope.kid,
+    pad: envelope.pad,
+    nonce: envelope.nonce,
+    ct: envelope.ct,
+    recipients: envelope.recipients,
+    sig: envelope.sig,
+  });
+}
+
+/**
+ * The exact string a sender signs: the whole envelope apart from the signature
+ */
+export function envelopeSigningInput(envelope: MessageEnvelope): string {
+  return encodeEnvelope({ ...envelope, sig: undefined });
+}
+
+export function isEnvelope(encryptedContent: string): boolean {
+  return encryptedContent.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Parse and validate an envelope
+ * @param acceptedKinds The kinds of key allowed where the message was found;
+ * anything else, such as a plaintext envelope in a direct message, is rejected
+ */
+export function decodeEnvelope(encryptedContent: string, acceptedKinds: EnvelopeKeyKind[]): MessageEnvelope {
+  if (!isEnvelope(encryptedContent)) {
+    throw new Error('Message is not an envelope');
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(encryptedContent);
+  } catch {
+    throw new Error('Message envelope is malformed');
+  }
+
+  if (!isInteger(parsed.sce) || !SUPPORTED_ENVELOPE_VERSIONS.includes(parsed.sce)) {
+    throw new Error(`Unsupported message envelope version ${String(parsed.sce)}`);
+  }
+
+  if (!isValidKeyId(parsed.kid)) {
+    throw new Error('Message envelope has an unknown key type');
+  }
+
+  const kid = parsed.kid;
+  if (!acceptedKinds.includes(kid.kind)) {
+    throw new Error(`Message envelope key type ${kid.kind} is not accepted here`);
+  }
+
+  // The cipher and padding are fixed by the key type, so they cannot be swapped for weaker ones
+  const format = KEY_KIND_FORMATS[kid.kind];
+  if (parsed.alg !== format.alg || parsed.pad !== format.pad) {
+    throw new Error(`Unsupported algorithm ${String(parsed.alg)} for ${kid.kind} envelopes`);
+  }
+
+  const envelope: MessageEnvelope = { sce: parsed.sce, alg: format.alg, kid, pad: format.pad };
+
+  if (kid.kind === 'ratchet') {
+    const recipients = parsed.recipients;
+    if (
+      !recipients || typeof recipients !== 'object' ||
+      !Object.values(recipients).every(isValidRecipient)
+    ) {
+      throw new Error('Message envelope has malformed recipients');
+    }
+    envelope.recipients = recipients as Record<string, EnvelopeRecipient>;
+  } else {
+    if (!isString(parsed.ct) || (format.alg !== 'none' && !isString(parsed.nonce))) {
+      throw new Error('Message envelope is missing its ciphertext');
+    }
+    envelope.ct = parsed.ct;
+    if (isString(parsed.nonce)) envelope.nonce = parsed.nonce;
+  }
+
+  if (parsed.sig !== undefined) {
+    const sig = parsed.sig as Record<string, unknown> | null;
+    if (!sig || !isInteger(sig.kv) || !isString(sig.value)) {
+      throw new Error('Message envelope signature is malformed');
+    }
+    envelope.sig = { kv: sig.kv, value: sig.value };
+  }
+
+  return envelope;
+}
+
+/**
+ * When the first envelope appeared in a conversation, given its messages
+ */
+export function firstEnvelopeAt(rows: StoredEnvelopeRow[]): string | null {
+  let first: string | null = null;
+  for (const row of rows) {
+    if ((row.encryption_version || 1) >= ENVELOPE_ENCRYPTION_VERSION && (!first || row.created_at < first)) {
+      first = row.created_at;
+    }
+  }
+  return first;
+}
+
+/**
+ * Work out how a stored message must be read.
+ * Rows written as envelopes must decode as one. Once a conversation has moved
+ * to envelopes, later rows in the older formats are refused, so a message
+ * rewritten into a weaker format cannot be passed off as genuine.
+ * @param envelopeSince The conversation's firstEnvelopeAt
+ * @returns The envelope, or null for messages from before envelopes
+ */
+export function decodeStoredMessage(
+  row: StoredEnvelopeRow,
+  acceptedKinds: EnvelopeKeyKind[],
+  envelopeSince: string | null
+): MessageEnvelope | null {
+  if ((row.encryption_version || 1) >= ENVELOPE_ENCRYPTION_VERSION) {
+    return decodeEnvelope(row.encrypted_content, acceptedKinds);
+  }
+
+  if (envelopeSince && row.created_at > envelopeSince) {
+    throw new Error(`Message uses encryption version ${row.encryption_version || 1} after the conversation moved to envelopes`);
+  }
+
+  return null;
+}
+
+/**
+ * Serialise a message body to the plaintext that goes into an envelope
+ */
+export function encodeMessageBody(body: MessageBody): string {
+  return JSON.stringify({
+    text: body.text,
+    attachments: body.attachments?.length ? body.attachments : undefined,
+    replyTo: body.replyTo,
+    forwardedFrom: body.forwardedFrom,
+    mentions: body.mentions?.length ? body.mentions : undefined,
+  });
+}
+
+/**
+ * Quote the start of a message for a reply to it
+ */
+export function createMessageQuote(
+  message: { id: string; senderId: string; senderName: string },
+  body: MessageBody
+): MessageQuote {
+  const text = body.text || (body.attachments?.length ? `📎 ${body.attachments[0].name}` : '');
+  return {
+    id: message.id,
+    senderId: message.senderId,
+    senderName: message.senderName,
+    snippet: text.slice(0, QUOTE_SNIPPET_LENGTH),
+  };
+}
+
+/**
+ * Read the body of a message from its decrypted plaintext
+ * @param envelope The message's envelope, or null for messages from before envelopes,
+ * which like version 1 envelopes hold bare text
+ */
+export function readMessageBody(envelope: MessageEnvelope | null, plaintext: string): MessageBody {
+  if (!envelope || envelope.sce < FIRST_BODY_ENVELOPE_VERSION) {
+    return { text: plaintext };
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(plaintext);
+  } catch {
+    throw new Error('Message body is malformed');
+  }
+
+  if (!parsed || !isString(parsed.text)) {
+    throw new Error('Message body is malformed');
+  }
+
+  const body: MessageBody = { text: parsed.text };
+
+  if (parsed.attachments !== undefined) {
+    if (!Array.isArray(parsed.attachments) || !parsed.attachments.every(isValidAttachment)) {
+      throw new Error('Message body has malformed attachments');
+    }
+    body.attachments = parsed.attachments;
+  }
+
+  // Quotes, forwarding details and mentions were added within version 2; older readers skip them
+  if (parsed.replyTo !== undefined) {
+    if (!isValidQuote(parsed.replyTo)) {
+      throw new Error('Message body has a malformed quote');
+    }
+    body.replyTo = parsed.replyTo;
+  }
+
+  if (parsed.forwardedFrom !== undefined) {
+    if (!isValidForwardedFrom(parsed.forwardedFrom)) {
+      throw new Error('Message body has malformed forwarding details');
+    }
+    body.forwardedFrom = parsed.forwardedFrom;
+  }
+
+  if (parsed.mentions !== undefined) {
+    if (!Array.isArray(parsed.mentions) || !parsed.mentions.every(isValidMention)) {
+      throw new Error('Message body has malformed mentions');
+    }
+    body.mentions = parsed.mentions;
+  }
+
+  return body;
+}
@@ -0,0 +1,78 @@
+// Conversations are loaded a page at a time, newest first, using the
+// (created_at, id) pair as the cursor so that messages sent in the same
+// instant are never skipped or loaded twice. Realtime changes are then
+// applied to the loaded messages one at a time. A conversation opened at an
+// older message loads the pages around it, and newer pages as the user
+// scrolls down, until it reaches the present.
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+export interface MessageCursor {
+  id: string;
+  created_at: string;
+}
+
+/**
+ * Order two messages by when they were sent, oldest first
+ */
+export function compareMessages(a: MessageCursor, b: MessageCursor): number {
+  if (a.created_at !== b.created_at) return a.created_at < b.created_at ? -1 : 1;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+}
+
+/**
+ * PostgREST `or` filter for the messages sent before a cursor
+ */
+export function olderThanFilter(cursor: MessageCursor): string {
+  return `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`;
+}
+
+/**
+ * Take the rows of a page fetched newest first with one row more than the
+ * page size, and return them oldest first along with whether older ones exist
+ */
+export function toPage<T>(rows: T[]): { rows: T[]; hasOlder: boolean } {
+  return {
+    rows: rows.slice(0, MESSAGE_PAGE_SIZE).reverse(),
+    hasOlder: rows.length > MESSAGE_PAGE_SIZE,
+  };
+}
+
+/**
+ * Replace the newest page of a loaded conversation, keeping the older pages
+ * the user has already scrolled back through
+ */
+export function mergeNewestPage<T extends MessageCursor>(loaded: T[], page: T[]): T[] {
+  if (page.length === 0) return [];
+  return [...loaded.filter(message => compareMessages(message, page[0]) < 0), ...page];
+}
+
+/**
+ * Add a message to a loaded conversation in order, replacing any copy
+ * already there, such as one shown while it was still being sent
+ */
+export function upsertMessage<T extends MessageCursor>(loaded: T[], message: T): T[] {
+  const others = loaded.filter(existing => existing.id !== message.id);
+  const index = others.findIndex(existing => compareMessages(message, existing) < 0);
+  if (index === -1) return [...others, message];
+  return [...others.slice(0, index), message, ...others.slice(index)];
+}
+
+/**
+ * PostgREST `or` filter for the messages sent after a cursor
+ */
+export function newerThanFilter(cursor: MessageCursor): string {
+  return `created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`;
+}
+
+/**
+ * Take the rows of a page fetched oldest first with one row more than the
+ * page size, and return them along with whether newer ones exist
+ */
+export function toNewerPage<T>(rows: T[]): { rows: T[]; hasNewer: boolean } {
+  return {
+    rows: rows.slice(0, MESSAGE_PAGE_SIZE),
+    hasNewer: rows.length > MESSAGE_PAGE_SIZE,
+  };
+}
@@ -0,0 +1,91 @@
+// Double Ratchet state lives only in this browser's IndexedDB. Message keys
+// are deleted once used, so decrypted direct messages are kept here too,
+// encrypted with a non-extractable key that never leaves the browser.
+
+import { LocalDatabase, withStore } from './indexedDb';
+
+export type RatchetStoreName = 'prekeys' | 'sessions' | 'messages' | 'meta';
+
+const DATABASE: LocalDatabase<RatchetStoreName> = {
+  name: 'securechat-ratchet',
+  storeNames: ['prekeys', 'sessions', 'messages', 'meta'],
+  keyPath: 'id',
+};
+
+// The private half of a prekey this device published
+export interface StoredPrekey {
+  id: string;
+  userId: string;
+  kind: 'signed' | 'one-time';
+  prekeyId: number;
+  privateKey: CryptoKey;
+  publicKey: string;
+  createdAt: number;
+}
+
+// The handshake fields an initiator repeats until the other device replies
+export interface PendingPrekeyMessage {
+  ik: number;
+  rik: number;
+  ek: string;
+  spk: number;
+  opk: number | null;
+}
+
+// One Double Ratchet session between this device and another device
+export interface StoredRatchetSession {
+  id: string;
+  userId: string;
+  localDeviceId: string;
+  remoteUserId: string;
+  remoteDeviceId: string;
+  // Identifies the session on both sides: the initiator's X3DH ephemeral public key
+  sid: string;
+  rootKey: ArrayBuffer;
+  sendingChainKey: ArrayBuffer | null;
+  receivingChainKey: ArrayBuffer | null;
+  dhSelf: { privateKey: CryptoKey; publicKey: string };
+  dhRemote: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  // Keys for messages that have not arrived yet, by ratchet public key and message number
+  skippedKeys: Record<string, ArrayBuffer>;
+  pendingPrekey: PendingPrekeyMessage | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A decrypted direct message, encrypted with the local storage key
+export interface StoredPlaintext {
+  id: string;
+  // Hash of the ciphertext the plaintext came from, so edits are decrypted again
+  fingerprint: string;
+  ciphertext: ArrayBuffer;
+  iv: Uint8Array;
+}
+
+export interface StoredMeta<T> {
+  id: string;
+  value: T;
+}
+
+export async function getRecord<T>(storeName: RatchetStoreName, id: string): Promise<T | null> {
+  const record = await withStore<T | undefined>(DATABASE, storeName, 'readonly', store => store.get(id));
+  return record ?? null;
+}
+
+// Get every record whose id starts with a prefix, e.g. all sessions with one device
+export async function getRecordsWithPrefix<T>(storeName: RatchetStoreName, prefix: string): Promise<T[]> {
+  return withStore<T[]>(DATABASE, storeName, 'readonly', store =>
+    store.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+  );
+}
+
+export async function putRecord<T extends { id: string }>(storeName: RatchetStoreName, record: T): Promise<void> {
+  await withStore(DATABASE, storeName, 'readwrite', store => store.put(record));
+}
+
+export async function deleteRecord(storeName: RatchetStoreName, id: string): Promise<void> {
+  await withStore(DATABASE, storeName, 'readwrite', store => store.delete(id));
+}
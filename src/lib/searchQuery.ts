@@ -0,0 +1,108 @@
+// Search queries are plain words and "quoted phrases" plus filters:
+// from:name, in:#channel or in:@friend, before:YYYY-MM-DD, after:YYYY-MM-DD
+// and has:file. Values with spaces can be quoted, e.g. from:"Ada Lovelace".
+// Everything is matched locally against decrypted index entries.
+
+// A message as it is kept in the search index
+export interface SearchEntry {
+  messageId: string;
+  scope: 'channel' | 'dm';
+  // The channel id, or the other user's id for direct messages
+  conversationId: string;
+  // The channel's name, or the other user's name for direct messages
+  conversationName: string;
+  // Set for channel messages, to link to them
+  serverId: string | null;
+  senderId: string;
+  senderName: string;
+  text: string;
+  hasFile: boolean;
+  createdAt: string;
+}
+
+export interface SearchQuery {
+  terms: string[];
+  from: string | null;
+  in: { scope: 'channel' | 'dm' | null; name: string } | null;
+  before: Date | null;
+  after: Date | null;
+  hasFile: boolean;
+}
+
+// An optional filter name, then a quoted or bare value
+const TOKEN = /(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g;
+
+function parseDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Split a search into its words and filters. Filters that cannot be read,
+ * such as a malformed date, are searched for as words instead.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], from: null, in: null, before: null, after: null, hasFile: false };
+
+  for (const [token, rawFilter, quoted, bare] of input.matchAll(TOKEN)) {
+    const filter = rawFilter?.toLowerCase();
+    const value = quoted ?? bare ?? '';
+    const date = parseDate(value);
+
+    if (filter === 'from' && value) {
+      query.from = value.replace(/^@/, '').toLowerCase();
+    } else if (filter === 'in' && value) {
+      const scope = value.startsWith('#') ? 'channel' : value.startsWith('@') ? 'dm' : null;
+      query.in = { scope, name: (scope ? value.slice(1) : value).toLowerCase() };
+    } else if (filter === 'before' && date) {
+      query.before = date;
+    } else if (filter === 'after' && date) {
+      // Like before:, the day itself is left out
+      date.setDate(date.getDate() + 1);
+      query.after = date;
+    } else if (filter === 'has' && ['file', 'files', 'attachment'].includes(value.toLowerCase())) {
+      query.hasFile = true;
+    } else {
+      const term = (rawFilter ? token.replace(/"/g, '') : value).toLowerCase();
+      if (term) query.terms.push(term);
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Whether a search has anything to search for
+ */
+export function isEmptySearch(query: SearchQuery): boolean {
+  return (
+    query.terms.length === 0 &&
+    !query.from &&
+    !query.in &&
+    !query.before &&
+    !query.after &&
+    !query.hasFile
+  );
+}
+
+/**
+ * Whether an indexed message matches a search
+ */
+export function matchesSearch(entry: SearchEntry, query: SearchQuery): boolean {
+  const text = entry.text.toLowerCase();
+  if (!query.terms.every(term => text.includes(term))) return false;
+
+  if (query.from && !entry.senderName.toLowerCase().includes(query.from)) return false;
+
+  if (query.in) {
+    if (query.in.scope && query.in.scope !== entry.scope) return false;
+    if (!entry.conversationName.toLowerCase().includes(query.in.name)) return false;
+  }
+
+  const createdAt = new Date(entry.createdAt);
+  if (query.before && createdAt >= query.before) return false;
+  if (query.after && createdAt < query.after) return false;
+
+  return !query.hasFile || entry.hasFile;
+}
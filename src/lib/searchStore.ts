@@ -0,0 +1,77 @@
+// The local search index lives only in this browser's IndexedDB. Every entry
+// is encrypted before it is stored, so the index holds no readable message
+// text, names or dates; only the ids it is keyed by are in the clear.
+
+import { LocalDatabase, openDatabase, withStore } from './indexedDb';
+
+export type SearchStoreName = 'entries' | 'meta';
+
+const DATABASE: LocalDatabase<SearchStoreName> = {
+  name: 'securechat-search',
+  storeNames: ['entries', 'meta'],
+  keyPath: 'id',
+};
+
+// One indexed message, encrypted with the index key
+export interface StoredSearchEntry {
+  id: string;
+  ciphertext: ArrayBuffer;
+  iv: Uint8Array;
+}
+
+// The index key, wrapped with a key derived from one of the user's identity keys
+export interface StoredIndexKey {
+  id: string;
+  keyVersion: number;
+  salt: Uint8Array;
+  iv: Uint8Array;
+  wrappedKey: ArrayBuffer;
+}
+
+export async function getRecord<T>(storeName: SearchStoreName, id: string): Promise<T | null> {
+  const record = await withStore<T | undefined>(DATABASE, storeName, 'readonly', store => store.get(id));
+  return record ?? null;
+}
+
+// Get every record whose id starts with a prefix, e.g. all of one user's entries
+export async function getRecordsWithPrefix<T>(storeName: SearchStoreName, prefix: string): Promise<T[]> {
+  return withStore<T[]>(DATABASE, storeName, 'readonly', store =>
+    store.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+  );
+}
+
+export async function putRecord<T extends { id: string }>(storeName: SearchStoreName, record: T): Promise<void> {
+  await withStore(DATABASE, storeName, 'readwrite', store => store.put(record));
+}
+
+// Store several records in one transaction, e.g. a page of messages
+export async function putRecords<T extends { id: string }>(storeName: SearchStoreName, records: T[]): Promise<void> {
+  if (records.length === 0) return;
+
+  const db = await openDatabase(DATABASE);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(storeName, 'readwrite');
+      const store = transaction.objectStore(storeName);
+      for (const record of records) {
+        store.put(record);
+      }
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function deleteRecord(storeName: SearchStoreName, id: string): Promise<void> {
+  await withStore(DATABASE, storeName, 'readwrite', store => store.delete(id));
+}
+
+// Delete every record whose id starts with a prefix
+export async function deleteRecordsWithPrefix(storeName: SearchStoreName, prefix: string): Promise<void> {
+  await withStore(DATABASE, storeName, 'readwrite', store =>
+    store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+  );
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { useEncryptionStore } from '../stores/encryptionStore';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -26,10 +27,137 @@ export async function exportKey(key: CryptoKey): Promise<JsonWebKey> {
   return await window.crypto.subtle.exportKey('jwk', key);
 }
 
-export async function savePrivateKey(privateKey: CryptoKey, password: string): Promise<boolean> {
+// PBKDF2 parameters for wrapping the private key with the encryption password
+export const PASSWORD_KDF_ITERATIONS = 310000;
+export const PASSWORD_SALT_BYTES = 16;
+
+export async function derivePasswordKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const passwordKey = await window.crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    { name: 'PBKDF2' },
+    false,
+    ['deriveKey']
+  );
+
+  return await window.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    passwordKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function importPrivateKey(keyData: JsonWebKey): Promise<CryptoKey> {
+  return await window.crypto.subtle.importKey(
+    'jwk',
+    keyData,
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    ['deriveKey', 'deriveBits']
+  );
+}
+
+// Each identity key version also has its own ECDSA key pair for signing
+export async function generateSigningKeyPair(): Promise<CryptoKeyPair> {
+  return await window.crypto.subtle.generateKey(
+    {
+      name: 'ECDSA',
+      namedCurve: 'P-256',
+    },
+    true,
+    ['sign', 'verify']
+  );
+}
+
+export async function importSigningKey(keyData: JsonWebKey): Promise<CryptoKey> {
+  return await window.crypto.subtle.importKey(
+    'jwk',
+    keyData,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+}
+
+// The private halves of one identity key version. Keys made before signing
+// keys existed have no signing key.
+export interface IdentityKeyData {
+  keyData: JsonWebKey;
+  signingKeyData: JsonWebKey | null;
+}
+
+// Every wrapped copy of an identity key (password, device and recovery
+// backup) holds both private keys, so they are always stored the same way
+export function serializeIdentityKey({ keyData, signingKeyData }: IdentityKeyData): string {
+  return JSON.stringify({ ecdh: keyData, ecdsa: signingKeyData });
+}
+
+export function parseIdentityKey(serialized: string): IdentityKeyData {
+  const parsed = JSON.parse(serialized);
+  // Older copies are the bare ECDH key
+  if (parsed.kty) {
+    return { keyData: parsed, signingKeyData: null };
+  }
+  return { keyData: parsed.ecdh, signingKeyData: parsed.ecdsa ?? null };
+}
+
+export async function exportIdentityKey(privateKey: CryptoKey, signingKey: CryptoKey | null): Promise<IdentityKeyData> {
+  return {
+    keyData: await exportKey(privateKey),
+    signingKeyData: signingKey ? await exportKey(signingKey) : null,
+  };
+}
+
+/**
+ * Wrap the private key and its signing key with a key derived from the
+ * encryption password and store the wrapped copy server-side, so it can be
+ * unlocked on any device. Older key versions stay in the keyring so history
+ * remains readable.
+ */
+export async function savePrivateKey(
+  privateKey: CryptoKey,
+  signingKey: CryptoKey | null,
+  password: string,
+  keyVersion: number = 1
+): Promise<boolean> {
   try {
-    const keyData = await exportKey(privateKey);
-    sessionStorage.setItem('privateKey', JSON.stringify(keyData));
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+      throw new Error('Not signed in');
+    }
+
+    const identityKey = await exportIdentityKey(privateKey, signingKey);
+    const salt = window.crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const wrappingKey = await derivePasswordKey(password, salt, PASSWORD_KDF_ITERATIONS);
+
+    const encrypted = await window.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      wrappingKey,
+      new TextEncoder().encode(serializeIdentityKey(identityKey))
+    );
+
+    const { error } = await supabase
+      .from('user_private_keys')
+      .upsert({
+        user_id: session.user.id,
+        key_version: keyVersion,
+        encrypted_private_key: btoa(String.fromCharCode(...new Uint8Array(encrypted))),
+        iv: btoa(String.fromCharCode(...iv)),
+        salt: btoa(String.fromCharCode(...salt)),
+        kdf: 'PBKDF2-SHA256',
+        kdf_iterations: PASSWORD_KDF_ITERATIONS,
+      });
+
+    if (error) throw error;
+
+    useEncryptionStore.getState().addKey(
+      keyVersion,
+      await importPrivateKey(identityKey.keyData),
+      identityKey.signingKeyData ? await importSigningKey(identityKey.signingKeyData) : null
+    );
     return true;
   } catch (err) {
     console.error('Error saving private key:', err);
@@ -37,6 +165,104 @@ export async function savePrivateKey(privateKey: CryptoKey, password: string): P
   }
 }
 
+/**
+ * Fetch every wrapped private key in the keyring and decrypt them with the
+ * encryption password. Returns null if the password is wrong.
+ * The result holds raw private key material; only use it to re-wrap keys.
+ */
+export async function exportKeyring(password: string): Promise<({ keyVersion: number } & IdentityKeyData)[] | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) return null;
+
+  const { data: wrappedKeys, error } = await supabase
+    .from('user_private_keys')
+    .select('key_version, encrypted_private_key, iv, salt, kdf_iterations')
+    .eq('user_id', session.user.id)
+    .order('key_version');
+
+  if (error) throw error;
+  if (!wrappedKeys || wrappedKeys.length === 0) return null;
+
+  // Keys wrapped with the same salt share a derived wrapping key
+  const wrappingKeys = new Map<string, CryptoKey>();
+  const keyring: ({ keyVersion: number } & IdentityKeyData)[] = [];
+
+  try {
+    for (const wrappedKey of wrappedKeys) {
+      const cacheKey = `${wrappedKey.salt}:${wrappedKey.kdf_iterations}`;
+      let wrappingKey = wrappingKeys.get(cacheKey);
+      if (!wrappingKey) {
+        const salt = Uint8Array.from(atob(wrappedKey.salt), c => c.charCodeAt(0));
+        wrappingKey = await derivePasswordKey(password, salt, wrappedKey.kdf_iterations);
+        wrappingKeys.set(cacheKey, wrappingKey);
+      }
+
+      const decrypted = await decryptMessage(wrappingKey, wrappedKey.encrypted_private_key, wrappedKey.iv);
+      keyring.push({ keyVersion: wrappedKey.key_version, ...parseIdentityKey(decrypted) });
+    }
+  } catch {
+    // AES-GCM authentication fails when the password is wrong
+    return null;
+  }
+
+  return keyring;
+}
+
+/**
+ * Unwrap every private key in the keyring with the encryption password and
+ * keep them in memory. Returns false if the password is wrong.
+ */
+export async function unlockPrivateKey(password: string): Promise<boolean> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) return false;
+
+  const [exported, { data: publishedKey, error: publishedError }] = await Promise.all([
+    exportKeyring(password),
+    supabase
+      .from('user_keys')
+      .select('key_version')
+      .eq('user_id', session.user.id)
+      .maybeSingle(),
+  ]);
+
+  if (publishedError) throw publishedError;
+  if (!exported) return false;
+
+  const keyring: Record<number, CryptoKey> = {};
+  const signingKeyring: Record<number, CryptoKey> = {};
+  for (const { keyVersion, keyData, signingKeyData } of exported) {
+    keyring[keyVersion] = await importPrivateKey(keyData);
+    if (signingKeyData) {
+      signingKeyring[keyVersion] = await importSigningKey(signingKeyData);
+    }
+  }
+
+  const currentVersion = publishedKey?.key_version ?? Math.max(...exported.map(k => k.keyVersion));
+  useEncryptionStore.getState().unlock(keyring, signingKeyring, currentVersion);
+  return true;
+}
+
+/**
+ * Get an unlocked private key from the keyring
+ * @param keyVersion The key version to load, or the current key if omitted
+ */
+export async function loadPrivateKey(keyVersion?: number): Promise<CryptoKey | null> {
+  const { privateKey, keyring } = useEncryptionStore.getState();
+  if (keyVersion === undefined) return privateKey;
+  return keyring[keyVersion] ?? null;
+}
+
+/**
+ * Get an unlocked signing key and the key version it belongs to
+ * @param keyVersion The key version to load, or the current key if omitted
+ */
+export async function loadSigningKey(keyVersion?: number): Promise<{ signingKey: CryptoKey; keyVersion: number } | null> {
+  const state = useEncryptionStore.getState();
+  const version = keyVersion ?? state.keyVersion;
+  if (version === null || !state.signingKeyring[version]) return null;
+  return { signingKey: state.signingKeyring[version], keyVersion: version };
+}
+
 export async function deriveSharedKey(privateKey: CryptoKey, publicKeyBase64: string): Promise<CryptoKey> {
   const publicKeyData = Uint8Array.from(atob(publicKeyBase64), c => c.charCodeAt(0));
   const publicKey = await window.crypto.subtle.importKey(
@@ -0,0 +1,293 @@
+// src/services/attachmentService.ts
+
+import { supabase } from '../lib/supabase';
+import { AttachmentReference } from '../lib/messageEnvelope';
+import { toBase64, fromBase64 } from '../lib/base64';
+
+export const ATTACHMENT_BUCKET = 'attachments';
+
+// Largest file that can be attached, before encryption
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+
+const THUMBNAIL_MAX_DIMENSION = 320;
+const THUMBNAIL_QUALITY = 0.7;
+const REENCODE_QUALITY = 0.92;
+
+// Images that are re-encoded before upload, which drops EXIF, XMP and other metadata
+const REENCODED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Images shown inline. GIFs are not re-encoded, to keep them animated; they carry no EXIF.
+// Anything else, SVG included, is only ever offered as a download.
+const PREVIEWABLE_IMAGE_TYPES = [...REENCODED_IMAGE_TYPES, 'image/gif'];
+
+/**
+ * Where a conversation's attachments are stored. Storage policies check the
+ * path, so only channel members or the two people in a DM can read them.
+ */
+export type AttachmentScope =
+  | { kind: 'channel'; channelId: string }
+  | { kind: 'dm'; userIds: [string, string] };
+
+// A file picked in the composer, checked and stripped but not yet encrypted
+export interface PreparedAttachment {
+  name: string;
+  type: string;
+  data: Blob;
+  thumbnail?: string;
+  width?: number;
+  height?: number;
+}
+
+// Decrypted attachments for this tab, as object URLs keyed by storage path
+const attachmentUrlCache = new Map<string, Promise<string>>();
+
+function scopePath(scope: AttachmentScope): string {
+  if (scope.kind === 'channel') return `channel/${scope.channelId}`;
+
+  const [first, second] = [...scope.userIds].sort();
+  return `dm/${first}/${second}`;
+}
+
+/**
+ * The file's storage path is bound to its ciphertext, so a file moved or
+ * copied to another path no longer decrypts
+ */
+function attachmentAssociatedData(path: string): Uint8Array {
+  return new TextEncoder().encode(`securechat-attachment:${path}`);
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('The image could not be processed'))),
+      type,
+      quality
+    );
+  });
+}
+
+function drawImage(image: ImageBitmap, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('The image could not be processed');
+  context.drawImage(image, 0, 0, width, height);
+
+  return canvas;
+}
+
+function makeThumbnail(image: ImageBitmap): string {
+  const scale = Math.min(1, THUMBNAIL_MAX_DIMENSION / Math.max(image.width, image.height));
+  const canvas = drawImage(
+    image,
+    Math.max(1, Math.round(image.width * scale)),
+    Math.max(1, Math.round(image.height * scale))
+  );
+  return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+}
+
+export function isPreviewableImage(type: string): boolean {
+  return PREVIEWABLE_IMAGE_TYPES.includes(type);
+}
+
+export function formatFileSize(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Check a picked file against the size limit and get it ready to send.
+ * Images are drawn onto a canvas and encoded again, which applies their
+ * orientation and leaves their metadata behind, and get a thumbnail.
+ */
+export async function prepareAttachment(file: File): Promise<PreparedAttachment> {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than the ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB limit`);
+  }
+
+  if (!isPreviewableImage(file.type)) {
+    return { name: file.name, type: file.type || 'application/octet-stream', data: file };
+  }
+
+  let image: ImageBitmap;
+  try {
+    image = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(`${file.name} is not a readable image`);
+  }
+
+  try {
+    const thumbnail = makeThumbnail(image);
+    if (!REENCODED_IMAGE_TYPES.includes(file.type)) {
+      return { name: file.name, type: file.type, data: file, thumbnail, width: image.width, height: image.height };
+    }
+
+    // Browsers that cannot write a format fall back to PNG, so the blob's own type is used
+    const data = await canvasToBlob(drawImage(image, image.width, image.height), file.type, REENCODE_QUALITY);
+    if (data.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`${file.name} is larger than the ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB limit`);
+    }
+
+    return { name: file.name, type: data.type, data, thumbnail, width: image.width, height: image.height };
+  } finally {
+    image.close();
+  }
+}
+
+/**
+ * Encrypt one attachment with a fresh key and upload it
+ */
+async function uploadAttachment(
+  attachment: PreparedAttachment,
+  scope: AttachmentScope
+): Promise<AttachmentReference> {
+  const path = `${scopePath(scope)}/${crypto.randomUUID()}`;
+  const key = await window.crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt']
+  );
+  const nonce = window.crypto.getRandomValues(new Uint8Array(12));
+
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce, additionalData: attachmentAssociatedData(path) },
+    key,
+    await attachment.data.arrayBuffer()
+  );
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(path, new Blob([ciphertext]), { contentType: 'application/octet-stream', upsert: false });
+
+  if (error) throw new Error(`Failed to upload ${attachment.name}: ${error.message}`);
+
+  return {
+    path,
+    key: toBase64(await window.crypto.subtle.exportKey('raw', key)),
+    nonce: toBase64(nonce),
+    name: attachment.name,
+    type: attachment.type,
+    size: attachment.data.size,
+    thumbnail: attachment.thumbnail,
+    width: attachment.width,
+    height: attachment.height,
+  };
+}
+
+/**
+ * Encrypt and upload the attachments for a message. If any upload fails the
+ * ones already uploaded are removed again and nothing is returned.
+ * @returns The references to put in the message body
+ */
+export async function uploadAttachments(
+  attachments: PreparedAttachment[],
+  scope: AttachmentScope
+): Promise<AttachmentReference[]> {
+  if (attachments.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    throw new Error(`A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`);
+  }
+
+  const uploaded: AttachmentReference[] = [];
+  try {
+    for (const attachment of attachments) {
+      uploaded.push(await uploadAttachment(attachment, scope));
+    }
+  } catch (error) {
+    await deleteAttachments(uploaded);
+    throw error;
+  }
+
+  return uploaded;
+}
+
+/**
+ * Re-encrypt attachments for another conversation, e.g. when forwarding.
+ * Storage access follows the path, so each file is decrypted and uploaded
+ * again under the new conversation with a fresh key.
+ * @returns The references to put in the new message's body
+ */
+export async function copyAttachments(
+  attachments: AttachmentReference[],
+  scope: AttachmentScope
+): Promise<AttachmentReference[]> {
+  const prepared = await Promise.all(
+    attachments.map(async (attachment): Promise<PreparedAttachment> => {
+      const response = await fetch(await getAttachmentUrl(attachment));
+      return {
+        name: attachment.name,
+        type: attachment.type,
+        data: await response.blob(),
+        thumbnail: attachment.thumbnail,
+        width: attachment.width,
+        height: attachment.height,
+      };
+    })
+  );
+
+  return uploadAttachments(prepared, scope);
+}
+
+/**
+ * Remove uploaded attachments, e.g. for a message that was never sent
+ */
+export async function deleteAttachments(attachments: AttachmentReference[]): Promise<void> {
+  if (attachments.length === 0) return;
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .remove(attachments.map(attachment => attachment.path));
+
+  if (error) {
+    console.error('Error removing attachments:', error);
+  }
+}
+
+/**
+ * Download and decrypt an attachment.
+ * Only previewable images keep their type; everything else becomes an opaque
+ * download, so a file can never be rendered as a page in the app's origin.
+ * @returns An object URL for the decrypted file
+ */
+export async function getAttachmentUrl(attachment: AttachmentReference): Promise<string> {
+  let cached = attachmentUrlCache.get(attachment.path);
+
+  if (!cached) {
+    cached = (async () => {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .download(attachment.path);
+
+      if (error) throw error;
+
+      const key = await window.crypto.subtle.importKey(
+        'raw',
+        fromBase64(attachment.key),
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['decrypt']
+      );
+
+      const decrypted = await window.crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: fromBase64(attachment.nonce),
+          additionalData: attachmentAssociatedData(attachment.path),
+        },
+        key,
+        await data.arrayBuffer()
+      );
+
+      const type = isPreviewableImage(attachment.type) ? attachment.type : 'application/octet-stream';
+      return URL.createObjectURL(new Blob([decrypted], { type }));
+    })();
+
+    attachmentUrlCache.set(attachment.path, cached);
+    cached.catch(() => attachmentUrlCache.delete(attachment.path));
+  }
+
+  return cached;
+}
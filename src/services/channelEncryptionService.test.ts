@@ -0,0 +1,117 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  vi.stubEnv('VITE_SUPABASE_URL', 'http://localhost:54321');
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'anon-key');
+});
+
+// Signing keys are looked up in the key transparency log, which these tests do not reach
+vi.mock('./encryptionService', async importOriginal => ({
+  ...(await importOriginal<typeof import('./encryptionService')>()),
+  getPublishedSigningKey: vi.fn(),
+}));
+
+import { exportPublicKey, generateKeyPair, generateSigningKeyPair } from '../lib/supabase';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { getPublishedSigningKey } from './encryptionService';
+import { StoredWrappedChannelKey, createWrappedKeyRow, unwrapChannelKey } from './channelEncryptionService';
+
+interface TestUser {
+  id: string;
+  keyring: Record<number, CryptoKey>;
+  signingKeyring: Record<number, CryptoKey>;
+  publicKeys: Record<number, string>;
+  signingPublicKeys: Record<number, string>;
+}
+
+async function createUser(id: string, keyVersions = [1]): Promise<TestUser> {
+  const user: TestUser = { id, keyring: {}, signingKeyring: {}, publicKeys: {}, signingPublicKeys: {} };
+  for (const keyVersion of keyVersions) {
+    const [keyPair, signingKeyPair] = await Promise.all([generateKeyPair(), generateSigningKeyPair()]);
+    user.keyring[keyVersion] = keyPair.privateKey;
+    user.signingKeyring[keyVersion] = signingKeyPair.privateKey;
+    user.publicKeys[keyVersion] = await exportPublicKey(keyPair.publicKey);
+    user.signingPublicKeys[keyVersion] = await exportPublicKey(signingKeyPair.publicKey);
+  }
+  return user;
+}
+
+// Only one user's keys are unlocked in a tab, as in the app
+function signIn(user: TestUser) {
+  const versions = Object.keys(user.keyring).map(Number);
+  useEncryptionStore.getState().unlock(user.keyring, user.signingKeyring, Math.max(...versions));
+}
+
+let alice: TestUser;
+let bob: TestUser;
+let mallory: TestUser;
+let rawKey: ArrayBuffer;
+
+async function wrapForBob(keyVersion = 2): Promise<StoredWrappedChannelKey> {
+  signIn(alice);
+  return createWrappedKeyRow('channel-1', 3, alice.id, bob.id, rawKey, {
+    public_key: bob.publicKeys[keyVersion],
+    key_version: keyVersion,
+  });
+}
+
+beforeAll(async () => {
+  vi.stubGlobal('window', globalThis);
+
+  [alice, bob, mallory] = await Promise.all([createUser('alice'), createUser('bob', [1, 2]), createUser('mallory')]);
+  const users = [alice, bob, mallory];
+  vi.mocked(getPublishedSigningKey).mockImplementation(async (userId, keyVersion) =>
+    users.find(user => user.id === userId)?.signingPublicKeys[keyVersion] ?? null
+  );
+
+  rawKey = crypto.getRandomValues(new Uint8Array(32)).buffer;
+});
+
+describe('channel key wrapping', () => {
+  it('unwraps a copy to the key that was wrapped', async () => {
+    const wrapped = await wrapForBob();
+
+    signIn(bob);
+    const channelKey = await unwrapChannelKey(wrapped);
+
+    expect(new Uint8Array(await crypto.subtle.exportKey('raw', channelKey))).toEqual(new Uint8Array(rawKey));
+    expect(wrapped).toMatchObject({ channel_id: 'channel-1', user_id: 'bob', epoch: 3, wrapped_by: 'alice', key_version: 2 });
+  });
+
+  it('unwraps a copy wrapped for an older identity key', async () => {
+    const wrapped = await wrapForBob(1);
+
+    signIn(bob);
+    const channelKey = await unwrapChannelKey(wrapped);
+
+    expect(new Uint8Array(await crypto.subtle.exportKey('raw', channelKey))).toEqual(new Uint8Array(rawKey));
+  });
+
+  it('refuses copies without a signature', async () => {
+    const wrapped = await wrapForBob();
+
+    signIn(bob);
+    await expect(unwrapChannelKey({ ...wrapped, signature: null })).rejects.toThrow('invalid signature');
+  });
+
+  it('refuses copies that were changed after signing', async () => {
+    const wrapped = await wrapForBob();
+    const other = await wrapForBob();
+
+    signIn(bob);
+    await expect(unwrapChannelKey({ ...wrapped, wrapped_key: other.wrapped_key })).rejects.toThrow('invalid signature');
+    await expect(unwrapChannelKey({ ...wrapped, epoch: 4 })).rejects.toThrow('invalid signature');
+    await expect(unwrapChannelKey({ ...wrapped, channel_id: 'channel-2' })).rejects.toThrow('invalid signature');
+  });
+
+  it('refuses copies that claim to be from someone other than their signer', async () => {
+    signIn(mallory);
+    const planted = await createWrappedKeyRow('channel-1', 3, mallory.id, bob.id, rawKey, {
+      public_key: bob.publicKeys[2],
+      key_version: 2,
+    });
+
+    signIn(bob);
+    await expect(unwrapChannelKey({ ...planted, wrapped_by: alice.id })).rejects.toThrow('invalid signature');
+  });
+});
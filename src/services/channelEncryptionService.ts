@@ -0,0 +1,624 @@
+// src/services/channelEncryptionService.ts
+
+import {
+  supabase,
+  generateKeyPair,
+  exportPublicKey,
+  deriveSharedKey,
+  loadPrivateKey,
+} from '../lib/supabase';
+import {
+  MessageEnvelope,
+  createEnvelope,
+  envelopeAssociatedData,
+  padPlaintext,
+  unpadPlaintext,
+} from '../lib/messageEnvelope';
+import { toBase64, fromBase64 } from '../lib/base64';
+import { filterVerifiedKeys } from './keyTransparencyService';
+import { SignedChannelKeyFields, signWrappedChannelKey, verifyWrappedChannelKey } from './signatureService';
+
+// encryption_version written for messages encrypted with a wrapped channel key
+export const CHANNEL_KEY_ENCRYPTION_VERSION = 3;
+
+interface WrappedChannelKey {
+  wrapped_key: string;
+  iv: string;
+  ephemeral_public_key: string;
+  key_version: number;
+}
+
+// A wrapped copy as stored in channel_member_keys, signed by the member who wrapped it
+export interface StoredWrappedChannelKey extends WrappedChannelKey {
+  channel_id: string;
+  user_id: string;
+  epoch: number;
+  wrapped_by: string | null;
+  signature: string | null;
+  signer_key_version: number | null;
+}
+
+interface MemberPublicKey {
+  public_key: string;
+  key_version: number;
+}
+
+interface ChannelKeyState {
+  current_epoch: number;
+  rotation_pending: boolean;
+  rotated_at: string | null;
+  created_at: string;
+}
+
+// How long a freshly rotated epoch may go without wrapped keys before other
+// members assume the rotation was abandoned and rotate past it
+const ROTATION_GRACE_PERIOD_MS = 60 * 1000;
+
+const WRAPPED_KEY_COLUMNS =
+  'channel_id, user_id, epoch, wrapped_key, iv, ephemeral_public_key, key_version, wrapped_by, signature, signer_key_version';
+
+// Unwrapped channel keys for this tab, keyed by channel id and epoch
+const channelKeyCache = new Map<string, CryptoKey>();
+
+/**
+ * Wrap raw channel key bytes for one member.
+ * A fresh ephemeral key pair is used for every wrap, so the server only ever
+ * sees the ephemeral public key and the AES-GCM ciphertext.
+ */
+async function wrapChannelKey(rawKey: ArrayBuffer, recipientKey: MemberPublicKey): Promise<WrappedChannelKey> {
+  const ephemeralKeyPair = await generateKeyPair();
+  const wrappingKey = await deriveSharedKey(ephemeralKeyPair.privateKey, recipientKey.public_key);
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+
+  const wrapped = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    wrappingKey,
+    rawKey
+  );
+
+  return {
+    wrapped_key: btoa(String.fromCharCode(...new Uint8Array(wrapped))),
+    iv: btoa(String.fromCharCode(...iv)),
+    ephemeral_public_key: await exportPublicKey(ephemeralKeyPair.publicKey),
+    key_version: recipientKey.key_version,
+  };
+}
+
+function signedChannelKeyFields(
+  wrappedKey: WrappedChannelKey & { channel_id: string; user_id: string; epoch: number },
+  wrappedBy: string
+): SignedChannelKeyFields {
+  return {
+    channelId: wrappedKey.channel_id,
+    epoch: wrappedKey.epoch,
+    recipientId: wrappedKey.user_id,
+    wrappedBy,
+    keyVersion: wrappedKey.key_version,
+    ephemeralPublicKey: wrappedKey.ephemeral_public_key,
+    iv: wrappedKey.iv,
+    wrappedKey: wrappedKey.wrapped_key,
+  };
+}
+
+/**
+ * Wrap raw channel key bytes for one member of a channel epoch and sign the
+ * copy, so the member can tell who shared it with them
+ */
+export async function createWrappedKeyRow(
+  channelId: string,
+  epoch: number,
+  userId: string,
+  recipientId: string,
+  rawKey: ArrayBuffer,
+  recipientKey: MemberPublicKey
+): Promise<StoredWrappedChannelKey> {
+  const row = {
+    channel_id: channelId,
+    user_id: recipientId,
+    epoch,
+    wrapped_by: userId,
+    ...(await wrapChannelKey(rawKey, recipientKey)),
+  };
+  const { signature, keyVersion } = await signWrappedChannelKey(signedChannelKeyFields(row, userId));
+
+  return { ...row, signature, signer_key_version: keyVersion };
+}
+
+/**
+ * Unwrap this user's copy of a channel key with the private key it was wrapped for.
+ * Copies not signed by a member are refused, so nobody can slip in a key they control.
+ */
+export async function unwrapChannelKey(wrappedKey: StoredWrappedChannelKey): Promise<CryptoKey> {
+  const signed = wrappedKey.wrapped_by !== null && await verifyWrappedChannelKey(
+    signedChannelKeyFields(wrappedKey, wrappedKey.wrapped_by),
+    wrappedKey.signature,
+    wrappedKey.signer_key_version
+  );
+  if (!signed) {
+    throw new Error('The channel key shared with you has an invalid signature. Ask another member to open this channel.');
+  }
+
+  const privateKey = await loadPrivateKey(wrappedKey.key_version);
+  if (!privateKey) {
+    throw new Error('Encryption is locked. Unlock your keys to read and send encrypted messages.');
+  }
+
+  const wrappingKey = await deriveSharedKey(privateKey, wrappedKey.ephemeral_public_key);
+  const wrappedData = Uint8Array.from(atob(wrappedKey.wrapped_key), c => c.charCodeAt(0));
+  const ivData = Uint8Array.from(atob(wrappedKey.iv), c => c.charCodeAt(0));
+
+  const rawKey = await window.crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: ivData },
+    wrappingKey,
+    wrappedData
+  );
+
+  return importChannelKey(rawKey);
+}
+
+async function importChannelKey(rawKey: ArrayBuffer): Promise<CryptoKey> {
+  // Extractable so that members can re-wrap the key for newcomers
+  return window.crypto.subtle.importKey(
+    'raw',
+    rawKey,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Get the public keys of every member of a server who has published one
+ */
+async function getServerMemberPublicKeys(serverId: string): Promise<Map<string, MemberPublicKey>> {
+  const { data: members, error: membersError } = await supabase
+    .from('server_members')
+    .select('user_id')
+    .eq('server_id', serverId);
+
+  if (membersError) throw membersError;
+
+  const memberIds = (members || []).map(member => member.user_id);
+  if (memberIds.length === 0) return new Map();
+
+  const { data: keys, error: keysError } = await supabase
+    .from('user_keys')
+    .select('user_id, public_key, key_version')
+    .in('user_id', memberIds);
+
+  if (keysError) throw keysError;
+
+  // Members whose keys the key transparency log does not back up get no copy of the channel key
+  const verifiedKeys = await filterVerifiedKeys<MemberPublicKey & { user_id: string }>(keys || []);
+  return new Map(verifiedKeys.map(key => [key.user_id, key]));
+}
+
+/**
+ * Wrap and sign a raw channel key for each given member
+ */
+async function createWrappedKeyRows(
+  channelId: string,
+  epoch: number,
+  userId: string,
+  rawKey: ArrayBuffer,
+  recipients: Map<string, MemberPublicKey>
+): Promise<StoredWrappedChannelKey[]> {
+  return Promise.all(
+    Array.from(recipients.entries()).map(([recipientId, publicKey]) =>
+      createWrappedKeyRow(channelId, epoch, userId, recipientId, rawKey, publicKey)
+    )
+  );
+}
+
+/**
+ * Wrap a raw channel key for each given member and store the wrapped copies
+ */
+async function storeWrappedKeys(
+  channelId: string,
+  epoch: number,
+  userId: string,
+  rawKey: ArrayBuffer,
+  recipients: Map<string, MemberPublicKey>
+) {
+  const rows = await createWrappedKeyRows(channelId, epoch, userId, rawKey, recipients);
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('channel_member_keys')
+    .upsert(rows, { onConflict: 'channel_id,user_id,epoch', ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+async function generateChannelKey(): Promise<{ channelKey: CryptoKey; rawKey: ArrayBuffer }> {
+  const channelKey = await window.crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+  return { channelKey, rawKey: await window.crypto.subtle.exportKey('raw', channelKey) };
+}
+
+/**
+ * Generate the key for a channel epoch and wrap it for every current member with a public key
+ */
+async function generateEpochKey(
+  channelId: string,
+  epoch: number,
+  serverId: string,
+  userId: string
+): Promise<CryptoKey> {
+  const { channelKey, rawKey } = await generateChannelKey();
+
+  const recipients = await getServerMemberPublicKeys(serverId);
+  await storeWrappedKeys(channelId, epoch, userId, rawKey, recipients);
+
+  channelKeyCache.set(`${channelId}:${epoch}`, channelKey);
+  return channelKey;
+}
+
+/**
+ * Generate the first key for a channel. The channel's key row and the members'
+ * wrapped copies are stored together, so a channel never has a key nobody holds.
+ */
+async function createChannelKey(channelId: string, serverId: string, userId: string): Promise<CryptoKey | null> {
+  const { channelKey, rawKey } = await generateChannelKey();
+  const recipients = await getServerMemberPublicKeys(serverId);
+  const rows = await createWrappedKeyRows(channelId, 1, userId, rawKey, recipients);
+
+  const { error: createError } = await supabase.rpc('create_channel_key', {
+    p_channel_id: channelId,
+    p_member_keys: rows,
+  });
+
+  if (createError) {
+    // Another member created the key first
+    if (createError.code === '23505') return null;
+    throw createError;
+  }
+
+  channelKeyCache.set(`${channelId}:1`, channelKey);
+  return channelKey;
+}
+
+/**
+ * Get the current epoch of a channel's key, or null if the channel has no key yet
+ */
+async function getChannelKeyState(channelId: string): Promise<ChannelKeyState | null> {
+  const { data, error } = await supabase
+    .from('channel_keys')
+    .select('current_epoch, rotation_pending, rotated_at, created_at')
+    .eq('channel_id', channelId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Check whether anyone holds a signed key for an epoch. An epoch nobody holds
+ * means the member who created it never finished distributing the key, every
+ * holder has since reset their keys, or its copies were shared before they
+ * were signed.
+ */
+async function isEpochOrphaned(channelId: string, state: ChannelKeyState): Promise<boolean> {
+  const epochStartedAt = new Date(state.rotated_at ?? state.created_at).getTime();
+  if (Date.now() - epochStartedAt < ROTATION_GRACE_PERIOD_MS) {
+    return false;
+  }
+
+  const { count, error } = await supabase
+    .from('channel_member_keys')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('channel_id', channelId)
+    .eq('epoch', state.current_epoch)
+    .not('signature', 'is', null);
+
+  if (error) throw error;
+  return count === 0;
+}
+
+/**
+ * Move a channel to a new key epoch that only current members can read
+ * @param expectedEpoch The epoch the caller believes is current
+ * @returns The new epoch, or null if another member rotated the key first
+ */
+export async function rotateChannelKey(
+  channelId: string,
+  serverId: string,
+  userId: string,
+  expectedEpoch: number
+): Promise<number | null> {
+  const { data: newEpoch, error } = await supabase.rpc('advance_channel_epoch', {
+    p_channel_id: channelId,
+    p_expected_epoch: expectedEpoch,
+  });
+
+  if (error) throw error;
+  if (!newEpoch) return null;
+
+  await generateEpochKey(channelId, newEpoch, serverId, userId);
+  return newEpoch;
+}
+
+/**
+ * Rotate every channel key that is waiting for rotation after a member was removed
+ * @param userId The current user
+ * @param serverId Only rotate channels in this server
+ * @returns The number of channels that were rotated
+ */
+export async function rotatePendingChannelKeys(userId: string, serverId?: string): Promise<number> {
+  const { data: pendingKeys, error } = await supabase
+    .from('channel_keys')
+    .select('channel_id, current_epoch')
+    .eq('rotation_pending', true);
+
+  if (error) throw error;
+  if (!pendingKeys || pendingKeys.length === 0) return 0;
+
+  let channelsQuery = supabase
+    .from('channels')
+    .select('id, server_id')
+    .in('id', pendingKeys.map(key => key.channel_id));
+
+  if (serverId) {
+    channelsQuery = channelsQuery.eq('server_id', serverId);
+  }
+
+  const { data: channels, error: channelsError } = await channelsQuery;
+  if (channelsError) throw channelsError;
+
+  let rotated = 0;
+  for (const channel of channels || []) {
+    const pendingKey = pendingKeys.find(key => key.channel_id === channel.id);
+    if (!pendingKey) continue;
+
+    try {
+      if (await rotateChannelKey(channel.id, channel.server_id, userId, pendingKey.current_epoch)) {
+        rotated++;
+      }
+    } catch (rotateError) {
+      console.error(`Error rotating key for channel ${channel.id}:`, rotateError);
+    }
+  }
+
+  return rotated;
+}
+
+/**
+ * Get the key for one epoch of a channel
+ * @param channelId The channel to get the key for
+ * @param userId The current user
+ * @param epoch The key epoch the message was encrypted under
+ */
+export async function getChannelKey(channelId: string, userId: string, epoch: number): Promise<CryptoKey> {
+  const cacheKey = `${channelId}:${epoch}`;
+  const cached = channelKeyCache.get(cacheKey);
+  if (cached) return cached;
+
+  if (!(await loadPrivateKey())) {
+    throw new Error('Encryption is locked. Unlock your keys to read and send encrypted messages.');
+  }
+
+  const { data: wrappedKey, error } = await supabase
+    .from('channel_member_keys')
+    .select(WRAPPED_KEY_COLUMNS)
+    .eq('channel_id', channelId)
+    .eq('user_id', userId)
+    .eq('epoch', epoch)
+    .maybeSingle()
+    .overrideTypes<StoredWrappedChannelKey, { merge: false }>();
+
+  if (error) throw error;
+
+  if (!wrappedKey) {
+    throw new Error('The channel key has not been shared with you yet. Ask another member to open this channel.');
+  }
+
+  const channelKey = await unwrapChannelKey(wrappedKey);
+  channelKeyCache.set(cacheKey, channelKey);
+  return channelKey;
+}
+
+/**
+ * Get the key new messages should be encrypted with, creating the channel key
+ * or finishing a pending rotation first if needed
+ */
+export async function getCurrentChannelKey(
+  channelId: string,
+  serverId: string,
+  userId: string
+): Promise<{ key: CryptoKey; epoch: number }> {
+  let state = await getChannelKeyState(channelId);
+
+  if (!state) {
+    const channelKey = await createChannelKey(channelId, serverId, userId);
+    if (channelKey) return { key: channelKey, epoch: 1 };
+    state = await getChannelKeyState(channelId);
+    if (!state) throw new Error('Failed to create a key for this channel');
+  }
+
+  if (state.rotation_pending || (await isEpochOrphaned(channelId, state))) {
+    const newEpoch = await rotateChannelKey(channelId, serverId, userId, state.current_epoch);
+    if (newEpoch) {
+      return { key: await getChannelKey(channelId, userId, newEpoch), epoch: newEpoch };
+    }
+
+    // Another member rotated first; use their epoch
+    state = await getChannelKeyState(channelId);
+    if (!state) throw new Error('The channel key was removed');
+  }
+
+  return {
+    key: await getChannelKey(channelId, userId, state.current_epoch),
+    epoch: state.current_epoch,
+  };
+}
+
+/**
+ * Share the channel keys this user holds with members who have published a
+ * public key but do not hold a wrapped copy yet (for example, members who
+ * joined after a key was created)
+ */
+export async function distributeChannelKey(channelId: string, serverId: string, userId: string): Promise<number> {
+  // Makes sure the current epoch exists before sharing it
+  await getCurrentChannelKey(channelId, serverId, userId);
+
+  const { data: holders, error } = await supabase
+    .from('channel_member_keys')
+    .select('user_id, epoch')
+    .eq('channel_id', channelId);
+
+  if (error) throw error;
+
+  const ownEpochs = (holders || [])
+    .filter(holder => holder.user_id === userId)
+    .map(holder => holder.epoch);
+  const members = await getServerMemberPublicKeys(serverId);
+
+  let shared = 0;
+  for (const epoch of ownEpochs) {
+    const recipients = new Map(members);
+    for (const holder of holders || []) {
+      if (holder.epoch === epoch) recipients.delete(holder.user_id);
+    }
+
+    if (recipients.size === 0) continue;
+
+    const channelKey = await getChannelKey(channelId, userId, epoch);
+    const rawKey = await window.crypto.subtle.exportKey('raw', channelKey);
+    await storeWrappedKeys(channelId, epoch, userId, rawKey, recipients);
+    shared += recipients.size;
+  }
+
+  return shared;
+}
+
+/**
+ * Encrypt a channel message into an envelope with the key for the channel's current epoch
+ */
+export async function encryptChannelMessage(
+  channelId: string,
+  serverId: string,
+  userId: string,
+  message: string
+): Promise<MessageEnvelope> {
+  const { key: channelKey, epoch } = await getCurrentChannelKey(channelId, serverId, userId);
+  const envelope = createEnvelope({ kind: 'channel', epoch });
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+
+  const encrypted = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: envelopeAssociatedData(envelope) },
+    channelKey,
+    padPlaintext(message)
+  );
+
+  return {
+    ...envelope,
+    nonce: toBase64(iv),
+    ct: toBase64(encrypted),
+  };
+}
+
+/**
+ * Decrypt a channel message envelope with the key for the epoch it names.
+ * Throws if it cannot be decrypted.
+ */
+export async function decryptChannelEnvelope(
+  channelId: string,
+  userId: string,
+  envelope: MessageEnvelope
+): Promise<string> {
+  if (envelope.kid.kind !== 'channel' || !envelope.nonce || !envelope.ct) {
+    throw new Error('Not a channel message envelope');
+  }
+
+  const channelKey = await getChannelKey(channelId, userId, envelope.kid.epoch);
+  const decrypted = await window.crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: fromBase64(envelope.nonce),
+      additionalData: envelopeAssociatedData(envelope),
+    },
+    channelKey,
+    fromBase64(envelope.ct)
+  );
+
+  return unpadPlaintext(decrypted);
+}
+
+/**
+ * Decrypt a channel message stored before envelopes, with the key for the
+ * epoch it was encrypted under
+ */
+export async function decryptChannelMessage(
+  channelId: string,
+  userId: string,
+  encryptedContent: string,
+  iv: string,
+  epoch: number
+): Promise<string> {
+  try {
+    const channelKey = await getChannelKey(channelId, userId, epoch);
+    const encryptedData = Uint8Array.from(atob(encryptedContent), c => c.charCodeAt(0));
+    const ivData = Uint8Array.from(atob(iv), c => c.charCodeAt(0));
+
+    const decrypted = await window.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: ivData },
+      channelKey,
+      encryptedData
+    );
+
+    return new TextDecoder().decode(decrypted);
+  } catch (error) {
+    console.error('Channel decryption error:', error);
+    return `🔒 [Encrypted message - cannot decrypt]`;
+  }
+}
+
+/**
+ * Re-wrap every channel key the user holds for their new identity key after a rotation
+ * @returns The number of channel keys that were re-wrapped
+ */
+export async function rewrapChannelKeysForUser(userId: string, newKey: MemberPublicKey): Promise<number> {
+  const { data: wrappedKeys, error } = await supabase
+    .from('channel_member_keys')
+    .select(WRAPPED_KEY_COLUMNS)
+    .eq('user_id', userId)
+    .lt('key_version', newKey.key_version)
+    .overrideTypes<StoredWrappedChannelKey[], { merge: false }>();
+
+  if (error) throw error;
+
+  let rewrapped = 0;
+  for (const wrappedKey of wrappedKeys || []) {
+    try {
+      const channelKey = await unwrapChannelKey(wrappedKey);
+      const rawKey = await window.crypto.subtle.exportKey('raw', channelKey);
+
+      const rewrappedKey = await createWrappedKeyRow(wrappedKey.channel_id, wrappedKey.epoch, userId, userId, rawKey, newKey);
+
+      const { error: updateError } = await supabase
+        .from('channel_member_keys')
+        .update(rewrappedKey)
+        .eq('channel_id', wrappedKey.channel_id)
+        .eq('user_id', userId)
+        .eq('epoch', wrappedKey.epoch);
+
+      if (updateError) throw updateError;
+      rewrapped++;
+    } catch (rewrapError) {
+      // Leave the old copy in place; it stays readable with the old key in the keyring
+      console.error(`Error re-wrapping key for channel ${wrappedKey.channel_id}:`, rewrapError);
+    }
+  }
+
+  return rewrapped;
+}
+
+/**
+ * Forget unwrapped channel keys, e.g. when the user signs out or locks encryption
+ */
+export function clearChannelKeyCache() {
+  channelKeyCache.clear();
+}
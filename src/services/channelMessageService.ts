@@ -0,0 +1,445 @@
+// src/services/channelMessageService.ts
+
+import { supabase } from '../lib/supabase';
+import {
+  ENVELOPE_ENCRYPTION_VERSION,
+  AttachmentReference,
+  ForwardedFrom,
+  MessageEnvelope,
+  MessageMention,
+  MessageQuote,
+  decodeStoredMessage,
+  firstEnvelopeAt,
+  openPlaintextEnvelope,
+  readMessageBody
+} from '../lib/messageEnvelope';
+import {
+  MESSAGE_PAGE_SIZE,
+  MessageCursor,
+  newerThanFilter,
+  olderThanFilter
+} from '../lib/messagePagination';
+import { decryptMessage } from './serverEncryptionService';
+import {
+  CHANNEL_KEY_ENCRYPTION_VERSION,
+  decryptChannelEnvelope,
+  decryptChannelMessage
+} from './channelEncryptionService';
+import { SignatureStatus, verifyEnvelopeSignature, verifyMessageSignature } from './signatureService';
+import { EncryptionPolicy, getChannelEncryptionPolicy } from './encryptionPolicyService';
+
+// A channel message as shown, decrypted and with its signature checked
+export interface ChannelMessage {
+  id: string;
+  sender_id: string;
+  encrypted_content: string;
+  iv: string | null;
+  created_at: string;
+  updated_at?: string;
+  sender_username: string;
+  sender_display_name: string | null;
+  is_encrypted: boolean;
+  signature_status?: SignatureStatus;
+  attachments?: AttachmentReference[];
+  // The message this one quotes, and who first sent it if it was forwarded
+  reply_to?: MessageQuote;
+  forwarded_from?: ForwardedFrom;
+  // Who the message mentions, from its encrypted body
+  mentions?: MessageMention[];
+  // Set on thread replies, to the top-level message they reply to
+  parent_message_id?: string | null;
+  // Shown while it is being sent, before the stored copy replaces it
+  pending?: boolean;
+}
+
+// A row of the messages table, before it is decrypted
+export interface ChannelMessageRow {
+  id: string;
+  sender_id: string;
+  encrypted_content: string;
+  iv: string;
+  created_at: string;
+  updated_at?: string;
+  is_encrypted: boolean | null;
+  encryption_version: number | null;
+  key_epoch: number | null;
+  signature: string | null;
+  sender_key_version: number | null;
+  parent_message_id: string | null;
+  sender: { username: string; display_name: string | null } | null;
+}
+
+export const CHANNEL_MESSAGE_COLUMNS = `
+  id,
+  sender_id,
+  encrypted_content,
+  iv,
+  created_at,
+  updated_at,
+  is_encrypted,
+  encryption_version,
+  key_epoch,
+  signature,
+  sender_key_version,
+  parent_message_id,
+  sender:users!sender_id (
+    username,
+    display_name
+  )
+`;
+
+/**
+ * The channel a view has open, with the encryption its messages are sent with
+ */
+export interface ChannelDetails {
+  id: string;
+  server_id: string;
+  encryption_policy: EncryptionPolicy;
+}
+
+/**
+ * What a member can see of a channel: its details and name, and when their
+ * history starts if they joined with hidden history
+ */
+export interface ChannelAccess {
+  details: ChannelDetails;
+  name: string;
+  historyStart: string | null;
+}
+
+/**
+ * The replies of a thread, and whether any from other members are unread
+ */
+export interface ThreadSummary {
+  replyCount: number;
+  lastReply: ChannelMessage | null;
+  hasUnread: boolean;
+}
+
+interface ThreadSummaryRow {
+  parent_message_id: string;
+  reply_count: number;
+  last_reply_id: string;
+  has_unread: boolean;
+}
+
+/**
+ * Find when a channel moved to envelopes, for downgrade protection.
+ * Replies and top-level messages share one history, so threads are included.
+ */
+export async function fetchChannelEnvelopeSince(channelId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('encrypted_content, encryption_version, created_at')
+    .eq('channel_id', channelId)
+    .gte('encryption_version', ENVELOPE_ENCRYPTION_VERSION)
+    .order('created_at')
+    .limit(1);
+
+  if (error) throw error;
+
+  return firstEnvelopeAt(data || []);
+}
+
+/**
+ * Look up a channel and what the user may see of it.
+ * Returns null if the channel does not exist or the user cannot see it.
+ */
+export async function fetchChannelAccess(channelId: string, userId: string): Promise<ChannelAccess | null> {
+  const { data: channelData, error: channelError } = await supabase
+    .from('channels')
+    .select('id, server_id, name, encryption_enabled')
+    .eq('id', channelId)
+    .single();
+
+  if (channelError) {
+    console.error('Error fetching channel:', channelError);
+    return null;
+  }
+
+  // The database refuses plaintext anyway if this lookup fails and the server requires encryption
+  const { data: serverData, error: serverError } = await supabase
+    .from('servers')
+    .select('encryption_required')
+    .eq('id', channelData.server_id)
+    .maybeSingle();
+
+  if (serverError) {
+    console.error('Error fetching server encryption setting:', serverError);
+  }
+
+  // Check if user has restricted history access
+  const { data: memberData, error: memberError } = await supabase
+    .from('server_members')
+    .select('hide_history, joined_at')
+    .eq('server_id', channelData.server_id)
+    .eq('user_id', userId)
+    .single();
+
+  if (memberError) {
+    console.error('Error checking member permissions:', memberError);
+  }
+
+  return {
+    details: {
+      id: channelData.id,
+      server_id: channelData.server_id,
+      encryption_policy: getChannelEncryptionPolicy(channelData, serverData)
+    },
+    name: channelData.name,
+    // Members who joined with hidden history only see messages from after they joined
+    historyStart: memberData?.hide_history && memberData.joined_at ? memberData.joined_at : null
+  };
+}
+
+/**
+ * Get the newest page of a channel's top-level messages or the page before a
+ * cursor, newest first, or the page after a cursor, oldest first.
+ * One row more than a page is fetched, to tell whether there are more.
+ */
+export async function fetchChannelMessagePage(
+  channelId: string,
+  historyStart: string | null,
+  before?: MessageCursor,
+  after?: MessageCursor
+): Promise<ChannelMessageRow[]> {
+  let query = supabase
+    .from('messages')
+    .select(CHANNEL_MESSAGE_COLUMNS)
+    .eq('channel_id', channelId)
+    .is('parent_message_id', null);
+
+  if (historyStart) {
+    query = query.gte('created_at', historyStart);
+  }
+  if (before) {
+    query = query.or(olderThanFilter(before));
+  }
+  if (after) {
+    query = query.or(newerThanFilter(after));
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: !!after })
+    .order('id', { ascending: !!after })
+    .limit(MESSAGE_PAGE_SIZE + 1)
+    .overrideTypes<ChannelMessageRow[], { merge: false }>();
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Get one stored message, optionally only if it is in a given channel
+ */
+export async function fetchChannelMessage(messageId: string, channelId?: string): Promise<ChannelMessageRow | null> {
+  let query = supabase
+    .from('messages')
+    .select(CHANNEL_MESSAGE_COLUMNS)
+    .eq('id', messageId);
+
+  if (channelId) {
+    query = query.eq('channel_id', channelId);
+  }
+
+  const { data, error } = await query
+    .maybeSingle()
+    .overrideTypes<ChannelMessageRow, { merge: false }>();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Get several stored messages by id. Messages the user cannot see are left out.
+ */
+export async function fetchChannelMessagesById(messageIds: string[]): Promise<ChannelMessageRow[]> {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select(CHANNEL_MESSAGE_COLUMNS)
+    .in('id', messageIds)
+    .overrideTypes<ChannelMessageRow[], { merge: false }>();
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Decode, decrypt and check the signature of one stored channel message.
+ * Messages that cannot be read are returned with a placeholder instead of throwing.
+ */
+export async function formatChannelMessage(
+  channelId: string,
+  message: ChannelMessageRow,
+  userId: string,
+  envelopeSince: string | null
+): Promise<ChannelMessage> {
+  let displayContent = message.encrypted_content;
+  let isEncrypted = message.is_encrypted || false;
+  let signatureStatus: SignatureStatus | undefined;
+  let attachments: AttachmentReference[] | undefined;
+  let replyTo: MessageQuote | undefined;
+  let forwardedFrom: ForwardedFrom | undefined;
+  let mentions: MessageMention[] | undefined;
+
+  let envelope: MessageEnvelope | null = null;
+  let rejected = false;
+  try {
+    envelope = decodeStoredMessage(message, ['none', 'channel'], envelopeSince);
+  } catch (formatError) {
+    // Unknown envelope versions and downgraded formats are never shown as if they were genuine
+    console.error('Rejected message format:', formatError);
+    displayContent = `🔒 [Message rejected - unsupported or downgraded format]`;
+    rejected = true;
+  }
+
+  if (envelope) {
+    isEncrypted = envelope.alg !== 'none';
+    try {
+      const body = readMessageBody(
+        envelope,
+        isEncrypted
+          ? await decryptChannelEnvelope(channelId, userId, envelope)
+          : openPlaintextEnvelope(envelope)
+      );
+      displayContent = body.text;
+      attachments = body.attachments;
+      replyTo = body.replyTo;
+      forwardedFrom = body.forwardedFrom;
+      mentions = body.mentions;
+    } catch (decryptError) {
+      console.error('Decryption error:', decryptError);
+      displayContent = `🔒 [Encrypted message - cannot decrypt]`;
+    }
+
+    signatureStatus = await verifyEnvelopeSignature(envelope, {
+      scope: 'channel',
+      scopeId: channelId,
+      senderId: message.sender_id
+    });
+  } else if (!rejected && message.is_encrypted) {
+    // Messages from before envelopes: try to decrypt if flagged as encrypted
+    try {
+      // Older messages were encrypted with the server-held entity key
+      displayContent =
+        (message.encryption_version || 1) >= CHANNEL_KEY_ENCRYPTION_VERSION
+          ? await decryptChannelMessage(
+              channelId,
+              userId,
+              message.encrypted_content,
+              message.iv,
+              message.key_epoch ?? 1
+            )
+          : await decryptMessage(channelId, message.encrypted_content, message.iv);
+    } catch (decryptError) {
+      console.error('Decryption error:', decryptError);
+      displayContent = `🔒 [Encrypted message - cannot decrypt]`;
+    }
+
+    signatureStatus = await verifyMessageSignature(
+      {
+        scope: 'channel',
+        scopeId: channelId,
+        senderId: message.sender_id,
+        encryptedContent: message.encrypted_content,
+        iv: message.iv
+      },
+      message.signature,
+      message.sender_key_version
+    );
+  }
+
+  return {
+    id: message.id,
+    sender_id: message.sender_id,
+    encrypted_content: displayContent,
+    iv: message.iv,
+    created_at: message.created_at,
+    updated_at: message.updated_at,
+    sender_username: message.sender?.username || 'Unknown User',
+    sender_display_name: message.sender?.display_name || null,
+    is_encrypted: isEncrypted,
+    signature_status: signatureStatus,
+    attachments,
+    reply_to: replyTo,
+    forwarded_from: forwardedFrom,
+    mentions,
+    parent_message_id: message.parent_message_id
+  };
+}
+
+/**
+ * Get the reply count, latest reply and unread state of several threads.
+ * Messages without replies are left out.
+ */
+export async function fetchThreadSummaries(
+  channelId: string,
+  parentIds: string[],
+  userId: string,
+  envelopeSince: string | null
+): Promise<Record<string, ThreadSummary>> {
+  if (parentIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc('get_thread_summaries', { p_parent_ids: parentIds });
+  if (error) throw error;
+
+  const rows = (data || []) as ThreadSummaryRow[];
+  if (rows.length === 0) return {};
+
+  // The latest replies are decrypted for their previews
+  const replyRows = await fetchChannelMessagesById(rows.map(row => row.last_reply_id));
+  const lastReplies = await Promise.all(
+    replyRows.map(reply =>
+      formatChannelMessage(channelId, reply, userId, envelopeSince)
+    )
+  );
+
+  const summaries: Record<string, ThreadSummary> = {};
+  for (const row of rows) {
+    summaries[row.parent_message_id] = {
+      replyCount: Number(row.reply_count),
+      lastReply: lastReplies.find(reply => reply.id === row.last_reply_id) || null,
+      hasUnread: row.has_unread
+    };
+  }
+  return summaries;
+}
+
+/**
+ * Record that the user has read a thread up to now
+ */
+export async function markThreadRead(userId: string, parentMessageId: string): Promise<void> {
+  const { error } = await supabase
+    .from('thread_read_status')
+    .upsert({
+      user_id: userId,
+      parent_message_id: parentMessageId,
+      last_read_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error('Error marking thread as read:', error);
+  }
+}
+
+/**
+ * Record that the user has read a channel up to now
+ */
+export async function markChannelRead(userId: string, channelId: string): Promise<void> {
+  const { error } = await supabase
+    .from('channel_read_status')
+    .upsert({
+      user_id: userId,
+      channel_id: channelId,
+      last_read_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error('Error marking channel as read:', error);
+  }
+}
@@ -0,0 +1,305 @@
+// src/services/deviceService.ts
+
+import {
+  supabase,
+  generateKeyPair,
+  exportPublicKey,
+  exportKeyring,
+  exportIdentityKey,
+  importPrivateKey,
+  importSigningKey,
+  serializeIdentityKey,
+  parseIdentityKey,
+  IdentityKeyData,
+  deriveSharedKey,
+  encryptMessage,
+  decryptMessage,
+} from '../lib/supabase';
+import { getLocalDevice, saveLocalDevice, deleteLocalDevice } from '../lib/deviceKeyStore';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { publishPrekeys } from './doubleRatchetService';
+
+export interface UserDevice {
+  id: string;
+  name: string;
+  created_at: string;
+  last_seen_at: string | null;
+  revoked_at: string | null;
+}
+
+interface DevicePublicKey {
+  id: string;
+  public_key: string;
+}
+
+/**
+ * Describe this browser, e.g. "Firefox on Windows"
+ */
+function describeThisDevice(): string {
+  const agent = navigator.userAgent;
+
+  const browser =
+    /Edg\//.test(agent) ? 'Edge' :
+    /Firefox\//.test(agent) ? 'Firefox' :
+    /Chrome\//.test(agent) ? 'Chrome' :
+    /Safari\//.test(agent) ? 'Safari' :
+    'Browser';
+
+  const os =
+    /Android/.test(agent) ? 'Android' :
+    /iPhone|iPad/.test(agent) ? 'iOS' :
+    /Windows/.test(agent) ? 'Windows' :
+    /Mac OS X/.test(agent) ? 'macOS' :
+    /Linux/.test(agent) ? 'Linux' :
+    'unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+/**
+ * Wrap one identity key version, with its signing key, for one device
+ */
+async function wrapForDevice(identityKey: IdentityKeyData, device: DevicePublicKey) {
+  const ephemeralKeyPair = await generateKeyPair();
+  const wrappingKey = await deriveSharedKey(ephemeralKeyPair.privateKey, device.public_key);
+  const wrapped = await encryptMessage(wrappingKey, serializeIdentityKey(identityKey));
+
+  return {
+    device_id: device.id,
+    wrapped_key: wrapped.encrypted,
+    iv: wrapped.iv,
+    ephemeral_public_key: await exportPublicKey(ephemeralKeyPair.publicKey),
+  };
+}
+
+/**
+ * Get the device record for this browser, creating a device key pair and
+ * registering it if this browser has never been enrolled (or was revoked)
+ */
+async function getOrRegisterThisDevice(userId: string): Promise<DevicePublicKey> {
+  const localDevice = await getLocalDevice(userId);
+
+  if (localDevice) {
+    const { data: device, error } = await supabase
+      .from('user_devices')
+      .select('id, public_key, revoked_at')
+      .eq('id', localDevice.deviceId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (device && !device.revoked_at) return device;
+
+    // The device was revoked or deleted; start over with a new key pair
+    await deleteLocalDevice(userId);
+  }
+
+  // Non-extractable, so the device private key can only ever be used in this browser
+  const keyPair = await window.crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    ['deriveKey']
+  );
+  const publicKey = await exportPublicKey(keyPair.publicKey);
+
+  const { data: device, error } = await supabase
+    .from('user_devices')
+    .insert({ user_id: userId, name: describeThisDevice(), public_key: publicKey })
+    .select('id, public_key')
+    .single();
+
+  if (error) throw error;
+
+  await saveLocalDevice({ userId, deviceId: device.id, privateKey: keyPair.privateKey });
+  return device;
+}
+
+/**
+ * Register this browser as a device and give it a copy of every identity key,
+ * so it can unlock without the encryption password from now on. Also publishes
+ * the device's prekeys so friends can start direct message sessions with it.
+ * @param password The encryption password, needed once per device
+ */
+export async function enrollThisDevice(password: string): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) return;
+  const userId = session.user.id;
+
+  const keyring = await exportKeyring(password);
+  if (!keyring) {
+    throw new Error('Incorrect encryption password');
+  }
+
+  const device = await getOrRegisterThisDevice(userId);
+  const rows = await Promise.all(
+    keyring.map(async ({ keyVersion, ...identityKey }) => ({
+      user_id: userId,
+      key_version: keyVersion,
+      ...(await wrapForDevice(identityKey, device)),
+    }))
+  );
+
+  const { error } = await supabase
+    .from('device_key_bundles')
+    .upsert(rows, { onConflict: 'device_id,key_version' });
+
+  if (error) throw error;
+
+  await publishPrekeys(userId);
+}
+
+/**
+ * Give every active device a copy of a new identity key
+ * @param privateKey The new identity private key; must be extractable
+ * @param signingKey The new signing private key; must be extractable
+ * @returns The number of devices the key was shared with
+ */
+export async function fanOutKeyToDevices(
+  privateKey: CryptoKey,
+  signingKey: CryptoKey,
+  keyVersion: number
+): Promise<number> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) return 0;
+  const userId = session.user.id;
+
+  const { data: devices, error } = await supabase
+    .from('user_devices')
+    .select('id, public_key')
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (error) throw error;
+  if (!devices || devices.length === 0) return 0;
+
+  const identityKey = await exportIdentityKey(privateKey, signingKey);
+  const rows = await Promise.all(
+    devices.map(async device => ({
+      user_id: userId,
+      key_version: keyVersion,
+      ...(await wrapForDevice(identityKey, device)),
+    }))
+  );
+
+  const { error: upsertError } = await supabase
+    .from('device_key_bundles')
+    .upsert(rows, { onConflict: 'device_id,key_version' });
+
+  if (upsertError) throw upsertError;
+  return devices.length;
+}
+
+/**
+ * Unlock the keyring with this browser's device key instead of the password
+ * @returns Whether the keyring was unlocked
+ */
+export async function unlockWithThisDevice(): Promise<boolean> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) return false;
+  const userId = session.user.id;
+
+  const localDevice = await getLocalDevice(userId);
+  if (!localDevice) return false;
+
+  const [{ data: device, error: deviceError }, { data: bundles, error: bundlesError }, { data: publishedKey }] =
+    await Promise.all([
+      supabase
+        .from('user_devices')
+        .select('revoked_at')
+        .eq('id', localDevice.deviceId)
+        .maybeSingle(),
+      supabase
+        .from('device_key_bundles')
+        .select('key_version, wrapped_key, iv, ephemeral_public_key')
+        .eq('device_id', localDevice.deviceId),
+      supabase
+        .from('user_keys')
+        .select('key_version')
+        .eq('user_id', userId)
+        .maybeSingle(),
+    ]);
+
+  if (deviceError) throw deviceError;
+  if (bundlesError) throw bundlesError;
+
+  if (!device || device.revoked_at) {
+    await deleteLocalDevice(userId);
+    return false;
+  }
+
+  // Without the current key this device must be re-enrolled with the password
+  const currentVersion = publishedKey?.key_version;
+  if (currentVersion === undefined || !bundles?.some(bundle => bundle.key_version === currentVersion)) {
+    return false;
+  }
+
+  const keyring: Record<number, CryptoKey> = {};
+  const signingKeyring: Record<number, CryptoKey> = {};
+  try {
+    for (const bundle of bundles) {
+      const wrappingKey = await deriveSharedKey(localDevice.privateKey, bundle.ephemeral_public_key);
+      const { keyData, signingKeyData } = parseIdentityKey(
+        await decryptMessage(wrappingKey, bundle.wrapped_key, bundle.iv)
+      );
+      keyring[bundle.key_version] = await importPrivateKey(keyData);
+      if (signingKeyData) {
+        signingKeyring[bundle.key_version] = await importSigningKey(signingKeyData);
+      }
+    }
+  } catch (unwrapError) {
+    console.error('Error unwrapping device key bundle:', unwrapError);
+    return false;
+  }
+
+  // A current key from before signing keys existed is replaced after a password unlock
+  if (!signingKeyring[currentVersion]) {
+    return false;
+  }
+
+  useEncryptionStore.getState().unlock(keyring, signingKeyring, currentVersion);
+
+  await supabase
+    .from('user_devices')
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq('id', localDevice.deviceId);
+
+  // Replace used one-time prekeys and an expired signed prekey
+  publishPrekeys(userId).catch((prekeyError) => {
+    console.error('Error publishing prekeys:', prekeyError);
+  });
+
+  return true;
+}
+
+/**
+ * List every device the user has enrolled, newest first
+ */
+export async function listDevices(userId: string): Promise<UserDevice[]> {
+  const { data, error } = await supabase
+    .from('user_devices')
+    .select('id, name, created_at, last_seen_at, revoked_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Get the id of this browser's device, if it has been enrolled
+ */
+export async function getThisDeviceId(userId: string): Promise<string | null> {
+  const localDevice = await getLocalDevice(userId);
+  return localDevice?.deviceId ?? null;
+}
+
+/**
+ * Mark a device as revoked. Its key bundles are deleted by the database.
+ */
+export async function markDeviceRevoked(deviceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_devices')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', deviceId);
+
+  if (error) throw error;
+}
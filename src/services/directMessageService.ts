@@ -0,0 +1,383 @@
+// src/services/directMessageService.ts
+
+import { supabase } from '../lib/supabase';
+import {
+  ENVELOPE_ENCRYPTION_VERSION,
+  AttachmentReference,
+  ForwardedFrom,
+  MessageEnvelope,
+  MessageQuote,
+  decodeStoredMessage,
+  firstEnvelopeAt,
+  readMessageBody
+} from '../lib/messageEnvelope';
+import {
+  MESSAGE_PAGE_SIZE,
+  MessageCursor,
+  newerThanFilter,
+  olderThanFilter
+} from '../lib/messagePagination';
+import {
+  StoredDirectMessage,
+  decryptDirectMessage,
+  decryptDirectMessageEnvelope
+} from './encryptionService';
+import {
+  RATCHET_DM_ENCRYPTION_VERSION,
+  decryptRatchetDirectMessage,
+  decryptLegacyRatchetDirectMessage
+} from './doubleRatchetService';
+import { SignatureStatus, verifyEnvelopeSignature, verifyMessageSignature } from './signatureService';
+
+// A direct message as shown, decrypted and with its signature checked
+export interface ConversationMessage {
+  id: string;
+  sender_id: string;
+  encrypted_content: string;
+  iv: string | null;
+  created_at: string;
+  updated_at?: string;
+  sender_username: string;
+  sender_display_name: string | null;
+  is_encrypted: boolean;
+  signature_status?: SignatureStatus;
+  attachments?: AttachmentReference[];
+  // The message this one quotes, and who first sent it if it was forwarded
+  reply_to?: MessageQuote;
+  forwarded_from?: ForwardedFrom;
+  // Shown while it is being sent, before the stored copy replaces it
+  pending?: boolean;
+}
+
+// A row of the direct_messages table, before it is decrypted
+export interface DirectMessageRow extends StoredDirectMessage {
+  id: string;
+  created_at: string;
+  updated_at?: string;
+  signature: string | null;
+  sender: { username: string; display_name: string | null } | null;
+}
+
+/**
+ * The other participant of a conversation
+ */
+export interface Friend {
+  id: string;
+  username: string;
+  display_name: string | null;
+}
+
+const DIRECT_MESSAGE_COLUMNS = `
+  id,
+  sender_id,
+  receiver_id,
+  encrypted_content,
+  iv,
+  created_at,
+  updated_at,
+  is_encrypted,
+  encryption_version,
+  kdf_salt,
+  sender_key_version,
+  recipient_key_version,
+  signature,
+  sender:users!sender_id (
+    username,
+    display_name
+  )
+`;
+
+// PostgREST `or` filter for the messages between two users
+function conversationFilter(userId: string, friendId: string): string {
+  return `and(sender_id.eq.${userId},receiver_id.eq.${friendId}),and(sender_id.eq.${friendId},receiver_id.eq.${userId})`;
+}
+
+/**
+ * Get the profile of the user a conversation is with
+ */
+export async function fetchFriend(friendId: string): Promise<Friend> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, username, display_name')
+    .eq('id', friendId)
+    .single();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Check that two users are friends, which direct messages require
+ */
+export async function areFriends(userId: string, friendId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('friends')
+    .select('status')
+    .or(`and(user_id1.eq.${userId},user_id2.eq.${friendId}),and(user_id1.eq.${friendId},user_id2.eq.${userId})`)
+    .eq('status', 'accepted')
+    .single();
+
+  return !error && !!data;
+}
+
+/**
+ * Find when a conversation moved to envelopes, for downgrade protection
+ */
+export async function fetchDirectEnvelopeSince(userId: string, friendId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('direct_messages')
+    .select('encrypted_content, encryption_version, created_at')
+    .or(conversationFilter(userId, friendId))
+    .gte('encryption_version', ENVELOPE_ENCRYPTION_VERSION)
+    .order('created_at')
+    .limit(1);
+
+  if (error) throw error;
+
+  return firstEnvelopeAt(data || []);
+}
+
+/**
+ * Get the newest page of a conversation or the page before a cursor, newest
+ * first, or the page after a cursor, oldest first.
+ * One row more than a page is fetched, to tell whether there are more.
+ */
+export async function fetchDirectMessagePage(
+  userId: string,
+  friendId: string,
+  before?: MessageCursor,
+  after?: MessageCursor
+): Promise<DirectMessageRow[]> {
+  let query = supabase
+    .from('direct_messages')
+    .select(DIRECT_MESSAGE_COLUMNS)
+    .or(conversationFilter(userId, friendId));
+
+  if (before) {
+    query = query.or(olderThanFilter(before));
+  }
+  if (after) {
+    query = query.or(newerThanFilter(after));
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: !!after })
+    .order('id', { ascending: !!after })
+    .limit(MESSAGE_PAGE_SIZE + 1)
+    .overrideTypes<DirectMessageRow[], { merge: false }>();
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Get one stored message, optionally only if it is between two given users
+ */
+export async function fetchDirectMessage(
+  messageId: string,
+  conversation?: { userId: string; friendId: string }
+): Promise<DirectMessageRow | null> {
+  let query = supabase
+    .from('direct_messages')
+    .select(DIRECT_MESSAGE_COLUMNS)
+    .eq('id', messageId);
+
+  if (conversation) {
+    query = query.or(conversationFilter(conversation.userId, conversation.friendId));
+  }
+
+  const { data, error } = await query
+    .maybeSingle()
+    .overrideTypes<DirectMessageRow, { merge: false }>();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Get several stored messages by id. Messages the user cannot see are left out.
+ */
+export async function fetchDirectMessagesById(messageIds: string[]): Promise<DirectMessageRow[]> {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('direct_messages')
+    .select(DIRECT_MESSAGE_COLUMNS)
+    .in('id', messageIds)
+    .overrideTypes<DirectMessageRow[], { merge: false }>();
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Decode, decrypt and check the signature of one stored direct message.
+ * Messages that cannot be read are returned with a placeholder instead of throwing.
+ */
+export async function formatDirectMessage(
+  message: DirectMessageRow,
+  userId: string,
+  envelopeSince: string | null
+): Promise<ConversationMessage> {
+  let displayContent = message.encrypted_content;
+  let signatureStatus: SignatureStatus | undefined;
+  let attachments: AttachmentReference[] | undefined;
+  let replyTo: MessageQuote | undefined;
+  let forwardedFrom: ForwardedFrom | undefined;
+
+  let envelope: MessageEnvelope | null = null;
+  let rejected = false;
+  try {
+    // Direct messages are never sent in plaintext envelopes
+    envelope = decodeStoredMessage(message, ['pairwise', 'ratchet'], envelopeSince);
+  } catch (formatError) {
+    console.error('Rejected message format:', formatError);
+    displayContent = `🔒 [Message rejected - unsupported or downgraded format]`;
+    rejected = true;
+  }
+
+  if (envelope) {
+    try {
+      // Ratchet messages are decrypted once and then read back from this browser
+      const body = readMessageBody(
+        envelope,
+        envelope.kid.kind === 'ratchet'
+          ? await decryptRatchetDirectMessage(message, envelope, userId)
+          : await decryptDirectMessageEnvelope(message, envelope, userId)
+      );
+      displayContent = body.text;
+      attachments = body.attachments;
+      replyTo = body.replyTo;
+      forwardedFrom = body.forwardedFrom;
+    } catch (decryptError) {
+      console.error('Decryption error:', decryptError);
+      displayContent = `🔒 [Encrypted message - cannot decrypt]`;
+    }
+
+    signatureStatus = await verifyEnvelopeSignature(envelope, {
+      scope: 'dm',
+      scopeId: message.receiver_id,
+      senderId: message.sender_id
+    });
+  } else if (!rejected && message.is_encrypted) {
+    // Messages from before envelopes
+    try {
+      displayContent = (message.encryption_version || 1) >= RATCHET_DM_ENCRYPTION_VERSION
+        ? await decryptLegacyRatchetDirectMessage(message, userId)
+        : await decryptDirectMessage(message, userId);
+    } catch (decryptError) {
+      console.error('Decryption error:', decryptError);
+      displayContent = `🔒 [Encrypted message - cannot decrypt]`;
+    }
+
+    signatureStatus = await verifyMessageSignature(
+      {
+        scope: 'dm',
+        scopeId: message.receiver_id,
+        senderId: message.sender_id,
+        encryptedContent: message.encrypted_content,
+        iv: message.iv
+      },
+      message.signature,
+      message.sender_key_version
+    );
+  }
+
+  return {
+    id: message.id,
+    sender_id: message.sender_id,
+    encrypted_content: displayContent,
+    iv: message.iv,
+    created_at: message.created_at,
+    updated_at: message.updated_at,
+    sender_username: message.sender?.username || 'Unknown User',
+    sender_display_name: message.sender?.display_name || null,
+    is_encrypted: message.is_encrypted || rejected,
+    signature_status: signatureStatus,
+    attachments,
+    reply_to: replyTo,
+    forwarded_from: forwardedFrom
+  };
+}
+
+/**
+ * Mark the messages a friend sent the user as read
+ */
+export async function markConversationRead(userId: string, friendId: string): Promise<void> {
+  const { error } = await supabase
+    .from('direct_messages')
+    .update({ read: true })
+    .eq('receiver_id', userId)
+    .eq('sender_id', friendId)
+    .eq('read', false);
+
+  if (error) {
+    console.error('Error marking messages as read:', error);
+  }
+}
+
+/**
+ * Mark one message the user received as read while the conversation is open
+ */
+export async function markDirectMessageRead(userId: string, messageId: string): Promise<void> {
+  await supabase
+    .from('direct_messages')
+    .update({ read: true })
+    .eq('id', messageId)
+    .eq('receiver_id', userId);
+
+  await supabase
+    .from('dm_read_status')
+    .upsert(
+      { user_id: userId, message_id: messageId, read_at: new Date().toISOString() },
+      { onConflict: 'user_id,message_id' }
+    );
+}
+
+/**
+ * Record a read status for each message a friend sent the user that has none.
+ * Returns whether any were added.
+ */
+export async function recordConversationReadStatus(userId: string, friendId: string): Promise<boolean> {
+  // Get all unread messages from this friend
+  const { data: unreadMessages } = await supabase
+    .from('direct_messages')
+    .select('id')
+    .eq('sender_id', friendId)
+    .eq('receiver_id', userId);
+
+  if (!unreadMessages || unreadMessages.length === 0) return false;
+
+  // Get messages that are already marked as read
+  const { data: alreadyRead } = await supabase
+    .from('dm_read_status')
+    .select('message_id')
+    .eq('user_id', userId)
+    .in('message_id', unreadMessages.map(m => m.id));
+
+  const alreadyReadIds = alreadyRead?.map(r => r.message_id) || [];
+  const messagesToMarkAsRead = unreadMessages
+    .filter(m => !alreadyReadIds.includes(m.id))
+    .map(m => ({
+      user_id: userId,
+      message_id: m.id,
+      read_at: new Date().toISOString()
+    }));
+
+  if (messagesToMarkAsRead.length === 0) return false;
+
+  const { error } = await supabase
+    .from('dm_read_status')
+    .insert(messagesToMarkAsRead);
+
+  if (error) {
+    console.error('Error marking messages as read:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,127 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+// Sessions are built in memory here, so nothing reaches the server or IndexedDB
+vi.mock('../lib/supabase', () => ({ supabase: {}, loadPrivateKey: vi.fn(), loadSigningKey: vi.fn() }));
+
+import { toBase64 } from '../lib/base64';
+import { createEnvelope } from '../lib/messageEnvelope';
+import { StoredRatchetSession } from '../lib/ratchetStore';
+import { initialRatchetStep, ratchetDecrypt, ratchetEncrypt } from './doubleRatchetService';
+
+const envelope = createEnvelope({ kind: 'ratchet', device: 'alice-device' });
+
+beforeAll(() => {
+  vi.stubGlobal('window', globalThis);
+});
+
+/**
+ * A session pair as it stands after X3DH: Alice has sent nothing yet and Bob
+ * uses the signed prekey as the first ratchet key
+ */
+async function createSessions(): Promise<{ alice: StoredRatchetSession; bob: StoredRatchetSession }> {
+  const sharedSecret = crypto.getRandomValues(new Uint8Array(32)).buffer;
+  const prekey = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+  const prekeyPublic = toBase64(await crypto.subtle.exportKey('raw', prekey.publicKey));
+  const shared = {
+    sid: 'session',
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skippedKeys: {},
+    pendingPrekey: null,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+
+  return {
+    alice: {
+      ...shared,
+      ...(await initialRatchetStep(sharedSecret, prekeyPublic)),
+      id: 'alice',
+      userId: 'alice',
+      localDeviceId: 'alice-device',
+      remoteUserId: 'bob',
+      remoteDeviceId: 'bob-device',
+      dhRemote: prekeyPublic,
+    },
+    bob: {
+      ...shared,
+      id: 'bob',
+      userId: 'bob',
+      localDeviceId: 'bob-device',
+      remoteUserId: 'alice',
+      remoteDeviceId: 'alice-device',
+      rootKey: sharedSecret,
+      sendingChainKey: null,
+      dhSelf: { privateKey: prekey.privateKey, publicKey: prekeyPublic },
+      dhRemote: null,
+    },
+  };
+}
+
+describe('Double Ratchet', () => {
+  it('decrypts messages in both directions', async () => {
+    const { alice, bob } = await createSessions();
+
+    expect(await ratchetDecrypt(bob, await ratchetEncrypt(alice, 'alice', 'hi bob', envelope), envelope)).toBe('hi bob');
+    expect(await ratchetDecrypt(alice, await ratchetEncrypt(bob, 'bob', 'hi alice', envelope), envelope)).toBe('hi alice');
+    expect(await ratchetDecrypt(bob, await ratchetEncrypt(alice, 'alice', 'again', envelope), envelope)).toBe('again');
+  });
+
+  it('decrypts messages that arrive out of order', async () => {
+    const { alice, bob } = await createSessions();
+    const sent = [];
+    for (const text of ['one', 'two', 'three']) {
+      sent.push(await ratchetEncrypt(alice, 'alice', text, envelope));
+    }
+
+    expect(await ratchetDecrypt(bob, sent[2], envelope)).toBe('three');
+    expect(Object.keys(bob.skippedKeys)).toHaveLength(2);
+    expect(await ratchetDecrypt(bob, sent[0], envelope)).toBe('one');
+    expect(await ratchetDecrypt(bob, sent[1], envelope)).toBe('two');
+    expect(bob.skippedKeys).toEqual({});
+  });
+
+  it('keeps the keys of messages skipped before a ratchet step', async () => {
+    const { alice, bob } = await createSessions();
+    const first = await ratchetEncrypt(alice, 'alice', 'first', envelope);
+    const delayed = await ratchetEncrypt(alice, 'alice', 'delayed', envelope);
+
+    await ratchetDecrypt(bob, first, envelope);
+    await ratchetDecrypt(alice, await ratchetEncrypt(bob, 'bob', 'reply', envelope), envelope);
+    const afterStep = await ratchetEncrypt(alice, 'alice', 'after the step', envelope);
+
+    expect(afterStep.header.dh).not.toBe(delayed.header.dh);
+    expect(afterStep.header.pn).toBe(2);
+    expect(await ratchetDecrypt(bob, afterStep, envelope)).toBe('after the step');
+    expect(await ratchetDecrypt(bob, delayed, envelope)).toBe('delayed');
+    expect(bob.skippedKeys).toEqual({});
+  });
+
+  it('refuses a message that was already decrypted', async () => {
+    const { alice, bob } = await createSessions();
+    const sent = await ratchetEncrypt(alice, 'alice', 'once', envelope);
+    await ratchetEncrypt(alice, 'alice', 'later', envelope);
+
+    await ratchetDecrypt(bob, sent, envelope);
+
+    await expect(ratchetDecrypt(bob, sent, envelope)).rejects.toThrow('already decrypted');
+  });
+
+  it('refuses to skip more than MAX_SKIP messages', async () => {
+    const { alice, bob } = await createSessions();
+    alice.sendCount = 1001;
+
+    const sent = await ratchetEncrypt(alice, 'alice', 'too far ahead', envelope);
+
+    await expect(ratchetDecrypt(bob, sent, envelope)).rejects.toThrow('Too many messages were skipped');
+  });
+
+  it('refuses a ciphertext that was tampered with', async () => {
+    const { alice, bob } = await createSessions();
+    const sent = await ratchetEncrypt(alice, 'alice', 'hi bob', envelope);
+
+    await expect(ratchetDecrypt(bob, { ...sent, header: { ...sent.header, pn: 5 } }, envelope)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,891 @@
+// src/services/doubleRatchetService.ts
+
+import { supabase, loadPrivateKey, loadSigningKey } from '../lib/supabase';
+import { getLocalDevice } from '../lib/deviceKeyStore';
+import { toBase64, fromBase64 } from '../lib/base64';
+import {
+  getRecord,
+  getRecordsWithPrefix,
+  putRecord,
+  deleteRecord,
+  StoredPrekey,
+  StoredRatchetSession,
+  StoredPlaintext,
+  StoredMeta,
+  PendingPrekeyMessage,
+} from '../lib/ratchetStore';
+import {
+  MessageEnvelope,
+  createEnvelope,
+  envelopeAssociatedData,
+  envelopeSigningInput,
+  padPlaintext,
+  unpadPlaintext,
+} from '../lib/messageEnvelope';
+import { encryptDirectMessage, getPublishedKey, getPublishedKeyVersion, getPublishedSigningKey } from './encryptionService';
+
+// encryption_version of ratchet messages stored before envelopes
+export const RATCHET_DM_ENCRYPTION_VERSION = 4;
+
+// Most message keys kept for messages that have not arrived yet, per session
+const MAX_SKIP = 1000;
+
+// One-time prekeys are topped up to the target once fewer than the low-water mark are left
+const ONE_TIME_PREKEY_TARGET = 50;
+const ONE_TIME_PREKEY_LOW_WATER = 20;
+
+const SIGNED_PREKEY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Replaced signed prekeys are kept a while so handshakes already in flight still complete
+const SIGNED_PREKEY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Sessions kept per remote device, e.g. when both sides started one at the same time
+const MAX_SESSIONS_PER_DEVICE = 5;
+
+interface RatchetHeader {
+  sid: string;
+  dh: string;
+  pn: number;
+  n: number;
+  x3dh?: PendingPrekeyMessage;
+}
+
+// The ciphertext for one receiving device, as carried in an envelope's recipients
+export interface DeviceCiphertext {
+  header: RatchetHeader;
+  nonce: string;
+  ct: string;
+}
+
+// What ratchet messages stored in encrypted_content before envelopes
+interface LegacyRatchetPayload {
+  sender_device: string;
+  devices: Record<string, { header: RatchetHeader; ciphertext: string; iv: string }>;
+}
+
+interface SignedPrekeyBundle {
+  device_id: string;
+  user_id: string;
+  prekey_id: number;
+  public_key: string;
+  signature: string;
+  identity_key_version: number;
+}
+
+export interface RatchetDirectMessage {
+  id: string;
+  sender_id: string;
+  receiver_id: string;
+  encrypted_content: string;
+}
+
+// Work on one pair of devices runs one step at a time so ratchet state is never forked
+const deviceLocks = new Map<string, Promise<unknown>>();
+
+function withDeviceLock<T>(lockKey: string, action: () => Promise<T>): Promise<T> {
+  const previous = deviceLocks.get(lockKey) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(action);
+  deviceLocks.set(lockKey, next);
+
+  const release = () => {
+    if (deviceLocks.get(lockKey) === next) deviceLocks.delete(lockKey);
+  };
+  next.then(release, release);
+
+  return next;
+}
+
+function prekeyRecordId(userId: string, kind: StoredPrekey['kind'], prekeyId: number): string {
+  return `${userId}:${kind}:${prekeyId}`;
+}
+
+function sessionPrefix(userId: string, localDeviceId: string, remoteDeviceId: string): string {
+  return `${userId}:${localDeviceId}:${remoteDeviceId}:`;
+}
+
+function activeSessionId(userId: string, localDeviceId: string, remoteDeviceId: string): string {
+  return `active-session:${userId}:${localDeviceId}:${remoteDeviceId}`;
+}
+
+async function generateRatchetKeyPair(): Promise<{ privateKey: CryptoKey; publicKey: string }> {
+  // The private half is non-extractable; IndexedDB stores it as an opaque CryptoKey
+  const keyPair = await window.crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    ['deriveBits']
+  );
+  const publicKey = await window.crypto.subtle.exportKey('raw', keyPair.publicKey);
+  return { privateKey: keyPair.privateKey, publicKey: toBase64(publicKey) };
+}
+
+async function dh(privateKey: CryptoKey, publicKey: string): Promise<ArrayBuffer> {
+  const peerKey = await window.crypto.subtle.importKey(
+    'raw',
+    fromBase64(publicKey),
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    []
+  );
+
+  return window.crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, privateKey, 256);
+}
+
+async function hkdf(inputKeyMaterial: ArrayBuffer, salt: ArrayBuffer, info: string, bits: number): Promise<ArrayBuffer> {
+  const baseKey = await window.crypto.subtle.importKey('raw', inputKeyMaterial, 'HKDF', false, ['deriveBits']);
+  return window.crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(info) },
+    baseKey,
+    bits
+  );
+}
+
+/**
+ * Combine the X3DH Diffie-Hellman outputs into the session's first root key
+ */
+async function deriveX3dhSecret(secrets: ArrayBuffer[]): Promise<ArrayBuffer> {
+  const input = new Uint8Array(32 + secrets.length * 32);
+  input.fill(0xff, 0, 32);
+  secrets.forEach((secret, i) => input.set(new Uint8Array(secret), 32 + i * 32));
+
+  return hkdf(input.buffer, new Uint8Array(32).buffer, 'securechat-x3dh-v1', 256);
+}
+
+/**
+ * Root key KDF: mixes a new DH output into the root key and starts a new chain
+ * @returns The next root key and the new chain key
+ */
+async function kdfRootKey(rootKey: ArrayBuffer, dhOutput: ArrayBuffer): Promise<[ArrayBuffer, ArrayBuffer]> {
+  const output = await hkdf(dhOutput, rootKey, 'securechat-ratchet-root-v1', 512);
+  return [output.slice(0, 32), output.slice(32)];
+}
+
+/**
+ * Chain key KDF: steps a sending or receiving chain forward by one message
+ * @returns The next chain key and the key for this message
+ */
+async function kdfChainKey(chainKey: ArrayBuffer): Promise<[ArrayBuffer, ArrayBuffer]> {
+  const hmacKey = await window.crypto.subtle.importKey(
+    'raw',
+    chainKey,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const [messageKey, nextChainKey] = await Promise.all([
+    window.crypto.subtle.sign('HMAC', hmacKey, new Uint8Array([0x01])),
+    window.crypto.subtle.sign('HMAC', hmacKey, new Uint8Array([0x02])),
+  ]);
+
+  return [nextChainKey, messageKey];
+}
+
+/**
+ * Bind a ciphertext to its sender, the device it is for, its header, and the
+ * envelope it travels in (messages from before envelopes have none)
+ */
+function associatedData(
+  senderId: string,
+  senderDeviceId: string,
+  recipientDeviceId: string,
+  header: RatchetHeader,
+  envelope: MessageEnvelope | null
+) {
+  const fields: unknown[] = ['securechat-ratchet-v1', senderId, senderDeviceId, recipientDeviceId, header];
+  if (envelope) {
+    fields.push(new TextDecoder().decode(envelopeAssociatedData(envelope)));
+  }
+
+  return new TextEncoder().encode(JSON.stringify(fields));
+}
+
+async function importMessageKey(messageKey: ArrayBuffer, usage: KeyUsage): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey('raw', messageKey, { name: 'AES-GCM', length: 256 }, false, [usage]);
+}
+
+function prekeySignaturePayload(deviceId: string, prekeyId: number, publicKey: string): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(['securechat-prekey-v1', deviceId, prekeyId, publicKey]));
+}
+
+async function verifyPrekeySignature(bundle: SignedPrekeyBundle): Promise<boolean> {
+  const signingKey = await getPublishedSigningKey(bundle.user_id, bundle.identity_key_version);
+  if (!signingKey) return false;
+
+  const verifyKey = await window.crypto.subtle.importKey(
+    'raw',
+    fromBase64(signingKey),
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify']
+  );
+
+  return window.crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    verifyKey,
+    fromBase64(bundle.signature),
+    prekeySignaturePayload(bundle.device_id, bundle.prekey_id, bundle.public_key)
+  );
+}
+
+/**
+ * Reserve a run of prekey ids, so ids are never reused on this browser
+ */
+async function allocatePrekeyIds(userId: string, count: number): Promise<number> {
+  const counterId = `prekey-counter:${userId}`;
+  const counter = await getRecord<StoredMeta<number>>('meta', counterId);
+  const firstId = counter?.value ?? 1;
+
+  await putRecord<StoredMeta<number>>('meta', { id: counterId, value: firstId + count });
+  return firstId;
+}
+
+async function getStorageKey(userId: string): Promise<CryptoKey> {
+  const storageKeyId = `storage-key:${userId}`;
+  const existing = await getRecord<StoredMeta<CryptoKey>>('meta', storageKeyId);
+  if (existing) return existing.value;
+
+  const storageKey = await window.crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  await putRecord<StoredMeta<CryptoKey>>('meta', { id: storageKeyId, value: storageKey });
+  return storageKey;
+}
+
+async function fingerprintOf(encryptedContent: string): Promise<string> {
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(encryptedContent));
+  return toBase64(digest);
+}
+
+async function cachePlaintext(userId: string, messageId: string, fingerprint: string, plaintext: string): Promise<void> {
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getStorageKey(userId),
+    new TextEncoder().encode(plaintext)
+  );
+
+  await putRecord<StoredPlaintext>('messages', { id: `${userId}:${messageId}`, fingerprint, ciphertext, iv });
+}
+
+/**
+ * Read a message this browser has already decrypted
+ * @returns The plaintext, or null if it is not cached or the message has been edited since
+ */
+async function readCachedPlaintext(userId: string, messageId: string, fingerprint: string): Promise<string | null> {
+  const cached = await getRecord<StoredPlaintext>('messages', `${userId}:${messageId}`);
+  if (!cached || cached.fingerprint !== fingerprint) return null;
+
+  const plaintext = await window.crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: cached.iv },
+    await getStorageKey(userId),
+    cached.ciphertext
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Make sure this device has a current signed prekey and enough one-time
+ * prekeys published, so other devices can start sessions with it
+ */
+export async function publishPrekeys(userId: string): Promise<void> {
+  const [localDevice, signing] = await Promise.all([getLocalDevice(userId), loadSigningKey()]);
+  if (!localDevice || !signing) return;
+  const deviceId = localDevice.deviceId;
+
+  const { data: published, error } = await supabase
+    .from('device_signed_prekeys')
+    .select('prekey_id, identity_key_version, created_at')
+    .eq('device_id', deviceId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const localSignedPrekey = published
+    ? await getRecord<StoredPrekey>('prekeys', prekeyRecordId(userId, 'signed', published.prekey_id))
+    : null;
+
+  const needsNewSignedPrekey =
+    !published ||
+    !localSignedPrekey ||
+    published.identity_key_version !== signing.keyVersion ||
+    Date.now() - new Date(published.created_at).getTime() > SIGNED_PREKEY_MAX_AGE_MS;
+
+  if (needsNewSignedPrekey) {
+    const prekeyId = await allocatePrekeyIds(userId, 1);
+    const keyPair = await generateRatchetKeyPair();
+    const signature = await window.crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      signing.signingKey,
+      prekeySignaturePayload(deviceId, prekeyId, keyPair.publicKey)
+    );
+
+    // Keep the private half before publishing, so a published prekey is always usable
+    await putRecord<StoredPrekey>('prekeys', {
+      id: prekeyRecordId(userId, 'signed', prekeyId),
+      userId,
+      kind: 'signed',
+      prekeyId,
+      privateKey: keyPair.privateKey,
+      publicKey: keyPair.publicKey,
+      createdAt: Date.now(),
+    });
+
+    const { error: upsertError } = await supabase
+      .from('device_signed_prekeys')
+      .upsert({
+        device_id: deviceId,
+        user_id: userId,
+        prekey_id: prekeyId,
+        public_key: keyPair.publicKey,
+        signature: toBase64(signature),
+        identity_key_version: signing.keyVersion,
+        created_at: new Date().toISOString(),
+      });
+
+    if (upsertError) throw upsertError;
+
+    const oldSignedPrekeys = await getRecordsWithPrefix<StoredPrekey>('prekeys', `${userId}:signed:`);
+    for (const oldPrekey of oldSignedPrekeys) {
+      if (oldPrekey.prekeyId !== prekeyId && Date.now() - oldPrekey.createdAt > SIGNED_PREKEY_RETENTION_MS) {
+        await deleteRecord('prekeys', oldPrekey.id);
+      }
+    }
+  }
+
+  const { count, error: countError } = await supabase
+    .from('device_one_time_prekeys')
+    .select('prekey_id', { count: 'exact', head: true })
+    .eq('device_id', deviceId);
+
+  if (countError) throw countError;
+
+  const remaining = count ?? 0;
+  if (remaining >= ONE_TIME_PREKEY_LOW_WATER) return;
+
+  const needed = ONE_TIME_PREKEY_TARGET - remaining;
+  const firstId = await allocatePrekeyIds(userId, needed);
+  const rows = [];
+
+  for (let prekeyId = firstId; prekeyId < firstId + needed; prekeyId++) {
+    const keyPair = await generateRatchetKeyPair();
+    await putRecord<StoredPrekey>('prekeys', {
+      id: prekeyRecordId(userId, 'one-time', prekeyId),
+      userId,
+      kind: 'one-time',
+      prekeyId,
+      privateKey: keyPair.privateKey,
+      publicKey: keyPair.publicKey,
+      createdAt: Date.now(),
+    });
+    rows.push({ device_id: deviceId, user_id: userId, prekey_id: prekeyId, public_key: keyPair.publicKey });
+  }
+
+  const { error: insertError } = await supabase.from('device_one_time_prekeys').insert(rows);
+  if (insertError) throw insertError;
+}
+
+/**
+ * The initiator's first ratchet step. It runs against the signed prekey, which the
+ * responder uses as its first ratchet key.
+ */
+export async function initialRatchetStep(
+  sharedSecret: ArrayBuffer,
+  remoteRatchetKey: string
+): Promise<Pick<StoredRatchetSession, 'dhSelf' | 'rootKey'> & { sendingChainKey: ArrayBuffer }> {
+  const dhSelf = await generateRatchetKeyPair();
+  const [rootKey, sendingChainKey] = await kdfRootKey(sharedSecret, await dh(dhSelf.privateKey, remoteRatchetKey));
+  return { dhSelf, rootKey, sendingChainKey };
+}
+
+/**
+ * Start a session with another device from its prekey bundle (the X3DH initiator side)
+ */
+async function startSession(userId: string, localDeviceId: string, bundle: SignedPrekeyBundle): Promise<StoredRatchetSession> {
+  if (!(await verifyPrekeySignature(bundle))) {
+    throw new Error(`The signed prekey for device ${bundle.device_id} has an invalid signature`);
+  }
+
+  const [ownKey, remoteIdentityKey] = await Promise.all([
+    getPublishedKey(userId),
+    getPublishedKeyVersion(bundle.user_id, bundle.identity_key_version),
+  ]);
+  const identityPrivateKey = ownKey && (await loadPrivateKey(ownKey.key_version));
+  if (!ownKey || !identityPrivateKey || !remoteIdentityKey) {
+    throw new Error('Encryption is locked. Unlock your keys to send messages.');
+  }
+
+  const { data: claimed, error } = await supabase.rpc('claim_one_time_prekey', { p_device_id: bundle.device_id });
+  if (error) throw error;
+  const oneTimePrekey: { prekey_id: number; public_key: string } | null = claimed?.[0] ?? null;
+
+  const ephemeral = await generateRatchetKeyPair();
+  const secrets = await Promise.all([
+    dh(identityPrivateKey, bundle.public_key),
+    dh(ephemeral.privateKey, remoteIdentityKey),
+    dh(ephemeral.privateKey, bundle.public_key),
+    ...(oneTimePrekey ? [dh(ephemeral.privateKey, oneTimePrekey.public_key)] : []),
+  ]);
+  const { dhSelf, rootKey, sendingChainKey } = await initialRatchetStep(await deriveX3dhSecret(secrets), bundle.public_key);
+
+  const now = Date.now();
+  return {
+    id: `${sessionPrefix(userId, localDeviceId, bundle.device_id)}${ephemeral.publicKey}`,
+    userId,
+    localDeviceId,
+    remoteUserId: bundle.user_id,
+    remoteDeviceId: bundle.device_id,
+    sid: ephemeral.publicKey,
+    rootKey,
+    sendingChainKey,
+    receivingChainKey: null,
+    dhSelf,
+    dhRemote: bundle.public_key,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skippedKeys: {},
+    pendingPrekey: {
+      ik: ownKey.key_version,
+      rik: bundle.identity_key_version,
+      ek: ephemeral.publicKey,
+      spk: bundle.prekey_id,
+      opk: oneTimePrekey?.prekey_id ?? null,
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Accept a session another device started with this one (the X3DH responder side)
+ */
+async function acceptSession(
+  userId: string,
+  localDeviceId: string,
+  remoteUserId: string,
+  remoteDeviceId: string,
+  header: RatchetHeader
+): Promise<StoredRatchetSession> {
+  const handshake = header.x3dh;
+  if (!handshake || handshake.ek !== header.sid) {
+    throw new Error('No session exists for this message');
+  }
+
+  const [signedPrekey, oneTimePrekey, identityPrivateKey, remoteIdentityKey] = await Promise.all([
+    getRecord<StoredPrekey>('prekeys', prekeyRecordId(userId, 'signed', handshake.spk)),
+    handshake.opk !== null
+      ? getRecord<StoredPrekey>('prekeys', prekeyRecordId(userId, 'one-time', handshake.opk))
+      : Promise.resolve(null),
+    loadPrivateKey(handshake.rik),
+    getPublishedKeyVersion(remoteUserId, handshake.ik),
+  ]);
+
+  if (!signedPrekey) throw new Error('The signed prekey for this session has expired');
+  if (handshake.opk !== null && !oneTimePrekey) throw new Error('The one-time prekey for this session was already used');
+  if (!identityPrivateKey || !remoteIdentityKey) throw new Error('Missing identity key for this session');
+
+  const secrets = await Promise.all([
+    dh(signedPrekey.privateKey, remoteIdentityKey),
+    dh(identityPrivateKey, handshake.ek),
+    dh(signedPrekey.privateKey, handshake.ek),
+    ...(oneTimePrekey ? [dh(oneTimePrekey.privateKey, handshake.ek)] : []),
+  ]);
+
+  const now = Date.now();
+  return {
+    id: `${sessionPrefix(userId, localDeviceId, remoteDeviceId)}${header.sid}`,
+    userId,
+    localDeviceId,
+    remoteUserId,
+    remoteDeviceId,
+    sid: header.sid,
+    rootKey: await deriveX3dhSecret(secrets),
+    sendingChainKey: null,
+    receivingChainKey: null,
+    dhSelf: { privateKey: signedPrekey.privateKey, publicKey: signedPrekey.publicKey },
+    dhRemote: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skippedKeys: {},
+    pendingPrekey: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Derive and keep the keys for receiving-chain messages up to (not including) `until`
+ */
+async function skipMessageKeys(session: StoredRatchetSession, until: number): Promise<void> {
+  if (!session.receivingChainKey || !session.dhRemote) return;
+
+  if (until - session.receiveCount > MAX_SKIP) {
+    throw new Error('Too many messages were skipped in this session');
+  }
+
+  while (session.receiveCount < until) {
+    const [nextChainKey, messageKey] = await kdfChainKey(session.receivingChainKey);
+    session.skippedKeys[`${session.dhRemote}:${session.receiveCount}`] = messageKey;
+    session.receivingChainKey = nextChainKey;
+    session.receiveCount++;
+  }
+
+  // Forget the oldest skipped keys; those messages are treated as lost
+  const skippedIds = Object.keys(session.skippedKeys);
+  for (const skippedId of skippedIds.slice(0, Math.max(0, skippedIds.length - MAX_SKIP))) {
+    delete session.skippedKeys[skippedId];
+  }
+}
+
+/**
+ * DH ratchet step, run when the other device has sent with a new ratchet key
+ */
+async function dhRatchetStep(session: StoredRatchetSession, remoteRatchetKey: string): Promise<void> {
+  session.previousSendCount = session.sendCount;
+  session.sendCount = 0;
+  session.receiveCount = 0;
+  session.dhRemote = remoteRatchetKey;
+
+  const [receivingRootKey, receivingChainKey] = await kdfRootKey(
+    session.rootKey,
+    await dh(session.dhSelf.privateKey, remoteRatchetKey)
+  );
+  session.receivingChainKey = receivingChainKey;
+
+  session.dhSelf = await generateRatchetKeyPair();
+  const [rootKey, sendingChainKey] = await kdfRootKey(
+    receivingRootKey,
+    await dh(session.dhSelf.privateKey, remoteRatchetKey)
+  );
+  session.rootKey = rootKey;
+  session.sendingChainKey = sendingChainKey;
+}
+
+export async function ratchetEncrypt(
+  session: StoredRatchetSession,
+  senderId: string,
+  plaintext: string,
+  envelope: MessageEnvelope
+): Promise<DeviceCiphertext> {
+  if (!session.sendingChainKey) {
+    throw new Error('This session cannot send until the other device has replied');
+  }
+
+  const header: RatchetHeader = {
+    sid: session.sid,
+    dh: session.dhSelf.publicKey,
+    pn: session.previousSendCount,
+    n: session.sendCount,
+    ...(session.pendingPrekey ? { x3dh: session.pendingPrekey } : {}),
+  };
+
+  const [nextChainKey, messageKey] = await kdfChainKey(session.sendingChainKey);
+  session.sendingChainKey = nextChainKey;
+  session.sendCount++;
+  session.updatedAt = Date.now();
+
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await window.crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv,
+      additionalData: associatedData(senderId, session.localDeviceId, session.remoteDeviceId, header, envelope),
+    },
+    await importMessageKey(messageKey, 'encrypt'),
+    padPlaintext(plaintext)
+  );
+
+  return { header, nonce: toBase64(iv), ct: toBase64(ciphertext) };
+}
+
+/**
+ * Decrypt one device's ciphertext, updating the session in place. Callers pass a copy and
+ * only keep it if decryption succeeds, so a forged message cannot break the session.
+ */
+export async function ratchetDecrypt(
+  session: StoredRatchetSession,
+  device: DeviceCiphertext,
+  envelope: MessageEnvelope | null
+): Promise<string> {
+  const { header } = device;
+  const skippedId = `${header.dh}:${header.n}`;
+  let messageKey: ArrayBuffer | undefined = session.skippedKeys[skippedId];
+
+  if (messageKey) {
+    delete session.skippedKeys[skippedId];
+  } else {
+    if (header.dh !== session.dhRemote) {
+      await skipMessageKeys(session, header.pn);
+      await dhRatchetStep(session, header.dh);
+    }
+
+    await skipMessageKeys(session, header.n);
+    if (!session.receivingChainKey || header.n < session.receiveCount) {
+      throw new Error('This message was already decrypted or its key has been discarded');
+    }
+
+    const [nextChainKey, currentKey] = await kdfChainKey(session.receivingChainKey);
+    session.receivingChainKey = nextChainKey;
+    session.receiveCount++;
+    messageKey = currentKey;
+  }
+
+  const plaintext = await window.crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: fromBase64(device.nonce),
+      additionalData: associatedData(session.remoteUserId, session.remoteDeviceId, session.localDeviceId, header, envelope),
+    },
+    await importMessageKey(messageKey, 'decrypt'),
+    fromBase64(device.ct)
+  );
+
+  // The other device has a session with us now, so it no longer needs the handshake
+  session.pendingPrekey = null;
+  session.updatedAt = Date.now();
+  return envelope ? unpadPlaintext(plaintext) : new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Drop the least recently used sessions with a device, keeping the active one
+ */
+async function pruneSessions(userId: string, localDeviceId: string, remoteDeviceId: string, activeSid: string) {
+  const sessions = await getRecordsWithPrefix<StoredRatchetSession>(
+    'sessions',
+    sessionPrefix(userId, localDeviceId, remoteDeviceId)
+  );
+  if (sessions.length <= MAX_SESSIONS_PER_DEVICE) return;
+
+  const stale = sessions
+    .filter(session => session.sid !== activeSid)
+    .sort((a, b) => a.updatedAt - b.updatedAt)
+    .slice(0, sessions.length - MAX_SESSIONS_PER_DEVICE);
+
+  for (const session of stale) {
+    await deleteRecord('sessions', session.id);
+  }
+}
+
+async function setActiveSession(session: StoredRatchetSession): Promise<void> {
+  await putRecord<StoredMeta<string>>('meta', {
+    id: activeSessionId(session.userId, session.localDeviceId, session.remoteDeviceId),
+    value: session.sid,
+  });
+  await pruneSessions(session.userId, session.localDeviceId, session.remoteDeviceId, session.sid);
+}
+
+/**
+ * Encrypt a message for one device, starting a session first if there is none
+ */
+async function encryptForDevice(
+  senderId: string,
+  localDeviceId: string,
+  bundle: SignedPrekeyBundle,
+  plaintext: string,
+  envelope: MessageEnvelope
+): Promise<DeviceCiphertext> {
+  const active = await getRecord<StoredMeta<string>>(
+    'meta',
+    activeSessionId(senderId, localDeviceId, bundle.device_id)
+  );
+  let session = active
+    ? await getRecord<StoredRatchetSession>(
+        'sessions',
+        `${sessionPrefix(senderId, localDeviceId, bundle.device_id)}${active.value}`
+      )
+    : null;
+
+  if (!session?.sendingChainKey) {
+    session = await startSession(senderId, localDeviceId, bundle);
+  }
+
+  const ciphertext = await ratchetEncrypt(session, senderId, plaintext, envelope);
+  await putRecord('sessions', session);
+  await setActiveSession(session);
+  return ciphertext;
+}
+
+/**
+ * Encrypt a direct message over Double Ratchet sessions with each of the
+ * receiver's devices and each of the sender's other devices
+ * @param messageId The id the message will be stored under, so the sender can read it back
+ * @returns The unsigned envelope, or null if the receiver has no devices with prekeys yet
+ */
+export async function encryptRatchetDirectMessage(
+  senderId: string,
+  receiverId: string,
+  messageId: string,
+  message: string
+): Promise<MessageEnvelope | null> {
+  const localDevice = await getLocalDevice(senderId);
+
+  const { data: bundles, error } = await supabase
+    .from('device_signed_prekeys')
+    .select('device_id, user_id, prekey_id, public_key, signature, identity_key_version')
+    .in('user_id', [senderId, receiverId]);
+
+  if (error) throw error;
+
+  const receiverBundles = (bundles || []).filter(bundle => bundle.user_id === receiverId);
+  if (receiverBundles.length === 0) return null;
+
+  if (!localDevice) {
+    throw new Error('This browser is not set up as one of your devices yet. Unlock encryption with your password to send messages.');
+  }
+
+  const envelope = createEnvelope({ kind: 'ratchet', device: localDevice.deviceId });
+  const recipients: Record<string, DeviceCiphertext> = {};
+  for (const bundle of bundles || []) {
+    if (bundle.device_id === localDevice.deviceId) continue;
+
+    try {
+      recipients[bundle.device_id] = await withDeviceLock(
+        `${senderId}:${bundle.device_id}`,
+        () => encryptForDevice(senderId, localDevice.deviceId, bundle, message, envelope)
+      );
+    } catch (deviceError) {
+      // One broken device should not stop the message reaching the others
+      console.error(`Error encrypting for device ${bundle.device_id}:`, deviceError);
+    }
+  }
+
+  if (!receiverBundles.some(bundle => recipients[bundle.device_id])) {
+    throw new Error('The message could not be encrypted for any of this user\'s devices');
+  }
+
+  const encrypted: MessageEnvelope = { ...envelope, recipients };
+  await cachePlaintext(senderId, messageId, await fingerprintOf(envelopeSigningInput(encrypted)), message);
+  return encrypted;
+}
+
+/**
+ * Encrypt a direct message with the strongest scheme the receiver supports:
+ * Double Ratchet, or the pairwise identity key for friends who have not
+ * published prekeys yet
+ * @returns The unsigned envelope
+ */
+export async function encryptDirectMessageForFriend(
+  senderId: string,
+  receiverId: string,
+  messageId: string,
+  message: string
+): Promise<MessageEnvelope> {
+  const ratchetEnvelope = await encryptRatchetDirectMessage(senderId, receiverId, messageId, message);
+  return ratchetEnvelope ?? encryptDirectMessage(senderId, receiverId, message);
+}
+
+/**
+ * Decrypt the ciphertext meant for this device. Each message can only be
+ * decrypted once, so the plaintext is kept in this browser.
+ * @param fingerprint Identifies this version of the message in the plaintext cache
+ * @param envelope The envelope the ciphertexts came in, or null for messages from before envelopes
+ */
+async function decryptForThisDevice(
+  message: RatchetDirectMessage,
+  currentUserId: string,
+  fingerprint: string,
+  senderDeviceId: string,
+  devices: Record<string, DeviceCiphertext>,
+  envelope: MessageEnvelope | null
+): Promise<string> {
+  const cached = await readCachedPlaintext(currentUserId, message.id, fingerprint);
+  if (cached !== null) return cached;
+
+  const localDevice = await getLocalDevice(currentUserId);
+  const device = localDevice ? devices[localDevice.deviceId] : undefined;
+  if (!localDevice || !device) {
+    return '🔒 [Encrypted for another of your devices]';
+  }
+
+  return withDeviceLock(`${currentUserId}:${senderDeviceId}`, async () => {
+    // Another caller may have decrypted it while this one waited
+    const decryptedMeanwhile = await readCachedPlaintext(currentUserId, message.id, fingerprint);
+    if (decryptedMeanwhile !== null) return decryptedMeanwhile;
+
+    const sessionId = `${sessionPrefix(currentUserId, localDevice.deviceId, senderDeviceId)}${device.header.sid}`;
+    const stored = await getRecord<StoredRatchetSession>('sessions', sessionId);
+    const session = stored ?? await acceptSession(
+      currentUserId,
+      localDevice.deviceId,
+      message.sender_id,
+      senderDeviceId,
+      device.header
+    );
+
+    if (session.remoteUserId !== message.sender_id) {
+      throw new Error('The message sender does not match the session');
+    }
+
+    const working: StoredRatchetSession = { ...session, skippedKeys: { ...session.skippedKeys } };
+    const plaintext = await ratchetDecrypt(working, device, envelope);
+
+    await putRecord('sessions', working);
+    await cachePlaintext(currentUserId, message.id, fingerprint, plaintext);
+    await setActiveSession(working);
+
+    // A one-time prekey is only ever used for the session it started
+    if (!stored && device.header.x3dh?.opk != null) {
+      await deleteRecord('prekeys', prekeyRecordId(currentUserId, 'one-time', device.header.x3dh.opk));
+    }
+
+    return plaintext;
+  });
+}
+
+/**
+ * Decrypt a Double Ratchet direct message envelope for the current user.
+ * Messages may arrive in any order; keys for skipped messages are kept.
+ */
+export async function decryptRatchetDirectMessage(
+  message: RatchetDirectMessage,
+  envelope: MessageEnvelope,
+  currentUserId: string
+): Promise<string> {
+  try {
+    if (envelope.kid.kind !== 'ratchet' || !envelope.recipients) {
+      throw new Error('Not a ratchet direct message envelope');
+    }
+
+    return await decryptForThisDevice(
+      message,
+      currentUserId,
+      await fingerprintOf(envelopeSigningInput(envelope)),
+      envelope.kid.device,
+      envelope.recipients as Record<string, DeviceCiphertext>,
+      envelope
+    );
+  } catch (error) {
+    console.error('Ratchet message decryption error:', error);
+    return `🔒 [Encrypted message - cannot decrypt]`;
+  }
+}
+
+/**
+ * Decrypt a Double Ratchet direct message stored before envelopes
+ */
+export async function decryptLegacyRatchetDirectMessage(
+  message: RatchetDirectMessage,
+  currentUserId: string
+): Promise<string> {
+  try {
+    const payload: LegacyRatchetPayload = JSON.parse(message.encrypted_content);
+    const devices: Record<string, DeviceCiphertext> = {};
+    for (const [deviceId, device] of Object.entries(payload.devices)) {
+      devices[deviceId] = { header: device.header, nonce: device.iv, ct: device.ciphertext };
+    }
+
+    return await decryptForThisDevice(
+      message,
+      currentUserId,
+      await fingerprintOf(message.encrypted_content),
+      payload.sender_device,
+      devices,
+      null
+    );
+  } catch (error) {
+    console.error('Ratchet message decryption error:', error);
+    return `🔒 [Encrypted message - cannot decrypt]`;
+  }
+}
@@ -0,0 +1,102 @@
+// src/services/encryptionPolicyService.ts
+
+import { supabase } from '../lib/supabase';
+import { MessageBody, MessageEnvelope, createPlaintextEnvelope, encodeMessageBody } from '../lib/messageEnvelope';
+import { encryptChannelMessage } from './channelEncryptionService';
+import { encryptDirectMessageForFriend } from './doubleRatchetService';
+import { signEnvelope } from './signatureService';
+
+/**
+ * How a channel's messages are sent:
+ * - required: the server requires encryption everywhere, and the database refuses plaintext
+ * - enabled: the channel has encryption turned on
+ * - disabled: messages are sent as signed plaintext
+ */
+export type EncryptionPolicy = 'required' | 'enabled' | 'disabled';
+
+/**
+ * Work out the encryption policy for a channel. Anything other than an
+ * explicit opt-out is treated as encrypted.
+ */
+export function getChannelEncryptionPolicy(
+  channel: { encryption_enabled: boolean | null },
+  server: { encryption_required: boolean | null } | null
+): EncryptionPolicy {
+  if (server?.encryption_required) return 'required';
+  return channel.encryption_enabled === false ? 'disabled' : 'enabled';
+}
+
+function encryptionFailure(error: unknown): Error {
+  const reason = error instanceof Error ? error.message : 'Unknown error';
+  return new Error(`Your message was not sent because it could not be encrypted. ${reason}`);
+}
+
+/**
+ * Encrypt and sign a channel message as its policy demands. There is no
+ * plaintext fallback: if encryption is needed and fails, this throws and
+ * nothing must be sent.
+ */
+export async function sealChannelMessage(
+  policy: EncryptionPolicy,
+  channelId: string,
+  serverId: string,
+  userId: string,
+  body: MessageBody
+): Promise<MessageEnvelope> {
+  const plaintext = encodeMessageBody(body);
+  let envelope: MessageEnvelope;
+
+  if (policy === 'disabled') {
+    envelope = createPlaintextEnvelope(plaintext);
+  } else {
+    try {
+      envelope = await encryptChannelMessage(channelId, serverId, userId, plaintext);
+    } catch (error) {
+      console.error('Channel message encryption failed:', error);
+      throw encryptionFailure(error);
+    }
+  }
+
+  return signEnvelope(envelope, { scope: 'channel', scopeId: channelId, senderId: userId });
+}
+
+/**
+ * Encrypt and sign a direct message. Direct messages are always encrypted,
+ * so this throws rather than ever returning plaintext.
+ * @param messageId The id the message will be stored under
+ */
+export async function sealDirectMessage(
+  senderId: string,
+  receiverId: string,
+  messageId: string,
+  body: MessageBody
+): Promise<MessageEnvelope> {
+  let envelope: MessageEnvelope;
+
+  try {
+    envelope = await encryptDirectMessageForFriend(senderId, receiverId, messageId, encodeMessageBody(body));
+  } catch (error) {
+    console.error('Direct message encryption failed:', error);
+    throw encryptionFailure(error);
+  }
+
+  // Pairwise envelopes are signed with the same identity key version they were encrypted with
+  return signEnvelope(
+    envelope,
+    { scope: 'dm', scopeId: receiverId, senderId },
+    envelope.kid.kind === 'pairwise' ? envelope.kid.sender : undefined
+  );
+}
+
+/**
+ * Require encryption in every channel of a server, or lift the requirement.
+ * Only the server owner can do this.
+ */
+export async function setServerEncryptionRequired(serverId: string, required: boolean): Promise<void> {
+  const { error } = await supabase.rpc('set_server_encryption_required', {
+    p_server_id: serverId,
+    p_required: required,
+  });
+
+  if (error) throw error;
+}
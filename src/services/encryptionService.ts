@@ -1,84 +1,87 @@
-import { supabase } from '../lib/supabase';
+import { supabase, loadPrivateKey } from '../lib/supabase';
+import {
+  MessageEnvelope,
+  createEnvelope,
+  envelopeAssociatedData,
+  padPlaintext,
+  unpadPlaintext
+} from '../lib/messageEnvelope';
+import { toBase64, fromBase64 } from '../lib/base64';
+import { decryptMessage as decryptLegacyMessage, getEntityEncryptionKey } from './serverEncryptionService';
+import { getLoggedKeyVersion, getLoggedSigningKey, verifyPublishedKey } from './keyTransparencyService';
 
-// Get the encryption key for a user
-export async function getUserEncryptionKey(userId: string) {
-  try {
-    // Get user's private key from session storage
-    const privateKeyString = sessionStorage.getItem('privateKey');
-    if (!privateKeyString) {
-      throw new Error('Private key not found');
-    }
-    
-    return JSON.parse(privateKeyString);
-  } catch (error) {
-    console.error('Error getting encryption key:', error);
-    return null;
-  }
+// encryption_version written for direct messages encrypted with a pairwise ECDH key
+export const PAIRWISE_DM_ENCRYPTION_VERSION = 3;
+
+export interface PublishedKey {
+  public_key: string;
+  key_version: number;
 }
 
-// Encrypt a message for a channel
-export async function encryptChannelMessage(channelId: string, message: string) {
-  try {
-    // For channel messages, we'll use a channel-specific key
-    // This is a simplified approach - in a production app, you'd encrypt
-    // for all channel members individually
-    
-    const iv = window.crypto.getRandomValues(new Uint8Array(12));
-    const encoded = new TextEncoder().encode(message);
-    
-    // Generate a simple key for demo purposes
-    const channelKey = await deriveChannelKey(channelId);
-    
-    const encrypted = await window.crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      channelKey,
-      encoded
-    );
-    
-    return {
-      encrypted: btoa(String.fromCharCode(...new Uint8Array(encrypted))),
-      iv: btoa(String.fromCharCode(...iv)),
-      isEncrypted: true
-    };
-  } catch (error) {
-    console.error('Encryption error:', error);
-    // Fall back to unencrypted message
-    return { 
-      encrypted: message,
-      iv: 'unencrypted',
-      isEncrypted: false
-    };
-  }
+export interface StoredDirectMessage {
+  sender_id: string;
+  receiver_id: string;
+  encrypted_content: string;
+  iv: string;
+  is_encrypted: boolean;
+  encryption_version: number | null;
+  kdf_salt?: string | null;
+  sender_key_version?: number | null;
+  recipient_key_version?: number | null;
 }
 
-// Decrypt a channel message
-export async function decryptChannelMessage(channelId: string, encryptedContent: string, iv: string) {
-  try {
-    if (iv === 'unencrypted') {
-      return encryptedContent;
+// Published public keys for this tab, keyed by user id
+const publishedKeyCache = new Map<string, Promise<PublishedKey | null>>();
+
+// Historical public keys never change, so they are cached by user id and version
+const keyHistoryCache = new Map<string, Promise<string | null>>();
+const signingKeyHistoryCache = new Map<string, Promise<string | null>>();
+
+// Channel messages from before the wrapped channel keys were encrypted with
+// either the server-held entity key or a key hashed from the channel id.
+// Unlike the display path, this throws when neither key works.
+export async function decryptLegacyChannelMessage(channelId: string, encryptedContent: string, iv: string) {
+  if (iv === 'unencrypted') {
+    return encryptedContent;
+  }
+  
+  const encryptedData = Uint8Array.from(atob(encryptedContent), c => c.charCodeAt(0));
+  const ivData = Uint8Array.from(atob(iv), c => c.charCodeAt(0));
+  const candidateKeys = [() => importEntityKey(channelId), () => deriveChannelKey(channelId)];
+  
+  for (const getKey of candidateKeys) {
+    try {
+      const decrypted = await window.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: ivData },
+        await getKey(),
+        encryptedData
+      );
+      
+      return new TextDecoder().decode(decrypted);
+    } catch {
+      // Try the next legacy key
     }
-    
-    const channelKey = await deriveChannelKey(channelId);
-    const encryptedData = Uint8Array.from(atob(encryptedContent), c => c.charCodeAt(0));
-    const ivData = Uint8Array.from(atob(iv), c => c.charCodeAt(0));
-    
-    const decrypted = await window.crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv: ivData },
-      channelKey,
-      encryptedData
-    );
-    
-    return new TextDecoder().decode(decrypted);
-  } catch (error) {
-    console.error('Decryption error:', error);
-    return `🔒 [Encrypted message - cannot decrypt]`;
   }
+  
+  throw new Error('Message could not be decrypted with any legacy channel key');
+}
+
+// Import the server-held key for a channel
+async function importEntityKey(channelId: string) {
+  const keyString = await getEntityEncryptionKey(channelId);
+  
+  return window.crypto.subtle.importKey(
+    'raw',
+    Uint8Array.from(atob(keyString), c => c.charCodeAt(0)),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
 }
 
-// Derive a channel-specific key
+// The key the earliest channel messages used, hashed from the channel id.
+// Anyone who knows the id can compute it, so it is only kept for migration.
 async function deriveChannelKey(channelId: string) {
-  // In a real implementation, you'd want to create a unique key for each channel
-  // and encrypt it for each member using their public key
   const encoder = new TextEncoder();
   const data = encoder.encode(`channel-key-${channelId}`);
   const hash = await window.crypto.subtle.digest('SHA-256', data);
@@ -88,145 +91,281 @@ async function deriveChannelKey(channelId: string) {
     hash,
     { name: 'AES-GCM', length: 256 },
     false,
-    ['encrypt', 'decrypt']
+    ['decrypt']
   );
 }
 
-// Encrypt a direct message for a specific user
-export async function encryptDirectMessage(receiverId: string, message: string) {
-  try {
-    // Get the private key from session storage
-    const privateKeyString = sessionStorage.getItem('privateKey');
-    if (!privateKeyString) {
-      throw new Error('Private key not found');
-    }
-    
-    // Get receiver's public key
-    const { data: receiverKey, error } = await supabase
-      .from('user_keys')
-      .select('public_key')
-      .eq('user_id', receiverId)
-      .single();
-    
-    if (error || !receiverKey) {
-      throw error || new Error('Receiver public key not found');
-    }
-    
-    // Derive shared secret from private key and receiver's public key
-    const privateKeyData = JSON.parse(privateKeyString);
-    const privateKey = await window.crypto.subtle.importKey(
-      'jwk',
-      privateKeyData,
-      { name: 'ECDH', namedCurve: 'P-256' },
-      false,
-      ['deriveKey']
-    );
-    
-    // Import receiver's public key
-    const publicKeyData = Uint8Array.from(atob(receiverKey.public_key), c => c.charCodeAt(0));
-    const publicKey = await window.crypto.subtle.importKey(
-      'raw',
-      publicKeyData,
-      { name: 'ECDH', namedCurve: 'P-256' },
-      true,
-      []
-    );
-    
-    // Derive shared secret
-    const sharedSecret = await window.crypto.subtle.deriveKey(
-      { name: 'ECDH', public: publicKey },
-      privateKey,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt', 'decrypt']
-    );
+// Get a user's published public key, or null if they have not set up encryption yet.
+// The key is checked against the key transparency log and refused if the log does not back it up.
+export async function getPublishedKey(userId: string): Promise<PublishedKey | null> {
+  let cached = publishedKeyCache.get(userId);
+  
+  if (!cached) {
+    cached = (async () => {
+      const { data, error } = await supabase
+        .from('user_keys')
+        .select('public_key, key_version')
+        .eq('user_id', userId)
+        .maybeSingle();
+      
+      if (error) throw error;
+      if (!data) return null;
+      return verifyPublishedKey(userId, data);
+    })();
     
-    // Encrypt the message
-    const iv = window.crypto.getRandomValues(new Uint8Array(12));
-    const encoded = new TextEncoder().encode(message);
+    publishedKeyCache.set(userId, cached);
+    // Don't keep failed lookups or missing keys around, the user may publish one later
+    cached.then(key => {
+      if (!key) publishedKeyCache.delete(userId);
+    }, () => publishedKeyCache.delete(userId));
+  }
+  
+  return cached;
+}
+
+// Forget cached public keys, e.g. after a contact publishes a new key
+export function clearPublishedKeyCache(userId?: string) {
+  if (userId) {
+    publishedKeyCache.delete(userId);
+  } else {
+    publishedKeyCache.clear();
+  }
+}
+
+// Get the public key a user published for a specific key version, from their verified key log
+export async function getPublishedKeyVersion(userId: string, keyVersion: number): Promise<string | null> {
+  const cacheKey = `${userId}:${keyVersion}`;
+  let cached = keyHistoryCache.get(cacheKey);
+  
+  if (!cached) {
+    cached = getLoggedKeyVersion(userId, keyVersion);
     
-    const encrypted = await window.crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      sharedSecret,
-      encoded
-    );
+    keyHistoryCache.set(cacheKey, cached);
+    cached.then(key => {
+      if (!key) keyHistoryCache.delete(cacheKey);
+    }, () => keyHistoryCache.delete(cacheKey));
+  }
+  
+  return cached;
+}
+
+// Get the signing public key a user published with a specific key version, from their verified key log
+export async function getPublishedSigningKey(userId: string, keyVersion: number): Promise<string | null> {
+  const cacheKey = `${userId}:${keyVersion}`;
+  let cached = signingKeyHistoryCache.get(cacheKey);
+  
+  if (!cached) {
+    cached = getLoggedSigningKey(userId, keyVersion);
     
-    return {
-      encrypted: btoa(String.fromCharCode(...new Uint8Array(encrypted))),
-      iv: btoa(String.fromCharCode(...iv)),
-      isEncrypted: true
-    };
-  } catch (error) {
-    console.error('Direct message encryption error:', error);
-    // Fall back to unencrypted message
-    return { 
-      encrypted: message,
-      iv: 'unencrypted',
-      isEncrypted: false
-    };
+    signingKeyHistoryCache.set(cacheKey, cached);
+    cached.then(key => {
+      if (!key) signingKeyHistoryCache.delete(cacheKey);
+    }, () => signingKeyHistoryCache.delete(cacheKey));
   }
+  
+  return cached;
 }
 
-// Decrypt a direct message
-export async function decryptDirectMessage(senderId: string, encryptedContent: string, iv: string) {
+// Derive the key for a single direct message.
+// The ECDH shared secret between the two identity keys is run through HKDF with a
+// random per-message salt, bound to both user ids and both key versions.
+async function deriveDirectMessageKey(
+  privateKey: CryptoKey,
+  peerPublicKey: string,
+  salt: Uint8Array,
+  senderId: string,
+  receiverId: string,
+  senderKeyVersion: number,
+  recipientKeyVersion: number
+) {
+  const publicKeyData = Uint8Array.from(atob(peerPublicKey), c => c.charCodeAt(0));
+  const publicKey = await window.crypto.subtle.importKey(
+    'raw',
+    publicKeyData,
+    { name: 'ECDH', namedCurve: 'P-256' },
+    true,
+    []
+  );
+  
+  const sharedSecret = await window.crypto.subtle.deriveBits(
+    { name: 'ECDH', public: publicKey },
+    privateKey,
+    256
+  );
+  
+  const hkdfKey = await window.crypto.subtle.importKey(
+    'raw',
+    sharedSecret,
+    'HKDF',
+    false,
+    ['deriveKey']
+  );
+  
+  const info = new TextEncoder().encode(
+    `securechat-dm-v${PAIRWISE_DM_ENCRYPTION_VERSION}|${senderId}|${receiverId}|${senderKeyVersion}|${recipientKeyVersion}`
+  );
+  
+  return window.crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Encrypt a direct message for a specific user into an envelope
+export async function encryptDirectMessage(senderId: string, receiverId: string, message: string): Promise<MessageEnvelope> {
+  const [senderKey, receiverKey] = await Promise.all([
+    getPublishedKey(senderId),
+    getPublishedKey(receiverId)
+  ]);
+  
+  if (!senderKey) {
+    throw new Error('You have not published an encryption key yet');
+  }
+  
+  const privateKey = await loadPrivateKey(senderKey.key_version);
+  if (!privateKey) {
+    throw new Error('Encryption is locked. Unlock your keys to send messages.');
+  }
+  
+  if (!receiverKey) {
+    throw new Error('This user has not set up encryption yet, so messages cannot be sent to them');
+  }
+  
+  const salt = window.crypto.getRandomValues(new Uint8Array(16));
+  const messageKey = await deriveDirectMessageKey(
+    privateKey,
+    receiverKey.public_key,
+    salt,
+    senderId,
+    receiverId,
+    senderKey.key_version,
+    receiverKey.key_version
+  );
+  
+  const envelope = createEnvelope({
+    kind: 'pairwise',
+    sender: senderKey.key_version,
+    recipient: receiverKey.key_version,
+    salt: toBase64(salt)
+  });
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  
+  const encrypted = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: envelopeAssociatedData(envelope) },
+    messageKey,
+    padPlaintext(message)
+  );
+  
+  return {
+    ...envelope,
+    nonce: toBase64(iv),
+    ct: toBase64(encrypted)
+  };
+}
+
+// Derive the pairwise key a direct message was encrypted with, from the current user's side
+async function loadDirectMessageKey(
+  senderId: string,
+  receiverId: string,
+  senderKeyVersion: number,
+  recipientKeyVersion: number,
+  salt: string,
+  currentUserId: string
+) {
+  const isSender = senderId === currentUserId;
+  const peerId = isSender ? receiverId : senderId;
+  const ownKeyVersion = isSender ? senderKeyVersion : recipientKeyVersion;
+  const peerKeyVersion = isSender ? recipientKeyVersion : senderKeyVersion;
+  
+  // Look up the exact key versions the message was encrypted between
+  const privateKey = await loadPrivateKey(ownKeyVersion);
+  if (!privateKey) {
+    throw new Error(`Private key version ${ownKeyVersion} is not in the unlocked keyring`);
+  }
+  
+  const peerPublicKey = await getPublishedKeyVersion(peerId, peerKeyVersion);
+  if (!peerPublicKey) {
+    throw new Error(`Peer key version ${peerKeyVersion} was never published`);
+  }
+  
+  return deriveDirectMessageKey(
+    privateKey,
+    peerPublicKey,
+    Uint8Array.from(atob(salt), c => c.charCodeAt(0)),
+    senderId,
+    receiverId,
+    senderKeyVersion,
+    recipientKeyVersion
+  );
+}
+
+// Decrypt a pairwise direct message envelope for the current user. Throws if it cannot be decrypted.
+export async function decryptDirectMessageEnvelope(
+  message: Pick<StoredDirectMessage, 'sender_id' | 'receiver_id'>,
+  envelope: MessageEnvelope,
+  currentUserId: string
+) {
+  if (envelope.kid.kind !== 'pairwise' || !envelope.nonce || !envelope.ct) {
+    throw new Error('Not a pairwise direct message envelope');
+  }
+  
+  const messageKey = await loadDirectMessageKey(
+    message.sender_id,
+    message.receiver_id,
+    envelope.kid.sender,
+    envelope.kid.recipient,
+    envelope.kid.salt,
+    currentUserId
+  );
+  
+  const decrypted = await window.crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: fromBase64(envelope.nonce),
+      additionalData: envelopeAssociatedData(envelope)
+    },
+    messageKey,
+    fromBase64(envelope.ct)
+  );
+  
+  return unpadPlaintext(decrypted);
+}
+
+// Decrypt a direct message stored before envelopes for the current user
+export async function decryptDirectMessage(message: StoredDirectMessage, currentUserId: string) {
+  if (!message.is_encrypted || message.iv === 'unencrypted') {
+    return message.encrypted_content;
+  }
+  
+  // Older messages used a conversation key held in the encryption_keys table
+  if ((message.encryption_version || 1) < PAIRWISE_DM_ENCRYPTION_VERSION) {
+    const conversationId = [message.sender_id, message.receiver_id].sort().join('-');
+    return decryptLegacyMessage(conversationId, message.encrypted_content, message.iv);
+  }
+  
   try {
-    if (iv === 'unencrypted') {
-      return encryptedContent;
-    }
-    
-    // Get the private key from session storage
-    const privateKeyString = sessionStorage.getItem('privateKey');
-    if (!privateKeyString) {
-      throw new Error('Private key not found');
-    }
-    
-    // Get sender's public key
-    const { data: senderKey, error } = await supabase
-      .from('user_keys')
-      .select('public_key')
-      .eq('user_id', senderId)
-      .single();
-    
-    if (error || !senderKey) {
-      throw error || new Error('Sender public key not found');
+    if (!message.kdf_salt || !message.sender_key_version || !message.recipient_key_version) {
+      throw new Error('Message is missing key agreement parameters');
     }
     
-    // Import private key
-    const privateKeyData = JSON.parse(privateKeyString);
-    const privateKey = await window.crypto.subtle.importKey(
-      'jwk',
-      privateKeyData,
-      { name: 'ECDH', namedCurve: 'P-256' },
-      false,
-      ['deriveKey']
+    const messageKey = await loadDirectMessageKey(
+      message.sender_id,
+      message.receiver_id,
+      message.sender_key_version,
+      message.recipient_key_version,
+      message.kdf_salt,
+      currentUserId
     );
     
-    // Import sender's public key
-    const publicKeyData = Uint8Array.from(atob(senderKey.public_key), c => c.charCodeAt(0));
-    const publicKey = await window.crypto.subtle.importKey(
-      'raw',
-      publicKeyData,
-      { name: 'ECDH', namedCurve: 'P-256' },
-      true,
-      []
-    );
-    
-    // Derive shared secret
-    const sharedSecret = await window.crypto.subtle.deriveKey(
-      { name: 'ECDH', public: publicKey },
-      privateKey,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt', 'decrypt']
-    );
-    
-    // Decrypt the message
-    const encryptedData = Uint8Array.from(atob(encryptedContent), c => c.charCodeAt(0));
-    const ivData = Uint8Array.from(atob(iv), c => c.charCodeAt(0));
+    const encryptedData = Uint8Array.from(atob(message.encrypted_content), c => c.charCodeAt(0));
+    const ivData = Uint8Array.from(atob(message.iv), c => c.charCodeAt(0));
     
     const decrypted = await window.crypto.subtle.decrypt(
       { name: 'AES-GCM', iv: ivData },
-      sharedSecret,
+      messageKey,
       encryptedData
     );
     
@@ -235,75 +374,4 @@ export async function decryptDirectMessage(senderId: string, encryptedContent: s
     console.error('Direct message decryption error:', error);
     return `🔒 [Encrypted message - cannot decrypt]`;
   }
-}
-
-// Migrate existing messages to encrypted format
-export async function migrateExistingMessages(userId: string) {
-  try {
-    // Get all unencrypted messages sent by this user
-    const { data: channelMessages } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('is_encrypted', false)
-      .eq('sender_id', userId);
-    
-    // Get all unencrypted direct messages
-    const { data: directMessages } = await supabase
-      .from('direct_messages')
-      .select('*')
-      .eq('is_encrypted', false)
-      .eq('sender_id', userId);
-    
-    // Process channel messages
-    if (channelMessages && channelMessages.length > 0) {
-      for (const message of channelMessages) {
-        const { encrypted, iv, isEncrypted } = await encryptChannelMessage(
-          message.channel_id, 
-          message.encrypted_content
-        );
-        
-        // Update the message
-        await supabase
-          .from('messages')
-          .update({
-            encrypted_content: encrypted,
-            iv: iv,
-            is_encrypted: isEncrypted
-          })
-          .eq('id', message.id);
-      }
-    }
-    
-    // Process direct messages
-    if (directMessages && directMessages.length > 0) {
-      for (const message of directMessages) {
-        const { encrypted, iv, isEncrypted } = await encryptDirectMessage(
-          message.receiver_id,
-          message.encrypted_content
-        );
-        
-        // Update the message
-        await supabase
-          .from('direct_messages')
-          .update({
-            encrypted_content: encrypted,
-            iv: iv,
-            is_encrypted: isEncrypted
-          })
-          .eq('id', message.id);
-      }
-    }
-    
-    return {
-      success: true,
-      channelCount: channelMessages?.length || 0,
-      directCount: directMessages?.length || 0
-    };
-  } catch (error) {
-    console.error('Migration error:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
 }
\ No newline at end of file
@@ -0,0 +1,169 @@
+// src/services/forwardService.ts
+
+import { supabase } from '../lib/supabase';
+import { ENVELOPE_ENCRYPTION_VERSION, MessageBody, encodeEnvelope } from '../lib/messageEnvelope';
+import { getChannelEncryptionPolicy, sealChannelMessage, sealDirectMessage } from './encryptionPolicyService';
+import { AttachmentScope, copyAttachments, deleteAttachments } from './attachmentService';
+
+/**
+ * Somewhere a message can be forwarded to: a channel in one of the user's
+ * servers, or a direct message with a friend
+ */
+export type ForwardDestination =
+  | { kind: 'channel'; channelId: string; serverId: string; name: string; serverName: string }
+  | { kind: 'dm'; userId: string; name: string };
+
+type UserSummary = { id: string; username: string; display_name: string | null };
+
+type FriendshipRow = { user_id1: UserSummary; user_id2: UserSummary };
+
+/**
+ * List the channels and friends the user can forward to
+ */
+export async function fetchForwardDestinations(userId: string): Promise<ForwardDestination[]> {
+  // Only the servers the user owns or has joined, as in the server list
+  const [{ data: servers, error: serversError }, { data: friendships, error: friendsError }] =
+    await Promise.all([
+      supabase
+        .rpc('get_user_servers')
+        .select('id, name, channels (id, name)'),
+      supabase
+        .from('friends')
+        .select(`
+          user_id1:users!user_id1(id, username, display_name),
+          user_id2:users!user_id2(id, username, display_name)
+        `)
+        .eq('status', 'accepted')
+        .or(`user_id1.eq.${userId},user_id2.eq.${userId}`)
+        .overrideTypes<FriendshipRow[], { merge: false }>()
+    ]);
+
+  if (serversError) throw serversError;
+  if (friendsError) throw friendsError;
+
+  const destinations: ForwardDestination[] = [];
+
+  for (const server of servers || []) {
+    for (const channel of server.channels || []) {
+      destinations.push({
+        kind: 'channel',
+        channelId: channel.id,
+        serverId: server.id,
+        name: channel.name,
+        serverName: server.name
+      });
+    }
+  }
+
+  for (const friendship of friendships || []) {
+    const friend = friendship.user_id1.id === userId ? friendship.user_id2 : friendship.user_id1;
+    destinations.push({ kind: 'dm', userId: friend.id, name: friend.display_name || friend.username });
+  }
+
+  return destinations;
+}
+
+/**
+ * Seal a message for a channel under that channel's encryption policy and send it
+ */
+async function sendToChannel(
+  userId: string,
+  destination: Extract<ForwardDestination, { kind: 'channel' }>,
+  body: MessageBody
+) {
+  const { data: channel, error: channelError } = await supabase
+    .from('channels')
+    .select('encryption_enabled')
+    .eq('id', destination.channelId)
+    .single();
+
+  if (channelError) throw new Error('The channel could not be found');
+
+  const { data: server } = await supabase
+    .from('servers')
+    .select('encryption_required')
+    .eq('id', destination.serverId)
+    .maybeSingle();
+
+  const envelope = await sealChannelMessage(
+    getChannelEncryptionPolicy(channel, server),
+    destination.channelId,
+    destination.serverId,
+    userId,
+    body
+  );
+
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      channel_id: destination.channelId,
+      sender_id: userId,
+      encrypted_content: encodeEnvelope(envelope),
+      iv: null,
+      is_encrypted: envelope.alg !== 'none',
+      encryption_version: ENVELOPE_ENCRYPTION_VERSION
+    });
+
+  if (error) throw new Error(`Failed to forward message: ${error.message}`);
+}
+
+/**
+ * Seal a direct message to a friend and send it
+ */
+async function sendToDirectMessage(
+  userId: string,
+  destination: Extract<ForwardDestination, { kind: 'dm' }>,
+  body: MessageBody
+) {
+  const messageId = crypto.randomUUID();
+  const envelope = await sealDirectMessage(userId, destination.userId, messageId, body);
+
+  const { error } = await supabase
+    .from('direct_messages')
+    .insert({
+      id: messageId,
+      sender_id: userId,
+      receiver_id: destination.userId,
+      encrypted_content: encodeEnvelope(envelope),
+      iv: null,
+      is_encrypted: true,
+      encryption_version: ENVELOPE_ENCRYPTION_VERSION
+    });
+
+  if (error) throw new Error(`Failed to forward message: ${error.message}`);
+}
+
+/**
+ * Forward a decrypted message to another channel or DM. The text and any
+ * attachments are encrypted again for the destination; nothing is shared
+ * with the original conversation's keys. Quotes are left behind, since the
+ * quoted message is not part of the destination.
+ */
+export async function forwardMessage(
+  userId: string,
+  destination: ForwardDestination,
+  body: MessageBody
+): Promise<void> {
+  if (!body.forwardedFrom) {
+    throw new Error('A forwarded message must say who sent it');
+  }
+
+  const scope: AttachmentScope = destination.kind === 'channel'
+    ? { kind: 'channel', channelId: destination.channelId }
+    : { kind: 'dm', userIds: [userId, destination.userId] };
+
+  const attachments = body.attachments?.length ? await copyAttachments(body.attachments, scope) : undefined;
+  const forwarded: MessageBody = { text: body.text, attachments, forwardedFrom: body.forwardedFrom };
+
+  try {
+    if (destination.kind === 'channel') {
+      await sendToChannel(userId, destination, forwarded);
+    } else {
+      await sendToDirectMessage(userId, destination, forwarded);
+    }
+  } catch (error) {
+    // The copies were made for this message only
+    if (attachments) await deleteAttachments(attachments);
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// The service only needs the client for requests, which these tests do not make
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+import { normalizeRecoveryCode } from './keyRecoveryService';
+
+describe('normalizeRecoveryCode', () => {
+  it('ignores dashes, spaces and case', () => {
+    expect(normalizeRecoveryCode('7k2m-qx9d')).toBe('7K2MQX9D');
+    expect(normalizeRecoveryCode(' 7K2M QX9D \n')).toBe('7K2MQX9D');
+    expect(normalizeRecoveryCode('7K2M_QX9D.')).toBe('7K2MQX9D');
+  });
+
+  it('reads look-alike letters as the digits they resemble', () => {
+    expect(normalizeRecoveryCode('O0o')).toBe('000');
+    expect(normalizeRecoveryCode('I1iLl')).toBe('11111');
+  });
+
+  it('gives the same result for a code however it was typed', () => {
+    const code = '10AB-CD0E-FGH1-JKMN';
+    expect(normalizeRecoveryCode('loab cdoe fghi jkmn')).toBe(normalizeRecoveryCode(code));
+  });
+});
@@ -0,0 +1,333 @@
+// src/services/keyRecoveryService.ts
+
+import {
+  supabase,
+  derivePasswordKey,
+  exportKeyring,
+  exportIdentityKey,
+  serializeIdentityKey,
+  parseIdentityKey,
+  savePrivateKey,
+  unlockPrivateKey,
+  encryptMessage,
+  decryptMessage,
+  PASSWORD_KDF_ITERATIONS,
+  PASSWORD_SALT_BYTES,
+} from '../lib/supabase';
+
+// Crockford base32, which leaves out letters that are easy to misread
+const RECOVERY_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+// 160 bits of randomness, printed as 32 characters in groups of 4
+const RECOVERY_CODE_BYTES = 20;
+
+export interface RecoveryResult {
+  recoveredVersions: number[];
+  lostVersions: number[];
+}
+
+/**
+ * Encode random bytes as a printable recovery code, e.g. "7K2M-QX9D-..."
+ */
+function encodeRecoveryCode(bytes: Uint8Array): string {
+  let code = '';
+  let value = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      code += RECOVERY_CODE_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  return (code.match(/.{1,4}/g) || []).join('-');
+}
+
+/**
+ * Normalise a typed recovery code so dashes, spaces, case and look-alike
+ * characters do not matter
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+}
+
+async function importBackupKey(rawKey: string): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey(
+    'raw',
+    Uint8Array.from(atob(rawKey), c => c.charCodeAt(0)),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Check whether the user has a recovery code
+ * @returns When the current recovery code was created, or null if there is none
+ */
+export async function getRecoveryCodeCreatedAt(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('user_key_backups')
+    .select('created_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.created_at ?? null;
+}
+
+/**
+ * Create a new recovery code and back up every private key in the keyring
+ * with it. Any previous recovery code stops working.
+ * @param password The encryption password
+ * @returns The recovery code, which is never stored and must be shown to the user once
+ */
+export async function createRecoveryCode(password: string): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('You must be logged in to create a recovery code');
+  }
+  const userId = session.user.id;
+
+  const keyring = await exportKeyring(password);
+  if (!keyring) {
+    throw new Error('Incorrect encryption password');
+  }
+
+  const code = encodeRecoveryCode(window.crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_BYTES)));
+  const backupKeyRaw = btoa(String.fromCharCode(...window.crypto.getRandomValues(new Uint8Array(32))));
+  const backupKey = await importBackupKey(backupKeyRaw);
+
+  // Back up every key before saving the code, so a saved code always covers the keyring
+  for (const { keyVersion, ...identityKey } of keyring) {
+    const backup = await encryptMessage(backupKey, serializeIdentityKey(identityKey));
+    const { error } = await supabase
+      .from('user_private_keys')
+      .update({ backup_encrypted_private_key: backup.encrypted, backup_iv: backup.iv })
+      .eq('user_id', userId)
+      .eq('key_version', keyVersion);
+
+    if (error) throw error;
+  }
+
+  const recoverySalt = window.crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+  const passwordSalt = window.crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+  const recoveryWrapped = await encryptMessage(
+    await derivePasswordKey(normalizeRecoveryCode(code), recoverySalt, PASSWORD_KDF_ITERATIONS),
+    backupKeyRaw
+  );
+  const passwordWrapped = await encryptMessage(
+    await derivePasswordKey(password, passwordSalt, PASSWORD_KDF_ITERATIONS),
+    backupKeyRaw
+  );
+
+  const { error } = await supabase
+    .from('user_key_backups')
+    .upsert({
+      user_id: userId,
+      recovery_wrapped_key: recoveryWrapped.encrypted,
+      recovery_iv: recoveryWrapped.iv,
+      recovery_salt: btoa(String.fromCharCode(...recoverySalt)),
+      password_wrapped_key: passwordWrapped.encrypted,
+      password_iv: passwordWrapped.iv,
+      password_salt: btoa(String.fromCharCode(...passwordSalt)),
+      kdf: 'PBKDF2-SHA256',
+      kdf_iterations: PASSWORD_KDF_ITERATIONS,
+      created_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+
+  return code;
+}
+
+/**
+ * Add a newly created private key and its signing key to the recovery backup,
+ * if the user has one
+ * @returns Whether the key was backed up
+ */
+export async function backupPrivateKey(
+  privateKey: CryptoKey,
+  signingKey: CryptoKey,
+  password: string,
+  keyVersion: number
+): Promise<boolean> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) return false;
+
+  const { data: backup, error } = await supabase
+    .from('user_key_backups')
+    .select('password_wrapped_key, password_iv, password_salt, kdf_iterations')
+    .eq('user_id', session.user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!backup) return false;
+
+  const salt = Uint8Array.from(atob(backup.password_salt), c => c.charCodeAt(0));
+  const backupKeyRaw = await decryptMessage(
+    await derivePasswordKey(password, salt, backup.kdf_iterations),
+    backup.password_wrapped_key,
+    backup.password_iv
+  );
+
+  const copy = await encryptMessage(
+    await importBackupKey(backupKeyRaw),
+    serializeIdentityKey(await exportIdentityKey(privateKey, signingKey))
+  );
+
+  const { error: updateError } = await supabase
+    .from('user_private_keys')
+    .update({ backup_encrypted_private_key: copy.encrypted, backup_iv: copy.iv })
+    .eq('user_id', session.user.id)
+    .eq('key_version', keyVersion);
+
+  if (updateError) throw updateError;
+  return true;
+}
+
+/**
+ * Restore the keyring with a recovery code and protect it with a new encryption password
+ * @param code The recovery code, in any case and with or without dashes
+ * @param newPassword The new encryption password
+ */
+export async function recoverWithCode(code: string, newPassword: string): Promise<RecoveryResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('You must be logged in to recover your keys');
+  }
+  const userId = session.user.id;
+
+  const { data: backup, error: backupError } = await supabase
+    .from('user_key_backups')
+    .select('recovery_wrapped_key, recovery_iv, recovery_salt, kdf_iterations')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (backupError) throw backupError;
+  if (!backup) {
+    throw new Error('No recovery code has been set up for this account');
+  }
+
+  let backupKeyRaw: string;
+  let backupKey: CryptoKey;
+  try {
+    const salt = Uint8Array.from(atob(backup.recovery_salt), c => c.charCodeAt(0));
+    backupKeyRaw = await decryptMessage(
+      await derivePasswordKey(normalizeRecoveryCode(code), salt, backup.kdf_iterations),
+      backup.recovery_wrapped_key,
+      backup.recovery_iv
+    );
+    backupKey = await importBackupKey(backupKeyRaw);
+  } catch {
+    throw new Error('That recovery code is not correct');
+  }
+
+  const [{ data: wrappedKeys, error: keysError }, { data: publishedKey, error: publishedError }] = await Promise.all([
+    supabase
+      .from('user_private_keys')
+      .select('key_version, backup_encrypted_private_key, backup_iv')
+      .eq('user_id', userId)
+      .order('key_version'),
+    supabase
+      .from('user_keys')
+      .select('key_version')
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (keysError) throw keysError;
+  if (publishedError) throw publishedError;
+
+  const recovered: { keyVersion: number; privateKey: CryptoKey; signingKey: CryptoKey | null }[] = [];
+  const lostVersions: number[] = [];
+
+  for (const wrappedKey of wrappedKeys || []) {
+    if (!wrappedKey.backup_encrypted_private_key || !wrappedKey.backup_iv) {
+      lostVersions.push(wrappedKey.key_version);
+      continue;
+    }
+
+    try {
+      const { keyData, signingKeyData } = parseIdentityKey(
+        await decryptMessage(backupKey, wrappedKey.backup_encrypted_private_key, wrappedKey.backup_iv)
+      );
+      // Extractable so they can be wrapped again with the new password
+      const privateKey = await window.crypto.subtle.importKey(
+        'jwk',
+        keyData,
+        { name: 'ECDH', namedCurve: 'P-256' },
+        true,
+        ['deriveKey', 'deriveBits']
+      );
+      const signingKey = signingKeyData
+        ? await window.crypto.subtle.importKey(
+          'jwk',
+          signingKeyData,
+          { name: 'ECDSA', namedCurve: 'P-256' },
+          true,
+          ['sign']
+        )
+        : null;
+      recovered.push({ keyVersion: wrappedKey.key_version, privateKey, signingKey });
+    } catch (decryptError) {
+      console.error(`Error recovering key version ${wrappedKey.key_version}:`, decryptError);
+      lostVersions.push(wrappedKey.key_version);
+    }
+  }
+
+  if (publishedKey && !recovered.some(key => key.keyVersion === publishedKey.key_version)) {
+    throw new Error('Your recovery code does not cover your current key. Reset your keys instead.');
+  }
+
+  for (const { keyVersion, privateKey, signingKey } of recovered) {
+    if (!(await savePrivateKey(privateKey, signingKey, newPassword, keyVersion))) {
+      throw new Error(`Failed to store recovered key version ${keyVersion}`);
+    }
+  }
+
+  // Keys without a backup copy are still wrapped with the forgotten password
+  // and would stop the new password from unlocking the keyring
+  if (lostVersions.length > 0) {
+    const { error } = await supabase
+      .from('user_private_keys')
+      .delete()
+      .eq('user_id', userId)
+      .in('key_version', lostVersions);
+
+    if (error) throw error;
+  }
+
+  // Let future keys be backed up with the new password
+  const passwordSalt = window.crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+  const passwordWrapped = await encryptMessage(
+    await derivePasswordKey(newPassword, passwordSalt, backup.kdf_iterations),
+    backupKeyRaw
+  );
+
+  const { error: rewrapError } = await supabase
+    .from('user_key_backups')
+    .update({
+      password_wrapped_key: passwordWrapped.encrypted,
+      password_iv: passwordWrapped.iv,
+      password_salt: btoa(String.fromCharCode(...passwordSalt)),
+    })
+    .eq('user_id', userId);
+
+  if (rewrapError) throw rewrapError;
+
+  if (!(await unlockPrivateKey(newPassword))) {
+    throw new Error('Your keys were recovered but could not be unlocked with the new password');
+  }
+
+  return {
+    recoveredVersions: recovered.map(key => key.keyVersion),
+    lostVersions,
+  };
+}
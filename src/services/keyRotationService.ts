@@ -0,0 +1,350 @@
+// src/services/keyRotationService.ts
+
+import {
+  supabase,
+  generateKeyPair,
+  generateSigningKeyPair,
+  exportPublicKey,
+  savePrivateKey,
+  unlockPrivateKey,
+} from '../lib/supabase';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { clearPublishedKeyCache, PAIRWISE_DM_ENCRYPTION_VERSION } from './encryptionService';
+import {
+  rewrapChannelKeysForUser,
+  rotatePendingChannelKeys,
+  clearChannelKeyCache,
+} from './channelEncryptionService';
+import { backupPrivateKey } from './keyRecoveryService';
+import { enrollThisDevice, fanOutKeyToDevices, markDeviceRevoked } from './deviceService';
+
+export interface KeyRotationResult {
+  keyVersion: number;
+  rewrappedChannelKeys: number;
+  notifiedContacts: number;
+}
+
+export interface KeyResetImpact {
+  // Direct messages that can never be decrypted again
+  directMessages: number;
+  conversations: number;
+  // Channels where nobody else holds the key, so history is lost
+  channelsLost: string[];
+  // Channels that become readable again once another member re-shares the key
+  channelsReshared: string[];
+}
+
+/**
+ * Get the ids of everyone the user is friends with
+ */
+async function getAcceptedFriendIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('friends')
+    .select('user_id1, user_id2')
+    .eq('status', 'accepted')
+    .or(`user_id1.eq.${userId},user_id2.eq.${userId}`);
+
+  if (error) throw error;
+
+  return (data || []).map(friend => (friend.user_id1 === userId ? friend.user_id2 : friend.user_id1));
+}
+
+/**
+ * Tell every friend that the user published a new identity key
+ * @returns The number of friends notified
+ */
+async function notifyFriendsOfKeyChange(userId: string, keyVersion: number): Promise<number> {
+  try {
+    const friendIds = await getAcceptedFriendIds(userId);
+    if (friendIds.length === 0) return 0;
+
+    const { error } = await supabase
+      .from('key_change_notices')
+      .insert(friendIds.map(friendId => ({
+        recipient_id: friendId,
+        user_id: userId,
+        key_version: keyVersion,
+      })));
+
+    if (error) throw error;
+    return friendIds.length;
+  } catch (noticeError) {
+    // The key change itself succeeded; contacts will still see it on their next lookup
+    console.error('Error notifying contacts about key change:', noticeError);
+    return 0;
+  }
+}
+
+/**
+ * Replace the user's identity key pair with a new one.
+ * Older private keys stay in the password-protected keyring, so messages
+ * encrypted to them remain readable. Channel keys are re-wrapped for the new
+ * key and friends are told that the key changed.
+ * @param password The encryption password, used to unlock the keyring and wrap the new key
+ */
+export async function rotateIdentityKey(password: string): Promise<KeyRotationResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('You must be logged in to rotate your keys');
+  }
+  const userId = session.user.id;
+
+  // Unlocking with the password both checks it and loads every older key version
+  if (!(await unlockPrivateKey(password))) {
+    throw new Error('Incorrect encryption password');
+  }
+
+  const { data: currentKey, error: currentKeyError } = await supabase
+    .from('user_keys')
+    .select('key_version')
+    .eq('user_id', userId)
+    .single();
+
+  if (currentKeyError) throw currentKeyError;
+
+  const keyVersion = currentKey.key_version + 1;
+  const keyPair = await generateKeyPair();
+  const signingKeyPair = await generateSigningKeyPair();
+
+  // Store the new private keys before publishing their public halves
+  if (!(await savePrivateKey(keyPair.privateKey, signingKeyPair.privateKey, password, keyVersion))) {
+    throw new Error('Failed to store your new encrypted private key');
+  }
+
+  try {
+    await backupPrivateKey(keyPair.privateKey, signingKeyPair.privateKey, password, keyVersion);
+  } catch (backupError) {
+    // The old recovery code keeps working for older keys; a new one covers this key
+    console.error('Error adding new key to recovery backup:', backupError);
+  }
+
+  try {
+    await fanOutKeyToDevices(keyPair.privateKey, signingKeyPair.privateKey, keyVersion);
+  } catch (fanOutError) {
+    // Devices without the new key fall back to asking for the password
+    console.error('Error sharing new key with devices:', fanOutError);
+  }
+
+  const publicKey = await exportPublicKey(keyPair.publicKey);
+  const { error: publishError } = await supabase
+    .from('user_keys')
+    .update({
+      public_key: publicKey,
+      signing_public_key: await exportPublicKey(signingKeyPair.publicKey),
+      key_version: keyVersion,
+    })
+    .eq('user_id', userId);
+
+  if (publishError) {
+    throw new Error(`Failed to publish your new public key: ${publishError.message}`);
+  }
+
+  clearPublishedKeyCache(userId);
+  clearChannelKeyCache();
+
+  const rewrappedChannelKeys = await rewrapChannelKeysForUser(userId, {
+    public_key: publicKey,
+    key_version: keyVersion,
+  });
+
+  const notifiedContacts = await notifyFriendsOfKeyChange(userId, keyVersion);
+
+  return { keyVersion, rewrappedChannelKeys, notifiedContacts };
+}
+
+/**
+ * Identity keys made before signing keys existed cannot sign messages, so
+ * they are replaced by a new key version that has one. Call after the
+ * keyring has been unlocked with the password.
+ * @param password The encryption password
+ * @returns Whether the identity key was rotated
+ */
+export async function ensureSigningKey(password: string): Promise<boolean> {
+  const { keyVersion, signingKeyring } = useEncryptionStore.getState();
+  if (keyVersion === null || signingKeyring[keyVersion]) return false;
+
+  await rotateIdentityKey(password);
+  return true;
+}
+
+/**
+ * Work out which history would become unreadable if the user reset their keys
+ */
+export async function getKeyResetImpact(userId: string): Promise<KeyResetImpact> {
+  const [{ data: directMessages, error: dmError }, { data: heldKeys, error: heldError }] = await Promise.all([
+    supabase
+      .from('direct_messages')
+      .select('sender_id, receiver_id')
+      .gte('encryption_version', PAIRWISE_DM_ENCRYPTION_VERSION)
+      .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`),
+    supabase
+      .from('channel_member_keys')
+      .select('channel_id')
+      .eq('user_id', userId),
+  ]);
+
+  if (dmError) throw dmError;
+  if (heldError) throw heldError;
+
+  const conversations = new Set(
+    (directMessages || []).map(dm => (dm.sender_id === userId ? dm.receiver_id : dm.sender_id))
+  );
+
+  const channelIds = Array.from(new Set((heldKeys || []).map(key => key.channel_id)));
+  let channelsLost: string[] = [];
+  let channelsReshared: string[] = [];
+
+  if (channelIds.length > 0) {
+    const [{ data: otherHolders, error: holdersError }, { data: channels, error: channelsError }] = await Promise.all([
+      supabase
+        .from('channel_member_keys')
+        .select('channel_id')
+        .in('channel_id', channelIds)
+        .neq('user_id', userId),
+      supabase
+        .from('channels')
+        .select('id, name')
+        .in('id', channelIds),
+    ]);
+
+    if (holdersError) throw holdersError;
+    if (channelsError) throw channelsError;
+
+    const sharedChannelIds = new Set((otherHolders || []).map(holder => holder.channel_id));
+    channelsLost = (channels || []).filter(c => !sharedChannelIds.has(c.id)).map(c => c.name);
+    channelsReshared = (channels || []).filter(c => sharedChannelIds.has(c.id)).map(c => c.name);
+  }
+
+  return {
+    directMessages: directMessages?.length || 0,
+    conversations: conversations.size,
+    channelsLost,
+    channelsReshared,
+  };
+}
+
+/**
+ * Throw away the whole keyring and start over with a new identity key.
+ * Used when the encryption password and recovery code are both lost.
+ * @param newPassword The encryption password for the new key
+ */
+export async function resetIdentityKey(newPassword: string): Promise<KeyRotationResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('You must be logged in to reset your keys');
+  }
+  const userId = session.user.id;
+
+  const { data: currentKey, error: currentKeyError } = await supabase
+    .from('user_keys')
+    .select('key_version')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (currentKeyError) throw currentKeyError;
+
+  // Start a fresh in-memory keyring that holds only the new key
+  useEncryptionStore.getState().lock();
+  clearChannelKeyCache();
+
+  const keyVersion = (currentKey?.key_version ?? 0) + 1;
+  const keyPair = await generateKeyPair();
+  const signingKeyPair = await generateSigningKeyPair();
+
+  if (!(await savePrivateKey(keyPair.privateKey, signingKeyPair.privateKey, newPassword, keyVersion))) {
+    throw new Error('Failed to store your new encrypted private key');
+  }
+
+  // Older keys are wrapped with the lost password and would block unlocking
+  const { error: deleteKeysError } = await supabase
+    .from('user_private_keys')
+    .delete()
+    .eq('user_id', userId)
+    .lt('key_version', keyVersion);
+
+  if (deleteKeysError) throw deleteKeysError;
+
+  // The old recovery code only covers the discarded keys
+  const { error: deleteBackupError } = await supabase
+    .from('user_key_backups')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteBackupError) throw deleteBackupError;
+
+  // Other devices hold only the discarded keys and must be enrolled again
+  const { error: deleteBundlesError } = await supabase
+    .from('device_key_bundles')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteBundlesError) throw deleteBundlesError;
+
+  // Drop channel keys wrapped for the old key so other members re-share them
+  const { error: deleteChannelKeysError } = await supabase
+    .from('channel_member_keys')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteChannelKeysError) throw deleteChannelKeysError;
+
+  const publicKey = await exportPublicKey(keyPair.publicKey);
+  const { error: publishError } = await supabase
+    .from('user_keys')
+    .upsert({
+      user_id: userId,
+      public_key: publicKey,
+      signing_public_key: await exportPublicKey(signingKeyPair.publicKey),
+      key_version: keyVersion,
+      created_at: new Date().toISOString(),
+    });
+
+  if (publishError) {
+    throw new Error(`Failed to publish your new public key: ${publishError.message}`);
+  }
+
+  clearPublishedKeyCache(userId);
+
+  try {
+    await enrollThisDevice(newPassword);
+  } catch (enrollError) {
+    console.error('Error enrolling this device:', enrollError);
+  }
+
+  const notifiedContacts = await notifyFriendsOfKeyChange(userId, keyVersion);
+
+  return { keyVersion, rewrappedChannelKeys: 0, notifiedContacts };
+}
+
+/**
+ * Revoke a lost device. The device loses its copy of the keyring, and since
+ * it may already have read the keys, the identity key and every channel key
+ * the user holds are rotated.
+ * @param deviceId The device to revoke
+ * @param password The encryption password, needed to rotate the identity key
+ */
+export async function revokeDevice(
+  deviceId: string,
+  password: string
+): Promise<KeyRotationResult & { rotatedChannels: number }> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('You must be logged in to revoke a device');
+  }
+
+  // Check the password before revoking anything
+  if (!(await unlockPrivateKey(password))) {
+    throw new Error('Incorrect encryption password');
+  }
+
+  await markDeviceRevoked(deviceId);
+
+  const result = await rotateIdentityKey(password);
+
+  const { error: rotationError } = await supabase.rpc('request_user_channel_rotation');
+  if (rotationError) throw rotationError;
+
+  const rotatedChannels = await rotatePendingChannelKeys(session.user.id);
+
+  return { ...result, rotatedChannels };
+}
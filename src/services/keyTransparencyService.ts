@@ -0,0 +1,245 @@
+// src/services/keyTransparencyService.ts
+
+import { supabase } from '../lib/supabase';
+import { KeyLogHead, getKeyLogHead, saveKeyLogHead } from '../lib/keyLogStore';
+
+export interface KeyLogEntry {
+  seq: number;
+  user_id: string;
+  key_version: number;
+  public_key: string;
+  // The signing key published with this key version, if it has one
+  signing_public_key: string | null;
+  prev_hash: string;
+  entry_hash: string;
+}
+
+/**
+ * Why the log was flagged:
+ * - unseen-change: the contact's key changed since this browser last used it
+ * - inconsistent: the published key or the log itself does not add up, so the key is refused
+ */
+export type KeyTransparencyAlertKind = 'unseen-change' | 'inconsistent';
+
+export interface KeyTransparencyAlert {
+  kind: KeyTransparencyAlertKind;
+  userId: string;
+  keyVersion: number;
+  // The key versions logged since the one this browser last saw
+  unseenVersions: number[];
+}
+
+// Dispatched on window with a KeyTransparencyAlert as its detail
+export const KEY_TRANSPARENCY_ALERT_EVENT = 'key-transparency-alert';
+
+// The prev_hash of a user's first entry
+const GENESIS_HASH = '0'.repeat(64);
+
+type PublishedKeyRecord = { public_key: string; key_version: number };
+
+/**
+ * Hash a log entry the same way the database does
+ */
+async function computeEntryHash(entry: KeyLogEntry): Promise<string> {
+  const input = [
+    'securechat-key-log',
+    entry.user_id,
+    String(entry.key_version),
+    entry.public_key,
+    entry.signing_public_key ?? '',
+    entry.prev_hash,
+  ].join('\n');
+
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function raiseAlert(alert: KeyTransparencyAlert) {
+  window.dispatchEvent(new CustomEvent<KeyTransparencyAlert>(KEY_TRANSPARENCY_ALERT_EVENT, { detail: alert }));
+}
+
+async function getViewerId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+}
+
+/**
+ * Fetch the log entries of several users, oldest first
+ */
+async function fetchKeyLogs(userIds: string[]): Promise<Map<string, KeyLogEntry[]>> {
+  const { data, error } = await supabase
+    .from('key_transparency_log')
+    .select('seq, user_id, key_version, public_key, signing_public_key, prev_hash, entry_hash')
+    .in('user_id', userIds)
+    .order('seq', { ascending: true });
+
+  if (error) throw error;
+
+  const logs = new Map<string, KeyLogEntry[]>(userIds.map(userId => [userId, []]));
+  for (const entry of (data || []) as KeyLogEntry[]) {
+    logs.get(entry.user_id)?.push(entry);
+  }
+  return logs;
+}
+
+/**
+ * Check that a user's entries form an unbroken hash chain from the first one,
+ * with every rotation moving to a higher key version
+ */
+async function verifyChain(userId: string, entries: KeyLogEntry[]) {
+  let prevHash = GENESIS_HASH;
+  let prevVersion = 0;
+
+  for (const entry of entries) {
+    if (
+      entry.user_id !== userId ||
+      entry.prev_hash !== prevHash ||
+      entry.key_version <= prevVersion ||
+      (await computeEntryHash(entry)) !== entry.entry_hash
+    ) {
+      throw new Error(`The key transparency log is broken at entry ${entry.seq}`);
+    }
+
+    prevHash = entry.entry_hash;
+    prevVersion = entry.key_version;
+  }
+}
+
+/**
+ * Verify a user's log and check that it still contains the entry this browser
+ * accepted last time, so history has only been added to, never rewritten
+ * @returns The head this browser saw before, if any
+ */
+async function verifyConsistency(
+  viewerId: string | null,
+  userId: string,
+  entries: KeyLogEntry[]
+): Promise<KeyLogHead | null> {
+  await verifyChain(userId, entries);
+
+  const head = viewerId ? await getKeyLogHead(viewerId, userId) : null;
+  if (head && !entries.some(entry => entry.seq === head.seq && entry.entry_hash === head.entryHash)) {
+    throw new Error('The key transparency log no longer contains the key you saw before');
+  }
+
+  return head;
+}
+
+/**
+ * Verify one user's published key against their log entries.
+ * The key must be in the chain; if a rotation landed between reading the key
+ * and reading the log it may not be the latest entry, so the latest is used.
+ * Throws if the log is inconsistent or does not contain the key.
+ * @returns The key to use
+ */
+async function verifyAgainstLog(
+  viewerId: string | null,
+  userId: string,
+  key: PublishedKeyRecord,
+  entries: KeyLogEntry[]
+): Promise<PublishedKeyRecord> {
+  let head: KeyLogHead | null = null;
+  try {
+    head = await verifyConsistency(viewerId, userId, entries);
+
+    if (!entries.some(entry => entry.key_version === key.key_version && entry.public_key === key.public_key)) {
+      throw new Error('Their published key is not in the key transparency log');
+    }
+  } catch (error) {
+    raiseAlert({ kind: 'inconsistent', userId, keyVersion: key.key_version, unseenVersions: [] });
+    throw error;
+  }
+
+  const latest = entries[entries.length - 1];
+  const latestKey = { public_key: latest.public_key, key_version: latest.key_version };
+  if (!viewerId || head?.entryHash === latest.entry_hash) return latestKey;
+
+  // The user's own rotations are made by them, so only contacts' changes are flagged
+  if (head && userId !== viewerId) {
+    const seenSeq = head.seq;
+    raiseAlert({
+      kind: 'unseen-change',
+      userId,
+      keyVersion: latest.key_version,
+      unseenVersions: entries.filter(entry => entry.seq > seenSeq).map(entry => entry.key_version),
+    });
+  }
+
+  await saveKeyLogHead({
+    viewerId,
+    userId,
+    seq: latest.seq,
+    keyVersion: latest.key_version,
+    entryHash: latest.entry_hash,
+  });
+
+  return latestKey;
+}
+
+/**
+ * Check that a user's published key is included in the key transparency log,
+ * and that the log extends the one this browser saw before.
+ * Throws if either check fails; the key must not be used then.
+ * @returns The user's latest logged key
+ */
+export async function verifyPublishedKey(userId: string, key: PublishedKeyRecord): Promise<PublishedKeyRecord> {
+  const [viewerId, logs] = await Promise.all([getViewerId(), fetchKeyLogs([userId])]);
+  return verifyAgainstLog(viewerId, userId, key, logs.get(userId) || []);
+}
+
+/**
+ * Check several published keys at once, dropping any that fail.
+ * Keys that were rotated while they were being read are replaced by the latest logged one.
+ */
+export async function filterVerifiedKeys<T extends PublishedKeyRecord & { user_id: string }>(
+  keys: T[]
+): Promise<T[]> {
+  if (keys.length === 0) return [];
+
+  const [viewerId, logs] = await Promise.all([
+    getViewerId(),
+    fetchKeyLogs(keys.map(key => key.user_id)),
+  ]);
+
+  const verified: T[] = [];
+  for (const key of keys) {
+    try {
+      const latest = await verifyAgainstLog(viewerId, key.user_id, key, logs.get(key.user_id) || []);
+      verified.push({ ...key, ...latest });
+    } catch (error) {
+      console.error(`Refusing the public key of ${key.user_id}:`, error);
+    }
+  }
+  return verified;
+}
+
+/**
+ * Get the log entry a user logged for a key version, after checking their log
+ */
+async function getLoggedEntry(userId: string, keyVersion: number): Promise<KeyLogEntry | null> {
+  const [viewerId, logs] = await Promise.all([getViewerId(), fetchKeyLogs([userId])]);
+  const entries = logs.get(userId) || [];
+
+  try {
+    await verifyConsistency(viewerId, userId, entries);
+  } catch (error) {
+    raiseAlert({ kind: 'inconsistent', userId, keyVersion, unseenVersions: [] });
+    throw error;
+  }
+
+  return entries.find(entry => entry.key_version === keyVersion) ?? null;
+}
+
+/**
+ * Get the public key a user logged for an older key version, after checking their log
+ */
+export async function getLoggedKeyVersion(userId: string, keyVersion: number): Promise<string | null> {
+  return (await getLoggedEntry(userId, keyVersion))?.public_key ?? null;
+}
+
+/**
+ * Get the signing public key a user logged for a key version, after checking their log
+ */
+export async function getLoggedSigningKey(userId: string, keyVersion: number): Promise<string | null> {
+  return (await getLoggedEntry(userId, keyVersion))?.signing_public_key ?? null;
+}
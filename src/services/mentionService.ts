@@ -0,0 +1,210 @@
+// src/services/mentionService.ts
+
+import { supabase } from '../lib/supabase';
+import { mentionsUser } from '../lib/mentions';
+import {
+  CHANNEL_MESSAGE_COLUMNS,
+  ChannelMessage,
+  ChannelMessageRow,
+  fetchChannelEnvelopeSince,
+  formatChannelMessage
+} from './channelMessageService';
+
+/**
+ * An unread mention, with the message it is in decrypted
+ */
+export interface MentionInboxItem {
+  id: string;
+  serverId: string;
+  serverName: string;
+  channelId: string;
+  channelName: string;
+  createdAt: string;
+  message: ChannelMessage;
+}
+
+interface MentionRow {
+  id: string;
+  message_id: string;
+  channel_id: string;
+  server_id: string;
+  created_at: string;
+  channel: { name: string } | null;
+  server: { name: string } | null;
+}
+
+/**
+ * Let the users a message mentions know about it. Sending a mention twice,
+ * e.g. when a message is edited, does nothing.
+ */
+export async function sendMentionNotifications(
+  messageId: string,
+  senderId: string,
+  recipientIds: string[]
+): Promise<void> {
+  if (recipientIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('message_mentions')
+    .upsert(
+      recipientIds.map(recipientId => ({
+        message_id: messageId,
+        sender_id: senderId,
+        recipient_id: recipientId
+      })),
+      { onConflict: 'message_id,recipient_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error('Error sending mentions:', error);
+  }
+}
+
+/**
+ * How many mentions the user has not read yet
+ */
+export async function fetchUnreadMentionCount(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('message_mentions')
+    .select('id', { count: 'exact', head: true })
+    .eq('recipient_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+  return count || 0;
+}
+
+/**
+ * Load the user's unread mentions across all servers, newest first, with
+ * their messages decrypted. Mentions the decrypted message does not back up
+ * are marked read and left out, so nobody can fake one through the database.
+ */
+export async function fetchUnreadMentions(userId: string): Promise<MentionInboxItem[]> {
+  const { data, error } = await supabase
+    .from('message_mentions')
+    .select(`
+      id,
+      message_id,
+      channel_id,
+      server_id,
+      created_at,
+      channel:channels!channel_id (name),
+      server:servers!server_id (name)
+    `)
+    .eq('recipient_id', userId)
+    .is('read_at', null)
+    .order('created_at', { ascending: false })
+    .limit(100)
+    .overrideTypes<MentionRow[], { merge: false }>();
+
+  if (error) throw error;
+
+  const mentions = data || [];
+  if (mentions.length === 0) return [];
+
+  const [{ data: messageData, error: messageError }, { data: memberships, error: membershipError }] =
+    await Promise.all([
+      supabase
+        .from('messages')
+        .select(CHANNEL_MESSAGE_COLUMNS)
+        .in('id', mentions.map(mention => mention.message_id))
+        .overrideTypes<ChannelMessageRow[], { merge: false }>(),
+      supabase
+        .from('server_members')
+        .select('server_id, role')
+        .eq('user_id', userId)
+    ]);
+
+  if (messageError) throw messageError;
+  if (membershipError) throw membershipError;
+
+  const rows = messageData || [];
+  const roles = new Map((memberships || []).map(membership => [membership.server_id, membership.role as string]));
+
+  // Each channel's envelope history is looked up once
+  const envelopeSince = new Map<string, Promise<string | null>>();
+  const getEnvelopeSince = (channelId: string) => {
+    let since = envelopeSince.get(channelId);
+    if (!since) {
+      since = fetchChannelEnvelopeSince(channelId);
+      envelopeSince.set(channelId, since);
+    }
+    return since;
+  };
+
+  const items: MentionInboxItem[] = [];
+  const unsupported: string[] = [];
+
+  await Promise.all(mentions.map(async mention => {
+    const row = rows.find(r => r.id === mention.message_id);
+    if (!row) return;
+
+    const message = await formatChannelMessage(
+      mention.channel_id,
+      row,
+      userId,
+      await getEnvelopeSince(mention.channel_id)
+    );
+
+    if (!mentionsUser(message.mentions, userId, roles.get(mention.server_id) ?? null)) {
+      unsupported.push(mention.id);
+      return;
+    }
+
+    items.push({
+      id: mention.id,
+      serverId: mention.server_id,
+      serverName: mention.server?.name || 'Unknown server',
+      channelId: mention.channel_id,
+      channelName: mention.channel?.name || 'unknown',
+      createdAt: mention.created_at,
+      message
+    });
+  }));
+
+  if (unsupported.length > 0) {
+    console.error('Ignored mentions that their messages do not contain:', unsupported);
+    await markMentionsRead(userId, unsupported);
+  }
+
+  return items.sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
+
+/**
+ * Mark some of the user's mentions as read
+ */
+export async function markMentionsRead(userId: string, mentionIds: string[]): Promise<void> {
+  if (mentionIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('message_mentions')
+    .update({ read_at: new Date().toISOString() })
+    .eq('recipient_id', userId)
+    .in('id', mentionIds);
+
+  if (error) {
+    console.error('Error marking mentions as read:', error);
+    return;
+  }
+
+  window.dispatchEvent(new Event('refresh-mentions'));
+}
+
+/**
+ * Mark all of the user's mentions in a channel as read, e.g. when they open it
+ */
+export async function markChannelMentionsRead(userId: string, channelId: string): Promise<void> {
+  const { error } = await supabase
+    .from('message_mentions')
+    .update({ read_at: new Date().toISOString() })
+    .eq('recipient_id', userId)
+    .eq('channel_id', channelId)
+    .is('read_at', null);
+
+  if (error) {
+    console.error('Error marking mentions as read:', error);
+    return;
+  }
+
+  window.dispatchEvent(new Event('refresh-mentions'));
+}
@@ -0,0 +1,65 @@
+// src/services/messageLinkService.ts
+
+import { supabase } from '../lib/supabase';
+
+const MESSAGE_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The conversation a linked message is in
+ */
+export type MessageLocation =
+  | { scope: 'channel'; serverId: string; channelId: string }
+  | { scope: 'dm'; friendId: string };
+
+/**
+ * The link to a message. It only names the message, so anyone it is shared
+ * with still needs to be in the conversation to open it.
+ */
+export function getMessageLink(messageId: string): string {
+  return `${window.location.origin}/message/${messageId}`;
+}
+
+/**
+ * The dashboard path of a conversation
+ */
+export function getConversationPath(location: MessageLocation): string {
+  return location.scope === 'channel'
+    ? `/dashboard/server/${location.serverId}/channel/${location.channelId}`
+    : `/dashboard/dm/${location.friendId}`;
+}
+
+/**
+ * Find which conversation a linked message is in
+ * @returns Where it is, or null if it does not exist or the user cannot read it
+ */
+export async function resolveMessageLink(messageId: string, userId: string): Promise<MessageLocation | null> {
+  if (!MESSAGE_ID.test(messageId)) return null;
+
+  const [channelResult, directResult] = await Promise.all([
+    supabase.from('messages').select('channel_id').eq('id', messageId).maybeSingle(),
+    supabase.from('direct_messages').select('sender_id, receiver_id').eq('id', messageId).maybeSingle()
+  ]);
+
+  if (channelResult.error) throw channelResult.error;
+  if (directResult.error) throw directResult.error;
+
+  if (channelResult.data) {
+    const { data: channel, error } = await supabase
+      .from('channels')
+      .select('server_id')
+      .eq('id', channelResult.data.channel_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!channel) return null;
+
+    return { scope: 'channel', serverId: channel.server_id, channelId: channelResult.data.channel_id };
+  }
+
+  if (directResult.data) {
+    const { sender_id, receiver_id } = directResult.data;
+    return { scope: 'dm', friendId: sender_id === userId ? receiver_id : sender_id };
+  }
+
+  return null;
+}
@@ -0,0 +1,226 @@
+// src/services/messageMigrationService.ts
+
+import { supabase, loadPrivateKey } from '../lib/supabase';
+import {
+  ENVELOPE_ENCRYPTION_VERSION,
+  MessageBody,
+  decodeEnvelope,
+  encodeEnvelope,
+  encodeMessageBody,
+  openPlaintextEnvelope,
+  readMessageBody,
+} from '../lib/messageEnvelope';
+import { decryptLegacyChannelMessage } from './encryptionService';
+import { encryptChannelMessage, decryptChannelEnvelope } from './channelEncryptionService';
+import { signEnvelope } from './signatureService';
+
+// Messages fetched, re-encrypted and written per round trip
+const MIGRATION_BATCH_SIZE = 50;
+
+export interface MessageMigrationJob {
+  id: string;
+  server_id: string;
+  status: 'running' | 'completed' | 'cancelled';
+  total_count: number;
+  migrated_count: number;
+  failed_count: number;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+interface LegacyChannelMessage {
+  id: string;
+  channel_id: string;
+  sender_id: string;
+  encrypted_content: string;
+  iv: string | null;
+  is_encrypted: boolean | null;
+  encryption_version: number | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+interface MigratedChannelMessage {
+  id: string;
+  encrypted_content: string;
+  expected_updated_at: string | null;
+}
+
+/**
+ * Get the body of a legacy message: plaintext (on its own or in a plaintext
+ * envelope), or encrypted with one of the legacy keys
+ */
+async function readLegacyMessage(message: LegacyChannelMessage): Promise<MessageBody> {
+  if ((message.encryption_version || 1) >= ENVELOPE_ENCRYPTION_VERSION) {
+    const envelope = decodeEnvelope(message.encrypted_content, ['none']);
+    return readMessageBody(envelope, openPlaintextEnvelope(envelope));
+  }
+
+  return {
+    text: !message.is_encrypted || message.iv === null
+      ? message.encrypted_content
+      : await decryptLegacyChannelMessage(message.channel_id, message.encrypted_content, message.iv),
+  };
+}
+
+/**
+ * Re-encrypt one legacy message under the channel's current key and check the
+ * result decrypts back to the same text before it is written.
+ * Messages the current user sent are signed; nobody else can sign for their sender.
+ * @returns The rewritten message, or an error describing why this message was skipped
+ */
+async function migrateMessage(
+  message: LegacyChannelMessage,
+  serverId: string,
+  userId: string
+): Promise<MigratedChannelMessage | { error: string }> {
+  let plaintext: string;
+  try {
+    plaintext = encodeMessageBody(await readLegacyMessage(message));
+  } catch {
+    return { error: `Message ${message.id} could not be decrypted with any legacy key` };
+  }
+
+  // Key and network errors are not specific to this message, so they stop the run
+  let envelope = await encryptChannelMessage(message.channel_id, serverId, userId, plaintext);
+
+  let roundTrip: string | null = null;
+  try {
+    roundTrip = await decryptChannelEnvelope(message.channel_id, userId, envelope);
+  } catch (verifyError) {
+    console.error(`Error verifying migrated message ${message.id}:`, verifyError);
+  }
+
+  if (roundTrip !== plaintext) {
+    return { error: `Message ${message.id} did not decrypt back to the original text` };
+  }
+
+  if (message.sender_id === userId) {
+    envelope = await signEnvelope(envelope, {
+      scope: 'channel',
+      scopeId: message.channel_id,
+      senderId: userId,
+    });
+  }
+
+  return {
+    id: message.id,
+    encrypted_content: encodeEnvelope(envelope),
+    expected_updated_at: message.updated_at,
+  };
+}
+
+/**
+ * Get the most recent migration job for a server, if there has been one
+ */
+export async function getLatestMigrationJob(serverId: string): Promise<MessageMigrationJob | null> {
+  const { data, error } = await supabase
+    .from('message_migration_jobs')
+    .select('id, server_id, status, total_count, migrated_count, failed_count, last_error, created_at, updated_at, completed_at')
+    .eq('server_id', serverId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Start migrating a server's legacy channel messages, or pick up the job that
+ * is already running. Only the server owner can do this.
+ */
+export async function startMessageMigration(serverId: string): Promise<MessageMigrationJob> {
+  const { data, error } = await supabase.rpc('start_message_migration', { p_server_id: serverId });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Work through a migration job batch by batch until every legacy message has
+ * been processed. The cursor is saved after each batch, so a run that stops
+ * part way (closed tab, lost connection) can be resumed from where it left off.
+ * @param onProgress Called with the updated job after every batch
+ * @param shouldStop Checked between batches; return true to pause the run
+ * @returns The job as it stood when the run finished or paused
+ */
+export async function runMessageMigration(
+  job: MessageMigrationJob,
+  userId: string,
+  onProgress: (job: MessageMigrationJob) => void,
+  shouldStop: () => boolean = () => false
+): Promise<MessageMigrationJob> {
+  if (!(await loadPrivateKey())) {
+    throw new Error('Encryption is locked. Unlock your keys to migrate messages.');
+  }
+
+  let current = job;
+
+  while (current.status === 'running' && !shouldStop()) {
+    const { data: batch, error: batchError } = await supabase.rpc('get_message_migration_batch', {
+      p_job_id: current.id,
+      p_limit: MIGRATION_BATCH_SIZE,
+    });
+
+    if (batchError) throw batchError;
+
+    const messages: LegacyChannelMessage[] = batch || [];
+    if (messages.length === 0) {
+      const { data: finished, error: finishError } = await supabase.rpc('finish_message_migration', {
+        p_job_id: current.id,
+        p_status: 'completed',
+      });
+
+      if (finishError) throw finishError;
+      current = finished;
+      onProgress(current);
+      break;
+    }
+
+    const migrated: MigratedChannelMessage[] = [];
+    let failedCount = 0;
+    let lastError: string | null = null;
+
+    for (const message of messages) {
+      const result = await migrateMessage(message, current.server_id, userId);
+      if ('error' in result) {
+        failedCount++;
+        lastError = result.error;
+      } else {
+        migrated.push(result);
+      }
+    }
+
+    const lastMessage = messages[messages.length - 1];
+    const { data: updated, error: applyError } = await supabase.rpc('apply_message_migration_batch', {
+      p_job_id: current.id,
+      p_rows: migrated,
+      p_failed_count: failedCount,
+      p_last_error: lastError,
+      p_cursor_created_at: lastMessage.created_at,
+      p_cursor_message_id: lastMessage.id,
+    });
+
+    if (applyError) throw applyError;
+    current = updated;
+    onProgress(current);
+  }
+
+  return current;
+}
+
+/**
+ * Stop a migration job for good. Messages already migrated stay migrated.
+ */
+export async function cancelMessageMigration(jobId: string): Promise<MessageMigrationJob> {
+  const { data, error } = await supabase.rpc('finish_message_migration', {
+    p_job_id: jobId,
+    p_status: 'cancelled',
+  });
+
+  if (error) throw error;
+  return data;
+}
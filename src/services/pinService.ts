@@ -0,0 +1,135 @@
+// src/services/pinService.ts
+
+import { supabase } from '../lib/supabase';
+import { AttachmentReference, MessageMention } from '../lib/messageEnvelope';
+
+/**
+ * A pinned message. A pin only says which message was pinned, by whom and
+ * when; the message itself is loaded and decrypted like any other.
+ */
+export interface MessagePin {
+  id: string;
+  messageId: string;
+  pinnedBy: string;
+  pinnedByName: string;
+  pinnedAt: string;
+}
+
+/**
+ * A pin with its message, decrypted by the conversation it is in
+ */
+export interface PinnedMessage {
+  pin: MessagePin;
+  message: {
+    id: string;
+    sender_username: string;
+    sender_display_name: string | null;
+    encrypted_content: string;
+    created_at: string;
+    attachments?: AttachmentReference[];
+    mentions?: MessageMention[];
+  };
+}
+
+interface PinRow {
+  id: string;
+  message_id: string;
+  pinned_by: string;
+  created_at: string;
+  pinner: { username: string; display_name: string | null } | null;
+}
+
+const PIN_COLUMNS = `
+  id,
+  message_id,
+  pinned_by,
+  created_at,
+  pinner:users!pinned_by (
+    username,
+    display_name
+  )
+`;
+
+function toPin(row: PinRow): MessagePin {
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    pinnedBy: row.pinned_by,
+    pinnedByName: row.pinner?.display_name || row.pinner?.username || 'Unknown User',
+    pinnedAt: row.created_at
+  };
+}
+
+/**
+ * Whether a server role can pin and unpin messages in its channels
+ */
+export function canPinChannelMessages(role: string | null): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+/**
+ * Load a channel's pins, most recently pinned first
+ */
+export async function fetchChannelPins(channelId: string): Promise<MessagePin[]> {
+  const { data, error } = await supabase
+    .from('pinned_messages')
+    .select(PIN_COLUMNS)
+    .eq('channel_id', channelId)
+    .order('created_at', { ascending: false })
+    .overrideTypes<PinRow[], { merge: false }>();
+
+  if (error) throw error;
+  return (data || []).map(toPin);
+}
+
+/**
+ * Load the pins in the conversation between two users, most recently pinned first
+ */
+export async function fetchDirectMessagePins(userId: string, friendId: string): Promise<MessagePin[]> {
+  const { data, error } = await supabase
+    .from('pinned_direct_messages')
+    .select(PIN_COLUMNS)
+    .or(`and(pinned_by.eq.${userId},recipient_id.eq.${friendId}),and(pinned_by.eq.${friendId},recipient_id.eq.${userId})`)
+    .order('created_at', { ascending: false })
+    .overrideTypes<PinRow[], { merge: false }>();
+
+  if (error) throw error;
+  return (data || []).map(toPin);
+}
+
+/**
+ * Pin a channel message. Only owners and admins can.
+ */
+export async function pinChannelMessage(channelId: string, messageId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('pinned_messages')
+    .insert({ message_id: messageId, channel_id: channelId, pinned_by: userId });
+
+  if (error) throw new Error(`Failed to pin message: ${error.message}`);
+}
+
+/**
+ * Pin a message in the conversation between two users. Either of them can.
+ */
+export async function pinDirectMessage(userId: string, friendId: string, messageId: string): Promise<void> {
+  const { error } = await supabase
+    .from('pinned_direct_messages')
+    .insert({ message_id: messageId, pinned_by: userId, recipient_id: friendId });
+
+  if (error) throw new Error(`Failed to pin message: ${error.message}`);
+}
+
+/**
+ * Remove a pin. The message itself is left as it is.
+ */
+export async function unpinMessage(
+  table: 'pinned_messages' | 'pinned_direct_messages',
+  pinId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from(table)
+    .delete()
+    .eq('id', pinId);
+
+  if (error) throw new Error(`Failed to unpin message: ${error.message}`);
+}
@@ -0,0 +1,397 @@
+// src/services/reactionService.ts
+
+import { supabase } from '../lib/supabase';
+import {
+  MessageEnvelope,
+  createPlaintextEnvelope,
+  decodeEnvelope,
+  encodeEnvelope,
+  openPlaintextEnvelope
+} from '../lib/messageEnvelope';
+import { EncryptionPolicy } from './encryptionPolicyService';
+import { decryptChannelEnvelope, encryptChannelMessage } from './channelEncryptionService';
+import { decryptDirectMessageEnvelope, encryptDirectMessage } from './encryptionService';
+import { EnvelopeSignatureTarget, signEnvelope, verifyEnvelopeSignature } from './signatureService';
+
+// The reactions offered in the picker
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🎉', '👀', '🙏'];
+
+// Every reaction is padded to this many bytes, so its length does not give the emoji away
+const REACTION_PADDED_BYTES = 32;
+
+/**
+ * One person's reaction to a message, decrypted
+ */
+export interface MessageReaction {
+  id: string;
+  messageId: string;
+  userId: string;
+  userName: string;
+  emoji: string;
+}
+
+/**
+ * The reactions to a message with one emoji, counted up
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userNames: string[];
+  // The current user's own reactions with this emoji, if they reacted with it
+  ownReactionIds: string[];
+}
+
+// What a reaction says, sealed inside its envelope
+interface ReactionBody {
+  messageId: string;
+  emoji: string;
+}
+
+interface ReactionRow {
+  id: string;
+  message_id: string;
+  user_id: string;
+  encrypted_reaction: string;
+  user: { username: string; display_name: string | null } | null;
+}
+
+interface DirectMessageReactionRow extends ReactionRow {
+  recipient_id: string;
+}
+
+const REACTION_COLUMNS = `
+  id,
+  message_id,
+  user_id,
+  encrypted_reaction,
+  user:users!user_id (
+    username,
+    display_name
+  )
+`;
+
+const DIRECT_MESSAGE_REACTION_COLUMNS = `${REACTION_COLUMNS}, recipient_id`;
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Serialise a reaction to the plaintext that goes into its envelope. The
+ * message id is included so a reaction cannot be moved to another message.
+ */
+function encodeReaction(body: ReactionBody): string {
+  const length = byteLength(body.emoji);
+  if (length === 0 || length > REACTION_PADDED_BYTES) {
+    throw new Error('That reaction is not supported');
+  }
+
+  return JSON.stringify({
+    messageId: body.messageId,
+    emoji: body.emoji,
+    pad: ' '.repeat(REACTION_PADDED_BYTES - length)
+  });
+}
+
+/**
+ * Read a reaction from its decrypted plaintext, checking it is for the message it is stored under
+ */
+function readReaction(plaintext: string, messageId: string): string {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(plaintext);
+  } catch {
+    throw new Error('Reaction is malformed');
+  }
+
+  if (typeof parsed.emoji !== 'string' || parsed.emoji.length === 0 || byteLength(parsed.emoji) > REACTION_PADDED_BYTES) {
+    throw new Error('Reaction is malformed');
+  }
+
+  if (parsed.messageId !== messageId) {
+    throw new Error('Reaction was made for a different message');
+  }
+
+  return parsed.emoji;
+}
+
+/**
+ * Check the signature on a reaction and turn it into a MessageReaction.
+ * Reactions that are not signed by the user they are stored under are dropped,
+ * so nobody can be shown reacting with something they did not choose.
+ */
+async function toReaction(
+  row: ReactionRow,
+  envelope: MessageEnvelope,
+  target: EnvelopeSignatureTarget,
+  plaintext: string
+): Promise<MessageReaction | null> {
+  if (await verifyEnvelopeSignature(envelope, target) !== 'verified') {
+    console.error('Dropped a reaction that is not signed by its sender:', row.id);
+    return null;
+  }
+
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    userId: row.user_id,
+    userName: row.user?.display_name || row.user?.username || 'Unknown User',
+    emoji: readReaction(plaintext, row.message_id)
+  };
+}
+
+async function openChannelReaction(
+  channelId: string,
+  row: ReactionRow,
+  userId: string
+): Promise<MessageReaction | null> {
+  try {
+    const envelope = decodeEnvelope(row.encrypted_reaction, ['none', 'channel']);
+    const plaintext = envelope.alg === 'none'
+      ? openPlaintextEnvelope(envelope)
+      : await decryptChannelEnvelope(channelId, userId, envelope);
+
+    return await toReaction(row, envelope, { scope: 'channel', scopeId: channelId, senderId: row.user_id }, plaintext);
+  } catch (error) {
+    console.error('Error reading reaction:', error);
+    return null;
+  }
+}
+
+async function openDirectMessageReaction(
+  row: DirectMessageReactionRow,
+  userId: string
+): Promise<MessageReaction | null> {
+  try {
+    const envelope = decodeEnvelope(row.encrypted_reaction, ['pairwise']);
+    const plaintext = await decryptDirectMessageEnvelope(
+      { sender_id: row.user_id, receiver_id: row.recipient_id },
+      envelope,
+      userId
+    );
+
+    return await toReaction(row, envelope, { scope: 'dm', scopeId: row.recipient_id, senderId: row.user_id }, plaintext);
+  } catch (error) {
+    console.error('Error reading reaction:', error);
+    return null;
+  }
+}
+
+function dropUnreadable(reactions: (MessageReaction | null)[]): MessageReaction[] {
+  return reactions.filter((reaction): reaction is MessageReaction => reaction !== null);
+}
+
+/**
+ * Load and decrypt the reactions to some of a channel's messages
+ */
+export async function fetchChannelReactions(
+  channelId: string,
+  messageIds: string[],
+  userId: string
+): Promise<MessageReaction[]> {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('message_reactions')
+    .select(REACTION_COLUMNS)
+    .in('message_id', messageIds)
+    .order('created_at')
+    .overrideTypes<ReactionRow[], { merge: false }>();
+
+  if (error) throw error;
+
+  return dropUnreadable(await Promise.all(
+    (data || []).map(row => openChannelReaction(channelId, row, userId))
+  ));
+}
+
+/**
+ * Load and decrypt one channel reaction, e.g. when it arrives over realtime
+ */
+export async function fetchChannelReaction(
+  channelId: string,
+  reactionId: string,
+  userId: string
+): Promise<MessageReaction | null> {
+  const { data, error } = await supabase
+    .from('message_reactions')
+    .select(REACTION_COLUMNS)
+    .eq('id', reactionId)
+    .maybeSingle()
+    .overrideTypes<ReactionRow, { merge: false }>();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return openChannelReaction(channelId, data, userId);
+}
+
+/**
+ * Load and decrypt the reactions to some of the messages between two users
+ */
+export async function fetchDirectMessageReactions(
+  messageIds: string[],
+  userId: string
+): Promise<MessageReaction[]> {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('direct_message_reactions')
+    .select(DIRECT_MESSAGE_REACTION_COLUMNS)
+    .in('message_id', messageIds)
+    .order('created_at')
+    .overrideTypes<DirectMessageReactionRow[], { merge: false }>();
+
+  if (error) throw error;
+
+  return dropUnreadable(await Promise.all(
+    (data || []).map(row => openDirectMessageReaction(row, userId))
+  ));
+}
+
+/**
+ * Load and decrypt one direct message reaction, e.g. when it arrives over realtime
+ */
+export async function fetchDirectMessageReaction(
+  reactionId: string,
+  userId: string
+): Promise<MessageReaction | null> {
+  const { data, error } = await supabase
+    .from('direct_message_reactions')
+    .select(DIRECT_MESSAGE_REACTION_COLUMNS)
+    .eq('id', reactionId)
+    .maybeSingle()
+    .overrideTypes<DirectMessageReactionRow, { merge: false }>();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return openDirectMessageReaction(data, userId);
+}
+
+/**
+ * React to a channel message. The reaction is sealed under the channel's
+ * encryption policy like a message, and nothing is sent if that fails.
+ * @returns The id of the stored reaction
+ */
+export async function addChannelReaction(
+  policy: EncryptionPolicy,
+  channelId: string,
+  serverId: string,
+  userId: string,
+  messageId: string,
+  emoji: string
+): Promise<string> {
+  const plaintext = encodeReaction({ messageId, emoji });
+  const envelope = await signEnvelope(
+    policy === 'disabled'
+      ? createPlaintextEnvelope(plaintext)
+      : await encryptChannelMessage(channelId, serverId, userId, plaintext),
+    { scope: 'channel', scopeId: channelId, senderId: userId }
+  );
+
+  const { data, error } = await supabase
+    .from('message_reactions')
+    .insert({
+      message_id: messageId,
+      channel_id: channelId,
+      user_id: userId,
+      encrypted_reaction: encodeEnvelope(envelope)
+    })
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to add reaction: ${error.message}`);
+  return data.id;
+}
+
+/**
+ * React to a direct message. Reactions use the pairwise key rather than the
+ * ratchet, so either side can read them at any time without moving it on.
+ * @returns The id of the stored reaction
+ */
+export async function addDirectMessageReaction(
+  userId: string,
+  friendId: string,
+  messageId: string,
+  emoji: string
+): Promise<string> {
+  const encrypted = await encryptDirectMessage(userId, friendId, encodeReaction({ messageId, emoji }));
+  const envelope = await signEnvelope(
+    encrypted,
+    { scope: 'dm', scopeId: friendId, senderId: userId },
+    encrypted.kid.kind === 'pairwise' ? encrypted.kid.sender : undefined
+  );
+
+  const { data, error } = await supabase
+    .from('direct_message_reactions')
+    .insert({
+      message_id: messageId,
+      user_id: userId,
+      recipient_id: friendId,
+      encrypted_reaction: encodeEnvelope(envelope)
+    })
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to add reaction: ${error.message}`);
+  return data.id;
+}
+
+/**
+ * Take back one of the user's own reactions
+ */
+export async function removeReaction(
+  table: 'message_reactions' | 'direct_message_reactions',
+  reactionId: string,
+  userId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from(table)
+    .delete()
+    .eq('id', reactionId)
+    .eq('user_id', userId);
+
+  if (error) throw new Error(`Failed to remove reaction: ${error.message}`);
+}
+
+/**
+ * Group reactions by message
+ */
+export function groupReactions(reactions: MessageReaction[]): Record<string, MessageReaction[]> {
+  const grouped: Record<string, MessageReaction[]> = {};
+  for (const reaction of reactions) {
+    (grouped[reaction.messageId] ||= []).push(reaction);
+  }
+  return grouped;
+}
+
+/**
+ * Count up a message's reactions by emoji, in the order each was first used.
+ * Someone reacting twice with the same emoji is counted once.
+ */
+export function summarizeReactions(reactions: MessageReaction[], userId: string): ReactionSummary[] {
+  const summaries = new Map<string, ReactionSummary & { userIds: Set<string> }>();
+
+  for (const reaction of reactions) {
+    let summary = summaries.get(reaction.emoji);
+    if (!summary) {
+      summary = { emoji: reaction.emoji, count: 0, userNames: [], ownReactionIds: [], userIds: new Set() };
+      summaries.set(reaction.emoji, summary);
+    }
+
+    if (reaction.userId === userId) summary.ownReactionIds.push(reaction.id);
+    if (summary.userIds.has(reaction.userId)) continue;
+
+    summary.userIds.add(reaction.userId);
+    summary.count++;
+    summary.userNames.push(reaction.userName);
+  }
+
+  return Array.from(summaries.values()).map(({ emoji, count, userNames, ownReactionIds }) => ({
+    emoji,
+    count,
+    userNames,
+    ownReactionIds
+  }));
+}
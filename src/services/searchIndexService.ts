@@ -0,0 +1,292 @@
+// src/services/searchIndexService.ts
+
+import { loadPrivateKey } from '../lib/supabase';
+import { useEncryptionStore } from '../stores/encryptionStore';
+import { AttachmentReference } from '../lib/messageEnvelope';
+import { SearchEntry, matchesSearch, parseSearchQuery } from '../lib/searchQuery';
+import {
+  StoredIndexKey,
+  StoredSearchEntry,
+  deleteRecord,
+  deleteRecordsWithPrefix,
+  getRecord,
+  getRecordsWithPrefix,
+  putRecord,
+  putRecords
+} from '../lib/searchStore';
+import { getPublishedKeyVersion } from './encryptionService';
+
+// Most results a search returns, newest first
+const MAX_SEARCH_RESULTS = 50;
+
+// Text shown in place of messages that could not be read, which is not indexed
+const UNREADABLE_PREFIX = '🔒 [';
+
+/**
+ * A decrypted message to add to the index, as the conversation views hold them
+ */
+export interface IndexableMessage {
+  id: string;
+  sender_id: string;
+  sender_username: string;
+  sender_display_name: string | null;
+  encrypted_content: string;
+  created_at: string;
+  updated_at?: string;
+  attachments?: AttachmentReference[];
+  pending?: boolean;
+}
+
+/**
+ * Where indexed messages were sent
+ */
+export type IndexedConversation =
+  | { scope: 'channel'; channelId: string; serverId: string; name: string }
+  | { scope: 'dm'; friendId: string; name: string };
+
+// The index key for this tab, by user id
+const indexKeyCache = new Map<string, Promise<CryptoKey | null>>();
+
+// What has been written to the index this tab, by entry id, so unchanged messages are not written again
+const indexedVersions = new Map<string, string>();
+
+function entryId(userId: string, scope: SearchEntry['scope'], messageId: string): string {
+  return `${userId}:${scope}:${messageId}`;
+}
+
+/**
+ * Derive the key that wraps the index key. It comes from the user's own
+ * identity key agreed with itself, so the index can only be read once
+ * encryption is unlocked, and never by anyone without the user's key.
+ */
+async function deriveWrappingKey(userId: string, keyVersion: number, salt: Uint8Array): Promise<CryptoKey | null> {
+  const [privateKey, publicKeyBase64] = await Promise.all([
+    loadPrivateKey(keyVersion),
+    getPublishedKeyVersion(userId, keyVersion)
+  ]);
+  if (!privateKey || !publicKeyBase64) return null;
+
+  const publicKey = await window.crypto.subtle.importKey(
+    'raw',
+    Uint8Array.from(atob(publicKeyBase64), c => c.charCodeAt(0)),
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    []
+  );
+
+  const secret = await window.crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const hkdfKey = await window.crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+
+  return window.crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt,
+      info: new TextEncoder().encode(`securechat-search-index|${userId}|${keyVersion}`)
+    },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+async function createIndexKey(userId: string): Promise<CryptoKey | null> {
+  const keyVersion = useEncryptionStore.getState().keyVersion;
+  if (keyVersion === null) return null;
+
+  const salt = window.crypto.getRandomValues(new Uint8Array(16));
+  const wrappingKey = await deriveWrappingKey(userId, keyVersion, salt);
+  if (!wrappingKey) return null;
+
+  const indexKey = await window.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const wrappedKey = await window.crypto.subtle.wrapKey('raw', indexKey, wrappingKey, { name: 'AES-GCM', iv });
+
+  // Entries under an older key could never be read again
+  await deleteRecordsWithPrefix('entries', `${userId}:`);
+  await putRecord<StoredIndexKey>('meta', { id: `index-key:${userId}`, keyVersion, salt, iv, wrappedKey });
+
+  return window.crypto.subtle.importKey(
+    'raw',
+    await window.crypto.subtle.exportKey('raw', indexKey),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function openIndexKey(userId: string): Promise<CryptoKey | null> {
+  const stored = await getRecord<StoredIndexKey>('meta', `index-key:${userId}`);
+  if (!stored) return createIndexKey(userId);
+
+  const wrappingKey = await deriveWrappingKey(userId, stored.keyVersion, stored.salt);
+  if (wrappingKey) {
+    try {
+      return await window.crypto.subtle.unwrapKey(
+        'raw',
+        stored.wrappedKey,
+        wrappingKey,
+        { name: 'AES-GCM', iv: stored.iv },
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+    } catch (error) {
+      console.error('Search index key could not be unwrapped:', error);
+    }
+  }
+
+  // The identity key it was wrapped with is gone, so the index starts again
+  return createIndexKey(userId);
+}
+
+/**
+ * Get the key the user's index entries are encrypted with
+ * @returns The key, or null while encryption is locked
+ */
+async function getIndexKey(userId: string): Promise<CryptoKey | null> {
+  if (useEncryptionStore.getState().status !== 'unlocked') return null;
+
+  let cached = indexKeyCache.get(userId);
+  if (!cached) {
+    cached = openIndexKey(userId);
+    indexKeyCache.set(userId, cached);
+    cached.then(key => {
+      if (!key) indexKeyCache.delete(userId);
+    }, () => indexKeyCache.delete(userId));
+  }
+
+  return cached;
+}
+
+/**
+ * Forget the index key, e.g. when signing out or locking encryption
+ */
+export function clearSearchIndexKeyCache() {
+  indexKeyCache.clear();
+  indexedVersions.clear();
+}
+
+async function encryptEntry(key: CryptoKey, id: string, entry: SearchEntry): Promise<StoredSearchEntry> {
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await window.crypto.subtle.encrypt(
+    // Bound to its id, so entries cannot be swapped around in storage
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(id) },
+    key,
+    new TextEncoder().encode(JSON.stringify(entry))
+  );
+  return { id, ciphertext, iv };
+}
+
+async function decryptEntry(key: CryptoKey, stored: StoredSearchEntry): Promise<SearchEntry | null> {
+  try {
+    const plaintext = await window.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: stored.iv, additionalData: new TextEncoder().encode(stored.id) },
+      key,
+      stored.ciphertext
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext)) as SearchEntry;
+  } catch (error) {
+    console.error('Skipped an unreadable search index entry:', error);
+    return null;
+  }
+}
+
+/**
+ * Add decrypted messages to this device's search index, or update them if
+ * they changed. Messages still being sent or that could not be decrypted are
+ * left out. Indexing is best effort and never interrupts the conversation.
+ */
+export async function indexMessages(
+  userId: string,
+  conversation: IndexedConversation,
+  messages: IndexableMessage[]
+): Promise<void> {
+  try {
+    const fresh = messages.filter(message => {
+      if (message.pending || message.encrypted_content.startsWith(UNREADABLE_PREFIX)) return false;
+      const id = entryId(userId, conversation.scope, message.id);
+      return indexedVersions.get(id) !== `${message.updated_at ?? message.created_at}|${conversation.name}`;
+    });
+    if (fresh.length === 0) return;
+
+    const key = await getIndexKey(userId);
+    if (!key) return;
+
+    const records = await Promise.all(fresh.map(message => {
+      const entry: SearchEntry = {
+        messageId: message.id,
+        scope: conversation.scope,
+        conversationId: conversation.scope === 'channel' ? conversation.channelId : conversation.friendId,
+        conversationName: conversation.name,
+        serverId: conversation.scope === 'channel' ? conversation.serverId : null,
+        senderId: message.sender_id,
+        senderName: message.sender_display_name || message.sender_username,
+        text: message.encrypted_content,
+        hasFile: (message.attachments?.length ?? 0) > 0,
+        createdAt: message.created_at
+      };
+      return encryptEntry(key, entryId(userId, conversation.scope, message.id), entry);
+    }));
+
+    await putRecords('entries', records);
+    for (const message of fresh) {
+      indexedVersions.set(
+        entryId(userId, conversation.scope, message.id),
+        `${message.updated_at ?? message.created_at}|${conversation.name}`
+      );
+    }
+  } catch (error) {
+    console.error('Error updating the search index:', error);
+  }
+}
+
+/**
+ * Take a deleted message out of the search index
+ */
+export async function removeFromIndex(userId: string, scope: SearchEntry['scope'], messageId: string): Promise<void> {
+  const id = entryId(userId, scope, messageId);
+  indexedVersions.delete(id);
+
+  try {
+    await deleteRecord('entries', id);
+  } catch (error) {
+    console.error('Error updating the search index:', error);
+  }
+}
+
+/**
+ * Search the messages this device has indexed. Everything happens locally:
+ * the entries are decrypted and matched here, and the query never leaves the browser.
+ * @returns Matching messages, newest first, or null while encryption is locked
+ */
+export async function searchMessages(
+  userId: string,
+  input: string
+): Promise<{ results: SearchEntry[]; indexedCount: number } | null> {
+  const key = await getIndexKey(userId);
+  if (!key) return null;
+
+  const stored = await getRecordsWithPrefix<StoredSearchEntry>('entries', `${userId}:`);
+  const entries = (await Promise.all(stored.map(entry => decryptEntry(key, entry))))
+    .filter((entry): entry is SearchEntry => entry !== null);
+
+  const query = parseSearchQuery(input);
+  const results = entries
+    .filter(entry => matchesSearch(entry, query))
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1))
+    .slice(0, MAX_SEARCH_RESULTS);
+
+  return { results, indexedCount: entries.length };
+}
+
+/**
+ * Delete everything this device has indexed for the user
+ */
+export async function clearSearchIndex(userId: string): Promise<void> {
+  for (const id of Array.from(indexedVersions.keys())) {
+    if (id.startsWith(`${userId}:`)) indexedVersions.delete(id);
+  }
+  await deleteRecordsWithPrefix('entries', `${userId}:`);
+}
@@ -68,47 +68,39 @@ async function generateAndStoreNewKey(entityId: string): Promise<string> {
 }
 
 /**
- * Encrypt a message for a channel or direct message
+ * Encrypt a message for a channel or direct message.
+ * Throws if the message cannot be encrypted; it is never returned in plaintext.
  */
 export async function encryptMessage(entityId: string, message: string): Promise<{ encrypted: string; iv: string }> {
-  try {
-    // Get the entity encryption key
-    const keyString = await getEntityEncryptionKey(entityId);
-    
-    // Convert the key string to a CryptoKey
-    const keyData = Uint8Array.from(atob(keyString), c => c.charCodeAt(0));
-    const key = await window.crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt']
-    );
-    
-    // Generate a new IV (Initialization Vector)
-    const iv = window.crypto.getRandomValues(new Uint8Array(12));
-    
-    // Encrypt the message
-    const encoded = new TextEncoder().encode(message);
-    const encrypted = await window.crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      encoded
-    );
-    
-    // Return the encrypted message and IV as base64 strings
-    return {
-      encrypted: btoa(String.fromCharCode(...new Uint8Array(encrypted))),
-      iv: btoa(String.fromCharCode(...iv))
-    };
-  } catch (error) {
-    console.error('Encryption error:', error);
-    // In case of any error, return the message unencrypted
-    return { 
-      encrypted: message,
-      iv: 'unencrypted'
-    };
-  }
+  // Get the entity encryption key
+  const keyString = await getEntityEncryptionKey(entityId);
+  
+  // Convert the key string to a CryptoKey
+  const keyData = Uint8Array.from(atob(keyString), c => c.charCodeAt(0));
+  const key = await window.crypto.subtle.importKey(
+    'raw',
+    keyData,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt']
+  );
+  
+  // Generate a new IV (Initialization Vector)
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  
+  // Encrypt the message
+  const encoded = new TextEncoder().encode(message);
+  const encrypted = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    encoded
+  );
+  
+  // Return the encrypted message and IV as base64 strings
+  return {
+    encrypted: btoa(String.fromCharCode(...new Uint8Array(encrypted))),
+    iv: btoa(String.fromCharCode(...iv))
+  };
 }
 
 /**
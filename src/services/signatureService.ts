@@ -0,0 +1,234 @@
+// src/services/signatureService.ts
+
+import { loadSigningKey } from '../lib/supabase';
+import { MessageEnvelope, envelopeSigningInput } from '../lib/messageEnvelope';
+import { getPublishedSigningKey } from './encryptionService';
+
+export type SignatureStatus = 'verified' | 'unverified';
+
+export interface SignedMessageFields {
+  // Where the message was sent: a channel id, or the receiver id for direct messages
+  scope: 'channel' | 'dm';
+  scopeId: string;
+  senderId: string;
+  encryptedContent: string;
+  // Envelopes carry their nonce inside encryptedContent
+  iv?: string;
+}
+
+// Where an envelope was sent and who sent it
+export type EnvelopeSignatureTarget = Omit<SignedMessageFields, 'encryptedContent' | 'iv'>;
+
+// A wrapped copy of a channel key, as signed by the member who wrapped it
+export interface SignedChannelKeyFields {
+  channelId: string;
+  epoch: number;
+  recipientId: string;
+  wrappedBy: string;
+  // The recipient's identity key version the copy was wrapped for
+  keyVersion: number;
+  ephemeralPublicKey: string;
+  iv: string;
+  wrappedKey: string;
+}
+
+// Imported verification keys, keyed by user id and key version
+const verifyKeyCache = new Map<string, Promise<CryptoKey | null>>();
+
+/**
+ * Serialise the fields covered by a signature. Binding the sender and the
+ * channel or receiver stops a valid ciphertext being replayed elsewhere or
+ * attributed to someone else.
+ */
+function signedMessagePayload(fields: SignedMessageFields, keyVersion: number): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    'securechat-signature-v1',
+    fields.scope,
+    fields.scopeId,
+    fields.senderId,
+    keyVersion,
+    fields.encryptedContent,
+    fields.iv ?? null,
+  ]));
+}
+
+/**
+ * Serialise a wrapped channel key for signing. Binding the recipient, channel
+ * and epoch stops a copy being moved to another member or channel.
+ */
+function signedChannelKeyPayload(fields: SignedChannelKeyFields, keyVersion: number): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    'securechat-channel-key-v1',
+    fields.channelId,
+    fields.epoch,
+    fields.recipientId,
+    fields.wrappedBy,
+    keyVersion,
+    fields.keyVersion,
+    fields.ephemeralPublicKey,
+    fields.iv,
+    fields.wrappedKey,
+  ]));
+}
+
+async function getVerifyKey(userId: string, keyVersion: number): Promise<CryptoKey | null> {
+  const cacheKey = `${userId}:${keyVersion}`;
+  let cached = verifyKeyCache.get(cacheKey);
+
+  if (!cached) {
+    cached = (async () => {
+      // Keys from before signing keys existed have none, so cannot verify anything
+      const publicKey = await getPublishedSigningKey(userId, keyVersion);
+      if (!publicKey) return null;
+
+      return window.crypto.subtle.importKey(
+        'raw',
+        Uint8Array.from(atob(publicKey), c => c.charCodeAt(0)),
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['verify']
+      );
+    })();
+
+    verifyKeyCache.set(cacheKey, cached);
+    cached.then(key => {
+      if (!key) verifyKeyCache.delete(cacheKey);
+    }, () => verifyKeyCache.delete(cacheKey));
+  }
+
+  return cached;
+}
+
+/**
+ * Sign a payload with the signing key of one of the user's identity keys
+ * @param keyVersion The identity key version to sign with, or the current one if omitted
+ */
+async function signPayload(
+  payload: (keyVersion: number) => Uint8Array,
+  keyVersion?: number
+): Promise<{ signature: string; keyVersion: number }> {
+  const signing = await loadSigningKey(keyVersion);
+  if (!signing) {
+    throw new Error('Encryption is locked. Unlock your keys to send messages.');
+  }
+
+  const signature = await window.crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    signing.signingKey,
+    payload(signing.keyVersion)
+  );
+
+  return {
+    signature: btoa(String.fromCharCode(...new Uint8Array(signature))),
+    keyVersion: signing.keyVersion,
+  };
+}
+
+/**
+ * Check a signature against the published signing key of the user it claims to be from
+ */
+async function verifyPayload(
+  signerId: string,
+  payload: Uint8Array,
+  signature: string,
+  keyVersion: number
+): Promise<boolean> {
+  try {
+    const verifyKey = await getVerifyKey(signerId, keyVersion);
+    if (!verifyKey) return false;
+
+    return await window.crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      verifyKey,
+      Uint8Array.from(atob(signature), c => c.charCodeAt(0)),
+      payload
+    );
+  } catch (error) {
+    console.error('Signature verification error:', error);
+    return false;
+  }
+}
+
+/**
+ * Sign an encrypted message with the signing key of the sender's identity key
+ * @param keyVersion The identity key version to sign with, or the current one if omitted
+ */
+export async function signMessage(
+  fields: SignedMessageFields,
+  keyVersion?: number
+): Promise<{ signature: string; keyVersion: number }> {
+  return signPayload(signedWith => signedMessagePayload(fields, signedWith), keyVersion);
+}
+
+/**
+ * Check that a message was signed by the user it claims to be from.
+ * Messages without a signature are treated as unverified.
+ */
+export async function verifyMessageSignature(
+  fields: SignedMessageFields,
+  signature: string | null | undefined,
+  keyVersion: number | null | undefined
+): Promise<SignatureStatus> {
+  if (!signature || keyVersion === null || keyVersion === undefined) {
+    return 'unverified';
+  }
+
+  const valid = await verifyPayload(fields.senderId, signedMessagePayload(fields, keyVersion), signature, keyVersion);
+  return valid ? 'verified' : 'unverified';
+}
+
+/**
+ * Sign a wrapped channel key with the current signing key of the member who wrapped it
+ */
+export async function signWrappedChannelKey(
+  fields: SignedChannelKeyFields
+): Promise<{ signature: string; keyVersion: number }> {
+  return signPayload(signedWith => signedChannelKeyPayload(fields, signedWith));
+}
+
+/**
+ * Check that a wrapped channel key was signed by the member named as its wrapper.
+ * Unsigned copies are never valid.
+ */
+export async function verifyWrappedChannelKey(
+  fields: SignedChannelKeyFields,
+  signature: string | null | undefined,
+  keyVersion: number | null | undefined
+): Promise<boolean> {
+  if (!signature || keyVersion === null || keyVersion === undefined) {
+    return false;
+  }
+
+  return verifyPayload(fields.wrappedBy, signedChannelKeyPayload(fields, keyVersion), signature, keyVersion);
+}
+
+/**
+ * Sign an envelope, returning a copy that carries the signature
+ * @param keyVersion The identity key version to sign with, or the current one if omitted
+ */
+export async function signEnvelope(
+  envelope: MessageEnvelope,
+  target: EnvelopeSignatureTarget,
+  keyVersion?: number
+): Promise<MessageEnvelope> {
+  const { signature, keyVersion: signedWith } = await signMessage(
+    { ...target, encryptedContent: envelopeSigningInput(envelope) },
+    keyVersion
+  );
+
+  return { ...envelope, sig: { kv: signedWith, value: signature } };
+}
+
+/**
+ * Check the signature an envelope carries
+ */
+export async function verifyEnvelopeSignature(
+  envelope: MessageEnvelope,
+  target: EnvelopeSignatureTarget
+): Promise<SignatureStatus> {
+  return verifyMessageSignature(
+    { ...target, encryptedContent: envelopeSigningInput(envelope) },
+    envelope.sig?.value,
+    envelope.sig?.kv
+  );
+}
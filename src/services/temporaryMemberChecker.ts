@@ -1,6 +1,7 @@
 // src/services/temporaryMemberChecker.ts
 
 import { supabase } from '../lib/supabase';
+import { rotatePendingChannelKeys } from './channelEncryptionService';
 
 export class TemporaryMemberChecker {
   private static instance: TemporaryMemberChecker;
@@ -91,6 +92,13 @@ export class TemporaryMemberChecker {
       if (data > 0) {
         console.log(`Removed ${data} expired temporary members`);
         
+        // Rotate the keys of channels the removed members could read
+        if (session?.user) {
+          rotatePendingChannelKeys(session.user.id).catch((rotateError) => {
+            console.error('Error rotating channel keys:', rotateError);
+          });
+        }
+        
         // Trigger a general refresh event
         const event = new CustomEvent('temporary-members-removed', { detail: { count: data } });
         window.dispatchEvent(event);
@@ -0,0 +1,178 @@
+// src/services/verificationService.ts
+
+import { supabase } from '../lib/supabase';
+import { getPublishedKey, clearPublishedKeyCache, PublishedKey } from './encryptionService';
+
+export type VerificationStatus = 'unverified' | 'verified' | 'changed' | 'no-key';
+
+export interface SafetyNumber {
+  // 60 digits, shown as 12 groups of 5
+  digits: string;
+  // 16x16 grid of cells, row-major, for side-by-side visual comparison
+  grid: boolean[];
+}
+
+// Number of hash iterations per fingerprint half, to make collisions costly to search for
+const FINGERPRINT_ITERATIONS = 5200;
+const FINGERPRINT_VERSION = 0;
+
+/**
+ * Hash one user's identity into the 30 bytes used for their half of the safety number
+ */
+async function fingerprintHalf(userId: string, publicKey: string): Promise<Uint8Array> {
+  const keyData = Uint8Array.from(atob(publicKey), c => c.charCodeAt(0));
+  const idData = new TextEncoder().encode(userId);
+
+  let hash = new Uint8Array([FINGERPRINT_VERSION, ...keyData, ...idData]);
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    const input = new Uint8Array([...hash, ...keyData]);
+    hash = new Uint8Array(await window.crypto.subtle.digest('SHA-256', input));
+  }
+
+  return hash.slice(0, 30);
+}
+
+/**
+ * Turn 30 bytes into 30 digits, five digits for every five bytes
+ */
+function encodeDigits(bytes: Uint8Array): string {
+  let digits = '';
+  for (let i = 0; i < 30; i += 5) {
+    const chunk =
+      bytes[i] * 2 ** 32 +
+      bytes[i + 1] * 2 ** 24 +
+      bytes[i + 2] * 2 ** 16 +
+      bytes[i + 3] * 2 ** 8 +
+      bytes[i + 4];
+    digits += (chunk % 100000).toString().padStart(5, '0');
+  }
+  return digits;
+}
+
+/**
+ * Compute the safety number for a pair of users.
+ * Both users get the same result because the halves are ordered by user id.
+ */
+export async function computeSafetyNumber(
+  userId: string,
+  publicKey: string,
+  contactId: string,
+  contactPublicKey: string
+): Promise<SafetyNumber> {
+  const halves = [
+    { id: userId, key: publicKey },
+    { id: contactId, key: contactPublicKey },
+  ].sort((a, b) => a.id.localeCompare(b.id));
+
+  const [first, second] = await Promise.all(
+    halves.map(half => fingerprintHalf(half.id, half.key))
+  );
+
+  const digits = encodeDigits(first) + encodeDigits(second);
+
+  const combined = new Uint8Array(
+    await window.crypto.subtle.digest('SHA-256', new Uint8Array([...first, ...second]))
+  );
+  const grid: boolean[] = [];
+  for (const byte of combined) {
+    for (let bit = 7; bit >= 0; bit--) {
+      grid.push(((byte >> bit) & 1) === 1);
+    }
+  }
+
+  return { digits, grid };
+}
+
+/**
+ * Work out whether a contact's current key matches the one the user verified
+ */
+function statusFor(
+  currentKey: PublishedKey | null | undefined,
+  verifiedKey: string | undefined
+): VerificationStatus {
+  if (!currentKey) return 'no-key';
+  if (!verifiedKey) return 'unverified';
+  return verifiedKey === currentKey.public_key ? 'verified' : 'changed';
+}
+
+/**
+ * Get the verification status of a single contact
+ */
+export async function getVerificationStatus(userId: string, contactId: string): Promise<VerificationStatus> {
+  const statuses = await getVerificationStatuses(userId, [contactId]);
+  return statuses[contactId];
+}
+
+/**
+ * Get the verification status of several contacts at once
+ */
+export async function getVerificationStatuses(
+  userId: string,
+  contactIds: string[]
+): Promise<Record<string, VerificationStatus>> {
+  if (contactIds.length === 0) return {};
+
+  const [{ data: verifications, error: verificationsError }, { data: keys, error: keysError }] =
+    await Promise.all([
+      supabase
+        .from('contact_verifications')
+        .select('contact_id, verified_public_key')
+        .eq('user_id', userId)
+        .in('contact_id', contactIds),
+      supabase
+        .from('user_keys')
+        .select('user_id, public_key, key_version')
+        .in('user_id', contactIds),
+    ]);
+
+  if (verificationsError) throw verificationsError;
+  if (keysError) throw keysError;
+
+  const statuses: Record<string, VerificationStatus> = {};
+  for (const contactId of contactIds) {
+    const currentKey = keys?.find(key => key.user_id === contactId);
+    const verification = verifications?.find(v => v.contact_id === contactId);
+    statuses[contactId] = statusFor(currentKey, verification?.verified_public_key);
+  }
+
+  return statuses;
+}
+
+/**
+ * Fetch a contact's current key, bypassing the cache so a freshly rotated key is seen
+ */
+export async function getCurrentContactKey(contactId: string): Promise<PublishedKey | null> {
+  clearPublishedKeyCache(contactId);
+  return getPublishedKey(contactId);
+}
+
+/**
+ * Record that the user compared safety numbers with a contact and they matched
+ * @param contactKey The key the safety number was computed from
+ */
+export async function markContactVerified(userId: string, contactId: string, contactKey: PublishedKey) {
+  const { error } = await supabase
+    .from('contact_verifications')
+    .upsert({
+      user_id: userId,
+      contact_id: contactId,
+      verified_public_key: contactKey.public_key,
+      verified_key_version: contactKey.key_version,
+      verified_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+}
+
+/**
+ * Remove a contact's verified status
+ */
+export async function clearContactVerification(userId: string, contactId: string) {
+  const { error } = await supabase
+    .from('contact_verifications')
+    .delete()
+    .eq('user_id', userId)
+    .eq('contact_id', contactId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+
+export type EncryptionStatus = 'checking' | 'setup-required' | 'locked' | 'unlocked';
+
+interface EncryptionState {
+  status: EncryptionStatus;
+  // The current identity private key and its version
+  privateKey: CryptoKey | null;
+  keyVersion: number | null;
+  // Every unlocked identity private key, by key version, so older messages stay readable
+  keyring: Record<number, CryptoKey>;
+  // The signing key of each identity key version, used to sign outgoing messages
+  signingKeyring: Record<number, CryptoKey>;
+  setStatus: (status: EncryptionStatus) => void;
+  unlock: (
+    keyring: Record<number, CryptoKey>,
+    signingKeyring: Record<number, CryptoKey>,
+    keyVersion: number
+  ) => void;
+  addKey: (keyVersion: number, privateKey: CryptoKey, signingKey: CryptoKey | null) => void;
+  lock: () => void;
+}
+
+// Unlocked private keys only ever live in memory for this tab
+export const useEncryptionStore = create<EncryptionState>((set) => ({
+  status: 'checking',
+  privateKey: null,
+  keyVersion: null,
+  keyring: {},
+  signingKeyring: {},
+  setStatus: (status) => set({ status }),
+  unlock: (keyring, signingKeyring, keyVersion) =>
+    set({ keyring, signingKeyring, keyVersion, privateKey: keyring[keyVersion] ?? null, status: 'unlocked' }),
+  addKey: (keyVersion, privateKey, signingKey) =>
+    set((state) => {
+      const keyring = { ...state.keyring, [keyVersion]: privateKey };
+      const signingKeyring = signingKey
+        ? { ...state.signingKeyring, [keyVersion]: signingKey }
+        : state.signingKeyring;
+      // A newer key becomes the current one
+      if (state.keyVersion === null || keyVersion >= state.keyVersion) {
+        return { keyring, signingKeyring, keyVersion, privateKey, status: 'unlocked' };
+      }
+      return { keyring, signingKeyring };
+    }),
+  lock: () => set({ privateKey: null, keyVersion: null, keyring: {}, signingKeyring: {}, status: 'checking' }),
+}));
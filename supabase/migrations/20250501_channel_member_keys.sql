@@ -0,0 +1,98 @@
+-- Migration file: supabase/migrations/20250501_channel_member_keys.sql
+
+-- One row per channel that has a client-generated key. The key itself is never
+-- stored here; this row only records that the key exists and who created it.
+CREATE TABLE IF NOT EXISTS public.channel_keys (
+  channel_id UUID PRIMARY KEY REFERENCES public.channels(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- A copy of the channel key for each member, wrapped with an ECDH key derived
+-- from an ephemeral key pair and the member's public key in user_keys
+CREATE TABLE IF NOT EXISTS public.channel_member_keys (
+  channel_id UUID REFERENCES public.channel_keys(channel_id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  ephemeral_public_key TEXT NOT NULL,
+  wrapped_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (channel_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_member_keys_user_id ON public.channel_member_keys (user_id);
+
+-- Helper used by the policies below to check channel membership through the server
+CREATE OR REPLACE FUNCTION is_channel_member(
+  p_channel_id UUID,
+  p_user_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.channels c
+    JOIN public.server_members sm ON sm.server_id = c.server_id
+    WHERE c.id = p_channel_id
+    AND sm.user_id = p_user_id
+  );
+$$;
+
+-- Enable RLS
+ALTER TABLE public.channel_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.channel_member_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Channel members can view channel keys"
+ON public.channel_keys FOR SELECT
+TO authenticated
+USING (is_channel_member(channel_id, auth.uid()));
+
+CREATE POLICY "Channel members can create channel keys"
+ON public.channel_keys FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND is_channel_member(channel_id, auth.uid())
+);
+
+-- Wrapped keys are ciphertext, so members may see which other members already
+-- hold a copy. This lets any member share the key with newcomers.
+CREATE POLICY "Channel members can view wrapped keys"
+ON public.channel_member_keys FOR SELECT
+TO authenticated
+USING (is_channel_member(channel_id, auth.uid()));
+
+CREATE POLICY "Channel members can share keys with other members"
+ON public.channel_member_keys FOR INSERT
+TO authenticated
+WITH CHECK (
+  wrapped_by = auth.uid()
+  AND is_channel_member(channel_id, auth.uid())
+  AND is_channel_member(channel_id, user_id)
+);
+
+-- Drop wrapped keys when a member leaves the server
+CREATE OR REPLACE FUNCTION remove_member_channel_keys()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM public.channel_member_keys cmk
+  USING public.channels c
+  WHERE c.id = cmk.channel_id
+    AND c.server_id = OLD.server_id
+    AND cmk.user_id = OLD.user_id;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS server_members_remove_channel_keys ON public.server_members;
+CREATE TRIGGER server_members_remove_channel_keys
+AFTER DELETE ON public.server_members
+FOR EACH ROW
+EXECUTE FUNCTION remove_member_channel_keys();
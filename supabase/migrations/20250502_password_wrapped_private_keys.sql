@@ -0,0 +1,30 @@
+-- Migration file: supabase/migrations/20250502_password_wrapped_private_keys.sql
+
+-- Private keys wrapped with a key derived from the user's encryption password.
+-- Kept apart from user_keys because public keys are readable by everyone.
+CREATE TABLE IF NOT EXISTS public.user_private_keys (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  encrypted_private_key TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  salt TEXT NOT NULL,
+  kdf TEXT NOT NULL DEFAULT 'PBKDF2-SHA256',
+  kdf_iterations INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.user_private_keys ENABLE ROW LEVEL SECURITY;
+
+-- Only the owner can ever read or change their wrapped private key
+CREATE POLICY "Users can manage their own private key"
+ON public.user_private_keys FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_user_private_keys_updated_at ON public.user_private_keys;
+CREATE TRIGGER update_user_private_keys_updated_at
+    BEFORE UPDATE ON public.user_private_keys
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,11 @@
+-- Migration file: supabase/migrations/20250503_pairwise_direct_messages.sql
+
+-- Version published identity keys so messages can record which key they used
+ALTER TABLE public.user_keys ADD COLUMN IF NOT EXISTS key_version INTEGER NOT NULL DEFAULT 1;
+
+-- Per-message key agreement parameters for pairwise ECDH direct messages
+-- (encryption_version 3). kdf_salt is the HKDF salt for the message key.
+ALTER TABLE public.direct_messages ADD COLUMN IF NOT EXISTS kdf_salt TEXT;
+ALTER TABLE public.direct_messages ADD COLUMN IF NOT EXISTS sender_key_version INTEGER;
+ALTER TABLE public.direct_messages ADD COLUMN IF NOT EXISTS recipient_key_version INTEGER;
+
@@ -0,0 +1,22 @@
+-- Migration file: supabase/migrations/20250504_contact_verifications.sql
+
+-- Contacts whose safety number the user has compared and confirmed.
+-- The verified key is stored so clients can warn when it changes.
+CREATE TABLE IF NOT EXISTS public.contact_verifications (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  verified_public_key TEXT NOT NULL,
+  verified_key_version INTEGER NOT NULL,
+  verified_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (user_id, contact_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.contact_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Verification state is private to the user who did the verifying
+CREATE POLICY "Users can manage their own contact verifications"
+ON public.contact_verifications FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
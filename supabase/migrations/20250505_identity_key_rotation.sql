@@ -0,0 +1,104 @@
+-- Migration file: supabase/migrations/20250505_identity_key_rotation.sql
+
+-- Every public key a user has ever published, so messages encrypted to an
+-- older key version can still be decrypted after a rotation
+CREATE TABLE IF NOT EXISTS public.user_key_history (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  key_version INTEGER NOT NULL,
+  public_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (user_id, key_version)
+);
+
+ALTER TABLE public.user_key_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all public key history"
+ON public.user_key_history FOR SELECT
+TO authenticated
+USING (true);
+
+-- Backfill the history with the keys that are currently published
+INSERT INTO public.user_key_history (user_id, key_version, public_key, created_at)
+SELECT user_id, key_version, public_key, created_at
+FROM public.user_keys
+ON CONFLICT DO NOTHING;
+
+-- Append to the history whenever a key is published or rotated
+CREATE OR REPLACE FUNCTION record_user_key_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.key_version <= OLD.key_version AND NEW.public_key <> OLD.public_key THEN
+    RAISE EXCEPTION 'A new public key must use a higher key_version';
+  END IF;
+
+  INSERT INTO public.user_key_history (user_id, key_version, public_key)
+  VALUES (NEW.user_id, NEW.key_version, NEW.public_key)
+  ON CONFLICT (user_id, key_version) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_keys_record_history ON public.user_keys;
+CREATE TRIGGER user_keys_record_history
+AFTER INSERT OR UPDATE ON public.user_keys
+FOR EACH ROW
+EXECUTE FUNCTION record_user_key_history();
+
+-- The keyring: keep every wrapped private key, one row per key version
+ALTER TABLE public.user_private_keys ADD COLUMN IF NOT EXISTS key_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.user_private_keys DROP CONSTRAINT IF EXISTS user_private_keys_pkey;
+ALTER TABLE public.user_private_keys ADD PRIMARY KEY (user_id, key_version);
+
+-- Record which recipient key version each wrapped channel key was made for
+ALTER TABLE public.channel_member_keys ADD COLUMN IF NOT EXISTS key_version INTEGER NOT NULL DEFAULT 1;
+
+-- Members re-wrap their own channel keys for a new identity key after rotating
+CREATE POLICY "Members can re-wrap their own channel keys"
+ON public.channel_member_keys FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid() AND wrapped_by = auth.uid());
+
+-- Tell contacts that a user published a new identity key
+CREATE TABLE IF NOT EXISTS public.key_change_notices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  recipient_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  key_version INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  seen_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_key_change_notices_recipient ON public.key_change_notices (recipient_id, seen_at);
+
+ALTER TABLE public.key_change_notices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view notices sent to them"
+ON public.key_change_notices FOR SELECT
+TO authenticated
+USING (recipient_id = auth.uid());
+
+CREATE POLICY "Users can mark notices as seen"
+ON public.key_change_notices FOR UPDATE
+TO authenticated
+USING (recipient_id = auth.uid());
+
+-- Users may only announce changes to their own key, and only to friends
+CREATE POLICY "Users can notify friends about their key changes"
+ON public.key_change_notices FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.friends f
+    WHERE f.status = 'accepted'
+    AND (
+      (f.user_id1 = auth.uid() AND f.user_id2 = recipient_id)
+      OR (f.user_id2 = auth.uid() AND f.user_id1 = recipient_id)
+    )
+  )
+);
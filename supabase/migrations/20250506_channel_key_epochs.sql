@@ -0,0 +1,135 @@
+-- Migration file: supabase/migrations/20250506_channel_key_epochs.sql
+
+-- Channel keys are versioned by epoch. Removing a member marks the channel for
+-- rotation; the next remaining member to act generates a new key for the next
+-- epoch and wraps it only for the members who are still in the server.
+ALTER TABLE public.channel_keys ADD COLUMN IF NOT EXISTS current_epoch INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.channel_keys ADD COLUMN IF NOT EXISTS rotation_pending BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.channel_keys ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMPTZ;
+
+-- Members keep a wrapped copy of every epoch so older messages stay readable
+ALTER TABLE public.channel_member_keys ADD COLUMN IF NOT EXISTS epoch INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.channel_member_keys DROP CONSTRAINT IF EXISTS channel_member_keys_pkey;
+ALTER TABLE public.channel_member_keys ADD PRIMARY KEY (channel_id, user_id, epoch);
+
+-- The epoch a channel message was encrypted under
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS key_epoch INTEGER;
+
+-- rotate_encryption_key used to replace the server-held key, which made every
+-- message encrypted with it unreadable. Channel messages are now encrypted with
+-- client-held keys, so rotating means flagging those keys for a new epoch.
+-- The legacy server-held key is left alone because old messages still need it.
+-- This is only called from other functions and triggers, which check who may
+-- rotate, so it cannot be called directly.
+CREATE OR REPLACE FUNCTION flag_channel_keys_for_rotation(
+  entity_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- entity_id may be a server (rotate all of its channels) or a single channel
+  UPDATE public.channel_keys ck
+  SET rotation_pending = true
+  FROM public.channels c
+  WHERE c.id = ck.channel_id
+    AND (c.server_id = $1 OR c.id = $1);
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION flag_channel_keys_for_rotation(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Rotate the keys of a server's channels, or of one channel. Only the server's
+-- owner and admins can.
+CREATE OR REPLACE FUNCTION rotate_encryption_key(
+  entity_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target_server_id UUID;
+BEGIN
+  SELECT s.id INTO target_server_id
+  FROM public.servers s
+  WHERE s.id = $1
+    OR s.id = (SELECT c.server_id FROM public.channels c WHERE c.id = $1);
+
+  IF target_server_id IS NULL OR NOT EXISTS (
+    SELECT 1
+    FROM public.servers s
+    WHERE s.id = target_server_id
+    AND (
+      s.owner_id = auth.uid()
+      OR EXISTS (
+        SELECT 1
+        FROM public.server_members sm
+        WHERE sm.server_id = s.id
+        AND sm.user_id = auth.uid()
+        AND sm.role IN ('owner', 'admin')
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Only server owners and admins can rotate encryption keys'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN flag_channel_keys_for_rotation($1);
+END;
+$$;
+
+-- Move a channel to its next epoch. Only succeeds for the caller who saw the
+-- current epoch, so concurrent rotations do not generate competing keys.
+CREATE OR REPLACE FUNCTION advance_channel_epoch(
+  p_channel_id UUID,
+  p_expected_epoch INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_epoch INTEGER;
+BEGIN
+  IF NOT is_channel_member(p_channel_id, auth.uid()) THEN
+    RAISE EXCEPTION 'You must be a member of this channel to rotate its key';
+  END IF;
+
+  UPDATE public.channel_keys
+  SET
+    current_epoch = current_epoch + 1,
+    rotation_pending = false,
+    rotated_at = now()
+  WHERE channel_id = p_channel_id
+    AND current_epoch = p_expected_epoch
+  RETURNING current_epoch INTO new_epoch;
+
+  RETURN new_epoch;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION advance_channel_epoch(UUID, INTEGER) TO authenticated;
+
+-- Kicks (kick_server_member), expiries (cleanup_expired_members) and members
+-- leaving all delete from server_members, so rotation is requested here
+CREATE OR REPLACE FUNCTION remove_member_channel_keys()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  DELETE FROM public.channel_member_keys cmk
+  USING public.channels c
+  WHERE c.id = cmk.channel_id
+    AND c.server_id = OLD.server_id
+    AND cmk.user_id = OLD.user_id;
+
+  PERFORM flag_channel_keys_for_rotation(OLD.server_id);
+
+  RETURN OLD;
+END;
+$$;
@@ -0,0 +1,44 @@
+-- Migration file: supabase/migrations/20250507_key_recovery.sql
+
+-- A random backup key that encrypts a second copy of every private key in the
+-- keyring. The backup key is itself wrapped twice: once with the recovery code
+-- (to recover after forgetting the password) and once with the encryption
+-- password (so newly rotated keys can be backed up without the code).
+CREATE TABLE IF NOT EXISTS public.user_key_backups (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  recovery_wrapped_key TEXT NOT NULL,
+  recovery_iv TEXT NOT NULL,
+  recovery_salt TEXT NOT NULL,
+  password_wrapped_key TEXT NOT NULL,
+  password_iv TEXT NOT NULL,
+  password_salt TEXT NOT NULL,
+  kdf TEXT NOT NULL DEFAULT 'PBKDF2-SHA256',
+  kdf_iterations INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.user_key_backups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own key backup"
+ON public.user_key_backups FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_user_key_backups_updated_at ON public.user_key_backups;
+CREATE TRIGGER update_user_key_backups_updated_at
+    BEFORE UPDATE ON public.user_key_backups
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- The copy of each private key encrypted with the backup key
+ALTER TABLE public.user_private_keys ADD COLUMN IF NOT EXISTS backup_encrypted_private_key TEXT;
+ALTER TABLE public.user_private_keys ADD COLUMN IF NOT EXISTS backup_iv TEXT;
+
+-- Resetting keys throws away the user's own wrapped channel keys so other
+-- members re-share them for the new identity key
+CREATE POLICY "Members can delete their own wrapped keys"
+ON public.channel_member_keys FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
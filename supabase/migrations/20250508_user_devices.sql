@@ -0,0 +1,97 @@
+-- Migration file: supabase/migrations/20250508_user_devices.sql
+
+-- Every browser a user has unlocked encryption on. Each device has its own
+-- ECDH key pair; the private half never leaves the device.
+CREATE TABLE IF NOT EXISTS public.user_devices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  public_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  last_seen_at TIMESTAMPTZ DEFAULT now(),
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_user_id ON public.user_devices (user_id);
+
+-- The user's identity private keys, one copy per device and key version,
+-- wrapped for the device's public key with an ephemeral ECDH key pair
+CREATE TABLE IF NOT EXISTS public.device_key_bundles (
+  device_id UUID REFERENCES public.user_devices(id) ON DELETE CASCADE,
+  key_version INTEGER NOT NULL,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  wrapped_key TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  ephemeral_public_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (device_id, key_version)
+);
+
+ALTER TABLE public.user_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.device_key_bundles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own devices"
+ON public.user_devices FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Bundles can only be written for devices that have not been revoked
+CREATE POLICY "Users can manage their own device key bundles"
+ON public.device_key_bundles FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.user_devices d
+    WHERE d.id = device_id
+    AND d.user_id = auth.uid()
+    AND d.revoked_at IS NULL
+  )
+);
+
+-- A revoked device loses its copies of the keyring straight away
+CREATE OR REPLACE FUNCTION remove_revoked_device_bundles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.revoked_at IS NOT NULL AND OLD.revoked_at IS NULL THEN
+    DELETE FROM public.device_key_bundles WHERE device_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_devices_remove_revoked_bundles ON public.user_devices;
+CREATE TRIGGER user_devices_remove_revoked_bundles
+AFTER UPDATE ON public.user_devices
+FOR EACH ROW
+EXECUTE FUNCTION remove_revoked_device_bundles();
+
+-- A revoked device may have unwrapped any channel key the user holds, so
+-- every channel the user belongs to moves to a new epoch
+CREATE OR REPLACE FUNCTION request_user_channel_rotation()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  member_server RECORD;
+  server_count INTEGER := 0;
+BEGIN
+  FOR member_server IN
+    SELECT server_id FROM public.server_members WHERE user_id = auth.uid()
+  LOOP
+    PERFORM flag_channel_keys_for_rotation(member_server.server_id);
+    server_count := server_count + 1;
+  END LOOP;
+
+  RETURN server_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION request_user_channel_rotation() TO authenticated;
@@ -0,0 +1,36 @@
+-- Migration file: supabase/migrations/20250509_message_signatures.sql
+
+-- ECDSA signature over the ciphertext, the sender and where the message was
+-- sent, made with the signing key of the sender's identity key. Verified
+-- against the signing public key in user_key_history for sender_key_version.
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS signature TEXT;
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS sender_key_version INTEGER;
+
+-- direct_messages already records sender_key_version for the pairwise key
+ALTER TABLE public.direct_messages ADD COLUMN IF NOT EXISTS signature TEXT;
+
+-- Each identity key version has its own ECDSA P-256 signing key pair, never
+-- the ECDH key itself. The public half is published next to the ECDH public
+-- key; the private half is wrapped together with the ECDH private key.
+-- Keys published before this have no signing key.
+ALTER TABLE public.user_keys ADD COLUMN IF NOT EXISTS signing_public_key TEXT;
+ALTER TABLE public.user_key_history ADD COLUMN IF NOT EXISTS signing_public_key TEXT;
+
+CREATE OR REPLACE FUNCTION record_user_key_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.key_version <= OLD.key_version
+    AND (NEW.public_key <> OLD.public_key OR NEW.signing_public_key IS DISTINCT FROM OLD.signing_public_key) THEN
+    RAISE EXCEPTION 'A new public key must use a higher key_version';
+  END IF;
+
+  INSERT INTO public.user_key_history (user_id, key_version, public_key, signing_public_key)
+  VALUES (NEW.user_id, NEW.key_version, NEW.public_key, NEW.signing_public_key)
+  ON CONFLICT (user_id, key_version) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
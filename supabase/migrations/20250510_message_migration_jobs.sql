@@ -0,0 +1,261 @@
+-- Migration file: supabase/migrations/20250510_message_migration_jobs.sql
+
+-- Server owners can re-encrypt their channels' legacy messages (plaintext, or
+-- encrypted with the server-held or hash-derived keys) under the current
+-- wrapped channel keys. The work is done by the owner's client in batches, so
+-- the job row records a cursor and lets an interrupted run pick up again.
+CREATE TABLE IF NOT EXISTS public.message_migration_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  server_id UUID NOT NULL REFERENCES public.servers(id) ON DELETE CASCADE,
+  started_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'cancelled')),
+  total_count INTEGER NOT NULL DEFAULT 0,
+  migrated_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  -- The last message processed, in (created_at, id) order
+  cursor_created_at TIMESTAMPTZ,
+  cursor_message_id UUID,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+-- At most one job per server runs at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_migration_jobs_running
+ON public.message_migration_jobs (server_id)
+WHERE status = 'running';
+
+ALTER TABLE public.message_migration_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are only written through the functions below
+CREATE POLICY "Server owners can view message migration jobs"
+ON public.message_migration_jobs FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.servers s
+    WHERE s.id = server_id
+    AND s.owner_id = auth.uid()
+  )
+);
+
+-- Messages that predate the wrapped channel keys, in channels that have encryption enabled
+CREATE OR REPLACE FUNCTION is_legacy_channel_message(m public.messages)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT m.iv = 'unencrypted'
+    OR NOT COALESCE(m.is_encrypted, false)
+    OR COALESCE(m.encryption_version, 1) < 3;
+$$;
+
+-- Let the migration rewrite messages without marking them as edited
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.preserve_updated_at', true) = 'on' THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = CURRENT_TIMESTAMP;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Start a migration for a server, or return the one that is already running
+CREATE OR REPLACE FUNCTION start_message_migration(
+  p_server_id UUID
+)
+RETURNS public.message_migration_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  job public.message_migration_jobs;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.servers
+    WHERE id = p_server_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the server owner can migrate messages';
+  END IF;
+
+  SELECT * INTO job
+  FROM public.message_migration_jobs
+  WHERE server_id = p_server_id AND status = 'running';
+
+  IF FOUND THEN
+    RETURN job;
+  END IF;
+
+  INSERT INTO public.message_migration_jobs (server_id, started_by, total_count)
+  SELECT p_server_id, auth.uid(), count(*)
+  FROM public.messages m
+  JOIN public.channels c ON c.id = m.channel_id
+  WHERE c.server_id = p_server_id
+    AND COALESCE(c.encryption_enabled, true)
+    AND is_legacy_channel_message(m)
+  RETURNING * INTO job;
+
+  RETURN job;
+END;
+$$;
+
+-- The next legacy messages after the job's cursor
+CREATE OR REPLACE FUNCTION get_message_migration_batch(
+  p_job_id UUID,
+  p_limit INTEGER
+)
+RETURNS TABLE (
+  id UUID,
+  channel_id UUID,
+  sender_id UUID,
+  encrypted_content TEXT,
+  iv TEXT,
+  is_encrypted BOOLEAN,
+  encryption_version INTEGER,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  job public.message_migration_jobs;
+BEGIN
+  SELECT j.* INTO job
+  FROM public.message_migration_jobs j
+  JOIN public.servers s ON s.id = j.server_id
+  WHERE j.id = p_job_id AND s.owner_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Migration job not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.id, m.channel_id, m.sender_id, m.encrypted_content, m.iv,
+    m.is_encrypted, m.encryption_version, m.created_at, m.updated_at
+  FROM public.messages m
+  JOIN public.channels c ON c.id = m.channel_id
+  WHERE c.server_id = job.server_id
+    AND COALESCE(c.encryption_enabled, true)
+    AND is_legacy_channel_message(m)
+    AND (
+      job.cursor_created_at IS NULL
+      OR (m.created_at, m.id) > (job.cursor_created_at, job.cursor_message_id)
+    )
+  ORDER BY m.created_at, m.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$;
+
+-- Write a batch of re-encrypted messages and move the cursor past the batch.
+-- Each row carries the updated_at it was read with, so a message edited while
+-- the batch was being encrypted is left for the sender's own edit to cover.
+CREATE OR REPLACE FUNCTION apply_message_migration_batch(
+  p_job_id UUID,
+  p_rows JSONB,
+  p_failed_count INTEGER,
+  p_last_error TEXT,
+  p_cursor_created_at TIMESTAMPTZ,
+  p_cursor_message_id UUID
+)
+RETURNS public.message_migration_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  job public.message_migration_jobs;
+  row_data JSONB;
+  migrated INTEGER := 0;
+BEGIN
+  SELECT j.* INTO job
+  FROM public.message_migration_jobs j
+  JOIN public.servers s ON s.id = j.server_id
+  WHERE j.id = p_job_id AND s.owner_id = auth.uid() AND j.status = 'running'
+  FOR UPDATE OF j;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Migration job not found or no longer running';
+  END IF;
+
+  PERFORM set_config('app.preserve_updated_at', 'on', true);
+
+  FOR row_data IN SELECT * FROM jsonb_array_elements(p_rows)
+  LOOP
+    UPDATE public.messages m
+    SET
+      encrypted_content = row_data->>'encrypted_content',
+      iv = row_data->>'iv',
+      is_encrypted = true,
+      encryption_version = 3,
+      key_epoch = (row_data->>'key_epoch')::INTEGER,
+      signature = row_data->>'signature',
+      sender_key_version = (row_data->>'sender_key_version')::INTEGER
+    FROM public.channels c
+    WHERE m.id = (row_data->>'id')::UUID
+      AND c.id = m.channel_id
+      AND c.server_id = job.server_id
+      AND m.updated_at IS NOT DISTINCT FROM (row_data->>'expected_updated_at')::TIMESTAMPTZ;
+
+    IF FOUND THEN
+      migrated := migrated + 1;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.preserve_updated_at', 'off', true);
+
+  UPDATE public.message_migration_jobs
+  SET
+    migrated_count = migrated_count + migrated,
+    failed_count = failed_count + GREATEST(p_failed_count, 0),
+    last_error = COALESCE(p_last_error, last_error),
+    cursor_created_at = COALESCE(p_cursor_created_at, cursor_created_at),
+    cursor_message_id = COALESCE(p_cursor_message_id, cursor_message_id),
+    updated_at = now()
+  WHERE id = p_job_id
+  RETURNING * INTO job;
+
+  RETURN job;
+END;
+$$;
+
+-- Mark a job as completed or cancelled
+CREATE OR REPLACE FUNCTION finish_message_migration(
+  p_job_id UUID,
+  p_status TEXT
+)
+RETURNS public.message_migration_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  job public.message_migration_jobs;
+BEGIN
+  IF p_status NOT IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Invalid migration status: %', p_status;
+  END IF;
+
+  UPDATE public.message_migration_jobs j
+  SET status = p_status, updated_at = now(), completed_at = now()
+  FROM public.servers s
+  WHERE j.id = p_job_id
+    AND s.id = j.server_id
+    AND s.owner_id = auth.uid()
+    AND j.status = 'running'
+  RETURNING j.* INTO job;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Migration job not found or no longer running';
+  END IF;
+
+  RETURN job;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_message_migration(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_message_migration_batch(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_message_migration_batch(UUID, JSONB, INTEGER, TEXT, TIMESTAMPTZ, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION finish_message_migration(UUID, TEXT) TO authenticated;
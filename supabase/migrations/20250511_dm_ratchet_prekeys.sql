@@ -0,0 +1,117 @@
+-- Migration file: supabase/migrations/20250511_dm_ratchet_prekeys.sql
+
+-- Direct messages move to Double Ratchet sessions between devices, started
+-- with an X3DH handshake. Every device publishes a signed prekey and a supply
+-- of one-time prekeys; the private halves never leave the device.
+
+-- One signed prekey per device, signed with the owner's identity key
+CREATE TABLE IF NOT EXISTS public.device_signed_prekeys (
+  device_id UUID PRIMARY KEY REFERENCES public.user_devices(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  prekey_id INTEGER NOT NULL,
+  public_key TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  -- The identity key version that made the signature
+  identity_key_version INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_signed_prekeys_user_id ON public.device_signed_prekeys (user_id);
+
+-- Single-use prekeys, handed out one at a time by claim_one_time_prekey
+CREATE TABLE IF NOT EXISTS public.device_one_time_prekeys (
+  device_id UUID REFERENCES public.user_devices(id) ON DELETE CASCADE,
+  prekey_id INTEGER NOT NULL,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  public_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (device_id, prekey_id)
+);
+
+ALTER TABLE public.device_signed_prekeys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.device_one_time_prekeys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view signed prekeys"
+ON public.device_signed_prekeys FOR SELECT
+TO authenticated
+USING (true);
+
+-- Prekeys can only be published for the user's own devices that have not been revoked
+CREATE POLICY "Users can manage their own signed prekeys"
+ON public.device_signed_prekeys FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.user_devices d
+    WHERE d.id = device_id
+    AND d.user_id = auth.uid()
+    AND d.revoked_at IS NULL
+  )
+);
+
+-- Other users never read one-time prekeys directly, so each is only handed out once
+CREATE POLICY "Users can manage their own one-time prekeys"
+ON public.device_one_time_prekeys FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.user_devices d
+    WHERE d.id = device_id
+    AND d.user_id = auth.uid()
+    AND d.revoked_at IS NULL
+  )
+);
+
+-- Take one of a device's one-time prekeys, removing it so nobody else gets it.
+-- Returns no rows once the device has run out; X3DH then goes ahead without one.
+CREATE OR REPLACE FUNCTION claim_one_time_prekey(
+  p_device_id UUID
+)
+RETURNS TABLE (
+  prekey_id INTEGER,
+  public_key TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to claim a prekey';
+  END IF;
+
+  RETURN QUERY
+  DELETE FROM public.device_one_time_prekeys otp
+  WHERE (otp.device_id, otp.prekey_id) = (
+    SELECT o.device_id, o.prekey_id
+    FROM public.device_one_time_prekeys o
+    WHERE o.device_id = p_device_id
+    ORDER BY o.prekey_id
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING otp.prekey_id, otp.public_key;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_one_time_prekey(UUID) TO authenticated;
+
+-- A revoked device also stops receiving new sessions
+CREATE OR REPLACE FUNCTION remove_revoked_device_bundles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.revoked_at IS NOT NULL AND OLD.revoked_at IS NULL THEN
+    DELETE FROM public.device_key_bundles WHERE device_id = NEW.id;
+    DELETE FROM public.device_signed_prekeys WHERE device_id = NEW.id;
+    DELETE FROM public.device_one_time_prekeys WHERE device_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
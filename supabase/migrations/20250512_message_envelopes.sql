@@ -0,0 +1,132 @@
+-- Migration file: supabase/migrations/20250512_message_envelopes.sql
+
+-- Messages are now stored as self-describing envelopes (encryption_version 5).
+-- The envelope carries its own format version, algorithm, key id, nonce,
+-- padded ciphertext and signature, so the iv, key_epoch, kdf_salt, signature
+-- and key version columns are only filled in for messages from before it.
+ALTER TABLE public.messages ALTER COLUMN iv DROP NOT NULL;
+ALTER TABLE public.direct_messages ALTER COLUMN iv DROP NOT NULL;
+
+-- A row that claims to be an envelope must look like one
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_envelope_format;
+ALTER TABLE public.messages ADD CONSTRAINT messages_envelope_format CHECK (
+  COALESCE(encryption_version, 1) < 5
+  OR (encrypted_content LIKE '{"sce":%' AND iv IS NULL)
+);
+
+ALTER TABLE public.direct_messages DROP CONSTRAINT IF EXISTS direct_messages_envelope_format;
+ALTER TABLE public.direct_messages ADD CONSTRAINT direct_messages_envelope_format CHECK (
+  COALESCE(encryption_version, 1) < 5
+  OR (encrypted_content LIKE '{"sce":%' AND iv IS NULL)
+);
+
+-- Edits can move a message to a newer format but never back to an older one
+CREATE OR REPLACE FUNCTION prevent_encryption_downgrade()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(NEW.encryption_version, 1) < COALESCE(OLD.encryption_version, 1) THEN
+    RAISE EXCEPTION 'A message cannot be rewritten with an older encryption version';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS messages_prevent_encryption_downgrade ON public.messages;
+CREATE TRIGGER messages_prevent_encryption_downgrade
+BEFORE UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION prevent_encryption_downgrade();
+
+DROP TRIGGER IF EXISTS direct_messages_prevent_encryption_downgrade ON public.direct_messages;
+CREATE TRIGGER direct_messages_prevent_encryption_downgrade
+BEFORE UPDATE ON public.direct_messages
+FOR EACH ROW
+EXECUTE FUNCTION prevent_encryption_downgrade();
+
+-- Plaintext envelopes, sent while a channel had encryption turned off, are legacy too
+CREATE OR REPLACE FUNCTION is_legacy_channel_message(m public.messages)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN COALESCE(m.encryption_version, 1) >= 5 THEN NOT COALESCE(m.is_encrypted, false)
+    ELSE m.iv = 'unencrypted'
+      OR NOT COALESCE(m.is_encrypted, false)
+      OR COALESCE(m.encryption_version, 1) < 3
+  END;
+$$;
+
+-- Migrated messages are written as envelopes. Only messages that are still
+-- legacy are rewritten, so a sender's own signed message is never replaced.
+CREATE OR REPLACE FUNCTION apply_message_migration_batch(
+  p_job_id UUID,
+  p_rows JSONB,
+  p_failed_count INTEGER,
+  p_last_error TEXT,
+  p_cursor_created_at TIMESTAMPTZ,
+  p_cursor_message_id UUID
+)
+RETURNS public.message_migration_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  job public.message_migration_jobs;
+  row_data JSONB;
+  migrated INTEGER := 0;
+BEGIN
+  SELECT j.* INTO job
+  FROM public.message_migration_jobs j
+  JOIN public.servers s ON s.id = j.server_id
+  WHERE j.id = p_job_id AND s.owner_id = auth.uid() AND j.status = 'running'
+  FOR UPDATE OF j;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Migration job not found or no longer running';
+  END IF;
+
+  PERFORM set_config('app.preserve_updated_at', 'on', true);
+
+  FOR row_data IN SELECT * FROM jsonb_array_elements(p_rows)
+  LOOP
+    UPDATE public.messages m
+    SET
+      encrypted_content = row_data->>'encrypted_content',
+      iv = NULL,
+      is_encrypted = true,
+      encryption_version = 5,
+      key_epoch = NULL,
+      signature = NULL,
+      sender_key_version = NULL
+    FROM public.channels c
+    WHERE m.id = (row_data->>'id')::UUID
+      AND c.id = m.channel_id
+      AND c.server_id = job.server_id
+      AND is_legacy_channel_message(m)
+      AND m.updated_at IS NOT DISTINCT FROM (row_data->>'expected_updated_at')::TIMESTAMPTZ;
+
+    IF FOUND THEN
+      migrated := migrated + 1;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.preserve_updated_at', 'off', true);
+
+  UPDATE public.message_migration_jobs
+  SET
+    migrated_count = migrated_count + migrated,
+    failed_count = failed_count + GREATEST(p_failed_count, 0),
+    last_error = COALESCE(p_last_error, last_error),
+    cursor_created_at = COALESCE(p_cursor_created_at, cursor_created_at),
+    cursor_message_id = COALESCE(p_cursor_message_id, cursor_message_id),
+    updated_at = now()
+  WHERE id = p_job_id
+  RETURNING * INTO job;
+
+  RETURN job;
+END;
+$$;
@@ -0,0 +1,205 @@
+-- Migration file: supabase/migrations/20250513_encryption_required.sql
+
+-- Server owners can require encryption in every channel of their server. The
+-- database then refuses plaintext messages there, so a client that fails to
+-- encrypt can never leak a message by sending it in the clear.
+ALTER TABLE public.servers ADD COLUMN IF NOT EXISTS encryption_required BOOLEAN NOT NULL DEFAULT false;
+
+-- True for envelopes that hold ciphertext rather than plaintext
+CREATE OR REPLACE FUNCTION is_encrypted_envelope(
+  p_is_encrypted BOOLEAN,
+  p_encryption_version INTEGER,
+  p_encrypted_content TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF NOT COALESCE(p_is_encrypted, false)
+    OR COALESCE(p_encryption_version, 1) < 5
+    OR p_encrypted_content NOT LIKE '{"sce":%' THEN
+    RETURN false;
+  END IF;
+
+  RETURN (p_encrypted_content::jsonb ->> 'alg') IS DISTINCT FROM 'none';
+EXCEPTION
+  WHEN invalid_text_representation THEN
+    RETURN false;
+END;
+$$;
+
+-- Channel messages in servers that require encryption must be encrypted envelopes
+CREATE OR REPLACE FUNCTION enforce_required_encryption()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.channels c
+    JOIN public.servers s ON s.id = c.server_id
+    WHERE c.id = NEW.channel_id
+    AND s.encryption_required
+  ) AND NOT is_encrypted_envelope(NEW.is_encrypted, NEW.encryption_version, NEW.encrypted_content) THEN
+    RAISE EXCEPTION 'This server requires encryption, so unencrypted messages are refused'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS messages_enforce_required_encryption ON public.messages;
+CREATE TRIGGER messages_enforce_required_encryption
+BEFORE INSERT OR UPDATE OF encrypted_content, is_encrypted, encryption_version ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION enforce_required_encryption();
+
+-- Direct messages are always encrypted; older plaintext rows are left as they are
+CREATE OR REPLACE FUNCTION enforce_direct_message_encryption()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT is_encrypted_envelope(NEW.is_encrypted, NEW.encryption_version, NEW.encrypted_content) THEN
+    RAISE EXCEPTION 'Direct messages must be encrypted'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS direct_messages_enforce_encryption ON public.direct_messages;
+CREATE TRIGGER direct_messages_enforce_encryption
+BEFORE INSERT OR UPDATE OF encrypted_content, is_encrypted, encryption_version ON public.direct_messages
+FOR EACH ROW
+EXECUTE FUNCTION enforce_direct_message_encryption();
+
+-- Channels in servers that require encryption cannot have it turned off
+CREATE OR REPLACE FUNCTION enforce_channel_encryption_required()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT COALESCE(NEW.encryption_enabled, true) AND EXISTS (
+    SELECT 1 FROM public.servers
+    WHERE id = NEW.server_id AND encryption_required
+  ) THEN
+    RAISE EXCEPTION 'This server requires encryption in every channel'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS channels_enforce_encryption_required ON public.channels;
+CREATE TRIGGER channels_enforce_encryption_required
+BEFORE INSERT OR UPDATE OF encryption_enabled ON public.channels
+FOR EACH ROW
+EXECUTE FUNCTION enforce_channel_encryption_required();
+
+-- Turn the setting on or off. Turning it on also turns encryption on in every channel.
+CREATE OR REPLACE FUNCTION set_server_encryption_required(
+  p_server_id UUID,
+  p_required BOOLEAN
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.servers
+    WHERE id = p_server_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the server owner can change the encryption requirement';
+  END IF;
+
+  IF p_required THEN
+    UPDATE public.channels
+    SET encryption_enabled = true
+    WHERE server_id = p_server_id
+    AND NOT COALESCE(encryption_enabled, true);
+  END IF;
+
+  UPDATE public.servers
+  SET encryption_required = p_required
+  WHERE id = p_server_id;
+
+  RETURN p_required;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_server_encryption_required(UUID, BOOLEAN) TO authenticated;
+
+-- The database cannot encrypt, so welcome messages are only posted where
+-- plaintext is allowed, as plaintext envelopes
+CREATE OR REPLACE FUNCTION send_welcome_message_v2()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  welcome_channel_id UUID;
+  welcome_message TEXT;
+  new_user_name TEXT;
+  new_user_display_name TEXT;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.servers
+    WHERE id = NEW.server_id AND encryption_required
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Find the welcome channel for this server
+  SELECT id INTO welcome_channel_id
+  FROM public.channels
+  WHERE server_id = NEW.server_id
+  AND name = 'welcome'
+  LIMIT 1;
+
+  -- If no welcome channel exists, create one
+  IF welcome_channel_id IS NULL THEN
+    INSERT INTO public.channels (server_id, name, description)
+    VALUES (NEW.server_id, 'welcome', 'Welcome new members')
+    RETURNING id INTO welcome_channel_id;
+  END IF;
+
+  -- Get the user's information
+  SELECT username, display_name INTO new_user_name, new_user_display_name
+  FROM public.users
+  WHERE id = NEW.user_id;
+
+  -- Construct the welcome message with system notation
+  welcome_message := '🤖 [SYSTEM] ' || COALESCE(new_user_display_name, new_user_name) || ' has joined the server! Welcome aboard! 👋';
+
+  -- Insert the welcome message using the joining user as sender
+  INSERT INTO public.messages (
+    channel_id,
+    sender_id,
+    encrypted_content,
+    iv,
+    is_encrypted,
+    encryption_version,
+    created_at
+  ) VALUES (
+    welcome_channel_id,
+    NEW.user_id,
+    '{"sce":1,"alg":"none","kid":{"kind":"none"},"pad":"none","ct":'
+      || to_json(replace(encode(convert_to(welcome_message, 'UTF8'), 'base64'), E'\n', ''))::text
+      || '}',
+    NULL,
+    false,
+    5,
+    NOW()
+  );
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,195 @@
+-- Migration file: supabase/migrations/20250514_key_transparency_log.sql
+
+-- An append-only log of every public key publication and rotation. Each
+-- user's entries form a hash chain: an entry's hash covers its keys and the
+-- hash of the user's previous entry. Clients remember the last entry they saw
+-- for each contact, so a key that is swapped and swapped back, or a history
+-- that is rewritten, no longer goes unnoticed.
+CREATE TABLE IF NOT EXISTS public.key_transparency_log (
+  seq BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  -- No foreign key: entries must outlive the user_keys row and the user
+  user_id UUID NOT NULL,
+  key_version INTEGER NOT NULL,
+  public_key TEXT NOT NULL,
+  signing_public_key TEXT,
+  prev_hash TEXT NOT NULL,
+  entry_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, key_version)
+);
+
+CREATE INDEX IF NOT EXISTS key_transparency_log_user_idx
+ON public.key_transparency_log (user_id, seq);
+
+ALTER TABLE public.key_transparency_log ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can read the log; entries are only ever written by the trigger below
+CREATE POLICY "Users can view the key transparency log"
+ON public.key_transparency_log FOR SELECT
+TO authenticated
+USING (true);
+
+-- The hash of a log entry. Clients compute the same value to check the chain.
+CREATE OR REPLACE FUNCTION key_transparency_entry_hash(
+  p_user_id UUID,
+  p_key_version INTEGER,
+  p_public_key TEXT,
+  p_signing_public_key TEXT,
+  p_prev_hash TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(
+    'securechat-key-log' || E'\n' ||
+    p_user_id::text || E'\n' ||
+    p_key_version::text || E'\n' ||
+    p_public_key || E'\n' ||
+    COALESCE(p_signing_public_key, '') || E'\n' ||
+    p_prev_hash,
+    'UTF8'
+  )), 'hex');
+$$;
+
+-- Add a key to the end of a user's chain, unless it is already the latest entry
+CREATE OR REPLACE FUNCTION append_key_transparency_entry(
+  p_user_id UUID,
+  p_key_version INTEGER,
+  p_public_key TEXT,
+  p_signing_public_key TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  last_entry public.key_transparency_log;
+  prev_hash TEXT;
+BEGIN
+  -- One writer per user at a time, so the chain never forks
+  PERFORM pg_advisory_xact_lock(hashtext('key_transparency_log:' || p_user_id::text));
+
+  SELECT * INTO last_entry
+  FROM public.key_transparency_log
+  WHERE user_id = p_user_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  IF FOUND AND last_entry.key_version = p_key_version AND last_entry.public_key = p_public_key
+    AND last_entry.signing_public_key IS NOT DISTINCT FROM p_signing_public_key THEN
+    RETURN;
+  END IF;
+
+  prev_hash := COALESCE(last_entry.entry_hash, repeat('0', 64));
+
+  INSERT INTO public.key_transparency_log (user_id, key_version, public_key, signing_public_key, prev_hash, entry_hash)
+  VALUES (
+    p_user_id,
+    p_key_version,
+    p_public_key,
+    p_signing_public_key,
+    prev_hash,
+    key_transparency_entry_hash(p_user_id, p_key_version, p_public_key, p_signing_public_key, prev_hash)
+  );
+END;
+$$;
+
+-- Only the triggers write to the log
+REVOKE EXECUTE ON FUNCTION append_key_transparency_entry(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Entries can never be changed or removed
+CREATE OR REPLACE FUNCTION prevent_key_transparency_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The key transparency log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS key_transparency_log_append_only ON public.key_transparency_log;
+CREATE TRIGGER key_transparency_log_append_only
+BEFORE UPDATE OR DELETE ON public.key_transparency_log
+FOR EACH ROW
+EXECUTE FUNCTION prevent_key_transparency_log_changes();
+
+DROP TRIGGER IF EXISTS key_transparency_log_no_truncate ON public.key_transparency_log;
+CREATE TRIGGER key_transparency_log_no_truncate
+BEFORE TRUNCATE ON public.key_transparency_log
+FOR EACH STATEMENT
+EXECUTE FUNCTION prevent_key_transparency_log_changes();
+
+-- Seed the log with every key published so far, oldest version first
+DO $$
+DECLARE
+  history RECORD;
+BEGIN
+  FOR history IN
+    SELECT user_id, key_version, public_key, signing_public_key
+    FROM public.user_key_history
+    ORDER BY user_id, key_version
+  LOOP
+    PERFORM append_key_transparency_entry(
+      history.user_id,
+      history.key_version,
+      history.public_key,
+      history.signing_public_key
+    );
+  END LOOP;
+END;
+$$;
+
+-- A published key can only be replaced by one with a higher version than any
+-- key in the log, so deleting the row or upserting over it cannot reuse a version
+CREATE OR REPLACE FUNCTION enforce_key_publication_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  last_entry public.key_transparency_log;
+BEGIN
+  SELECT * INTO last_entry
+  FROM public.key_transparency_log
+  WHERE user_id = NEW.user_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  IF FOUND
+    AND (
+      last_entry.key_version <> NEW.key_version
+      OR last_entry.public_key <> NEW.public_key
+      OR last_entry.signing_public_key IS DISTINCT FROM NEW.signing_public_key
+    )
+    AND NEW.key_version <= last_entry.key_version THEN
+    RAISE EXCEPTION 'A new public key must use a higher key_version than version %', last_entry.key_version;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_keys_enforce_publication_order ON public.user_keys;
+CREATE TRIGGER user_keys_enforce_publication_order
+BEFORE INSERT OR UPDATE OF public_key, signing_public_key, key_version ON public.user_keys
+FOR EACH ROW
+EXECUTE FUNCTION enforce_key_publication_order();
+
+-- Log every publication and rotation
+CREATE OR REPLACE FUNCTION log_user_key_publication()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM append_key_transparency_entry(NEW.user_id, NEW.key_version, NEW.public_key, NEW.signing_public_key);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_keys_log_publication ON public.user_keys;
+CREATE TRIGGER user_keys_log_publication
+AFTER INSERT OR UPDATE OF public_key, signing_public_key, key_version ON public.user_keys
+FOR EACH ROW
+EXECUTE FUNCTION log_user_key_publication();
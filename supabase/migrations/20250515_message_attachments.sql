@@ -0,0 +1,57 @@
+-- Migration file: supabase/migrations/20250515_message_attachments.sql
+
+-- Attachments are encrypted in the browser with a key of their own, which only
+-- travels inside the encrypted message body. Storage only ever holds ciphertext,
+-- under channel/<channel_id>/<file> or dm/<user_id>/<user_id>/<file>.
+-- The limit is a little over the 25 MB allowed per file, for the GCM tag.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('attachments', 'attachments', false, 26 * 1024 * 1024)
+ON CONFLICT (id) DO UPDATE
+SET public = false, file_size_limit = EXCLUDED.file_size_limit;
+
+-- Whether the current user may use a path in the attachments bucket
+CREATE OR REPLACE FUNCTION can_access_attachment_path(p_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  folders TEXT[] := storage.foldername(p_name);
+BEGIN
+  IF folders[1] = 'channel' AND array_length(folders, 1) = 2 THEN
+    RETURN EXISTS (
+      SELECT 1
+      FROM public.channels c
+      JOIN public.server_members sm ON sm.server_id = c.server_id
+      WHERE c.id::text = folders[2]
+      AND sm.user_id = auth.uid()
+    );
+  END IF;
+
+  IF folders[1] = 'dm' AND array_length(folders, 1) = 3 THEN
+    RETURN auth.uid()::text IN (folders[2], folders[3]);
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Members can read attachments" ON storage.objects;
+CREATE POLICY "Members can read attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (bucket_id = 'attachments' AND can_access_attachment_path(name));
+
+DROP POLICY IF EXISTS "Members can upload attachments" ON storage.objects;
+CREATE POLICY "Members can upload attachments"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'attachments' AND can_access_attachment_path(name));
+
+-- Uploaded files are never replaced, only removed by whoever uploaded them
+DROP POLICY IF EXISTS "Uploaders can delete their attachments" ON storage.objects;
+CREATE POLICY "Uploaders can delete their attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'attachments' AND owner_id = auth.uid()::text);
@@ -0,0 +1,110 @@
+-- Migration file: supabase/migrations/20250516_message_threads.sql
+
+-- Replies to a channel message form its thread. Threads are one level deep:
+-- a reply always points at a top-level message in the same channel. Replies
+-- are sealed like any other channel message, with the channel key.
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS parent_message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS messages_parent_message_id_idx
+ON public.messages (parent_message_id, created_at)
+WHERE parent_message_id IS NOT NULL;
+
+-- Top-level messages are listed by channel without their replies
+CREATE INDEX IF NOT EXISTS messages_channel_top_level_idx
+ON public.messages (channel_id, created_at, id)
+WHERE parent_message_id IS NULL;
+
+-- Replies must be to a top-level message in the same channel
+CREATE OR REPLACE FUNCTION enforce_thread_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF NEW.parent_message_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT channel_id, parent_message_id INTO parent
+  FROM public.messages
+  WHERE id = NEW.parent_message_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The message being replied to does not exist'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF parent.channel_id IS DISTINCT FROM NEW.channel_id THEN
+    RAISE EXCEPTION 'Thread replies must be in the same channel as the message they reply to'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF parent.parent_message_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Thread replies cannot have replies of their own'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS messages_enforce_thread_parent ON public.messages;
+CREATE TRIGGER messages_enforce_thread_parent
+BEFORE INSERT OR UPDATE OF parent_message_id, channel_id ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION enforce_thread_parent();
+
+-- How far each user has read each thread, alongside channel_read_status
+CREATE TABLE IF NOT EXISTS public.thread_read_status (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  parent_message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (user_id, parent_message_id)
+);
+
+ALTER TABLE public.thread_read_status ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own thread read status" ON public.thread_read_status;
+CREATE POLICY "Users can manage their own thread read status"
+ON public.thread_read_status
+FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Reply counts and latest replies of several threads. Runs with the caller's
+-- permissions, so only replies they can see are counted. A thread has unread
+-- replies when someone else replied after the caller last read it; threads
+-- they never opened only count if they started them.
+CREATE OR REPLACE FUNCTION get_thread_summaries(p_parent_ids UUID[])
+RETURNS TABLE (
+  parent_message_id UUID,
+  reply_count BIGINT,
+  last_reply_id UUID,
+  has_unread BOOLEAN
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    r.parent_message_id,
+    count(*) AS reply_count,
+    (array_agg(r.id ORDER BY r.created_at DESC, r.id DESC))[1] AS last_reply_id,
+    COALESCE(
+      max(r.created_at) FILTER (WHERE r.sender_id <> auth.uid()) > COALESCE(
+        trs.last_read_at,
+        CASE WHEN p.sender_id = auth.uid() THEN '-infinity'::timestamptz END
+      ),
+      false
+    ) AS has_unread
+  FROM public.messages r
+  JOIN public.messages p ON p.id = r.parent_message_id
+  LEFT JOIN public.thread_read_status trs
+    ON trs.parent_message_id = r.parent_message_id
+    AND trs.user_id = auth.uid()
+  WHERE r.parent_message_id = ANY(p_parent_ids)
+  GROUP BY r.parent_message_id, p.sender_id, trs.last_read_at;
+$$;
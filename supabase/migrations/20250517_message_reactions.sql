@@ -0,0 +1,166 @@
+-- Migration file: supabase/migrations/20250517_message_reactions.sql
+
+-- Emoji reactions to channel messages and direct messages. The emoji is sealed
+-- in an envelope like a message, padded to a fixed length and bound to the
+-- message it reacts to, so the database only sees that someone reacted.
+-- Counting them up is left to the clients, which can read them.
+CREATE TABLE IF NOT EXISTS public.message_reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  channel_id UUID NOT NULL REFERENCES public.channels(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  encrypted_reaction TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS message_reactions_message_id_idx
+ON public.message_reactions (message_id);
+
+CREATE INDEX IF NOT EXISTS message_reactions_channel_id_idx
+ON public.message_reactions (channel_id);
+
+CREATE TABLE IF NOT EXISTS public.direct_message_reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.direct_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- The other person in the conversation, who the reaction is encrypted to
+  recipient_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  encrypted_reaction TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS direct_message_reactions_message_id_idx
+ON public.direct_message_reactions (message_id);
+
+-- A channel reaction belongs to the channel of its message, whatever the client says
+CREATE OR REPLACE FUNCTION set_message_reaction_channel()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  SELECT channel_id INTO NEW.channel_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+
+  IF NEW.channel_id IS NULL THEN
+    RAISE EXCEPTION 'The message being reacted to does not exist'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS message_reactions_set_channel ON public.message_reactions;
+CREATE TRIGGER message_reactions_set_channel
+BEFORE INSERT ON public.message_reactions
+FOR EACH ROW
+EXECUTE FUNCTION set_message_reaction_channel();
+
+-- A direct message reaction must be between the two people in the conversation
+CREATE OR REPLACE FUNCTION enforce_direct_message_reaction_participants()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.direct_messages dm
+    WHERE dm.id = NEW.message_id
+    AND (
+      (dm.sender_id = NEW.user_id AND dm.receiver_id = NEW.recipient_id)
+      OR (dm.sender_id = NEW.recipient_id AND dm.receiver_id = NEW.user_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Reactions can only be added to messages in your own conversations'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS direct_message_reactions_enforce_participants ON public.direct_message_reactions;
+CREATE TRIGGER direct_message_reactions_enforce_participants
+BEFORE INSERT ON public.direct_message_reactions
+FOR EACH ROW
+EXECUTE FUNCTION enforce_direct_message_reaction_participants();
+
+-- Reactions are added and removed, never changed
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.direct_message_reactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read channel reactions" ON public.message_reactions;
+CREATE POLICY "Members can read channel reactions"
+ON public.message_reactions FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.channels c
+    JOIN public.server_members sm ON sm.server_id = c.server_id
+    WHERE c.id = message_reactions.channel_id
+    AND sm.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Members can add their own channel reactions" ON public.message_reactions;
+CREATE POLICY "Members can add their own channel reactions"
+ON public.message_reactions FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1
+    FROM public.messages m
+    JOIN public.channels c ON c.id = m.channel_id
+    JOIN public.server_members sm ON sm.server_id = c.server_id
+    WHERE m.id = message_reactions.message_id
+    AND sm.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Users can remove their own channel reactions" ON public.message_reactions;
+CREATE POLICY "Users can remove their own channel reactions"
+ON public.message_reactions FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Participants can read direct message reactions" ON public.direct_message_reactions;
+CREATE POLICY "Participants can read direct message reactions"
+ON public.direct_message_reactions FOR SELECT
+TO authenticated
+USING (auth.uid() IN (user_id, recipient_id));
+
+DROP POLICY IF EXISTS "Participants can add their own direct message reactions" ON public.direct_message_reactions;
+CREATE POLICY "Participants can add their own direct message reactions"
+ON public.direct_message_reactions FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can remove their own direct message reactions" ON public.direct_message_reactions;
+CREATE POLICY "Users can remove their own direct message reactions"
+ON public.direct_message_reactions FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Reactions are applied live as they are added and removed
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'message_reactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'direct_message_reactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.direct_message_reactions;
+  END IF;
+END;
+$$;
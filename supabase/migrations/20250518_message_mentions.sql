@@ -0,0 +1,113 @@
+-- Migration file: supabase/migrations/20250518_message_mentions.sql
+
+-- A row for each user a channel message mentions, for their mentions inbox.
+-- Who a mention reaches is worked out by the sender from the sealed message,
+-- so these rows only say that a message mentions someone, never how: the
+-- name, role or @here/@everyone stays inside the encrypted body, and the
+-- recipient checks it there before the mention is shown.
+CREATE TABLE IF NOT EXISTS public.message_mentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  channel_id UUID NOT NULL REFERENCES public.channels(id) ON DELETE CASCADE,
+  server_id UUID NOT NULL REFERENCES public.servers(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  read_at TIMESTAMPTZ,
+  UNIQUE (message_id, recipient_id)
+);
+
+CREATE INDEX IF NOT EXISTS message_mentions_unread_idx
+ON public.message_mentions (recipient_id, created_at DESC)
+WHERE read_at IS NULL;
+
+-- Mentions are only sent by the message's author, to members of its server.
+-- The channel and server are taken from the message, whatever the client says.
+CREATE OR REPLACE FUNCTION enforce_message_mention()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  message RECORD;
+BEGIN
+  SELECT m.sender_id, m.channel_id, c.server_id INTO message
+  FROM public.messages m
+  JOIN public.channels c ON c.id = m.channel_id
+  WHERE m.id = NEW.message_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The mentioning message does not exist'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF message.sender_id IS DISTINCT FROM NEW.sender_id THEN
+    RAISE EXCEPTION 'Only the author of a message can send its mentions'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.server_members
+    WHERE server_id = message.server_id
+    AND user_id = NEW.recipient_id
+  ) THEN
+    RAISE EXCEPTION 'Only members of the server can be mentioned'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.channel_id := message.channel_id;
+  NEW.server_id := message.server_id;
+  NEW.read_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS message_mentions_enforce ON public.message_mentions;
+CREATE TRIGGER message_mentions_enforce
+BEFORE INSERT ON public.message_mentions
+FOR EACH ROW
+EXECUTE FUNCTION enforce_message_mention();
+
+ALTER TABLE public.message_mentions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Recipients can read their mentions" ON public.message_mentions;
+CREATE POLICY "Recipients can read their mentions"
+ON public.message_mentions FOR SELECT
+TO authenticated
+USING (recipient_id = auth.uid());
+
+DROP POLICY IF EXISTS "Authors can send mentions" ON public.message_mentions;
+CREATE POLICY "Authors can send mentions"
+ON public.message_mentions FOR INSERT
+TO authenticated
+WITH CHECK (sender_id = auth.uid());
+
+-- Recipients mark their mentions read
+DROP POLICY IF EXISTS "Recipients can update their mentions" ON public.message_mentions;
+CREATE POLICY "Recipients can update their mentions"
+ON public.message_mentions FOR UPDATE
+TO authenticated
+USING (recipient_id = auth.uid())
+WITH CHECK (recipient_id = auth.uid());
+
+-- Only read_at can change; who was mentioned, where and by whom is fixed once sent
+REVOKE UPDATE ON public.message_mentions FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.message_mentions TO authenticated;
+
+DROP POLICY IF EXISTS "Recipients can dismiss their mentions" ON public.message_mentions;
+CREATE POLICY "Recipients can dismiss their mentions"
+ON public.message_mentions FOR DELETE
+TO authenticated
+USING (recipient_id = auth.uid());
+
+-- The unread count in the navigation bar follows new mentions live
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'message_mentions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.message_mentions;
+  END IF;
+END;
+$$;
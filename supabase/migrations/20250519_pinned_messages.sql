@@ -0,0 +1,213 @@
+-- Migration file: supabase/migrations/20250519_pinned_messages.sql
+
+-- Pinned messages in channels and direct messages. A pin only records which
+-- message was pinned, by whom and when; the message stays sealed in its
+-- envelope and is decrypted by whoever opens the pins, so pinning never puts
+-- any of its content in the database.
+CREATE TABLE IF NOT EXISTS public.pinned_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL UNIQUE REFERENCES public.messages(id) ON DELETE CASCADE,
+  channel_id UUID NOT NULL REFERENCES public.channels(id) ON DELETE CASCADE,
+  pinned_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS pinned_messages_channel_id_idx
+ON public.pinned_messages (channel_id);
+
+CREATE TABLE IF NOT EXISTS public.pinned_direct_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL UNIQUE REFERENCES public.direct_messages(id) ON DELETE CASCADE,
+  pinned_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- The other person in the conversation, who can see and remove the pin too
+  recipient_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS pinned_direct_messages_participants_idx
+ON public.pinned_direct_messages (pinned_by, recipient_id);
+
+-- A channel pin belongs to the channel of its message, whatever the client
+-- says. Only top-level messages are pinned, up to 50 in a channel.
+CREATE OR REPLACE FUNCTION set_pinned_message_channel()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  message_parent_id UUID;
+BEGIN
+  SELECT channel_id, parent_message_id INTO NEW.channel_id, message_parent_id
+  FROM public.messages
+  WHERE id = NEW.message_id;
+
+  IF NEW.channel_id IS NULL THEN
+    RAISE EXCEPTION 'The message being pinned does not exist'
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF message_parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Replies in a thread cannot be pinned'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (SELECT count(*) FROM public.pinned_messages WHERE channel_id = NEW.channel_id) >= 50 THEN
+    RAISE EXCEPTION 'A channel can have at most 50 pinned messages'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pinned_messages_set_channel ON public.pinned_messages;
+CREATE TRIGGER pinned_messages_set_channel
+BEFORE INSERT ON public.pinned_messages
+FOR EACH ROW
+EXECUTE FUNCTION set_pinned_message_channel();
+
+-- A direct message pin must be between the two people in the conversation,
+-- up to 50 in a conversation
+CREATE OR REPLACE FUNCTION enforce_pinned_direct_message_participants()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.direct_messages dm
+    WHERE dm.id = NEW.message_id
+    AND (
+      (dm.sender_id = NEW.pinned_by AND dm.receiver_id = NEW.recipient_id)
+      OR (dm.sender_id = NEW.recipient_id AND dm.receiver_id = NEW.pinned_by)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Only messages in your own conversations can be pinned'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (
+    SELECT count(*)
+    FROM public.pinned_direct_messages p
+    WHERE (p.pinned_by = NEW.pinned_by AND p.recipient_id = NEW.recipient_id)
+    OR (p.pinned_by = NEW.recipient_id AND p.recipient_id = NEW.pinned_by)
+  ) >= 50 THEN
+    RAISE EXCEPTION 'A conversation can have at most 50 pinned messages'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pinned_direct_messages_enforce_participants ON public.pinned_direct_messages;
+CREATE TRIGGER pinned_direct_messages_enforce_participants
+BEFORE INSERT ON public.pinned_direct_messages
+FOR EACH ROW
+EXECUTE FUNCTION enforce_pinned_direct_message_participants();
+
+-- Pins are added and removed, never changed
+ALTER TABLE public.pinned_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pinned_direct_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read channel pins" ON public.pinned_messages;
+CREATE POLICY "Members can read channel pins"
+ON public.pinned_messages FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.channels c
+    JOIN public.server_members sm ON sm.server_id = c.server_id
+    WHERE c.id = pinned_messages.channel_id
+    AND sm.user_id = auth.uid()
+  )
+);
+
+-- Owners and admins moderate a server's channels
+DROP POLICY IF EXISTS "Moderators can pin channel messages" ON public.pinned_messages;
+CREATE POLICY "Moderators can pin channel messages"
+ON public.pinned_messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  pinned_by = auth.uid()
+  AND EXISTS (
+    SELECT 1
+    FROM public.messages m
+    JOIN public.channels c ON c.id = m.channel_id
+    JOIN public.servers s ON s.id = c.server_id
+    WHERE m.id = pinned_messages.message_id
+    AND (
+      s.owner_id = auth.uid()
+      OR EXISTS (
+        SELECT 1
+        FROM public.server_members sm
+        WHERE sm.server_id = c.server_id
+        AND sm.user_id = auth.uid()
+        AND sm.role IN ('owner', 'admin')
+      )
+    )
+  )
+);
+
+DROP POLICY IF EXISTS "Moderators can unpin channel messages" ON public.pinned_messages;
+CREATE POLICY "Moderators can unpin channel messages"
+ON public.pinned_messages FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.channels c
+    JOIN public.servers s ON s.id = c.server_id
+    WHERE c.id = pinned_messages.channel_id
+    AND (
+      s.owner_id = auth.uid()
+      OR EXISTS (
+        SELECT 1
+        FROM public.server_members sm
+        WHERE sm.server_id = c.server_id
+        AND sm.user_id = auth.uid()
+        AND sm.role IN ('owner', 'admin')
+      )
+    )
+  )
+);
+
+DROP POLICY IF EXISTS "Participants can read direct message pins" ON public.pinned_direct_messages;
+CREATE POLICY "Participants can read direct message pins"
+ON public.pinned_direct_messages FOR SELECT
+TO authenticated
+USING (auth.uid() IN (pinned_by, recipient_id));
+
+DROP POLICY IF EXISTS "Participants can pin direct messages" ON public.pinned_direct_messages;
+CREATE POLICY "Participants can pin direct messages"
+ON public.pinned_direct_messages FOR INSERT
+TO authenticated
+WITH CHECK (pinned_by = auth.uid());
+
+-- Either person can unpin, whoever pinned the message
+DROP POLICY IF EXISTS "Participants can unpin direct messages" ON public.pinned_direct_messages;
+CREATE POLICY "Participants can unpin direct messages"
+ON public.pinned_direct_messages FOR DELETE
+TO authenticated
+USING (auth.uid() IN (pinned_by, recipient_id));
+
+-- Pins are shown live as they are added and removed
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'pinned_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.pinned_messages;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'pinned_direct_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.pinned_direct_messages;
+  END IF;
+END;
+$$;
@@ -0,0 +1,71 @@
+-- Migration file: supabase/migrations/20250520_signed_channel_member_keys.sql
+
+-- Every wrapped copy of a channel key is signed by the member who wrapped it,
+-- with the signing key of their identity key. Recipients check the signature
+-- before unwrapping, so neither the server nor another member can hand them a
+-- key they control in someone else's name.
+ALTER TABLE public.channel_member_keys ADD COLUMN IF NOT EXISTS signature TEXT;
+ALTER TABLE public.channel_member_keys ADD COLUMN IF NOT EXISTS signer_key_version INTEGER;
+
+-- Copies shared before this are left as they are but can no longer be used.
+-- Clients treat an epoch without signed copies as abandoned and rotate past it.
+ALTER TABLE public.channel_member_keys DROP CONSTRAINT IF EXISTS channel_member_keys_signed;
+ALTER TABLE public.channel_member_keys ADD CONSTRAINT channel_member_keys_signed
+CHECK (signature IS NOT NULL AND signer_key_version IS NOT NULL) NOT VALID;
+
+-- Create a channel's key together with the first wrapped copies, so a channel
+-- never has a key that nobody holds. Runs with the caller's rights, so the
+-- policies on channel_keys and channel_member_keys still apply. If another
+-- member created the key first, this fails with a unique violation and stores
+-- nothing.
+CREATE OR REPLACE FUNCTION create_channel_key(
+  p_channel_id UUID,
+  p_member_keys JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF jsonb_array_length(p_member_keys) = 0 THEN
+    RAISE EXCEPTION 'A channel key must be shared with at least one member';
+  END IF;
+
+  INSERT INTO public.channel_keys (channel_id, created_by)
+  VALUES (p_channel_id, auth.uid());
+
+  INSERT INTO public.channel_member_keys (
+    channel_id,
+    user_id,
+    epoch,
+    wrapped_key,
+    iv,
+    ephemeral_public_key,
+    key_version,
+    wrapped_by,
+    signature,
+    signer_key_version
+  )
+  SELECT
+    p_channel_id,
+    k.user_id,
+    1,
+    k.wrapped_key,
+    k.iv,
+    k.ephemeral_public_key,
+    k.key_version,
+    auth.uid(),
+    k.signature,
+    k.signer_key_version
+  FROM jsonb_to_recordset(p_member_keys) AS k(
+    user_id UUID,
+    wrapped_key TEXT,
+    iv TEXT,
+    ephemeral_public_key TEXT,
+    key_version INTEGER,
+    signature TEXT,
+    signer_key_version INTEGER
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_channel_key(UUID, JSONB) TO authenticated;